@@ -5,8 +5,27 @@ import { Toaster as Sonner } from "@/components/ui/sonner";  // Alternative toas
 import { TooltipProvider } from "@/components/ui/tooltip";  // Provides tooltip functionality to child components
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";  // Manages API calls and data caching
 import { BrowserRouter, Routes, Route } from "react-router-dom";  // Handles navigation between pages
-import Index from "./pages/Index";  // The main page component
+import Index from "./pages/Index";  // Shared layout (navigation bar + current page)
 import NotFound from "./pages/NotFound";  // Page shown when user visits invalid URLs
+import { RequireAuth } from "@/components/RouteGuard";  // Auth/role guard for nested routes
+import { ChatRealtimeProvider } from "@/components/ChatRealtimeProvider";  // Shared realtime feed for chat
+import { HomePage } from "@/components/HomePage";  // Landing page with hero section
+import { PostJobPage } from "@/components/PostJobPage";  // Form to create new jobs
+import { EditJobPage } from "@/components/EditJobPage";  // Same form, for editing an existing job
+import { BrowseJobsPage } from "@/components/BrowseJobsPage";  // List of available jobs
+import { ProfessionalsPage } from "@/components/ProfessionalsPage";  // List of professionals
+import ProfessionalProfilePage from "@/components/ProfessionalProfilePage";  // Single professional's profile
+import SubmitBidPage from "@/components/SubmitBidPage";  // Form to submit bids
+import JobDetailsPage from "@/components/JobDetailsPage";  // Job details and bids view
+import AuthPage from "@/components/AuthPage";  // Authentication page
+import MyJobsPage from "@/components/MyJobsPage";  // Job poster's job management page
+import AssignedJobsPage from "@/components/AssignedJobsPage";  // Professional's assigned jobs page
+import ProfessionalOnboardingPage from "@/components/ProfessionalOnboardingPage";  // New professional profile wizard
+import EditProfessionalProfilePage from "@/components/EditProfessionalProfilePage";  // Edit own professional profile
+import DisputesPage from "@/components/DisputesPage";  // Admin queue of job disputes
+import MessagesPage from "@/components/MessagesPage";  // Inbox of every conversation
+import ModerationPage from "@/components/ModerationPage";  // Admin queue of reported messages
+import { ROUTES } from "@/lib/routes";  // Every URL the app understands
 
 // CREATE QUERY CLIENT - This manages all our API calls and caches data
 // It stores data from Supabase so we don't have to refetch it constantly
@@ -23,20 +42,60 @@ const App = () => (
       {/* TOAST COMPONENTS - These show popup notifications to users */}
       <Toaster />  {/* Main toast system */}
       <Sonner />   {/* Backup toast system */}
-      
-      {/* BROWSER ROUTER - Enables navigation between different pages */}
-      <BrowserRouter>
-        {/* ROUTES - Define which component shows for each URL */}
-        <Routes>
-          {/* HOME ROUTE - Shows Index component when user visits "/" */}
-          <Route path="/" element={<Index />} />
-          
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+
+      {/* CHAT REALTIME PROVIDER - One subscription to new messages for the whole app */}
+      <ChatRealtimeProvider>
+        {/* BROWSER ROUTER - Enables navigation between different pages */}
+        <BrowserRouter>
+          {/* ROUTES - Define which component shows for each URL */}
+          <Routes>
+            {/* LAYOUT ROUTE - Index renders the navigation bar around every page */}
+            <Route element={<Index />}>
+              <Route path={ROUTES.auth} element={<AuthPage />} />
+
+              {/* SIGNED-IN ROUTES - Any authenticated user */}
+              <Route element={<RequireAuth />}>
+                <Route path={ROUTES.home} element={<HomePage />} />
+                <Route path={ROUTES.browseJobs} element={<BrowseJobsPage />} />
+                <Route path={ROUTES.jobDetails} element={<JobDetailsPage />} />
+                <Route path={ROUTES.professionals} element={<ProfessionalsPage />} />
+                <Route path={ROUTES.professionalProfile} element={<ProfessionalProfilePage />} />
+                <Route path={ROUTES.messages} element={<MessagesPage />} />
+              </Route>
+
+              {/* PERMISSION-GATED ROUTES - see ROLE_PERMISSIONS in @/lib/permissions */}
+              <Route element={<RequireAuth permission="job:create" />}>
+                <Route path={ROUTES.postJob} element={<PostJobPage />} />
+              </Route>
+              <Route element={<RequireAuth permission="job:manage" />}>
+                <Route path={ROUTES.myJobs} element={<MyJobsPage />} />
+                <Route path={ROUTES.editJob} element={<EditJobPage />} />
+              </Route>
+              <Route element={<RequireAuth permission="bid:create" />}>
+                <Route path={ROUTES.submitBid} element={<SubmitBidPage />} />
+              </Route>
+              <Route element={<RequireAuth permission="assignment:view" />}>
+                <Route path={ROUTES.assignments} element={<AssignedJobsPage />} />
+              </Route>
+              <Route element={<RequireAuth permission="profile:manage" />}>
+                <Route path={ROUTES.onboarding} element={<ProfessionalOnboardingPage />} />
+                <Route path={ROUTES.editProfile} element={<EditProfessionalProfilePage />} />
+              </Route>
+              <Route element={<RequireAuth permission="dispute:resolve" />}>
+                <Route path={ROUTES.disputes} element={<DisputesPage />} />
+              </Route>
+              <Route element={<RequireAuth permission="message:moderate" />}>
+                <Route path={ROUTES.moderation} element={<ModerationPage />} />
+              </Route>
+            </Route>
+
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           
-          {/* CATCH-ALL ROUTE - Shows NotFound for any URL that doesn't match above */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
+            {/* CATCH-ALL ROUTE - Shows NotFound for any URL that doesn't match above */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </ChatRealtimeProvider>
     </TooltipProvider>
   </QueryClientProvider>
 );
@@ -6,25 +6,31 @@
 
 // REACT IMPORTS
 import React, { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
 
 // ICON IMPORTS - Various icons for different sections
-import { Calendar, MapPin, DollarSign, Eye, MessageCircle, CheckCircle } from "lucide-react";
+import { Calendar, MapPin, DollarSign, Eye, MessageCircle, CheckCircle, Send } from "lucide-react";
 
 // UI COMPONENT IMPORTS
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { JobStatusBadge, PaymentStateBadge } from '@/components/StatusBadge';
+import { MilestoneTracker } from '@/components/MilestoneTracker';
+import { JobInvoicePanel } from '@/components/JobInvoicePanel';
+import { JobDisputePanel } from '@/components/JobDisputePanel';
 import { useAuth } from '@/hooks/useAuth';
+import { useReceivedInvitations } from '@/hooks/useInvitations';
+import { useJobPaymentBalances } from '@/hooks/usePayments';
+import type { BidStatus, JobStatus } from '@/lib/status';
+import { ROUTES, paths } from '@/lib/routes';
+import { formatMoney } from '@/lib/budget';
+import { paymentState } from '@/lib/payments';
 import { useToast } from '@/hooks/use-toast';
 
 // SUPABASE CLIENT - For fetching assigned jobs data
 import { supabase } from "@/integrations/supabase/client";
 
-// COMPONENT PROPS INTERFACE
-interface AssignedJobsPageProps {
-  onViewChange: (view: string, data?: any) => void;
-}
-
 // ASSIGNED JOB DATA INTERFACE
 interface AssignedJob {
   job_id: string;
@@ -32,23 +38,29 @@ interface AssignedJob {
   job_description: string;
   job_location: string;
   job_category: string;
-  job_status: string;
+  job_status: JobStatus;
   homeowner_name: string;
   homeowner_verified: boolean;
   created_at: string;
   bid_amount: number;
-  bid_status: string;
+  bid_status: BidStatus;
   job_poster_id: string;
 }
 
 // MAIN COMPONENT FUNCTION
-const AssignedJobsPage: React.FC<AssignedJobsPageProps> = ({ onViewChange }) => {
+const AssignedJobsPage: React.FC = () => {
+  const navigate = useNavigate();
   const { user, isProfessional } = useAuth();
   const { toast } = useToast();
   
   // STATE VARIABLES
   const [assignedJobs, setAssignedJobs] = useState<AssignedJob[]>([]);
   const [loading, setLoading] = useState(true);
+  const { data: invitations = [] } = useReceivedInvitations(user?.id);
+  // Only invitations to jobs that are still taking bids are actionable
+  const openInvitations = invitations.filter(invitation => invitation.jobs?.status === 'open');
+  // Escrow state of each job: funded, released or refunded
+  const { data: paymentBalances = {} } = useJobPaymentBalances(assignedJobs.map(job => job.job_id));
 
   // EFFECT HOOK - Runs when component mounts
   useEffect(() => {
@@ -128,25 +140,6 @@ const AssignedJobsPage: React.FC<AssignedJobsPageProps> = ({ onViewChange }) =>
     });
   };
 
-  // FORMAT CURRENCY FUNCTION
-  const formatCurrency = (amount: number) => {
-    return `$${(amount / 100).toLocaleString()}`;
-  };
-
-  // GET STATUS COLOR FUNCTION
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'in-progress':
-        return 'default';
-      case 'completed':
-        return 'secondary';
-      case 'open':
-        return 'outline';
-      default:
-        return 'secondary';
-    }
-  };
-
   // Redirect if not a professional
   if (!isProfessional) {
     return (
@@ -155,7 +148,7 @@ const AssignedJobsPage: React.FC<AssignedJobsPageProps> = ({ onViewChange }) =>
           <p className="text-lg text-muted-foreground mb-4">
             This page is only available for professionals
           </p>
-          <Button onClick={() => onViewChange('home')}>
+          <Button onClick={() => navigate(ROUTES.home)}>
             Return Home
           </Button>
         </div>
@@ -201,7 +194,7 @@ const AssignedJobsPage: React.FC<AssignedJobsPageProps> = ({ onViewChange }) =>
                     <DollarSign className="h-8 w-8 text-green-500" />
                     <div>
                       <p className="text-2xl font-bold">
-                        {formatCurrency(assignedJobs.reduce((sum, job) => sum + job.bid_amount, 0))}
+                        {formatMoney(assignedJobs.reduce((sum, job) => sum + job.bid_amount, 0))}
                       </p>
                       <p className="text-sm text-muted-foreground">Total Value</p>
                     </div>
@@ -215,7 +208,7 @@ const AssignedJobsPage: React.FC<AssignedJobsPageProps> = ({ onViewChange }) =>
                     <Calendar className="h-8 w-8 text-blue-500" />
                     <div>
                       <p className="text-2xl font-bold">
-                        {assignedJobs.filter(job => job.job_status === 'in-progress').length}
+                        {assignedJobs.filter(job => job.job_status === 'in_progress').length}
                       </p>
                       <p className="text-sm text-muted-foreground">In Progress</p>
                     </div>
@@ -224,6 +217,41 @@ const AssignedJobsPage: React.FC<AssignedJobsPageProps> = ({ onViewChange }) =>
               </Card>
             </div>
 
+            {/* INVITATIONS - Job posters who asked this professional to bid */}
+            {openInvitations.length > 0 && (
+              <Card className="mb-8">
+                <CardHeader>
+                  <CardTitle className="flex items-center text-lg">
+                    <Send className="h-5 w-5 mr-2" />
+                    Invitations to Bid ({openInvitations.length})
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {openInvitations.map((invitation) => (
+                    <div key={invitation.id} className="flex items-center justify-between p-3 border rounded-lg">
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">{invitation.jobs!.title}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {invitation.jobs!.homeowner_name} · {invitation.jobs!.location} · {formatDate(invitation.created_at)}
+                        </p>
+                        {invitation.message && (
+                          <p className="text-sm text-muted-foreground mt-1 line-clamp-2">"{invitation.message}"</p>
+                        )}
+                      </div>
+                      <div className="flex gap-2 ml-4">
+                        <Button variant="outline" size="sm" onClick={() => navigate(paths.jobDetails(invitation.job_id))}>
+                          View Job
+                        </Button>
+                        <Button size="sm" onClick={() => navigate(paths.submitBid(invitation.job_id))}>
+                          Submit Bid
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
             {/* JOBS LIST */}
             {assignedJobs.length === 0 ? (
               <Card>
@@ -233,7 +261,7 @@ const AssignedJobsPage: React.FC<AssignedJobsPageProps> = ({ onViewChange }) =>
                   <p className="text-muted-foreground mb-6">
                     When homeowners accept your bids, they'll appear here
                   </p>
-                  <Button onClick={() => onViewChange('browse-jobs')}>
+                  <Button onClick={() => navigate(ROUTES.browseJobs)}>
                     Browse Available Jobs
                   </Button>
                 </CardContent>
@@ -260,14 +288,13 @@ const AssignedJobsPage: React.FC<AssignedJobsPageProps> = ({ onViewChange }) =>
                           </div>
                         </div>
                         <div className="flex items-center gap-3 mt-4 sm:mt-0">
-                          <Badge variant={getStatusColor(job.job_status)}>
-                            {job.job_status}
-                          </Badge>
+                          <JobStatusBadge status={job.job_status} />
                           <div className="text-right">
                             <p className="text-lg font-bold text-green-600">
-                              {formatCurrency(job.bid_amount)}
+                              {formatMoney(job.bid_amount)}
                             </p>
                             <p className="text-xs text-muted-foreground">Your bid</p>
+                            <PaymentStateBadge state={paymentState(paymentBalances[job.job_id])} className="mt-1" />
                           </div>
                         </div>
                       </div>
@@ -299,10 +326,24 @@ const AssignedJobsPage: React.FC<AssignedJobsPageProps> = ({ onViewChange }) =>
                           </div>
                         </div>
 
+                        {/* Milestones - Progress bar, plan and "mark done" for each step */}
+                        <MilestoneTracker
+                          jobId={job.job_id}
+                          jobStatus={job.job_status}
+                          bidAmount={job.bid_amount}
+                          viewerRole="professional"
+                        />
+
+                        {/* Invoice - Generate, set tax and download as PDF */}
+                        <JobInvoicePanel jobId={job.job_id} jobStatus={job.job_status} viewerRole="professional" />
+
+                        {/* Dispute - Escalate a disagreement to an admin */}
+                        <JobDisputePanel jobId={job.job_id} jobStatus={job.job_status} />
+
                         {/* Action Buttons */}
                         <div className="flex flex-col sm:flex-row gap-3 pt-4">
                           <Button 
-                            onClick={() => onViewChange('job-details', { jobId: job.job_id })}
+                            onClick={() => navigate(paths.jobDetails(job.job_id))}
                             className="flex-1"
                           >
                             <Eye className="h-4 w-4 mr-2" />
@@ -311,7 +352,7 @@ const AssignedJobsPage: React.FC<AssignedJobsPageProps> = ({ onViewChange }) =>
                           
                           <Button 
                             variant="outline"
-                            onClick={() => onViewChange('job-details', { jobId: job.job_id })}
+                            onClick={() => navigate(paths.jobDetails(job.job_id))}
                             className="flex-1"
                           >
                             <MessageCircle className="h-4 w-4 mr-2" />
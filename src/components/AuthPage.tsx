@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { useLocation, useNavigate, type Location } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -7,10 +8,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { useAuth } from '@/hooks/useAuth';
 import { Loader2, ArrowLeft } from 'lucide-react';
-
-interface AuthPageProps {
-  onViewChange: (view: string) => void;
-}
+import { ROUTES } from '@/lib/routes';
 
 /**
  * AuthPage Component - Handles user authentication (sign up and sign in)
@@ -18,10 +16,12 @@ interface AuthPageProps {
  * Features:
  * - Dual role registration (job posters vs professionals)
  * - Form validation and error handling
- * - Automatic redirect for authenticated users
+ * - Automatic redirect for authenticated users (back to the page that required sign-in)
  * - Email/password authentication via Supabase
  */
-const AuthPage: React.FC<AuthPageProps> = ({ onViewChange }) => {
+const AuthPage: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
   const { signUp, signIn, loading, isAuthenticated } = useAuth();
   
   // Form state management
@@ -41,12 +41,13 @@ const AuthPage: React.FC<AuthPageProps> = ({ onViewChange }) => {
 
   const [errors, setErrors] = useState<{[key: string]: string}>({});
 
-  // Redirect authenticated users to home
+  // Redirect authenticated users to the page they came from (set by RequireAuth), or home
   useEffect(() => {
     if (isAuthenticated) {
-      onViewChange('home');
+      const from = (location.state as { from?: Location } | null)?.from;
+      navigate(from ? `${from.pathname}${from.search}` : ROUTES.home, { replace: true });
     }
-  }, [isAuthenticated, onViewChange]);
+  }, [isAuthenticated, location.state, navigate]);
 
   /**
    * Validates sign up form data
@@ -166,7 +167,7 @@ const AuthPage: React.FC<AuthPageProps> = ({ onViewChange }) => {
         {/* Back to Home Button */}
         <Button
           variant="ghost"
-          onClick={() => onViewChange('home')}
+          onClick={() => navigate(ROUTES.home)}
           className="mb-6 p-2"
         >
           <ArrowLeft className="w-4 h-4 mr-2" />
@@ -0,0 +1,79 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  ACCOUNT_NUMBER_LABELS,
+  BANK_ACCOUNT_FORMATS,
+  BANK_ACCOUNT_FORMAT_LABELS,
+  ROUTING_CODE_LABELS,
+  ROUTING_CODE_PLACEHOLDERS,
+  type BankAccountFormat,
+  type BankAccountValues,
+} from '@/lib/bankAccount';
+
+interface BankAccountFieldsProps {
+  values: BankAccountValues;
+  onChange: (changes: Partial<BankAccountValues>) => void;
+}
+
+/**
+ * BankAccountFields Component - Where the professional wants to be paid
+ *
+ * Check with validateBankAccount from @/lib/bankAccount before saving.
+ */
+export const BankAccountFields = ({ values, onChange }: BankAccountFieldsProps) => {
+  const routingLabel = ROUTING_CODE_LABELS[values.format];
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label>Bank Account Type *</Label>
+        <Select
+          value={values.format}
+          onValueChange={(format: BankAccountFormat) => onChange({ format, routingCode: '' })}
+        >
+          <SelectTrigger className="mt-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {BANK_ACCOUNT_FORMATS.map((format) => (
+              <SelectItem key={format} value={format}>
+                {BANK_ACCOUNT_FORMAT_LABELS[format]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className={routingLabel ? 'grid grid-cols-1 md:grid-cols-2 gap-4' : undefined}>
+        {routingLabel && (
+          <div>
+            <Label htmlFor="routing_code">{routingLabel} *</Label>
+            <Input
+              id="routing_code"
+              value={values.routingCode}
+              onChange={(e) => onChange({ routingCode: e.target.value })}
+              placeholder={ROUTING_CODE_PLACEHOLDERS[values.format]}
+              autoComplete="off"
+              required
+            />
+          </div>
+        )}
+        <div>
+          <Label htmlFor="account_number">{ACCOUNT_NUMBER_LABELS[values.format]} *</Label>
+          <Input
+            id="account_number"
+            value={values.accountNumber}
+            onChange={(e) => onChange({ accountNumber: e.target.value })}
+            autoComplete="off"
+            required
+          />
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Stored encrypted. Only the last four digits are shown after you save.
+      </p>
+    </div>
+  );
+};
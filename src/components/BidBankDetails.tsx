@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Eye, EyeOff, Landmark } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { BankAccountFields } from '@/components/BankAccountFields';
+import { useBidPaymentDetails, useRevealAccountNumber, useSaveBankDetails } from '@/hooks/useBankDetails';
+import {
+  BANK_ACCOUNT_FORMAT_LABELS,
+  EMPTY_BANK_ACCOUNT,
+  formatRoutingCode,
+  maskAccountNumber,
+  validateBankAccount,
+  type BankAccountValues,
+} from '@/lib/bankAccount';
+
+interface BidBankDetailsProps {
+  bidId: string;
+}
+
+/**
+ * BidBankDetails Component - The bidder's own payout account for a bid
+ *
+ * Shows the masked account number; revealing the full number is logged, and the
+ * latest reveal is listed so the bidder can spot access they don't recognise.
+ */
+export const BidBankDetails = ({ bidId }: BidBankDetailsProps) => {
+  const { data: details, isLoading } = useBidPaymentDetails(bidId);
+  const revealAccountNumber = useRevealAccountNumber();
+  const saveBankDetails = useSaveBankDetails();
+  const [revealed, setRevealed] = useState<string | null>(null);
+  const [editing, setEditing] = useState<BankAccountValues | null>(null);
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  if (isLoading) return null;
+
+  const lastReveal = details?.bank_detail_reveals[0];
+
+  const reveal = () => {
+    revealAccountNumber.mutate(bidId, { onSuccess: (accountNumber) => setRevealed(accountNumber) });
+  };
+
+  const save = () => {
+    if (!editing) return;
+    const problem = validateBankAccount(editing.format, editing.routingCode, editing.accountNumber);
+    setValidationError(problem);
+    if (problem) return;
+
+    saveBankDetails.mutate(
+      { bidId, ...editing },
+      {
+        onSuccess: () => {
+          setEditing(null);
+          setRevealed(null);
+        },
+      }
+    );
+  };
+
+  if (editing) {
+    return (
+      <div className="mt-3 pt-3 border-t space-y-3">
+        <BankAccountFields values={editing} onChange={(changes) => setEditing({ ...editing, ...changes })} />
+        {validationError && <p className="text-sm text-destructive">{validationError}</p>}
+        <div className="flex gap-2">
+          <Button size="sm" onClick={save} disabled={saveBankDetails.isPending}>
+            {saveBankDetails.isPending ? 'Saving...' : 'Save Bank Details'}
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setEditing(null)}>
+            Cancel
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-3 pt-3 border-t text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Landmark className="h-4 w-4 text-muted-foreground" />
+          {details ? (
+            <span>
+              {details.account_format && `${BANK_ACCOUNT_FORMAT_LABELS[details.account_format]} · `}
+              {details.routing_code && `${formatRoutingCode(details.account_format, details.routing_code)} · `}
+              <span className="font-mono">{revealed ?? maskAccountNumber(details.account_last4)}</span>
+            </span>
+          ) : (
+            <span className="text-muted-foreground">No bank details saved for this bid</span>
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          {details && (revealed ? (
+            <Button size="sm" variant="ghost" onClick={() => setRevealed(null)}>
+              <EyeOff className="h-4 w-4 mr-1" />
+              Hide
+            </Button>
+          ) : (
+            <Button size="sm" variant="ghost" onClick={reveal} disabled={revealAccountNumber.isPending}>
+              <Eye className="h-4 w-4 mr-1" />
+              Reveal
+            </Button>
+          ))}
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => {
+              setValidationError(null);
+              setEditing({ ...EMPTY_BANK_ACCOUNT, format: details?.account_format ?? EMPTY_BANK_ACCOUNT.format });
+            }}
+          >
+            {details ? 'Change' : 'Add Bank Details'}
+          </Button>
+        </div>
+      </div>
+
+      {lastReveal && (
+        <p className="text-xs text-muted-foreground mt-1">
+          Last viewed {format(new Date(lastReveal.revealed_at), 'PPp')}
+          {lastReveal.revealed_as === 'service_role' && ' by the payments system'}
+          {lastReveal.reason && ` (${lastReveal.reason})`}
+        </p>
+      )}
+    </div>
+  );
+};
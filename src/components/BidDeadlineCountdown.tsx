@@ -0,0 +1,43 @@
+import { useEffect, useState } from 'react';
+import { Timer } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatBidCountdown } from '@/lib/jobSchedule';
+
+interface BidDeadlineCountdownProps {
+  bidDeadline: string;
+  className?: string;
+}
+
+// The countdown is shown in minutes, so there's no point re-rendering more often
+const TICK_MS = 30_000;
+
+/**
+ * BidDeadlineCountdown Component - Time left to bid, e.g. "Closes in 2d 4h"
+ *
+ * Turns urgent in the last 24 hours and reads "Bidding closed" once the deadline passes.
+ */
+export const BidDeadlineCountdown = ({ bidDeadline, className }: BidDeadlineCountdownProps) => {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const msLeft = new Date(bidDeadline).getTime() - now.getTime();
+  const isUrgent = msLeft > 0 && msLeft < 24 * 60 * 60 * 1000;
+
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center',
+        isUrgent && 'text-destructive font-medium',
+        className
+      )}
+      title={new Date(bidDeadline).toLocaleString()}
+    >
+      <Timer className="h-4 w-4 mr-1" />
+      {formatBidCountdown(bidDeadline, now)}
+    </span>
+  );
+};
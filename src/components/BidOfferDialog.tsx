@@ -0,0 +1,163 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useCounterBid, useReviseBid } from '@/hooks/useBids';
+import { dollarsToCents, formatMoney } from '@/lib/budget';
+
+interface BidOfferDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  mode: 'revise' | 'counter';         // Professional revising their bid, or job owner countering it
+  bid: {
+    id: string;
+    amount: number;
+    hourly_rate?: number | null;
+    estimated_hours?: number | null;
+  };
+  onSuccess?: () => void;
+}
+
+const centsToDollars = (cents?: number | null) => (cents ? String(cents / 100) : '');
+
+/**
+ * BidOfferDialog Component - Propose new terms for a pending bid
+ *
+ * Hourly bids are edited as rate and hours; other bids as a total amount.
+ */
+export const BidOfferDialog = ({ open, onOpenChange, mode, bid, onSuccess }: BidOfferDialogProps) => {
+  const isHourly = !!bid.hourly_rate && !!bid.estimated_hours;
+  const [amount, setAmount] = useState('');
+  const [hourlyRate, setHourlyRate] = useState('');
+  const [estimatedHours, setEstimatedHours] = useState('');
+  const [message, setMessage] = useState('');
+  const reviseBid = useReviseBid();
+  const counterBid = useCounterBid();
+  const mutation = mode === 'revise' ? reviseBid : counterBid;
+
+  // Start from the bid's current terms each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setAmount(centsToDollars(bid.amount));
+      setHourlyRate(centsToDollars(bid.hourly_rate));
+      setEstimatedHours(bid.estimated_hours ? String(bid.estimated_hours) : '');
+      setMessage('');
+    }
+  }, [open, bid.amount, bid.hourly_rate, bid.estimated_hours]);
+
+  const rateCents = dollarsToCents(hourlyRate);
+  const hours = Number(estimatedHours);
+  const total = isHourly ? rateCents * hours : dollarsToCents(amount);
+  const isValid = isHourly
+    ? rateCents > 0 && Number.isInteger(hours) && hours > 0
+    : total > 0;
+
+  const handleSubmit = () => {
+    mutation.mutate(
+      {
+        bidId: bid.id,
+        amount: total,
+        hourlyRate: isHourly ? rateCents : null,
+        estimatedHours: isHourly ? hours : null,
+        message: message.trim() || undefined,
+      },
+      {
+        onSuccess: () => {
+          onOpenChange(false);
+          onSuccess?.();
+        }
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{mode === 'revise' ? 'Revise Your Bid' : 'Send a Counter-Offer'}</DialogTitle>
+          <DialogDescription>
+            {mode === 'revise'
+              ? 'Update your offer while the job owner is still deciding. Your earlier offers stay in the bid history.'
+              : 'Propose different terms. The professional can revise their bid to accept them.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {isHourly ? (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="offer-rate">Hourly Rate ($)</Label>
+                <Input
+                  id="offer-rate"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={hourlyRate}
+                  onChange={(e) => setHourlyRate(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="offer-hours">Estimated Hours</Label>
+                <Input
+                  id="offer-hours"
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={estimatedHours}
+                  onChange={(e) => setEstimatedHours(e.target.value)}
+                />
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="offer-amount">Amount ($)</Label>
+              <Input
+                id="offer-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+          )}
+
+          {isValid && (
+            <p className="text-sm text-muted-foreground">
+              Total: {formatMoney(total)}
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="offer-message">Message (optional)</Label>
+            <Textarea
+              id="offer-message"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              placeholder={mode === 'revise' ? 'Explain what changed' : 'Explain what you are looking for'}
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!isValid || mutation.isPending}>
+            {mutation.isPending ? 'Sending...' : mode === 'revise' ? 'Update Bid' : 'Send Counter-Offer'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
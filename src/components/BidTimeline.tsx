@@ -0,0 +1,97 @@
+import { format } from 'date-fns';
+import { ArrowLeftRight, Pencil, Send, Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useBidRevisions, useReviseBid, type BidRevision, type BidRevisionKind } from '@/hooks/useBids';
+import { formatHourlyRate, formatMoney } from '@/lib/budget';
+import type { BidStatus } from '@/lib/status';
+
+interface BidTimelineProps {
+  bidId: string;
+  bidStatus: BidStatus;
+  isBidder: boolean;                  // Viewer placed this bid - may accept a counter-offer
+  onChange?: () => void;              // Called after the bid's terms change
+}
+
+const KIND_LABELS: Record<BidRevisionKind, string> = {
+  submitted: 'Bid submitted',
+  revised: 'Bid revised',
+  countered: 'Counter-offer from job owner',
+  withdrawn: 'Bid withdrawn',
+};
+
+const KIND_ICONS: Record<BidRevisionKind, typeof Send> = {
+  submitted: Send,
+  revised: Pencil,
+  countered: ArrowLeftRight,
+  withdrawn: Undo2,
+};
+
+const describeOffer = (revision: BidRevision) => {
+  if (revision.amount === null) return null;
+  if (revision.hourly_rate && revision.estimated_hours) {
+    return `${formatMoney(revision.amount)} (${formatHourlyRate(revision.hourly_rate)} × ${revision.estimated_hours} hours)`;
+  }
+  return formatMoney(revision.amount);
+};
+
+/**
+ * BidTimeline Component - The negotiation history of a bid, oldest first
+ */
+export const BidTimeline = ({ bidId, bidStatus, isBidder, onChange }: BidTimelineProps) => {
+  const { data: revisions = [] } = useBidRevisions(bidId);
+  const reviseBid = useReviseBid();
+
+  // A bid with only its original submission has no history worth showing
+  if (revisions.length <= 1) return null;
+
+  const latest = revisions[revisions.length - 1];
+  const canAcceptCounter = isBidder && bidStatus === 'pending' && latest.kind === 'countered' && latest.amount !== null;
+
+  const acceptCounter = () => {
+    reviseBid.mutate(
+      {
+        bidId,
+        amount: latest.amount!,
+        hourlyRate: latest.hourly_rate,
+        estimatedHours: latest.estimated_hours,
+        message: 'Accepted your counter-offer',
+      },
+      { onSuccess: () => onChange?.() }
+    );
+  };
+
+  return (
+    <div className="mt-3 pt-3 border-t">
+      <h5 className="text-sm font-semibold mb-2">Bid History</h5>
+      <ol className="space-y-3">
+        {revisions.map((revision) => {
+          const Icon = KIND_ICONS[revision.kind];
+          const offer = describeOffer(revision);
+          return (
+            <li key={revision.id} className="flex gap-3 text-sm">
+              <Icon className="h-4 w-4 mt-0.5 text-muted-foreground shrink-0" />
+              <div>
+                <div>
+                  <span className="font-medium">{KIND_LABELS[revision.kind]}</span>
+                  {offer && <span className="text-primary font-semibold"> · {offer}</span>}
+                </div>
+                {revision.message && (
+                  <p className="text-muted-foreground">"{revision.message}"</p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  {format(new Date(revision.created_at), 'MMM d, yyyy h:mm a')}
+                </p>
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+
+      {canAcceptCounter && (
+        <Button size="sm" className="mt-3" onClick={acceptCounter} disabled={reviseBid.isPending}>
+          Accept Counter-Offer
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -1,30 +1,73 @@
-import { useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { ArrowLeft, Search, MapPin, DollarSign, Clock, Users, Filter } from 'lucide-react';
-import { useJobs } from '@/hooks/useJobs';
+import { useJobs, type Job } from '@/hooks/useJobs';
+import { getJobPhotoUrl } from '@/hooks/useJobPhotos';
+import { useAuth } from '@/hooks/useAuth';
+import { ROUTES, paths } from '@/lib/routes';
+import { JOB_CATEGORIES, categoryLabel, categoryValue } from '@/lib/categories';
+import { formatBudget } from '@/lib/budget';
+import { isBidDeadlinePassed } from '@/lib/bidEligibility';
+import { formatJobTimeline } from '@/lib/jobSchedule';
+import { BidDeadlineCountdown } from '@/components/BidDeadlineCountdown';
+import {
+  BUDGET_FILTER_RANGES,
+  JOB_SORT_LABELS,
+  POSTED_WITHIN_LABELS,
+  filtersFromSearchParams,
+  filtersToSearchParams,
+  type JobFilters,
+  type JobSort,
+  type PostedWithin,
+} from '@/lib/jobFilters';
 
-interface BrowseJobsPageProps {
-  onViewChange: (view: string, jobData?: any) => void;
-}
+// How long to wait after the last keystroke before searching
+const SEARCH_DEBOUNCE_MS = 300;
 
-export const BrowseJobsPage = ({ onViewChange }: BrowseJobsPageProps) => {
-  const [searchTerm, setSearchTerm] = useState('');
-  const [categoryFilter, setCategoryFilter] = useState('all');
-  const [budgetFilter, setBudgetFilter] = useState('all');
-  const [locationFilter, setLocationFilter] = useState('');
+export const BrowseJobsPage = () => {
+  const navigate = useNavigate();
+  const { user, can } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
 
-  const { data: jobs = [], isLoading, error } = useJobs();
+  // The URL is the source of truth for filters, so searches can be shared and bookmarked
+  const filters = useMemo(() => filtersFromSearchParams(searchParams), [searchParams]);
 
-  const formatBudget = (min: number | null, max: number | null) => {
-    if (!min && !max) return 'Budget TBD';
-    if (!max) return `$${(min! / 100).toLocaleString()}+`;
-    if (!min) return `Up to $${(max / 100).toLocaleString()}`;
-    return `$${(min / 100).toLocaleString()} - $${(max / 100).toLocaleString()}`;
-  };
+  // Free-text inputs update the URL (and so the query) after the user pauses typing
+  const [searchInput, setSearchInput] = useState(filters.text);
+  const [locationInput, setLocationInput] = useState(filters.location);
+
+  const updateFilters = useCallback((changes: Partial<JobFilters>) => {
+    setSearchParams(filtersToSearchParams({ ...filters, ...changes }), { replace: true });
+  }, [filters, setSearchParams]);
+
+  useEffect(() => {
+    if (searchInput.trim() === filters.text && locationInput.trim() === filters.location) return;
+    const timeout = setTimeout(() => updateFilters({ text: searchInput, location: locationInput }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchInput, locationInput, filters.text, filters.location, updateFilters]);
+
+  // Keep the inputs in step when the URL changes underneath them (back button, Clear Filters)
+  useEffect(() => {
+    setSearchInput(prev => (prev.trim() === filters.text ? prev : filters.text));
+    setLocationInput(prev => (prev.trim() === filters.location ? prev : filters.location));
+  }, [filters.text, filters.location]);
+
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useJobs(filters);
+
+  const jobs = data?.pages.flatMap(page => page.jobs) ?? [];
+  const totalJobs = data?.pages[0]?.total ?? 0;
 
   const getTimeAgo = (dateString: string) => {
     const date = new Date(dateString);
@@ -37,29 +80,31 @@ export const BrowseJobsPage = ({ onViewChange }: BrowseJobsPageProps) => {
     return `${diffInDays} day${diffInDays === 1 ? '' : 's'} ago`;
   };
 
-  // All jobs now come from the database
+  // Select value for the current budget filter - the index of the matching preset
+  const budgetValue = (() => {
+    const index = BUDGET_FILTER_RANGES.findIndex(range =>
+      range.min === filters.budgetMin && range.max === filters.budgetMax
+    );
+    return index === -1 ? 'all' : String(index);
+  })();
 
-  const categories = ['All', 'Painting', 'Plumbing', 'Electrical', 'General Maintenance', 'Carpentry', 'Cleaning', 'Landscaping'];
-  const budgetRanges = ['All', 'Under $200', '$200 - $500', '$500 - $1,000', '$1,000+'];
-
-  // Use only real jobs from database
-  const allJobs = jobs;
+  const handleBudgetChange = (value: string) => {
+    const range = value === 'all' ? null : BUDGET_FILTER_RANGES[Number(value)];
+    updateFilters({ budgetMin: range?.min ?? null, budgetMax: range?.max ?? null });
+  };
 
-  const filteredJobs = allJobs.filter(job => {
-    const matchesSearch = job.title.toLowerCase().includes(searchTerm.toLowerCase()) || 
-                         job.description.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesCategory = categoryFilter === 'all' || job.category.toLowerCase() === categoryFilter.toLowerCase();
-    const matchesLocation = !locationFilter || job.location.toLowerCase().includes(locationFilter.toLowerCase());
-    
-    return matchesSearch && matchesCategory && matchesLocation;
-  });
+  const clearFilters = () => {
+    setSearchInput('');
+    setLocationInput('');
+    setSearchParams(new URLSearchParams(), { replace: true });
+  };
 
-  const handleBidClick = (job: any) => {
-    onViewChange(`bid-${job.id}`, job);
+  const handleBidClick = (job: Job) => {
+    navigate(paths.submitBid(job.id));
   };
 
   const handleJobDetailsClick = (jobId: string) => {
-    onViewChange(`job-details-${jobId}`);
+    navigate(paths.jobDetails(jobId));
   };
 
   return (
@@ -69,7 +114,7 @@ export const BrowseJobsPage = ({ onViewChange }: BrowseJobsPageProps) => {
         <div className="mb-8">
           <Button 
             variant="ghost" 
-            onClick={() => onViewChange('home')} 
+            onClick={() => navigate(ROUTES.home)} 
             className="mb-4"
           >
             <ArrowLeft className="h-4 w-4 mr-2" />
@@ -90,40 +135,45 @@ export const BrowseJobsPage = ({ onViewChange }: BrowseJobsPageProps) => {
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
               <div>
                 <div className="relative">
                   <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
                   <Input
                     placeholder="Search jobs..."
-                    value={searchTerm}
-                    onChange={(e) => setSearchTerm(e.target.value)}
+                    value={searchInput}
+                    onChange={(e) => setSearchInput(e.target.value)}
                     className="pl-10"
                   />
                 </div>
               </div>
               
-              <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+              <Select
+                value={filters.category ?? 'all'}
+                onValueChange={(value) => updateFilters({ category: value === 'all' ? null : value })}
+              >
                 <SelectTrigger>
                   <SelectValue placeholder="Category" />
                 </SelectTrigger>
                 <SelectContent>
-                  {categories.map((category) => (
-                    <SelectItem key={category} value={category.toLowerCase()}>
+                  <SelectItem value="all">All Categories</SelectItem>
+                  {JOB_CATEGORIES.map((category) => (
+                    <SelectItem key={category} value={categoryValue(category)}>
                       {category}
                     </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
 
-              <Select value={budgetFilter} onValueChange={setBudgetFilter}>
+              <Select value={budgetValue} onValueChange={handleBudgetChange}>
                 <SelectTrigger>
                   <SelectValue placeholder="Budget Range" />
                 </SelectTrigger>
                 <SelectContent>
-                  {budgetRanges.map((range) => (
-                    <SelectItem key={range} value={range.toLowerCase()}>
-                      {range}
+                  <SelectItem value="all">Any Budget</SelectItem>
+                  {BUDGET_FILTER_RANGES.map((range, index) => (
+                    <SelectItem key={range.label} value={String(index)}>
+                      {range.label}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -133,11 +183,43 @@ export const BrowseJobsPage = ({ onViewChange }: BrowseJobsPageProps) => {
                 <MapPin className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
                 <Input
                   placeholder="Location..."
-                  value={locationFilter}
-                  onChange={(e) => setLocationFilter(e.target.value)}
+                  value={locationInput}
+                  onChange={(e) => setLocationInput(e.target.value)}
                   className="pl-10"
                 />
               </div>
+
+              <Select
+                value={filters.postedWithin}
+                onValueChange={(value) => updateFilters({ postedWithin: value as PostedWithin })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Posted" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(POSTED_WITHIN_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Select
+                value={filters.sort}
+                onValueChange={(value) => updateFilters({ sort: value as JobSort })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Sort by" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(JOB_SORT_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
           </CardContent>
         </Card>
@@ -145,16 +227,24 @@ export const BrowseJobsPage = ({ onViewChange }: BrowseJobsPageProps) => {
         {/* Results Summary */}
         <div className="mb-6">
           <p className="text-muted-foreground">
-            {isLoading ? 'Loading jobs...' : `Showing ${filteredJobs.length} of ${allJobs.length} jobs`}
+            {isLoading ? 'Loading jobs...' : `Showing ${jobs.length} of ${totalJobs} jobs`}
           </p>
         </div>
 
         {/* Job Listings */}
         <div className="space-y-6">
-          {filteredJobs.map((job) => (
+          {jobs.map((job) => (
             <Card key={job.id} className="hover:shadow-elegant transition-all">
               <CardHeader>
                 <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+                  {job.job_photos && job.job_photos.length > 0 && (
+                    <img
+                      src={getJobPhotoUrl(job.job_photos[0].image_path)}
+                      alt={job.title}
+                      className="w-full sm:w-24 h-40 sm:h-24 object-cover rounded-md"
+                      loading="lazy"
+                    />
+                  )}
                   <div className="flex-1">
                     <div className="flex items-center gap-2 mb-2">
                       <CardTitle className="text-xl">{job.title}</CardTitle>
@@ -175,16 +265,17 @@ export const BrowseJobsPage = ({ onViewChange }: BrowseJobsPageProps) => {
                         <Users className="h-4 w-4 mr-1" />
                         0 bids
                       </div>
+                      {job.bid_deadline && <BidDeadlineCountdown bidDeadline={job.bid_deadline} />}
                     </div>
                   </div>
                   <div className="text-right">
                     <div className="flex items-center justify-end mb-1">
                       <DollarSign className="h-4 w-4 text-primary" />
                       <span className="font-semibold text-primary">
-                        {formatBudget(job.budget_min, job.budget_max)}
+                        {formatBudget(job.budget)}
                       </span>
                     </div>
-                    <Badge variant="secondary">{job.category}</Badge>
+                    <Badge variant="secondary">{categoryLabel(job.category)}</Badge>
                   </div>
                 </div>
               </CardHeader>
@@ -192,7 +283,7 @@ export const BrowseJobsPage = ({ onViewChange }: BrowseJobsPageProps) => {
                 <p className="text-muted-foreground mb-4">{job.description}</p>
                 <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
                   <div className="flex items-center gap-4 text-sm">
-                    <span><strong>Timeline:</strong> {job.timeline || 'TBD'}</span>
+                    <span><strong>Timeline:</strong> {formatJobTimeline(job) || 'TBD'}</span>
                     <span><strong>Posted by:</strong> {job.homeowner_name}</span>
                   </div>
                   <div className="flex gap-2">
@@ -203,12 +294,14 @@ export const BrowseJobsPage = ({ onViewChange }: BrowseJobsPageProps) => {
                     >
                       View Details
                     </Button>
-                    <Button 
-                      size="sm" 
-                      onClick={() => handleBidClick(job)}
-                    >
-                      Submit Bid
-                    </Button>
+                    {can('bid:create') && job.user_id !== user?.id && !isBidDeadlinePassed(job.bid_deadline) && (
+                      <Button 
+                        size="sm" 
+                        onClick={() => handleBidClick(job)}
+                      >
+                        Submit Bid
+                      </Button>
+                    )}
                   </div>
                 </div>
               </CardContent>
@@ -216,18 +309,21 @@ export const BrowseJobsPage = ({ onViewChange }: BrowseJobsPageProps) => {
           ))}
         </div>
 
-        {filteredJobs.length === 0 && !isLoading && (
+        {hasNextPage && (
+          <div className="flex justify-center mt-8">
+            <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+              {isFetchingNextPage ? 'Loading...' : 'Load More Jobs'}
+            </Button>
+          </div>
+        )}
+
+        {jobs.length === 0 && !isLoading && (
           <Card className="text-center py-12">
             <CardContent>
               <p className="text-muted-foreground mb-4">
                 {error ? 'Error loading jobs. Please try again.' : 'No jobs found matching your criteria.'}
               </p>
-              <Button variant="outline" onClick={() => {
-                setSearchTerm('');
-                setCategoryFilter('all');
-                setBudgetFilter('all');
-                setLocationFilter('');
-              }}>
+              <Button variant="outline" onClick={clearFilters}>
                 Clear Filters
               </Button>
             </CardContent>
@@ -0,0 +1,153 @@
+import { DollarSign } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  BUDGET_TYPES,
+  BUDGET_TYPE_LABELS,
+  budgetTotal,
+  formToBudget,
+  formatMoney,
+  validateBudget,
+  type BudgetFormValues,
+  type BudgetType,
+} from '@/lib/budget';
+
+interface BudgetEditorProps {
+  values: BudgetFormValues;
+  onChange: (changes: Partial<BudgetFormValues>) => void;
+  showErrors?: boolean;               // Show validation messages (e.g. after a submit attempt)
+}
+
+interface MoneyInputProps {
+  id: string;
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+}
+
+const MoneyInput = ({ id, label, value, onChange, placeholder }: MoneyInputProps) => (
+  <div>
+    <Label htmlFor={id}>{label}</Label>
+    <div className="relative mt-1">
+      <DollarSign className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+      <Input
+        id={id}
+        type="number"
+        min="0"
+        step="0.01"
+        inputMode="decimal"
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="pl-10"
+      />
+    </div>
+  </div>
+);
+
+/**
+ * BudgetEditor Component - Pick a fixed price, a price range or an hourly rate
+ *
+ * Values are kept as typed (dollars); convert with formToBudget from @/lib/budget.
+ */
+export const BudgetEditor = ({ values, onChange, showErrors = false }: BudgetEditorProps) => {
+  const budget = formToBudget(values);
+  const error = validateBudget(budget);
+
+  // Running total for hourly budgets so posters see what they're committing to
+  const [estimateLow, estimateHigh] = budget.type === 'hourly' && !error ? budgetTotal(budget) : [null, null];
+
+  return (
+    <div className="space-y-4">
+      <RadioGroup
+        value={values.type}
+        onValueChange={(value) => onChange({ type: value as BudgetType })}
+        className="flex flex-wrap gap-4"
+      >
+        {BUDGET_TYPES.map((type) => (
+          <div key={type} className="flex items-center space-x-2">
+            <RadioGroupItem value={type} id={`budget-${type}`} />
+            <Label htmlFor={`budget-${type}`} className="font-normal">
+              {BUDGET_TYPE_LABELS[type]}
+            </Label>
+          </div>
+        ))}
+      </RadioGroup>
+
+      {values.type === 'fixed' && (
+        <MoneyInput
+          id="budget-amount"
+          label="Amount *"
+          value={values.amount}
+          onChange={(amount) => onChange({ amount })}
+          placeholder="500"
+        />
+      )}
+
+      {values.type === 'range' && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <MoneyInput
+            id="budget-min"
+            label="Minimum"
+            value={values.min}
+            onChange={(min) => onChange({ min })}
+            placeholder="200"
+          />
+          <MoneyInput
+            id="budget-max"
+            label="Maximum"
+            value={values.max}
+            onChange={(max) => onChange({ max })}
+            placeholder="No limit"
+          />
+        </div>
+      )}
+
+      {values.type === 'hourly' && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <MoneyInput
+            id="budget-rate-min"
+            label="Rate from (per hour) *"
+            value={values.rateMin}
+            onChange={(rateMin) => onChange({ rateMin })}
+            placeholder="40"
+          />
+          <MoneyInput
+            id="budget-rate-max"
+            label="Rate to (per hour)"
+            value={values.rateMax}
+            onChange={(rateMax) => onChange({ rateMax })}
+            placeholder="60"
+          />
+          <div>
+            <Label htmlFor="budget-hours">Estimated hours *</Label>
+            <Input
+              id="budget-hours"
+              type="number"
+              min="1"
+              step="1"
+              inputMode="numeric"
+              placeholder="10"
+              value={values.estimatedHours}
+              onChange={(e) => onChange({ estimatedHours: e.target.value })}
+              className="mt-1"
+            />
+          </div>
+        </div>
+      )}
+
+      {estimateLow !== null && (
+        <p className="text-sm text-muted-foreground">
+          Estimated total: {formatMoney(estimateLow)}
+          {estimateHigh !== null && estimateHigh !== estimateLow && ` - ${formatMoney(estimateHigh)}`}
+        </p>
+      )}
+
+      {showErrors && error && (
+        <p className="text-sm text-destructive">{error}</p>
+      )}
+    </div>
+  );
+};
@@ -1,9 +1,8 @@
 import React from 'react';
 import { Button } from '@/components/ui/button';
 import { MessageCircle } from 'lucide-react';
-import { useChat } from '@/hooks/useChat';
+import { useConversations, useStartConversation } from '@/hooks/useChat';
 import { useAuth } from '@/hooks/useAuth';
-import { useUnreadMessages } from '@/hooks/useUnreadMessages';
 
 interface ChatButtonProps {
   jobId: string;
@@ -21,6 +20,9 @@ interface ChatButtonProps {
  * - Creating new conversations between job poster and professional
  * - Finding existing conversations for the same job
  * - Starting chat with proper context
+ *
+ * The unread badge comes from the shared conversation list, so any number of
+ * buttons on a page cost one query and no extra realtime channels.
  */
 const ChatButton: React.FC<ChatButtonProps> = ({
   jobId,
@@ -31,28 +33,26 @@ const ChatButton: React.FC<ChatButtonProps> = ({
   size = 'default'
 }) => {
   const { user } = useAuth();
-  const { conversations, createConversation } = useChat();
-  const { unreadCount } = useUnreadMessages(jobId, jobPosterId, professionalId);
+  const { data: conversations = [] } = useConversations();
+  const startConversation = useStartConversation();
 
-  const handleStartChat = async () => {
-    if (!user) return;
+  // The conversation for this job and these participants, if it exists yet
+  const existingConversation = conversations.find(
+    conv => conv.job_id === jobId && 
+    conv.job_poster_id === jobPosterId && 
+    conv.professional_id === professionalId
+  );
+  const unreadCount = existingConversation?.unread_count ?? 0;
 
-    // Check if conversation already exists for this job and these participants
-    const existingConversation = conversations.find(
-      conv => conv.job_id === jobId && 
-      conv.job_poster_id === jobPosterId && 
-      conv.professional_id === professionalId
-    );
+  const handleStartChat = () => {
+    if (!user) return;
 
     if (existingConversation) {
       // Use existing conversation
       onStartChat(existingConversation.id);
     } else {
       // Create new conversation
-      const conversationId = await createConversation(jobId, professionalId, jobPosterId);
-      if (conversationId) {
-        onStartChat(conversationId);
-      }
+      startConversation.mutate({ jobId, jobPosterId, professionalId }, { onSuccess: onStartChat });
     }
   };
 
@@ -70,6 +70,7 @@ const ChatButton: React.FC<ChatButtonProps> = ({
       variant={variant}
       size={size}
       className="flex items-center gap-2 relative"
+      disabled={startConversation.isPending}
     >
       <MessageCircle className="w-4 h-4" />
       Chat
@@ -1,101 +1,377 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useLayoutEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
-import { Badge } from '@/components/ui/badge';
-import { Send, MessageCircle, ArrowLeft } from 'lucide-react';
-import { useChat, type Conversation } from '@/hooks/useChat';
+import {
+  Send,
+  MessageCircle,
+  ArrowLeft,
+  Paperclip,
+  X,
+  FileText,
+  Search,
+  MoreVertical,
+  Archive,
+  Inbox,
+  BellOff,
+  Bell,
+  Check,
+  CheckCheck,
+  Pencil,
+  Trash2,
+  Flag,
+} from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { JobStatusBadge } from '@/components/StatusBadge';
+import { MessageAttachmentList } from '@/components/MessageAttachmentList';
+import { ReportMessageDialog } from '@/components/ReportMessageDialog';
+import {
+  canEditMessage,
+  useConversationMessages,
+  useConversations,
+  useDeleteMessage,
+  useEditMessage,
+  useMarkConversationRead,
+  useMessageSearch,
+  useSendMessage,
+  useUpdateConversationPreferences,
+  type ConversationSummary,
+  type Message,
+} from '@/hooks/useChat';
+import { useChatRealtime, useConversationTyping } from '@/hooks/useChatRealtime';
 import { useAuth } from '@/hooks/useAuth';
+import { useWindowFocus } from '@/hooks/useWindowFocus';
+import { useToast } from '@/components/ui/use-toast';
 import { formatDistanceToNow } from 'date-fns';
-import { supabase } from '@/integrations/supabase/client';
+import {
+  ATTACHMENT_ACCEPT,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  formatFileSize,
+  isImageAttachment,
+  validateAttachment,
+} from '@/lib/attachments';
+import { cn } from '@/lib/utils';
+
+// How long to wait after the last keystroke before searching message text
+const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * A file waiting to be sent, with a preview if it is an image
+ */
+const PendingAttachment = ({ file, onRemove }: { file: File; onRemove: () => void }) => {
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isImageAttachment(file.type)) return;
+    const url = URL.createObjectURL(file);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  return (
+    <div className="flex items-center gap-2 rounded-md border bg-muted/50 p-1 pr-2 text-sm max-w-[200px]">
+      {previewUrl ? (
+        <img src={previewUrl} alt={file.name} className="h-10 w-10 rounded object-cover" />
+      ) : (
+        <FileText className="h-10 w-6 shrink-0 text-muted-foreground" />
+      )}
+      <span className="flex-1 min-w-0">
+        <span className="block truncate">{file.name}</span>
+        <span className="text-xs text-muted-foreground">{formatFileSize(file.size)}</span>
+      </span>
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6 shrink-0"
+        onClick={onRemove}
+        aria-label={`Remove ${file.name}`}
+      >
+        <X className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+};
+
+/**
+ * Delivery state of the user's own message: one tick once sent, two once it has
+ * reached the recipient, and two highlighted once they have read it
+ */
+const MessageTicks = ({ message }: { message: Message }) => {
+  if (message.read_at) {
+    return <CheckCheck className="h-3.5 w-3.5 text-sky-300" aria-label="Read" />;
+  }
+  if (message.delivered_at) {
+    return <CheckCheck className="h-3.5 w-3.5" aria-label="Delivered" />;
+  }
+  return <Check className="h-3.5 w-3.5" aria-label="Sent" />;
+};
 
 interface ChatInterfaceProps {
-  jobId?: string;
+  jobId?: string;                     // Only list this job's conversations
+  initialConversationId?: string;     // Open this conversation straight away
+  className?: string;
   onClose?: () => void;
 }
 
+/**
+ * One line of preview for a conversation's latest message
+ */
+const lastMessagePreview = (conversation: ConversationSummary, userId: string) => {
+  if (conversation.last_message_sender_id === null) return null;
+  const text = conversation.last_message_deleted
+    ? 'Message deleted'
+    : conversation.last_message_content || 'Sent an attachment';
+  return conversation.last_message_sender_id === userId ? `You: ${text}` : text;
+};
+
 /**
  * ChatInterface Component - Complete chat system for job-related conversations
  * 
  * Features:
- * - Conversation list with job context
- * - Real-time messaging with read receipts
- * - Message threads organized by job
+ * - Conversation list with job context, search, and per-user archive and mute
+ * - Real-time messaging with sent, delivered and read ticks
+ * - Editing shortly after sending, deleting, and reporting abusive messages
+ * - Online and last-seen status, and typing indicators
+ * - File attachments by picker or drag-and-drop, with image previews
+ * - Message threads organized by job, with older messages loaded on scroll
  * - Responsive design for mobile and desktop
  */
-const ChatInterface: React.FC<ChatInterfaceProps> = ({ jobId, onClose }) => {
+const ChatInterface: React.FC<ChatInterfaceProps> = ({ jobId, initialConversationId, className, onClose }) => {
   const { user } = useAuth();
+  const { toast } = useToast();
+  const { status: realtimeStatus, onlineUserIds } = useChatRealtime();
+  const windowFocused = useWindowFocus();
+  const [activeConversation, setActiveConversation] = useState<string | null>(initialConversationId ?? null);
+  const [searchInput, setSearchInput] = useState('');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
+  const { data: conversations = [] } = useConversations();
+  const { data: messageMatches = [] } = useMessageSearch(searchTerm);
+  const updatePreferences = useUpdateConversationPreferences();
   const {
-    conversations,
-    messages,
-    activeConversation,
-    loading,
-    fetchMessages,
-    sendMessage,
-    setActiveConversation
-  } = useChat();
+    data: messagePages,
+    isLoading: loading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useConversationMessages(activeConversation);
+  const sendMessage = useSendMessage();
+  const editMessage = useEditMessage();
+  const deleteMessage = useDeleteMessage();
+  const { mutate: markConversationRead } = useMarkConversationRead();
+  const { typingUserIds, notifyTyping, notifyStoppedTyping } = useConversationTyping(activeConversation, user?.id);
 
   const [newMessage, setNewMessage] = useState('');
-  const [showConversationList, setShowConversationList] = useState(true);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  const [messageToDelete, setMessageToDelete] = useState<Message | null>(null);
+  const [messageToReport, setMessageToReport] = useState<Message | null>(null);
+  const [showConversationList, setShowConversationList] = useState(!initialConversationId);
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const messagesContainerRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Scroll position to restore once an older page has been added above
+  const prependAnchor = useRef<{ scrollHeight: number; scrollTop: number } | null>(null);
+  // The conversation last scrolled to its newest message
+  const scrolledConversation = useRef<string | null>(null);
+
+  // Pages come newest first; the thread reads oldest first
+  const messages = messagePages ? [...messagePages.pages].reverse().flatMap((page) => page.messages) : [];
+  const newestMessageId = messages[messages.length - 1]?.id;
+  const hasUnread = messages.some((message) => message.recipient_id === user?.id && !message.read_at);
+
+  // Keep the view in place when older messages load, otherwise follow the newest
+  // message: instantly on opening a conversation, smoothly as new ones arrive
+  useLayoutEffect(() => {
+    const container = messagesContainerRef.current;
+    if (!container) return;
+
+    if (prependAnchor.current) {
+      const { scrollHeight, scrollTop } = prependAnchor.current;
+      container.scrollTop = container.scrollHeight - scrollHeight + scrollTop;
+      prependAnchor.current = null;
+      return;
+    }
+
+    if (!newestMessageId) return;
+    const isNewConversation = scrolledConversation.current !== activeConversation;
+    container.scrollTo({ top: container.scrollHeight, behavior: isNewConversation ? 'auto' : 'smooth' });
+    scrolledConversation.current = activeConversation;
+  }, [activeConversation, newestMessageId, messages.length]);
 
-  // Auto-scroll to bottom when new messages arrive
+  // Anything received while the conversation is open counts as read, as long as
+  // the user is actually looking at it; otherwise it waits for the window to regain focus
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+    if (user && activeConversation && hasUnread && windowFocused) {
+      markConversationRead({ conversationId: activeConversation, userId: user.id });
+    }
+  }, [user, activeConversation, hasUnread, windowFocused, markConversationRead]);
+
+  /**
+   * Loads the page of messages before the oldest one shown
+   */
+  const loadEarlierMessages = () => {
+    const container = messagesContainerRef.current;
+    if (!container || !hasNextPage || isFetchingNextPage) return;
+
+    prependAnchor.current = { scrollHeight: container.scrollHeight, scrollTop: container.scrollTop };
+    fetchNextPage();
+  };
+
+  // Infinite scroll: reaching the top of the thread loads older messages
+  const handleMessagesScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    if (e.currentTarget.scrollTop < 80) {
+      loadEarlierMessages();
+    }
+  };
+
+  // Message search waits until the user pauses typing
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearchTerm(searchInput.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
 
   // Filter conversations by job if jobId is provided
-  const filteredConversations = jobId 
+  const jobConversations = jobId 
     ? conversations.filter(conv => conv.job_id === jobId)
     : conversations;
+  const archivedCount = jobConversations.filter(conv => conv.archived).length;
+
+  // While searching, archived conversations are included: a match is a match
+  const search = searchInput.trim().toLowerCase();
+  const matchedConversationIds = new Set(messageMatches.map(match => match.conversation_id));
+  const filteredConversations = search
+    ? jobConversations.filter(conv =>
+        conv.other_participant_name?.toLowerCase().includes(search) ||
+        conv.job_title?.toLowerCase().includes(search) ||
+        matchedConversationIds.has(conv.id)
+      )
+    : jobConversations.filter(conv => conv.archived === showArchived);
+  // The newest matching message in each conversation, shown in place of its preview
+  const matchingMessage = (conversationId: string) =>
+    searchTerm ? messageMatches.find(match => match.conversation_id === conversationId) : undefined;
+
+  /**
+   * Queues files to send with the next message, turning away unsupported ones
+   */
+  const addFiles = (files: File[]) => {
+    const accepted = files.filter((file) => {
+      const problem = validateAttachment(file);
+      if (problem) {
+        toast({ title: "Can't attach file", description: problem, variant: "destructive" });
+      }
+      return !problem;
+    });
+    if (pendingFiles.length + accepted.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+      toast({
+        title: "Too many files",
+        description: `A message can carry at most ${MAX_ATTACHMENTS_PER_MESSAGE} files.`,
+        variant: "destructive",
+      });
+    }
+    setPendingFiles((current) => [...current, ...accepted].slice(0, MAX_ATTACHMENTS_PER_MESSAGE));
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(e.target.files || []));
+    e.target.value = '';
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    // Attachments can't be added to a message being edited
+    if (editingMessage || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    // Ignore leaving into a child element
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    setIsDragging(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
 
   /**
    * Handles sending a new message
    */
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!activeConversation || !newMessage.trim()) return;
+    if (editingMessage) {
+      saveEdit();
+      return;
+    }
+    if (!activeConversation || sendMessage.isPending || (!newMessage.trim() && pendingFiles.length === 0)) return;
 
-    await sendMessage(activeConversation, newMessage);
-    setNewMessage('');
-    
-    // Mark any unread messages as read when user responds
-    if (user) {
-      try {
-        await supabase
-          .from('messages')
-          .update({ read_at: new Date().toISOString() })
-          .eq('conversation_id', activeConversation)
-          .eq('recipient_id', user.id)
-          .is('read_at', null);
-      } catch (error) {
-        console.error('Error marking messages as read after sending:', error);
+    notifyStoppedTyping();
+    sendMessage.mutate(
+      { conversationId: activeConversation, content: newMessage, files: pendingFiles },
+      {
+        onSuccess: () => {
+          setNewMessage('');
+          setPendingFiles([]);
+        }
       }
-    }
+    );
+  };
+
+  /**
+   * Loads one of the user's messages into the input for editing
+   */
+  const startEditing = (message: Message) => {
+    setEditingMessage(message);
+    setNewMessage(message.content);
+    setPendingFiles([]);
+  };
+
+  const cancelEditing = () => {
+    setEditingMessage(null);
+    setNewMessage('');
   };
 
   /**
-   * Opens a conversation and fetches its messages
+   * Saves the edited text; a message with attachments may be left without any
    */
-  const openConversation = async (conversationId: string) => {
-    fetchMessages(conversationId);
+  const saveEdit = () => {
+    if (!editingMessage || editMessage.isPending) return;
+    if (!newMessage.trim() && editingMessage.attachments.length === 0) return;
+
+    editMessage.mutate(
+      { messageId: editingMessage.id, content: newMessage },
+      { onSuccess: cancelEditing }
+    );
+  };
+
+  /**
+   * Opens a conversation; its messages load (and are marked read) from the effects above
+   */
+  const openConversation = (conversationId: string) => {
+    setActiveConversation(conversationId);
+    setPendingFiles([]);
+    setEditingMessage(null);
     setShowConversationList(false);
-    
-    // Mark messages as read when opening conversation
-    if (user) {
-      try {
-        await supabase
-          .from('messages')
-          .update({ read_at: new Date().toISOString() })
-          .eq('conversation_id', conversationId)
-          .eq('recipient_id', user.id)
-          .is('read_at', null);
-      } catch (error) {
-        console.error('Error marking messages as read:', error);
-      }
-    }
   };
 
   /**
@@ -104,6 +380,8 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ jobId, onClose }) => {
   const backToConversations = () => {
     setActiveConversation(null);
     setShowConversationList(true);
+    setPendingFiles([]);
+    setEditingMessage(null);
   };
 
   /**
@@ -117,6 +395,20 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ jobId, onClose }) => {
       .toUpperCase();
   };
 
+  /**
+   * Typing, online or last-seen line for the other person in a conversation
+   */
+  const participantStatus = (conversation: ConversationSummary) => {
+    const participantId = conversation.other_participant_id;
+    if (!participantId) return null;
+    if (typingUserIds.includes(participantId)) return 'typing...';
+    if (onlineUserIds.has(participantId)) return 'Online';
+    if (conversation.other_participant_last_seen_at) {
+      return `Last seen ${formatDistanceToNow(new Date(conversation.other_participant_last_seen_at), { addSuffix: true })}`;
+    }
+    return null;
+  };
+
   /**
    * Formats message timestamp
    */
@@ -136,10 +428,10 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ jobId, onClose }) => {
   }
 
   return (
-    <div className="flex h-[600px] max-w-4xl mx-auto bg-background border rounded-lg overflow-hidden">
+    <div className={cn('flex h-[600px] max-w-4xl mx-auto bg-background border rounded-lg overflow-hidden', className)}>
       {/* Conversation List */}
-      <div className={`w-full md:w-1/3 border-r ${showConversationList ? 'block' : 'hidden md:block'}`}>
-        <div className="p-4 border-b bg-muted/50">
+      <div className={`w-full md:w-1/3 border-r flex-col ${showConversationList ? 'flex' : 'hidden md:flex'}`}>
+        <div className="p-4 border-b bg-muted/50 space-y-3">
           <div className="flex items-center justify-between">
             <h3 className="font-semibold">Conversations</h3>
             {onClose && (
@@ -149,17 +441,42 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ jobId, onClose }) => {
             )}
           </div>
           {jobId && (
-            <p className="text-sm text-muted-foreground mt-1">
+            <p className="text-sm text-muted-foreground">
               For this job only
             </p>
           )}
+          <div className="relative">
+            <Search className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Search people, jobs and messages"
+              className="pl-9 h-9"
+            />
+          </div>
+          {!search && (archivedCount > 0 || showArchived) && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => setShowArchived(!showArchived)}
+            >
+              {showArchived ? (
+                <><Inbox className="w-3 h-3 mr-1" /> Back to inbox</>
+              ) : (
+                <><Archive className="w-3 h-3 mr-1" /> Archived ({archivedCount})</>
+              )}
+            </Button>
+          )}
         </div>
         
-        <ScrollArea className="h-[calc(100%-80px)]">
+        <ScrollArea className="flex-1 min-h-0">
           {filteredConversations.length === 0 ? (
             <div className="p-4 text-center text-muted-foreground">
               <MessageCircle className="w-8 h-8 mx-auto mb-2" />
-              <p className="text-sm">No conversations yet</p>
+              <p className="text-sm">
+                {search ? 'No matching conversations' : showArchived ? 'No archived conversations' : 'No conversations yet'}
+              </p>
             </div>
           ) : (
             <div className="space-y-1 p-2">
@@ -172,26 +489,79 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ jobId, onClose }) => {
                   }`}
                 >
                   <div className="flex items-start space-x-3">
-                    <Avatar className="w-10 h-10">
-                      <AvatarFallback>
-                        {getInitials(conversation.other_participant?.full_name || 'Unknown')}
-                      </AvatarFallback>
-                    </Avatar>
+                    <div className="relative shrink-0">
+                      <Avatar className="w-10 h-10">
+                        <AvatarFallback>
+                          {getInitials(conversation.other_participant_name || 'Unknown')}
+                        </AvatarFallback>
+                      </Avatar>
+                      {conversation.other_participant_id && onlineUserIds.has(conversation.other_participant_id) && (
+                        <span
+                          className="absolute bottom-0 right-0 h-3 w-3 rounded-full bg-green-500 ring-2 ring-background"
+                          aria-label="Online"
+                        />
+                      )}
+                    </div>
                     <div className="flex-1 min-w-0">
-                      <div className="flex items-center justify-between">
+                      <div className="flex items-center justify-between gap-1">
                         <p className="font-medium text-sm truncate">
-                          {conversation.other_participant?.full_name || 'Unknown User'}
+                          {conversation.other_participant_name || 'Unknown User'}
                         </p>
-                        <span className="text-xs text-muted-foreground">
+                        {conversation.muted && (
+                          <BellOff className="w-3 h-3 shrink-0 text-muted-foreground" aria-label="Muted" />
+                        )}
+                        <span className="ml-auto text-xs text-muted-foreground whitespace-nowrap">
                           {formatMessageTime(conversation.last_message_at)}
                         </span>
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-6 w-6 shrink-0"
+                              onClick={(e) => e.stopPropagation()}
+                              aria-label="Conversation options"
+                            >
+                              <MoreVertical className="w-3 h-3" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                            <DropdownMenuItem
+                              onSelect={() => updatePreferences.mutate({ conversationId: conversation.id, archived: !conversation.archived })}
+                            >
+                              {conversation.archived ? <Inbox className="w-4 h-4 mr-2" /> : <Archive className="w-4 h-4 mr-2" />}
+                              {conversation.archived ? 'Move to inbox' : 'Archive'}
+                            </DropdownMenuItem>
+                            <DropdownMenuItem
+                              onSelect={() => updatePreferences.mutate({ conversationId: conversation.id, muted: !conversation.muted })}
+                            >
+                              {conversation.muted ? <Bell className="w-4 h-4 mr-2" /> : <BellOff className="w-4 h-4 mr-2" />}
+                              {conversation.muted ? 'Unmute' : 'Mute'}
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
                       </div>
                       <p className="text-sm text-muted-foreground truncate">
-                        {conversation.job?.title}
+                        {conversation.job_title}
+                      </p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {matchingMessage(conversation.id)?.content ?? lastMessagePreview(conversation, user.id)}
                       </p>
-                      <Badge variant="secondary" className="text-xs mt-1">
-                        {conversation.job?.status}
-                      </Badge>
+                      <div className="flex items-center justify-between mt-1">
+                        {conversation.job_status && (
+                          <JobStatusBadge status={conversation.job_status} className="text-xs" />
+                        )}
+                        {conversation.unread_count > 0 && (
+                          <span
+                            className={cn(
+                              'ml-auto text-xs rounded-full h-5 min-w-5 px-1 flex items-center justify-center font-medium',
+                              conversation.muted ? 'bg-muted-foreground/20 text-muted-foreground' : 'bg-destructive text-destructive-foreground'
+                            )}
+                          >
+                            {conversation.unread_count > 9 ? '9+' : conversation.unread_count}
+                          </span>
+                        )}
+                      </div>
                     </div>
                   </div>
                 </div>
@@ -202,9 +572,20 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ jobId, onClose }) => {
       </div>
 
       {/* Chat Messages */}
-      <div className={`flex-1 flex flex-col ${showConversationList ? 'hidden md:flex' : 'flex'}`}>
+      <div
+        className={`relative flex-1 flex flex-col ${showConversationList ? 'hidden md:flex' : 'flex'}`}
+        onDragOver={activeConversation ? handleDragOver : undefined}
+        onDragLeave={handleDragLeave}
+        onDrop={activeConversation ? handleDrop : undefined}
+      >
         {activeConversation ? (
           <>
+            {isDragging && (
+              <div className="absolute inset-0 z-10 flex items-center justify-center border-2 border-dashed border-primary bg-background/80 pointer-events-none">
+                <p className="font-medium text-primary">Drop files to attach them</p>
+              </div>
+            )}
+
             {/* Chat Header */}
             <div className="p-4 border-b bg-muted/50">
               <div className="flex items-center space-x-3">
@@ -222,11 +603,18 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ jobId, onClose }) => {
                     return conversation ? (
                       <div>
                         <h4 className="font-semibold">
-                          {conversation.other_participant?.full_name}
+                          {conversation.other_participant_name}
                         </h4>
                         <p className="text-sm text-muted-foreground">
-                          {conversation.job?.title}
+                          {conversation.job_title}
                         </p>
+                        {realtimeStatus === 'disconnected' ? (
+                          <p className="text-xs text-muted-foreground">Reconnecting...</p>
+                        ) : (
+                          <p className="text-xs text-muted-foreground">
+                            {participantStatus(conversation)}
+                          </p>
+                        )}
                       </div>
                     ) : null;
                   })()}
@@ -235,52 +623,174 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ jobId, onClose }) => {
             </div>
 
             {/* Messages */}
-            <ScrollArea className="flex-1 p-4">
+            <div ref={messagesContainerRef} onScroll={handleMessagesScroll} className="flex-1 overflow-y-auto p-4">
               {loading ? (
                 <div className="flex items-center justify-center h-full">
                   <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
                 </div>
               ) : (
                 <div className="space-y-4">
+                  {hasNextPage && (
+                    <div className="text-center">
+                      <Button variant="ghost" size="sm" onClick={loadEarlierMessages} disabled={isFetchingNextPage}>
+                        {isFetchingNextPage ? 'Loading...' : 'Load earlier messages'}
+                      </Button>
+                    </div>
+                  )}
                   {messages.map((message) => {
                     const isOwn = message.sender_id === user.id;
+                    // Edit and delete your own messages, report the other person's
+                    const actions = !message.deleted_at && (
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6 shrink-0 opacity-0 group-hover:opacity-100 focus-visible:opacity-100 data-[state=open]:opacity-100"
+                            aria-label="Message options"
+                          >
+                            <MoreVertical className="w-3 h-3" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align={isOwn ? 'end' : 'start'}>
+                          {isOwn ? (
+                            <>
+                              {canEditMessage(message, user.id) && (
+                                <DropdownMenuItem onClick={() => startEditing(message)}>
+                                  <Pencil className="w-4 h-4 mr-2" />
+                                  Edit
+                                </DropdownMenuItem>
+                              )}
+                              <DropdownMenuItem onClick={() => setMessageToDelete(message)}>
+                                <Trash2 className="w-4 h-4 mr-2" />
+                                Delete
+                              </DropdownMenuItem>
+                            </>
+                          ) : (
+                            <DropdownMenuItem onClick={() => setMessageToReport(message)}>
+                              <Flag className="w-4 h-4 mr-2" />
+                              Report
+                            </DropdownMenuItem>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    );
+
                     return (
                       <div
                         key={message.id}
-                        className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}
+                        className={cn('group flex items-center gap-1', isOwn ? 'justify-end' : 'justify-start')}
                       >
+                        {isOwn && actions}
                         <div
-                          className={`max-w-xs lg:max-w-md px-4 py-2 rounded-lg ${
-                            isOwn
-                              ? 'bg-primary text-primary-foreground'
-                              : 'bg-muted'
-                          }`}
+                          className={cn(
+                            'max-w-xs lg:max-w-md px-4 py-2 rounded-lg',
+                            isOwn ? 'bg-primary text-primary-foreground' : 'bg-muted',
+                            editingMessage?.id === message.id && 'ring-2 ring-ring ring-offset-2'
+                          )}
                         >
-                          <p className="text-sm">{message.content}</p>
-                          <p className={`text-xs mt-1 ${isOwn ? 'text-primary-foreground/70' : 'text-muted-foreground'}`}>
+                          {message.deleted_at ? (
+                            <p className="text-sm italic opacity-70">This message was deleted</p>
+                          ) : (
+                            <>
+                              {message.content && <p className="text-sm whitespace-pre-wrap">{message.content}</p>}
+                              {message.attachments.length > 0 && (
+                                <MessageAttachmentList attachments={message.attachments} isOwn={isOwn} />
+                              )}
+                            </>
+                          )}
+                          <p
+                            className={cn(
+                              'flex items-center gap-1 text-xs mt-1',
+                              isOwn ? 'justify-end text-primary-foreground/70' : 'text-muted-foreground'
+                            )}
+                          >
                             {formatMessageTime(message.created_at)}
+                            {message.edited_at && !message.deleted_at && (
+                              <span title={`Edited ${formatMessageTime(message.edited_at)}`}>· edited</span>
+                            )}
+                            {isOwn && !message.deleted_at && <MessageTicks message={message} />}
                           </p>
                         </div>
+                        {!isOwn && actions}
                       </div>
                     );
                   })}
-                  <div ref={messagesEndRef} />
                 </div>
               )}
-            </ScrollArea>
+            </div>
 
             {/* Message Input */}
-            <div className="p-4 border-t">
+            <div className="p-4 border-t space-y-2">
+              {editingMessage && (
+                <div className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+                  <span className="flex items-center gap-2">
+                    <Pencil className="w-3 h-3" />
+                    Editing message
+                  </span>
+                  <Button type="button" variant="ghost" size="icon" className="h-6 w-6" onClick={cancelEditing} aria-label="Cancel editing">
+                    <X className="w-3 h-3" />
+                  </Button>
+                </div>
+              )}
+              {pendingFiles.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {pendingFiles.map((file, index) => (
+                    <PendingAttachment
+                      key={`${file.name}-${index}`}
+                      file={file}
+                      onRemove={() => setPendingFiles((current) => current.filter((_, i) => i !== index))}
+                    />
+                  ))}
+                </div>
+              )}
               <form onSubmit={handleSendMessage} className="flex space-x-2">
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept={ATTACHMENT_ACCEPT}
+                  multiple
+                  className="hidden"
+                  onChange={handleFileChange}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="icon"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={!!editingMessage || sendMessage.isPending || pendingFiles.length >= MAX_ATTACHMENTS_PER_MESSAGE}
+                  aria-label="Attach files"
+                >
+                  <Paperclip className="w-4 h-4" />
+                </Button>
                 <Input
                   value={newMessage}
-                  onChange={(e) => setNewMessage(e.target.value)}
+                  onChange={(e) => {
+                    setNewMessage(e.target.value);
+                    if (e.target.value && !editingMessage) notifyTyping();
+                  }}
+                  onKeyDown={(e) => e.key === 'Escape' && editingMessage && cancelEditing()}
                   placeholder="Type a message..."
                   className="flex-1"
                 />
-                <Button type="submit" size="icon">
-                  <Send className="w-4 h-4" />
-                </Button>
+                {editingMessage ? (
+                  <Button
+                    type="submit"
+                    size="icon"
+                    disabled={editMessage.isPending || (!newMessage.trim() && editingMessage.attachments.length === 0)}
+                    aria-label="Save changes"
+                  >
+                    <Check className="w-4 h-4" />
+                  </Button>
+                ) : (
+                  <Button
+                    type="submit"
+                    size="icon"
+                    disabled={sendMessage.isPending || (!newMessage.trim() && pendingFiles.length === 0)}
+                  >
+                    <Send className="w-4 h-4" />
+                  </Button>
+                )}
               </form>
             </div>
           </>
@@ -293,6 +803,36 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ jobId, onClose }) => {
           </div>
         )}
       </div>
+
+      {/* Delete confirmation */}
+      <AlertDialog open={!!messageToDelete} onOpenChange={(open) => !open && setMessageToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this message?</AlertDialogTitle>
+            <AlertDialogDescription>
+              It will be replaced with "This message was deleted" for both of you, and any attached files
+              are removed. You can't undo this.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Message</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (!messageToDelete) return;
+                if (editingMessage?.id === messageToDelete.id) cancelEditing();
+                deleteMessage.mutate(messageToDelete);
+              }}
+              disabled={deleteMessage.isPending}
+            >
+              Delete Message
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {messageToReport && (
+        <ReportMessageDialog message={messageToReport} onClose={() => setMessageToReport(null)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,164 @@
+import { useEffect, useMemo, useState, type ReactNode } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { addMessageToCache, fetchMessage, updateMessageInCache, useConversations, type Message } from '@/hooks/useChat';
+import { ChatRealtimeContext, type ChatRealtimeStatus } from '@/hooks/useChatRealtime';
+
+// How often last-seen is refreshed while the app is open in a visible tab (ms)
+const PRESENCE_HEARTBEAT_MS = 60_000;
+
+// Bursts of message events only refetch the conversation list once (ms)
+const REFRESH_DELAY_MS = 250;
+
+/**
+ * ChatRealtimeProvider Component - The realtime subscriptions for chat
+ *
+ * Listens for messages sent to and by the signed-in user and feeds them into the
+ * React Query cache: new messages are appended to any conversation already
+ * loaded, edits and deletions replace what was shown, delivered/read changes
+ * update the sender's ticks, and the conversation list (with its unread counts)
+ * is refreshed. Presence is tracked on each conversation's private channel, which
+ * only its two participants can join, so the app knows which conversation
+ * partners are online without anyone else finding out. Chat components read from
+ * the cache and context and never open channels of their own, apart from typing
+ * indicators.
+ */
+export const ChatRealtimeProvider = ({ children }: { children: ReactNode }) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<ChatRealtimeStatus>('idle');
+  const [onlineUserIds, setOnlineUserIds] = useState<ReadonlySet<string>>(new Set());
+  const userId = user?.id;
+  const { data: conversations = [] } = useConversations(!!userId);
+
+  // Only a new or removed conversation should rejoin the presence channels
+  const conversationIds = useMemo(
+    () => conversations.map((conversation) => conversation.id).sort().join(','),
+    [conversations]
+  );
+
+  useEffect(() => {
+    if (!userId) {
+      setStatus('idle');
+      return;
+    }
+
+    setStatus('connecting');
+    let removed = false;
+    let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+    const refreshConversations = () => {
+      clearTimeout(refreshTimer);
+      refreshTimer = setTimeout(() => queryClient.invalidateQueries({ queryKey: ['conversations'] }), REFRESH_DELAY_MS);
+    };
+
+    // Records last-seen and marks incoming messages as delivered to this device
+    const touchPresence = async () => {
+      const { error } = await supabase.rpc('touch_chat_presence');
+      if (error) console.error('Error updating chat presence:', error);
+    };
+
+    const channel = supabase
+      .channel(`chat:${userId}`)
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'messages',
+        filter: `recipient_id=eq.${userId}`
+      }, async (payload) => {
+        refreshConversations();
+        touchPresence();
+        const { id, conversation_id } = payload.new as { id: string; conversation_id: string };
+        if (!queryClient.getQueryData(['messages', conversation_id])) return;
+
+        try {
+          addMessageToCache(queryClient, await fetchMessage(id));
+        } catch (error) {
+          console.error('Error loading new message:', error);
+        }
+      })
+      // Messages edited or deleted by their sender, or read in another tab or on
+      // another device
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'messages',
+        filter: `recipient_id=eq.${userId}`
+      }, (payload) => {
+        refreshConversations();
+        updateMessageInCache(queryClient, payload.new as Message);
+      })
+      // Our own messages reaching the recipient, being read by them, or edited in
+      // another tab
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'messages',
+        filter: `sender_id=eq.${userId}`
+      }, (payload) => {
+        updateMessageInCache(queryClient, payload.new as Message);
+      })
+      .subscribe((state) => {
+        if (removed) return;
+        if (state === 'SUBSCRIBED') {
+          setStatus('connected');
+          touchPresence();
+          // Catch up on anything missed while the channel was down
+          refreshConversations();
+          queryClient.invalidateQueries({ queryKey: ['messages'] });
+        } else {
+          setStatus('disconnected');
+        }
+      });
+
+    const heartbeat = setInterval(() => {
+      if (document.visibilityState === 'visible') touchPresence();
+    }, PRESENCE_HEARTBEAT_MS);
+
+    return () => {
+      removed = true;
+      clearTimeout(refreshTimer);
+      clearInterval(heartbeat);
+      supabase.removeChannel(channel);
+    };
+  }, [userId, queryClient]);
+
+  useEffect(() => {
+    setOnlineUserIds(new Set());
+    if (!userId || !conversationIds) return;
+
+    let removed = false;
+    // Partners seen online, by conversation
+    const onlineByConversation = new Map<string, string[]>();
+
+    const channels = conversationIds.split(',').map((conversationId) => {
+      const channel = supabase.channel(`presence:${conversationId}`, {
+        config: { private: true, presence: { key: userId } },
+      });
+
+      return channel
+        .on('presence', { event: 'sync' }, () => {
+          if (removed) return;
+          onlineByConversation.set(
+            conversationId,
+            Object.keys(channel.presenceState()).filter((id) => id !== userId)
+          );
+          setOnlineUserIds(new Set([...onlineByConversation.values()].flat()));
+        })
+        .subscribe((state) => {
+          if (!removed && state === 'SUBSCRIBED') {
+            channel.track({ online_at: new Date().toISOString() });
+          }
+        });
+    });
+
+    return () => {
+      removed = true;
+      channels.forEach((channel) => supabase.removeChannel(channel));
+    };
+  }, [userId, conversationIds]);
+
+  const value = useMemo(() => ({ status, onlineUserIds }), [status, onlineUserIds]);
+
+  return <ChatRealtimeContext.Provider value={value}>{children}</ChatRealtimeContext.Provider>;
+};
@@ -0,0 +1,37 @@
+import { useLocation, useNavigate } from 'react-router-dom';
+import { UserPlus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/useAuth';
+import { useMyProfessional } from '@/hooks/useProfessionals';
+import { ROUTES } from '@/lib/routes';
+
+/**
+ * CompleteProfileBanner Component - Reminds professionals who haven't onboarded yet
+ *
+ * Without a professionals row they don't appear in the directory and can't be invited to jobs.
+ */
+export const CompleteProfileBanner = () => {
+  const navigate = useNavigate();
+  const { pathname } = useLocation();
+  const { user, can } = useAuth();
+  const canManageProfile = can('profile:manage');
+  const { data: professional, isLoading } = useMyProfessional(canManageProfile ? user?.id : null);
+
+  if (!canManageProfile || isLoading || professional || pathname === ROUTES.onboarding) {
+    return null;
+  }
+
+  return (
+    <div className="bg-primary/10 border-b border-primary/20">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex items-center justify-between gap-4">
+        <p className="text-sm text-foreground">
+          Finish setting up your professional profile so homeowners can find you and invite you to jobs.
+        </p>
+        <Button size="sm" onClick={() => navigate(ROUTES.onboarding)}>
+          <UserPlus className="h-4 w-4 mr-2" />
+          Complete Profile
+        </Button>
+      </div>
+    </div>
+  );
+};
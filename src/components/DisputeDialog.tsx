@@ -0,0 +1,224 @@
+import { useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { ImagePlus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  useAddDisputeEvidence,
+  useJobConversationMessages,
+  useOpenDispute,
+  type JobDispute,
+} from '@/hooks/useDisputes';
+import { useJobMilestones } from '@/hooks/useMilestones';
+
+// Evidence photos that can be attached in one go
+const MAX_EVIDENCE_PHOTOS = 6;
+
+// Select value for "the whole job" (Radix selects can't use an empty value)
+const WHOLE_JOB = 'job';
+
+interface DisputeDialogProps {
+  jobId: string;
+  dispute?: JobDispute | null;        // Adds evidence to this dispute instead of opening one
+  onClose: () => void;
+}
+
+/**
+ * DisputeDialog Component - Opens a dispute on an assigned job, or adds evidence to
+ * the open one
+ *
+ * Evidence is picked from the job's conversation and/or uploaded as photos.
+ */
+export const DisputeDialog = ({ jobId, dispute, onClose }: DisputeDialogProps) => {
+  const [reason, setReason] = useState('');
+  const [milestoneId, setMilestoneId] = useState(WHOLE_JOB);
+  const [messageIds, setMessageIds] = useState<string[]>([]);
+  const [files, setFiles] = useState<File[]>([]);
+  const [note, setNote] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { data: messages = [] } = useJobConversationMessages(jobId);
+  const { data: milestones = [] } = useJobMilestones(jobId);
+  const openDispute = useOpenDispute();
+  const addEvidence = useAddDisputeEvidence();
+
+  const isOpening = !dispute;
+  const isPending = openDispute.isPending || addEvidence.isPending;
+  const attachedMessageIds = new Set(dispute?.dispute_evidence.map((item) => item.message_id) ?? []);
+  const pickableMessages = messages.filter((message) => !attachedMessageIds.has(message.id));
+
+  const toggleMessage = (messageId: string, checked: boolean) => {
+    setMessageIds((current) => checked ? [...current, messageId] : current.filter((id) => id !== messageId));
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = Array.from(e.target.files || []);
+    setFiles((current) => [...current, ...picked].slice(0, MAX_EVIDENCE_PHOTOS));
+    e.target.value = '';
+  };
+
+  const handleSubmit = () => {
+    if (dispute) {
+      addEvidence.mutate({ dispute, messageIds, files, note: note.trim() }, { onSuccess: onClose });
+      return;
+    }
+    openDispute.mutate(
+      {
+        jobId,
+        reason: reason.trim(),
+        milestoneId: milestoneId === WHOLE_JOB ? undefined : milestoneId,
+        messageIds,
+        files,
+      },
+      { onSuccess: onClose }
+    );
+  };
+
+  const canSubmit = isOpening ? reason.trim().length > 0 : messageIds.length > 0 || files.length > 0;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isOpening ? 'Open a Dispute' : 'Add Evidence'}</DialogTitle>
+          <DialogDescription>
+            {isOpening
+              ? 'An admin will review the dispute and decide what happens to the money held in escrow. Payments on this job are on hold until then.'
+              : 'Anything you add here is shared with the other party and the admin reviewing the dispute.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {isOpening && (
+            <>
+              {milestones.length > 0 && (
+                <div className="space-y-2">
+                  <Label>About</Label>
+                  <Select value={milestoneId} onValueChange={setMilestoneId}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={WHOLE_JOB}>The whole job</SelectItem>
+                      {milestones.map((milestone) => (
+                        <SelectItem key={milestone.id} value={milestone.id}>
+                          {milestone.description}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="dispute-reason">What went wrong?</Label>
+                <Textarea
+                  id="dispute-reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="Describe the problem and what you think would be fair"
+                  rows={4}
+                />
+              </div>
+            </>
+          )}
+
+          {pickableMessages.length > 0 && (
+            <div className="space-y-2">
+              <Label>Messages (optional)</Label>
+              <div className="max-h-48 overflow-y-auto space-y-2 rounded-md border p-2">
+                {pickableMessages.map((message) => (
+                  <label key={message.id} className="flex items-start gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={messageIds.includes(message.id)}
+                      onCheckedChange={(checked) => toggleMessage(message.id, checked === true)}
+                      className="mt-0.5"
+                    />
+                    <span className="flex-1">
+                      <span className="line-clamp-2">{message.content}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {format(new Date(message.created_at), 'PPp')}
+                      </span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Photos (optional)</Label>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/*"
+                multiple
+                className="hidden"
+                onChange={handleFileChange}
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={files.length >= MAX_EVIDENCE_PHOTOS}
+              >
+                <ImagePlus className="h-4 w-4 mr-2" />
+                Add Photos
+              </Button>
+            </div>
+            {files.length > 0 && (
+              <ul className="text-sm space-y-1">
+                {files.map((file, index) => (
+                  <li key={`${file.name}-${index}`} className="flex items-center justify-between">
+                    <span className="truncate">{file.name}</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => setFiles((current) => current.filter((_, i) => i !== index))}
+                      aria-label={`Remove ${file.name}`}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {!isOpening && files.length > 0 && (
+              <Textarea
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="What the photos show (optional)"
+                rows={2}
+              />
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            variant={isOpening ? 'destructive' : 'default'}
+            onClick={handleSubmit}
+            disabled={!canSubmit || isPending}
+          >
+            {isPending ? 'Submitting...' : isOpening ? 'Open Dispute' : 'Add Evidence'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
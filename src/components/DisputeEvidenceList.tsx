@@ -0,0 +1,52 @@
+import { format } from 'date-fns';
+import { MessageSquare } from 'lucide-react';
+import type { DisputeEvidence } from '@/hooks/useDisputes';
+
+interface DisputeEvidenceListProps {
+  evidence: DisputeEvidence[];
+  viewerId?: string;                  // Labels the viewer's own submissions "You"
+}
+
+/**
+ * DisputeEvidenceList Component - The messages and photos put forward in a dispute
+ *
+ * Messages are quoted as they were sent; photos open full size in a new tab.
+ */
+export const DisputeEvidenceList = ({ evidence, viewerId }: DisputeEvidenceListProps) => {
+  const messages = evidence.filter((item) => item.kind === 'message' && item.messages);
+  const photos = evidence.filter((item) => item.kind === 'photo' && item.url);
+
+  if (messages.length === 0 && photos.length === 0) {
+    return <p className="text-xs text-muted-foreground">No evidence submitted yet</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {messages.map((item) => (
+        <blockquote key={item.id} className="border-l-2 pl-3 text-sm">
+          <p className="whitespace-pre-wrap">{item.messages!.content}</p>
+          <p className="text-xs text-muted-foreground flex items-center gap-1">
+            <MessageSquare className="h-3 w-3" />
+            {format(new Date(item.messages!.created_at), 'PPp')}
+            {viewerId && item.submitted_by === viewerId && ' · added by you'}
+          </p>
+        </blockquote>
+      ))}
+
+      {photos.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {photos.map((item, index) => (
+            <a key={item.id} href={item.url!} target="_blank" rel="noopener noreferrer" title={item.note ?? undefined}>
+              <img
+                src={item.url!}
+                alt={item.note || `Evidence photo ${index + 1}`}
+                className="h-16 w-16 object-cover rounded-md hover:opacity-90 transition-opacity"
+                loading="lazy"
+              />
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
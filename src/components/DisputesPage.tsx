@@ -0,0 +1,255 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Eye, Gavel, Scale } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Textarea } from '@/components/ui/textarea';
+import { DisputeStatusBadge } from '@/components/StatusBadge';
+import { DisputeEvidenceList } from '@/components/DisputeEvidenceList';
+import { useDisputes, useResolveDispute, useStartDisputeReview, type AdminDispute } from '@/hooks/useDisputes';
+import { useJobPaymentBalances } from '@/hooks/usePayments';
+import { dollarsToCents, formatMoney } from '@/lib/budget';
+import {
+  DISPUTE_OUTCOME_LABELS,
+  describeDisputeResolution,
+  isDisputeActive,
+  type DisputeOutcome,
+} from '@/lib/disputes';
+import { paths } from '@/lib/routes';
+
+const OUTCOMES: DisputeOutcome[] = ['refund', 'partial', 'release'];
+
+// Admin picks an outcome for the escrow; a partial outcome needs the professional's share
+const ResolveDisputeDialog = ({ dispute, inEscrow, onClose }: { dispute: AdminDispute; inEscrow: number; onClose: () => void }) => {
+  const [outcome, setOutcome] = useState<DisputeOutcome>('refund');
+  const [releaseAmount, setReleaseAmount] = useState('');
+  const [notes, setNotes] = useState('');
+  const resolveDispute = useResolveDispute();
+
+  const releaseCents = dollarsToCents(releaseAmount);
+  const validPartial = releaseCents > 0 && releaseCents < inEscrow;
+
+  const handleSubmit = () => {
+    resolveDispute.mutate(
+      {
+        disputeId: dispute.id,
+        outcome,
+        releaseAmount: outcome === 'partial' ? releaseCents : undefined,
+        notes: notes.trim() || undefined,
+      },
+      { onSuccess: onClose }
+    );
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Resolve Dispute</DialogTitle>
+          <DialogDescription>
+            {formatMoney(inEscrow)} is held in escrow for "{dispute.jobs?.title}". The decision is final and both
+            parties can see it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup value={outcome} onValueChange={(value) => setOutcome(value as DisputeOutcome)}>
+            {OUTCOMES.map((value) => (
+              <div key={value} className="flex items-center gap-2">
+                <RadioGroupItem value={value} id={`outcome-${value}`} disabled={value === 'partial' && inEscrow === 0} />
+                <Label htmlFor={`outcome-${value}`}>{DISPUTE_OUTCOME_LABELS[value]}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          {outcome === 'partial' && (
+            <div className="space-y-2">
+              <Label htmlFor="release-amount">Amount to the professional ($)</Label>
+              <Input
+                id="release-amount"
+                inputMode="decimal"
+                value={releaseAmount}
+                onChange={(e) => setReleaseAmount(e.target.value)}
+                placeholder="0.00"
+              />
+              {validPartial && (
+                <p className="text-xs text-muted-foreground">
+                  {formatMoney(inEscrow - releaseCents)} goes back to the job owner
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="resolution-notes">Notes for both parties (optional)</Label>
+            <Textarea
+              id="resolution-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="How the decision was reached"
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={resolveDispute.isPending || (outcome === 'partial' && !validPartial)}
+          >
+            {resolveDispute.isPending ? 'Resolving...' : 'Resolve'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+/**
+ * DisputesPage Component - The admin queue of job disputes
+ *
+ * Admins pick up open disputes, read both sides' evidence and resolve them; the
+ * resolution pays out or refunds the job's escrow.
+ */
+const DisputesPage = () => {
+  const { data: disputes = [], isLoading } = useDisputes();
+  const startReview = useStartDisputeReview();
+  const [resolving, setResolving] = useState<AdminDispute | null>(null);
+  const { data: balances = {} } = useJobPaymentBalances(disputes.map((dispute) => dispute.job_id));
+
+  const active = disputes.filter((dispute) => isDisputeActive(dispute));
+  const resolved = disputes.filter((dispute) => !isDisputeActive(dispute));
+
+  const renderDispute = (dispute: AdminDispute) => {
+    const inEscrow = balances[dispute.job_id]?.in_escrow ?? 0;
+
+    return (
+      <Card key={dispute.id}>
+        <CardHeader>
+          <div className="flex flex-wrap items-start justify-between gap-2">
+            <div>
+              <CardTitle className="text-lg">{dispute.jobs?.title ?? 'Job'}</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Opened by the {dispute.opened_as === 'owner' ? 'job owner' : 'professional'} on{' '}
+                {format(new Date(dispute.created_at), 'PPp')}
+                {dispute.job_milestones && ` · Milestone: ${dispute.job_milestones.description}`}
+              </p>
+            </div>
+            <DisputeStatusBadge status={dispute.status} />
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm whitespace-pre-wrap">{dispute.reason}</p>
+          <DisputeEvidenceList evidence={dispute.dispute_evidence} />
+
+          {dispute.outcome ? (
+            <div className="text-sm">
+              <p className="font-medium">
+                {DISPUTE_OUTCOME_LABELS[dispute.outcome]}: {describeDisputeResolution(dispute)}
+              </p>
+              {dispute.resolution_notes && (
+                <p className="text-muted-foreground whitespace-pre-wrap">{dispute.resolution_notes}</p>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">{formatMoney(inEscrow)} held in escrow</p>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" asChild>
+              <Link to={paths.jobDetails(dispute.job_id)}>
+                <Eye className="h-4 w-4 mr-2" />
+                View Job
+              </Link>
+            </Button>
+            {dispute.status === 'open' && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => startReview.mutate(dispute.id)}
+                disabled={startReview.isPending}
+              >
+                <Scale className="h-4 w-4 mr-2" />
+                Start Review
+              </Button>
+            )}
+            {isDisputeActive(dispute) && (
+              <Button size="sm" onClick={() => setResolving(dispute)}>
+                <Gavel className="h-4 w-4 mr-2" />
+                Resolve
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8">
+        {/* PAGE HEADER */}
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold text-primary mb-2">Disputes</h1>
+          <p className="text-lg text-muted-foreground">
+            Disagreements between job owners and professionals waiting for a decision
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <Tabs defaultValue="active">
+            <TabsList>
+              <TabsTrigger value="active">Active ({active.length})</TabsTrigger>
+              <TabsTrigger value="resolved">Resolved ({resolved.length})</TabsTrigger>
+            </TabsList>
+            <TabsContent value="active" className="space-y-4">
+              {active.length === 0 ? (
+                <p className="text-muted-foreground py-8 text-center">No disputes need attention</p>
+              ) : (
+                // Oldest first, so nothing waits longer than it has to
+                [...active].reverse().map(renderDispute)
+              )}
+            </TabsContent>
+            <TabsContent value="resolved" className="space-y-4">
+              {resolved.length === 0 ? (
+                <p className="text-muted-foreground py-8 text-center">No resolved disputes yet</p>
+              ) : (
+                resolved.map(renderDispute)
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+      </div>
+
+      {resolving && (
+        <ResolveDisputeDialog
+          dispute={resolving}
+          inEscrow={balances[resolving.job_id]?.in_escrow ?? 0}
+          onClose={() => setResolving(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default DisputesPage;
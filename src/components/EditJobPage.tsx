@@ -0,0 +1,53 @@
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { PostJobPage } from '@/components/PostJobPage';
+import { useAuth } from '@/hooks/useAuth';
+import { useJob } from '@/hooks/useJobs';
+import { useJobRouteParams } from '@/hooks/useRouteParams';
+import { ROUTES } from '@/lib/routes';
+
+/**
+ * EditJobPage Component - The Post Job form, filled in with an existing job
+ *
+ * Only the owner of an open job can edit it; the database enforces the same rule.
+ */
+export const EditJobPage = () => {
+  const { id: jobId } = useJobRouteParams();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { data: job, isLoading } = useJob(jobId);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <p className="text-muted-foreground">Loading job...</p>
+      </div>
+    );
+  }
+
+  const problem = !job || job.deleted_at
+    ? 'Job not found'
+    : job.user_id !== user?.id
+      ? 'You can only edit jobs you posted'
+      : job.status !== 'open'
+        ? 'Only open jobs can be edited. Repost it from My Jobs instead.'
+        : null;
+
+  if (problem) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-lg text-muted-foreground mb-4">{problem}</p>
+          <Button onClick={() => navigate(ROUTES.myJobs)}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to My Jobs
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  // Keyed so the form starts over from the saved job if the id changes
+  return <PostJobPage key={job.id} job={job} />;
+};
@@ -0,0 +1,115 @@
+// ==============================================
+// EDIT PROFESSIONAL PROFILE PAGE COMPONENT
+// ==============================================
+// Lets a professional update every part of their `professionals` row on one screen
+
+import React, { useEffect, useState } from "react";
+import { Navigate, useNavigate } from "react-router-dom";
+import { ArrowLeft, Eye } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ProfessionalProfileForm } from "@/components/ProfessionalProfileForm";
+import { useAuth } from "@/hooks/useAuth";
+import { useMyProfessional, useUpdateProfessional } from "@/hooks/useProfessionals";
+import { useToast } from "@/hooks/use-toast";
+import {
+  formToProfessionalInput,
+  professionalToForm,
+  validateProfessionalSection,
+  type ProfessionalFormSection,
+  type ProfessionalFormValues,
+} from "@/lib/professionalProfile";
+import { ROUTES, paths } from "@/lib/routes";
+
+const SECTIONS: { section: ProfessionalFormSection; title: string }[] = [
+  { section: 'basics', title: 'About You' },
+  { section: 'skills', title: 'Skills & Rates' },
+  { section: 'contact', title: 'Photo & Contact' },
+];
+
+const EditProfessionalProfilePage: React.FC = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { data: professional, isLoading } = useMyProfessional(user?.id);
+  const updateProfessional = useUpdateProfessional();
+  const [values, setValues] = useState<ProfessionalFormValues | null>(null);
+
+  // Seed the form once the saved profile has loaded
+  useEffect(() => {
+    if (professional && !values) {
+      setValues(professionalToForm(professional));
+    }
+  }, [professional, values]);
+
+  if (isLoading || (professional && !values)) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  // Not onboarded yet - run the wizard first
+  if (!professional || !values) {
+    return <Navigate to={ROUTES.onboarding} replace />;
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    for (const { section } of SECTIONS) {
+      const error = validateProfessionalSection(section, values);
+      if (error) {
+        toast({ title: "Missing information", description: error, variant: "destructive" });
+        return;
+      }
+    }
+
+    updateProfessional.mutate({ userId: user!.id, profile: formToProfessionalInput(values) });
+  };
+
+  return (
+    <div className="min-h-screen bg-background py-8">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-8">
+          <Button variant="ghost" onClick={() => navigate(ROUTES.home)} className="mb-4">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Home
+          </Button>
+          <div className="flex items-center justify-between">
+            <h1 className="text-3xl font-bold text-foreground">Edit Profile</h1>
+            <Button variant="outline" onClick={() => navigate(paths.professionalProfile(professional.id))}>
+              <Eye className="h-4 w-4 mr-2" />
+              View Public Profile
+            </Button>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-8">
+          {SECTIONS.map(({ section, title }) => (
+            <Card key={section}>
+              <CardHeader>
+                <CardTitle>{title}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ProfessionalProfileForm
+                  section={section}
+                  values={values}
+                  onChange={(changes) => setValues(prev => prev && { ...prev, ...changes })}
+                  userId={user!.id}
+                />
+              </CardContent>
+            </Card>
+          ))}
+
+          <Button type="submit" size="lg" className="w-full" disabled={updateProfessional.isPending}>
+            {updateProfessional.isPending ? 'Saving...' : 'Save Changes'}
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default EditProfessionalProfilePage;
@@ -15,6 +15,10 @@
  * - SEO-friendly structure with proper heading hierarchy
  */
 
+// Routing - pages are real URLs (see src/lib/routes.ts)
+import { useNavigate } from 'react-router-dom';
+import { ROUTES } from '@/lib/routes';
+
 // UI Component imports for building the interface
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -27,22 +31,20 @@ import { Hammer, Users, Shield, Star, ArrowRight, Wrench, Paintbrush, Zap, Home,
 import heroImage from '@/assets/hero-home-services.jpg';
 
 // Custom hooks for data fetching
-import { useJobs } from '@/hooks/useJobs';
+import { useJobs, useOpenJobCategoryCounts } from '@/hooks/useJobs';
 import { useAuth } from '@/hooks/useAuth';
 
-/**
- * Props interface for HomePage component
- * @param onViewChange - Callback function to handle navigation between different views/pages
- */
-interface HomePageProps {
-  onViewChange: (view: string) => void;
-}
+// Shared job categories and budget formatting
+import { categoryValue, type JobCategoryLabel } from '@/lib/categories';
+import { formatBudget } from '@/lib/budget';
 
-export const HomePage = ({ onViewChange }: HomePageProps) => {
+export const HomePage = () => {
+  const navigate = useNavigate();
   const { isAuthenticated, isJobPoster, isProfessional } = useAuth();
-  // Fetch all jobs data using React Query for caching and optimistic updates
-  // Default to empty array to prevent rendering errors during loading state
-  const { data: jobs = [] } = useJobs();
+  // Fetch the first page of open jobs (newest first) and per-category counts
+  // Default to empty values to prevent rendering errors during loading state
+  const { data: jobsData } = useJobs();
+  const { data: categoryCounts = {} } = useOpenJobCategoryCounts();
   
   /**
    * Platform Features Configuration
@@ -65,19 +67,14 @@ export const HomePage = ({ onViewChange }: HomePageProps) => {
 
   /**
    * Dynamic Job Counter Function
-   * Calculates real-time job counts for each service category by:
-   * 1. Filtering jobs with 'open' status (available for bidding)
-   * 2. Case-insensitive category matching for flexible data handling
-   * 3. Returns live count to show platform activity and demand
+   * Looks up the live count of open jobs (available for bidding) in a category,
+   * using the same category values the post form stores (see @/lib/categories)
    * 
-   * @param categoryName - Service category to count jobs for
+   * @param categoryName - Service category label to count jobs for
    * @returns Number of active jobs in that category
    */
-  const getActiveJobsCount = (categoryName: string) => {
-    return jobs.filter(job => 
-      job.status === 'open' && 
-      job.category.toLowerCase().includes(categoryName.toLowerCase())
-    ).length;
+  const getActiveJobsCount = (categoryName: JobCategoryLabel) => {
+    return categoryCounts[categoryValue(categoryName)] ?? 0;
   };
 
   /**
@@ -93,12 +90,12 @@ export const HomePage = ({ onViewChange }: HomePageProps) => {
    * Each category shows live job count to indicate market demand
    */
   const serviceCategories = [
-    { icon: Wrench, name: "General Maintenance", jobs: getActiveJobsCount("general-maintenance") },
-    { icon: Paintbrush, name: "Painting Services", jobs: getActiveJobsCount("painting") },
-    { icon: Umbrella, name: "Plumbing", jobs: getActiveJobsCount("plumbing") },
-    { icon: Zap, name: "Electrical", jobs: getActiveJobsCount("electrical") },
-    { icon: Home, name: "HVAC", jobs: getActiveJobsCount("hvac") },
-    { icon: Palmtree, name: "Landscaping", jobs: getActiveJobsCount("landscaping") }
+    { icon: Wrench, name: "General Maintenance", jobs: getActiveJobsCount("General Maintenance") },
+    { icon: Paintbrush, name: "Painting Services", jobs: getActiveJobsCount("Painting") },
+    { icon: Umbrella, name: "Plumbing", jobs: getActiveJobsCount("Plumbing") },
+    { icon: Zap, name: "Electrical", jobs: getActiveJobsCount("Electrical") },
+    { icon: Home, name: "HVAC", jobs: getActiveJobsCount("HVAC") },
+    { icon: Palmtree, name: "Landscaping", jobs: getActiveJobsCount("Landscaping") }
   ];
 
   /**
@@ -109,14 +106,10 @@ export const HomePage = ({ onViewChange }: HomePageProps) => {
    * 3. Encourage professionals to browse more opportunities
    * 
    * Processing steps:
-   * - Filter to only show 'open' jobs (available for bidding)
-   * - Sort by creation date (newest first) for relevancy
+   * - The database already returns only 'open' jobs, newest first
    * - Limit to 3 jobs to avoid overwhelming the landing page
    */
-  const recentJobs = jobs
-    .filter(job => job.status === 'open')
-    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
-    .slice(0, 3);
+  const recentJobs = (jobsData?.pages[0]?.jobs ?? []).slice(0, 3);
 
   return (
     <div>
@@ -166,31 +159,31 @@ export const HomePage = ({ onViewChange }: HomePageProps) => {
             <div className="flex flex-col sm:flex-row gap-4 justify-center">
               {!isAuthenticated ? (
                 <>
-                  <Button size="xl" variant="accent" className="coral-glow wave-hover" onClick={() => onViewChange('auth')}>
+                  <Button size="xl" variant="accent" className="coral-glow wave-hover" onClick={() => navigate(ROUTES.auth)}>
                     Get Started
                     <ArrowRight className="h-5 w-5" />
                   </Button>
-                  <Button size="xl" variant="outline" className="border-white text-black hover:bg-white hover:text-primary transition-all duration-500" onClick={() => onViewChange('auth')}>
+                  <Button size="xl" variant="outline" className="border-white text-black hover:bg-white hover:text-primary transition-all duration-500" onClick={() => navigate(ROUTES.auth)}>
                     Browse Jobs
                   </Button>
                 </>
               ) : isJobPoster ? (
                 <>
-                  <Button size="xl" variant="accent" className="coral-glow wave-hover" onClick={() => onViewChange('my-jobs')}>
+                  <Button size="xl" variant="accent" className="coral-glow wave-hover" onClick={() => navigate(ROUTES.myJobs)}>
                     Manage My Jobs
                     <ArrowRight className="h-5 w-5" />
                   </Button>
-                  <Button size="xl" variant="outline" className="border-white text-black hover:bg-white hover:text-primary transition-all duration-500" onClick={() => onViewChange('post-job')}>
+                  <Button size="xl" variant="outline" className="border-white text-black hover:bg-white hover:text-primary transition-all duration-500" onClick={() => navigate(ROUTES.postJob)}>
                     Post New Project
                   </Button>
                 </>
               ) : (
                 <>
-                  <Button size="xl" variant="accent" className="coral-glow wave-hover" onClick={() => onViewChange('browse-jobs')}>
+                  <Button size="xl" variant="accent" className="coral-glow wave-hover" onClick={() => navigate(ROUTES.browseJobs)}>
                     Find Work
                     <ArrowRight className="h-5 w-5" />
                   </Button>
-                  <Button size="xl" variant="outline" className="border-white text-black hover:bg-white hover:text-primary transition-all duration-500" onClick={() => onViewChange('professionals')}>
+                  <Button size="xl" variant="outline" className="border-white text-black hover:bg-white hover:text-primary transition-all duration-500" onClick={() => navigate(ROUTES.professionals)}>
                     View Professionals
                   </Button>
                 </>
@@ -327,7 +320,7 @@ export const HomePage = ({ onViewChange }: HomePageProps) => {
                 <p className="text-muted-foreground">See what Bermuda homeowners are looking for</p>
               </div>
               {/* Quick access to all jobs with coral glow effect */}
-              <Button variant="outline" className="coral-glow-subtle hover:coral-glow transition-all duration-300" onClick={() => onViewChange(isAuthenticated ? 'browse-jobs' : 'auth')}>
+              <Button variant="outline" className="coral-glow-subtle hover:coral-glow transition-all duration-300" onClick={() => navigate(isAuthenticated ? ROUTES.browseJobs : ROUTES.auth)}>
                 View All Jobs
                 <ArrowRight className="h-4 w-4" />
               </Button>
@@ -355,10 +348,7 @@ export const HomePage = ({ onViewChange }: HomePageProps) => {
                     <div className="flex justify-between items-center">
                       {/* Budget display with proper formatting (cents to dollars) */}
                       <span className="font-semibold text-primary">
-                        {job.budget_max && job.budget_max > 0 ? 
-                          `$${(job.budget_min / 100).toLocaleString()} - $${(job.budget_max / 100).toLocaleString()}` : 
-                          `$${(job.budget_min / 100).toLocaleString()}+`
-                        }
+                        {formatBudget(job.budget)}
                       </span>
                       {/* Post date for recency context */}
                       <span className="text-sm text-muted-foreground">
@@ -409,12 +399,12 @@ export const HomePage = ({ onViewChange }: HomePageProps) => {
               {/* Final conversion buttons with responsive stacking */}
               <div className="flex flex-col sm:flex-row gap-4 justify-center">
                 {/* Primary CTA - Post project with enhanced effects */}
-                <Button size="lg" variant="accent" className="coral-glow wave-hover" onClick={() => onViewChange(isAuthenticated ? 'post-job' : 'auth')}>
+                <Button size="lg" variant="accent" className="coral-glow wave-hover" onClick={() => navigate(isAuthenticated ? ROUTES.postJob : ROUTES.auth)}>
                   Post Your First Project
                 </Button>
                 
                 {/* Secondary CTA - Browse professionals */}
-                <Button size="lg" variant="outline" className="border-white text-black hover:bg-white hover:text-primary transition-all duration-500" onClick={() => onViewChange(isAuthenticated ? 'professionals' : 'auth')}>
+                <Button size="lg" variant="outline" className="border-white text-black hover:bg-white hover:text-primary transition-all duration-500" onClick={() => navigate(isAuthenticated ? ROUTES.professionals : ROUTES.auth)}>
                   Browse Professionals
                 </Button>
               </div>
@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { useMyOpenJobs } from '@/hooks/useJobs';
+import { useInviteToBid, useSentInvitations } from '@/hooks/useInvitations';
+
+interface InviteToBidDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  professionalId: string;
+  professionalName: string;
+  userId: string;                     // The inviting job poster
+}
+
+/**
+ * InviteToBidDialog Component - Lets a job poster invite a professional to one of their open jobs
+ */
+export const InviteToBidDialog = ({ open, onOpenChange, professionalId, professionalName, userId }: InviteToBidDialogProps) => {
+  const [jobId, setJobId] = useState('');
+  const [message, setMessage] = useState('');
+  const { data: openJobs = [], isLoading } = useMyOpenJobs(userId);
+  const { data: sentInvitations = [] } = useSentInvitations(userId, professionalId);
+  const inviteToBid = useInviteToBid();
+
+  // Jobs this professional was already invited to can't be picked again
+  const invitedJobIds = new Set(sentInvitations.map(invitation => invitation.job_id));
+  const availableJobs = openJobs.filter(job => !invitedJobIds.has(job.id));
+
+  const handleSubmit = () => {
+    inviteToBid.mutate(
+      { job_id: jobId, professional_id: professionalId, invited_by: userId, message: message.trim() || undefined },
+      {
+        onSuccess: () => {
+          setJobId('');
+          setMessage('');
+          onOpenChange(false);
+        }
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Invite {professionalName} to Bid</DialogTitle>
+          <DialogDescription>
+            Pick one of your open jobs. {professionalName} will see the invitation on their assignments page.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-muted-foreground">Loading your jobs...</p>
+        ) : availableJobs.length === 0 ? (
+          <p className="text-muted-foreground">
+            {openJobs.length === 0
+              ? "You don't have any open jobs to invite them to."
+              : `You've already invited ${professionalName} to all of your open jobs.`}
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Job</Label>
+              <Select value={jobId} onValueChange={setJobId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a job" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableJobs.map((job) => (
+                    <SelectItem key={job.id} value={job.id}>
+                      {job.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invite-message">Message (optional)</Label>
+              <Textarea
+                id="invite-message"
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                placeholder="Tell them why you think they're a good fit"
+                rows={3}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!jobId || inviteToBid.isPending}>
+            {inviteToBid.isPending ? 'Sending...' : 'Send Invitation'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
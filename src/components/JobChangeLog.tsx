@@ -0,0 +1,70 @@
+import { format } from 'date-fns';
+import { History } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useJobChanges } from '@/hooks/useJobs';
+import { JOB_CHANGE_FIELDS, JOB_CHANGE_LABELS, formatJobChangeValue } from '@/lib/jobChanges';
+
+interface JobChangeLogProps {
+  jobId: string;
+  since?: string | null;              // Viewer's bid time; later edits are flagged
+}
+
+/**
+ * JobChangeLog Component - What the poster changed after the job was posted
+ *
+ * Only the job owner and professionals who bid can read the log, so it renders
+ * nothing for everyone else (and for jobs that were never edited).
+ */
+export const JobChangeLog = ({ jobId, since }: JobChangeLogProps) => {
+  const { data: changes = [] } = useJobChanges(jobId);
+
+  if (changes.length === 0) return null;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Changes Since Posting
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ol className="space-y-4">
+          {[...changes].reverse().map((change) => {
+            const isAfterBid = !!since && new Date(change.created_at) > new Date(since);
+            return (
+              <li key={change.id} className="text-sm">
+                <div className="flex items-center gap-2 mb-1">
+                  <span className="text-xs text-muted-foreground">
+                    {format(new Date(change.created_at), 'MMM d, yyyy h:mm a')}
+                  </span>
+                  {isAfterBid && <Badge variant="outline">After your bid</Badge>}
+                </div>
+                <ul className="space-y-1">
+                  {JOB_CHANGE_FIELDS.filter((field) => change.changes[field]).map((field) => {
+                    const { from, to } = change.changes[field]!;
+                    return (
+                      <li key={field}>
+                        <span className="font-medium">{JOB_CHANGE_LABELS[field]}:</span>{' '}
+                        {field === 'description' ? (
+                          <span className="text-muted-foreground">updated</span>
+                        ) : (
+                          <>
+                            <span className="text-muted-foreground line-through">{formatJobChangeValue(field, from)}</span>
+                            {' → '}
+                            <span>{formatJobChangeValue(field, to)}</span>
+                          </>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </li>
+            );
+          })}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+};
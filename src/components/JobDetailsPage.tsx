@@ -6,46 +6,67 @@
 
 // REACT IMPORTS
 import React, { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
 
 // ICON IMPORTS - Various icons for different sections
-import { ArrowLeft, MapPin, Calendar, DollarSign, User, Clock, Mail, Phone } from "lucide-react";
+import { ArrowLeft, MapPin, Calendar, DollarSign, User, Clock, Mail, Phone, Pencil } from "lucide-react";
 
 // UI COMPONENT IMPORTS
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import ChatButton from "@/components/ChatButton";
+import { JobStatusBadge, BidStatusBadge } from "@/components/StatusBadge";
 import ChatInterface from "@/components/ChatInterface";
+import { JobPhotoGallery } from "@/components/JobPhotoGallery";
+import { BidOfferDialog } from "@/components/BidOfferDialog";
+import { BidTimeline } from "@/components/BidTimeline";
+import { BidBankDetails } from "@/components/BidBankDetails";
+import { BidDeadlineCountdown } from "@/components/BidDeadlineCountdown";
+import { JobChangeLog } from "@/components/JobChangeLog";
 import { useAuth } from '@/hooks/useAuth';
-import { useToast } from '@/hooks/use-toast';
+import { useAcceptBid, useWithdrawBid } from '@/hooks/useBids';
+import { useJobRouteParams } from '@/hooks/useRouteParams';
+import { ROUTES, paths } from '@/lib/routes';
+import { BID_INELIGIBILITY_MESSAGES, getBidIneligibility } from '@/lib/bidEligibility';
+import { effectiveJobStatus, formatJobTimeline } from '@/lib/jobSchedule';
+import type { BidStatus, JobStatus } from '@/lib/status';
+import { budgetFromColumns, formatBudget, formatHourlyRate, formatMoney, type BudgetColumns } from '@/lib/budget';
+import { professionalPayout } from '@/lib/fees';
 
 // SUPABASE CLIENT - For fetching job and bid data
 import { supabase } from "@/integrations/supabase/client";
 
-// COMPONENT PROPS INTERFACE
-interface JobDetailsPageProps {
-  jobId: string;                              // ID of the job to display
-  onViewChange: (view: string, data?: any) => void;       // Function to navigate between pages
-}
-
 // JOB DATA INTERFACE
 // Defines the structure of job data from the database
-interface Job {
+// Budget columns come from BudgetColumns (see @/lib/budget)
+interface Job extends BudgetColumns {
   id: string;                    // Unique job identifier
   title: string;                 // Job title
   description: string;           // Detailed job description
   location: string;              // Job location
   category: string;              // Job category (plumbing, electrical, etc.)
-  budget_min?: number;           // Optional minimum budget
-  budget_max?: number;           // Optional maximum budget
-  budget_type: string;           // "range" or "fixed"
   timeline?: string;             // Optional timeline information
-  status: string;                // Job status (open, closed, etc.)
+  status: JobStatus;             // Job status (open, in_progress, etc.)
   homeowner_name: string;        // Name of person who posted the job
   homeowner_verified: boolean;   // Whether homeowner is verified
   created_at: string;            // When the job was posted
   user_id?: string;              // ID of the user who posted the job
+  bid_deadline?: string | null;  // When bidding closes (null = no deadline)
+  deleted_at?: string | null;    // Set when the poster deleted the job
+  desired_start_date?: string | null;      // When the poster would like work to start
+  desired_completion_date?: string | null; // When the poster would like work finished
 }
 
 // BID DATA INTERFACE
@@ -53,6 +74,7 @@ interface Job {
 interface Bid {
   id: string;                    // Unique bid identifier
   amount: number;                // Total bid amount
+  platform_fee: number;          // Marketplace fee taken from the professional's payout
   professional_id?: string;      // ID of the professional who submitted the bid
   bidder_name?: string;          // Optional bidder name
   bidder_email?: string;         // Optional contact email
@@ -60,23 +82,42 @@ interface Bid {
   hourly_rate?: number;          // Optional hourly rate
   estimated_hours?: number;      // Optional estimated hours
   message?: string;              // Optional message from bidder
-  status: string;                // Bid status (pending, accepted, rejected)
+  status: BidStatus;             // Bid status (pending, accepted, rejected, withdrawn)
+  user_id?: string;              // Auth user who placed the bid (may revise or withdraw it)
   created_at: string;            // When the bid was submitted
 }
 
 // MAIN COMPONENT FUNCTION
-const JobDetailsPage: React.FC<JobDetailsPageProps> = ({ jobId, onViewChange }) => {
-  const { user, isJobPoster } = useAuth();
-  const { toast } = useToast();
+// The job ID comes from the /jobs/:id route
+const JobDetailsPage: React.FC = () => {
+  const { id: jobId } = useJobRouteParams();
+  const navigate = useNavigate();
+  const { user, isJobPoster, can } = useAuth();
+  const acceptBidMutation = useAcceptBid();
+  const withdrawBidMutation = useWithdrawBid();
   // STATE VARIABLES
   const [job, setJob] = useState<Job | null>(null);      // Stores job details, null initially
   const [bids, setBids] = useState<Bid[]>([]);           // Stores array of bids for this job
   const [loading, setLoading] = useState(true);          // Tracks if data is still loading
   const [showChat, setShowChat] = useState(false);       // Controls chat interface visibility
+  const [offerDialog, setOfferDialog] = useState<{ bid: Bid; mode: 'revise' | 'counter' } | null>(null);
+  const [bidToWithdraw, setBidToWithdraw] = useState<Bid | null>(null);
   
   // Check if current user is the job poster
   const isCurrentUserJobPoster = user && job && job.user_id === user.id;
 
+  // Why a professional can't bid here (closed job, passed deadline, existing bid), or null
+  const hasActiveBid = !!user && bids.some(
+    (bid) => bid.user_id === user.id && (bid.status === 'pending' || bid.status === 'accepted')
+  );
+  // The viewer's first bid; job edits after it are flagged in the change log
+  const myFirstBid = user
+    ? bids.filter((bid) => bid.user_id === user.id).sort((a, b) => a.created_at.localeCompare(b.created_at))[0]
+    : undefined;
+  const bidIneligibility = job && can('bid:create')
+    ? getBidIneligibility({ job, userId: user?.id, isProfessional: true, hasActiveBid })
+    : null;
+
   // EFFECT HOOK - Runs when component mounts or jobId changes
   // This automatically fetches fresh data whenever we view a different job
   useEffect(() => {
@@ -137,60 +178,27 @@ const JobDetailsPage: React.FC<JobDetailsPageProps> = ({ jobId, onViewChange })
     });
   };
 
-  // FORMAT BUDGET FUNCTION
-  // Displays budget information in a user-friendly way
-  const formatBudget = (min?: number, max?: number, type?: string) => {
-    if (!min && !max) return "Budget not specified";                           // No budget info
-    if (type === "fixed" && min) return `$${(min / 100).toLocaleString()}`;            // Fixed budget
-    if (min && max) return `$${(min / 100).toLocaleString()} - $${(max / 100).toLocaleString()}`; // Budget range
-    return `$${((min || max)! / 100).toLocaleString()}`;                               // Single value (min or max)
+  // ACCEPT BID FUNCTION
+  // Acceptance runs server-side in one transaction (see useAcceptBid)
+  const acceptBid = (bidId: string) => {
+    if (!user || !isJobPoster) return;
+
+    acceptBidMutation.mutate(bidId, {
+      onSuccess: () => {
+        // Refresh data
+        fetchJobDetails();
+        fetchBids();
+      }
+    });
   };
 
-  const acceptBid = async (bidId: string) => {
-    if (!user || !isJobPoster) return;
-    
-    try {
-      // Update the accepted bid status
-      const { error: bidError } = await supabase
-        .from('bids')
-        .update({ status: 'accepted' })
-        .eq('id', bidId);
-
-      if (bidError) throw bidError;
-
-      // Reject all other bids for this job
-      const { error: rejectError } = await supabase
-        .from('bids')
-        .update({ status: 'rejected' })
-        .eq('job_id', jobId)
-        .neq('id', bidId);
-
-      if (rejectError) throw rejectError;
-
-      // Update job status to in-progress
-      const { error: jobError } = await supabase
-        .from('jobs')
-        .update({ status: 'in-progress' })
-        .eq('id', jobId);
-
-      if (jobError) throw jobError;
-
-      // Refresh data
-      fetchJobDetails();
-      fetchBids();
-
-      toast({
-        title: "Success",
-        description: "Bid accepted successfully!",
-      });
-    } catch (error) {
-      console.error('Error accepting bid:', error);
-      toast({
-        title: "Error",
-        description: "Failed to accept bid",
-        variant: "destructive"
-      });
-    }
+  // WITHDRAW BID FUNCTION
+  // Only the professional who placed a pending bid can withdraw it
+  const withdrawBid = (bidId: string) => {
+    withdrawBidMutation.mutate({ bidId }, {
+      onSuccess: () => fetchBids(),
+      onSettled: () => setBidToWithdraw(null),
+    });
   };
 
   const handleStartChat = (conversationId: string) => {
@@ -210,7 +218,7 @@ const JobDetailsPage: React.FC<JobDetailsPageProps> = ({ jobId, onViewChange })
       <div className="min-h-screen bg-background flex items-center justify-center">
         <div className="text-center">
           <p className="text-lg text-muted-foreground mb-4">Job not found</p>
-          <Button onClick={() => onViewChange("browse-jobs")}>
+          <Button onClick={() => navigate(ROUTES.browseJobs)}>
             <ArrowLeft className="h-4 w-4 mr-2" />
             Back to Jobs
           </Button>
@@ -226,7 +234,7 @@ const JobDetailsPage: React.FC<JobDetailsPageProps> = ({ jobId, onViewChange })
           <Button
             variant="ghost"
             size="sm"
-            onClick={() => onViewChange(isJobPoster ? "my-jobs" : "browse-jobs")}
+            onClick={() => navigate(isJobPoster ? ROUTES.myJobs : ROUTES.browseJobs)}
             className="text-foreground hover:text-primary"
           >
             <ArrowLeft className="h-4 w-4 mr-2" />
@@ -234,6 +242,12 @@ const JobDetailsPage: React.FC<JobDetailsPageProps> = ({ jobId, onViewChange })
           </Button>
         </div>
 
+        {job.deleted_at && (
+          <div className="mb-6 p-4 bg-muted rounded-lg text-sm text-muted-foreground">
+            This job was deleted by its poster. It's kept for reference and can't receive bids.
+          </div>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Job Details */}
           <div className="lg:col-span-2">
@@ -255,9 +269,7 @@ const JobDetailsPage: React.FC<JobDetailsPageProps> = ({ jobId, onViewChange })
                       </div>
                     </div>
                   </div>
-                  <Badge variant={job.status === "open" ? "default" : "secondary"}>
-                    {job.status}
-                  </Badge>
+                  <JobStatusBadge status={effectiveJobStatus(job)} />
                 </div>
               </CardHeader>
               <CardContent className="space-y-6">
@@ -268,6 +280,8 @@ const JobDetailsPage: React.FC<JobDetailsPageProps> = ({ jobId, onViewChange })
                   </p>
                 </div>
 
+                <JobPhotoGallery jobId={job.id} canEdit={!!isCurrentUserJobPoster} />
+
                 <Separator />
 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -277,7 +291,7 @@ const JobDetailsPage: React.FC<JobDetailsPageProps> = ({ jobId, onViewChange })
                       Budget
                     </h4>
                     <p className="text-muted-foreground">
-                      {formatBudget(job.budget_min, job.budget_max, job.budget_type)}
+                      {formatBudget(budgetFromColumns(job))}
                     </p>
                   </div>
                   <div>
@@ -286,9 +300,23 @@ const JobDetailsPage: React.FC<JobDetailsPageProps> = ({ jobId, onViewChange })
                       Timeline
                     </h4>
                     <p className="text-muted-foreground">
-                      {job.timeline || "To be discussed"}
+                      {formatJobTimeline(job) || "To be discussed"}
                     </p>
                   </div>
+                  {job.bid_deadline && (
+                    <div>
+                      <h4 className="font-semibold flex items-center gap-2 mb-2">
+                        <Calendar className="h-4 w-4" />
+                        Bids Close
+                      </h4>
+                      <p className="text-muted-foreground">
+                        {formatDate(job.bid_deadline)}
+                      </p>
+                      {job.status === 'open' && (
+                        <BidDeadlineCountdown bidDeadline={job.bid_deadline} className="text-sm text-muted-foreground mt-1" />
+                      )}
+                    </div>
+                  )}
                 </div>
 
                 <Separator />
@@ -310,18 +338,43 @@ const JobDetailsPage: React.FC<JobDetailsPageProps> = ({ jobId, onViewChange })
               </CardContent>
             </Card>
 
+            <JobChangeLog jobId={job.id} since={myFirstBid?.created_at} />
+
             {/* Action buttons for bidding and communication */}
             <div className="mt-6 flex flex-col sm:flex-row gap-4">
-              {user && job.status === 'open' && !isCurrentUserJobPoster && (
+              {can('bid:create') && !bidIneligibility && (
                 <Button 
-                  onClick={() => onViewChange('submit-bid', { jobId, job })}
+                  onClick={() => navigate(paths.submitBid(jobId))}
                   className="flex-1"
                 >
                   Submit Bid
                 </Button>
               )}
+
+              {/* Why a professional can't bid (own jobs are covered below) */}
+              {bidIneligibility && bidIneligibility !== 'own_job' && (
+                <div className="flex-1 p-4 bg-muted rounded-lg text-center">
+                  <p className="text-sm font-medium">
+                    {BID_INELIGIBILITY_MESSAGES[bidIneligibility].title}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {BID_INELIGIBILITY_MESSAGES[bidIneligibility].description}
+                  </p>
+                </div>
+              )}
               
               {/* Message for job posters */}
+              {isCurrentUserJobPoster && job.status === 'open' && !job.deleted_at && (
+                <Button
+                  variant="outline"
+                  onClick={() => navigate(paths.editJob(jobId))}
+                  className="flex-1"
+                >
+                  <Pencil className="h-4 w-4 mr-2" />
+                  Edit Job
+                </Button>
+              )}
+
               {isCurrentUserJobPoster && (
                 <div className="flex-1 p-4 bg-muted rounded-lg text-center">
                   <p className="text-sm text-muted-foreground">
@@ -366,26 +419,51 @@ const JobDetailsPage: React.FC<JobDetailsPageProps> = ({ jobId, onViewChange })
                             <span className="font-semibold">
                               {bid.bidder_name || "Anonymous"}
                             </span>
-                            <Badge 
-                              variant={bid.status === "pending" ? "outline" : bid.status === "accepted" ? "default" : "destructive"}
-                              className="text-xs"
-                            >
-                              {bid.status}
-                            </Badge>
+                            <BidStatusBadge status={bid.status} className="text-xs" />
                           </div>
                           <div className="flex items-center gap-2">
                             <span className="font-bold text-primary">
-                              ${(bid.amount / 100).toLocaleString()}
+                              {formatMoney(bid.amount)}
                             </span>
                             {/* Action buttons for job poster */}
                             {isJobPoster && job?.status === 'open' && bid.status === 'pending' && (
-                              <Button
-                                size="sm"
-                                onClick={() => acceptBid(bid.id)}
-                                className="ml-2"
-                              >
-                                Accept Bid
-                              </Button>
+                              <>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => setOfferDialog({ bid, mode: 'counter' })}
+                                  className="ml-2"
+                                >
+                                  Counter
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  onClick={() => acceptBid(bid.id)}
+                                  disabled={acceptBidMutation.isPending}
+                                >
+                                  Accept Bid
+                                </Button>
+                              </>
+                            )}
+                            {/* Action buttons for the professional who placed the bid */}
+                            {bid.user_id === user?.id && job?.status === 'open' && bid.status === 'pending' && (
+                              <>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => setOfferDialog({ bid, mode: 'revise' })}
+                                  className="ml-2"
+                                >
+                                  Revise
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() => setBidToWithdraw(bid)}
+                                >
+                                  Withdraw
+                                </Button>
+                              </>
                             )}
                             {/* Chat button for communication */}
                             {bid.professional_id && (
@@ -401,9 +479,17 @@ const JobDetailsPage: React.FC<JobDetailsPageProps> = ({ jobId, onViewChange })
                           </div>
                         </div>
 
+                        {bid.platform_fee > 0 && (
+                          <div className="text-xs text-muted-foreground mb-2">
+                            {bid.user_id === user?.id ? 'You receive' : 'Professional receives'}{' '}
+                            {formatMoney(professionalPayout(bid.amount, bid.platform_fee))} after a{' '}
+                            {formatMoney(bid.platform_fee)} platform fee
+                          </div>
+                        )}
+
                         {bid.hourly_rate && bid.estimated_hours && (
                           <div className="text-sm text-muted-foreground mb-2">
-                            ${(bid.hourly_rate / 100).toLocaleString()}/hr × {bid.estimated_hours} hours
+                            {formatHourlyRate(bid.hourly_rate)} × {bid.estimated_hours} hours
                           </div>
                         )}
 
@@ -430,6 +516,16 @@ const JobDetailsPage: React.FC<JobDetailsPageProps> = ({ jobId, onViewChange })
                         <div className="text-xs text-muted-foreground mt-2">
                           Submitted {formatDate(bid.created_at)}
                         </div>
+
+                        <BidTimeline
+                          bidId={bid.id}
+                          bidStatus={bid.status}
+                          isBidder={bid.user_id === user?.id}
+                          onChange={fetchBids}
+                        />
+
+                        {/* The bidder's masked payout account */}
+                        {bid.user_id === user?.id && <BidBankDetails bidId={bid.id} />}
                       </div>
                     ))}
                   </div>
@@ -439,6 +535,38 @@ const JobDetailsPage: React.FC<JobDetailsPageProps> = ({ jobId, onViewChange })
           </div>
         </div>
 
+        {/* Revise / counter-offer dialog */}
+        {offerDialog && (
+          <BidOfferDialog
+            open={!!offerDialog}
+            onOpenChange={(open) => !open && setOfferDialog(null)}
+            mode={offerDialog.mode}
+            bid={offerDialog.bid}
+            onSuccess={fetchBids}
+          />
+        )}
+
+        {/* Withdraw confirmation */}
+        <AlertDialog open={!!bidToWithdraw} onOpenChange={(open) => !open && setBidToWithdraw(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Withdraw your bid?</AlertDialogTitle>
+              <AlertDialogDescription>
+                The job owner will no longer be able to accept it. You can't undo this.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Keep Bid</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => bidToWithdraw && withdrawBid(bidToWithdraw.id)}
+                disabled={withdrawBidMutation.isPending}
+              >
+                Withdraw Bid
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
         {/* Chat Interface */}
         {showChat && (
           <div className="mt-8">
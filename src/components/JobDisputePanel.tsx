@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { FilePlus, Scale } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { DisputeStatusBadge } from '@/components/StatusBadge';
+import { DisputeDialog } from '@/components/DisputeDialog';
+import { DisputeEvidenceList } from '@/components/DisputeEvidenceList';
+import { useAuth } from '@/hooks/useAuth';
+import { useJobDispute } from '@/hooks/useDisputes';
+import { DISPUTE_OUTCOME_LABELS, describeDisputeResolution, isDisputeActive } from '@/lib/disputes';
+import type { JobStatus } from '@/lib/status';
+
+interface JobDisputePanelProps {
+  jobId: string;
+  jobStatus: JobStatus;
+}
+
+/**
+ * JobDisputePanel Component - The dispute on an assigned job, for both parties
+ *
+ * Either side can open one while work is under way or after it is completed, add
+ * evidence until it is resolved, and see the admin's decision afterwards.
+ */
+export const JobDisputePanel = ({ jobId, jobStatus }: JobDisputePanelProps) => {
+  const { user } = useAuth();
+  const { data: dispute, isLoading } = useJobDispute(jobId);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const active = isDisputeActive(dispute);
+  const canOpen = !active && (jobStatus === 'in_progress' || jobStatus === 'completed');
+
+  if (isLoading || (!dispute && !canOpen)) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm">
+          <Scale className="h-4 w-4" />
+          <span className="font-semibold">Dispute</span>
+          {dispute ? (
+            <>
+              <DisputeStatusBadge status={dispute.status} />
+              <span className="text-muted-foreground">
+                {dispute.opened_by === user?.id ? 'Opened by you' : 'Opened by the other party'} on{' '}
+                {format(new Date(dispute.created_at), 'PP')}
+              </span>
+            </>
+          ) : (
+            <span className="text-muted-foreground">None</span>
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          {active && (
+            <Button size="sm" variant="outline" onClick={() => setDialogOpen(true)}>
+              <FilePlus className="h-4 w-4 mr-2" />
+              Add Evidence
+            </Button>
+          )}
+          {canOpen && (
+            <Button size="sm" variant="outline" onClick={() => setDialogOpen(true)}>
+              <Scale className="h-4 w-4 mr-2" />
+              {dispute ? 'Open New Dispute' : 'Open Dispute'}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {dispute && (
+        <div className="rounded-md border p-3 space-y-2">
+          <p className="text-sm whitespace-pre-wrap">{dispute.reason}</p>
+          <DisputeEvidenceList evidence={dispute.dispute_evidence} viewerId={user?.id} />
+          {active ? (
+            <p className="text-xs text-muted-foreground">
+              Payments on this job are on hold until an admin resolves the dispute.
+            </p>
+          ) : dispute.outcome && (
+            <div className="text-sm">
+              <p className="font-medium">
+                {DISPUTE_OUTCOME_LABELS[dispute.outcome]}: {describeDisputeResolution(dispute)}
+              </p>
+              {dispute.resolution_notes && (
+                <p className="text-muted-foreground whitespace-pre-wrap">{dispute.resolution_notes}</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {dialogOpen && (
+        <DisputeDialog
+          jobId={jobId}
+          dispute={active ? dispute : null}
+          onClose={() => setDialogOpen(false)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+import { format } from 'date-fns';
+import { MapPin } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { StarRating } from '@/components/StarRating';
+import { useProfessionalJobHistory } from '@/hooks/useProfessionals';
+
+interface JobHistoryListProps {
+  professionalId: string;
+}
+
+/**
+ * JobHistoryList Component - Jobs the professional has completed on the platform
+ */
+export const JobHistoryList = ({ professionalId }: JobHistoryListProps) => {
+  const { data: history = [], isLoading, error } = useProfessionalJobHistory(professionalId);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Completed Jobs ({history.length})</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-muted-foreground">Loading job history...</p>
+        ) : error ? (
+          <p className="text-muted-foreground">Error loading job history. Please try again.</p>
+        ) : history.length === 0 ? (
+          <p className="text-muted-foreground">No completed jobs on HomeConnect yet</p>
+        ) : (
+          <div className="space-y-3">
+            {history.map((entry) => (
+              <div key={entry.job_id} className="flex items-center justify-between p-3 border rounded-lg">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{entry.title}</p>
+                  <div className="flex items-center gap-3 text-sm text-muted-foreground">
+                    <Badge variant="outline" className="text-xs">{entry.category}</Badge>
+                    <span className="flex items-center">
+                      <MapPin className="h-3 w-3 mr-1" />
+                      {entry.location}
+                    </span>
+                    <span>{format(new Date(entry.completed_at), 'MMM yyyy')}</span>
+                  </div>
+                </div>
+                {entry.rating !== null && <StarRating rating={entry.rating} />}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
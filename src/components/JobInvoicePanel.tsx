@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { Download, FileText, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { InvoiceStatusBadge } from '@/components/StatusBadge';
+import { useGenerateInvoice, useJobInvoice } from '@/hooks/useInvoices';
+import { useJobPayments } from '@/hooks/usePayments';
+import { formatMoney } from '@/lib/budget';
+import { downloadInvoicePdf } from '@/lib/invoices';
+import type { JobStatus } from '@/lib/status';
+
+interface JobInvoicePanelProps {
+  jobId: string;
+  jobStatus: JobStatus;
+  viewerRole: 'owner' | 'professional';
+}
+
+/**
+ * JobInvoicePanel Component - The invoice for an assigned job, for both parties
+ *
+ * Either side can generate it once work is under way; the professional can set a
+ * tax rate until the job is funded. Unpaid invoices can be refreshed after the
+ * milestone plan changes.
+ */
+export const JobInvoicePanel = ({ jobId, jobStatus, viewerRole }: JobInvoicePanelProps) => {
+  const { data: invoice, isLoading } = useJobInvoice(jobId);
+  const { data: entries = [] } = useJobPayments(jobId);
+  const generateInvoice = useGenerateInvoice();
+  const [taxRate, setTaxRate] = useState('');
+  const [downloading, setDownloading] = useState(false);
+
+  const canGenerate = jobStatus === 'in_progress' || jobStatus === 'completed';
+  const isIssuer = viewerRole === 'professional';
+  // The charge holds the tax, so the rate is fixed from then on
+  const funded = entries.some((entry) => entry.entry_type === 'charge' && entry.status !== 'failed');
+
+  if (isLoading || (!invoice && !canGenerate)) return null;
+
+  const generate = () => {
+    generateInvoice.mutate({
+      jobId,
+      taxRate: isIssuer && taxRate !== '' ? Number(taxRate) : undefined,
+    });
+  };
+
+  const download = async () => {
+    if (!invoice) return;
+    setDownloading(true);
+    try {
+      await downloadInvoicePdf(invoice);
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm">
+          <FileText className="h-4 w-4" />
+          <span className="font-semibold">Invoice</span>
+          {invoice ? (
+            <>
+              <span className="text-muted-foreground">{invoice.invoice_number}</span>
+              <InvoiceStatusBadge status={invoice.status} />
+              <span className="text-muted-foreground">
+                {formatMoney(invoice.total)}
+                {invoice.bids && invoice.bids.platform_fee > 0 && ` · ${formatMoney(invoice.bids.platform_fee)} platform fee`}
+              </span>
+            </>
+          ) : (
+            <span className="text-muted-foreground">Not generated yet</span>
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          {canGenerate && (!invoice || invoice.status === 'unpaid') && (
+            <Button size="sm" variant="outline" onClick={generate} disabled={generateInvoice.isPending}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              {invoice ? 'Update' : 'Generate'}
+            </Button>
+          )}
+          {invoice && (
+            <Button size="sm" variant="outline" onClick={download} disabled={downloading}>
+              <Download className="h-4 w-4 mr-2" />
+              PDF
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {isIssuer && canGenerate && !funded && (!invoice || invoice.status === 'unpaid') && (
+        <div className="flex items-center gap-2">
+          <Label htmlFor={`tax-rate-${jobId}`} className="text-xs text-muted-foreground">
+            Tax rate (%)
+          </Label>
+          <Input
+            id={`tax-rate-${jobId}`}
+            type="number"
+            min="0"
+            max="100"
+            step="0.01"
+            value={taxRate}
+            onChange={(e) => setTaxRate(e.target.value)}
+            placeholder={invoice ? String(invoice.tax_rate) : '0'}
+            className="h-8 w-24"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
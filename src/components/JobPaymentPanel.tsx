@@ -0,0 +1,127 @@
+import { Ban, Banknote, RotateCcw, Wallet } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { PaymentStateBadge } from '@/components/StatusBadge';
+import { useJobDispute } from '@/hooks/useDisputes';
+import { useJobInvoice } from '@/hooks/useInvoices';
+import { useJobMilestones } from '@/hooks/useMilestones';
+import { useCancelFundedJob, useFundJob, useJobPayments, useRefundPayment, useReleasePayment } from '@/hooks/usePayments';
+import { formatMoney } from '@/lib/budget';
+import { isDisputeActive } from '@/lib/disputes';
+import { paymentState, releasableAmount, type PaymentBalance } from '@/lib/payments';
+import type { JobStatus } from '@/lib/status';
+
+interface JobPaymentPanelProps {
+  jobId: string;
+  jobStatus: JobStatus;
+  bidAmount: number;                  // Accepted bid in cents
+  balance: PaymentBalance | undefined;
+  onJobCancelled?: () => void;
+}
+
+/**
+ * JobPaymentPanel Component - Escrow for one assigned job, as the job owner sees it
+ *
+ * Fund the accepted bid, with its invoice tax, while the job is in progress,
+ * release held money as work is approved, and cancel the job and get back what's
+ * left before any work has been handed in. Nothing can be done while the job has
+ * an open dispute.
+ */
+export const JobPaymentPanel = ({ jobId, jobStatus, bidAmount, balance, onJobCancelled }: JobPaymentPanelProps) => {
+  const { data: entries = [] } = useJobPayments(jobId);
+  const { data: milestones = [] } = useJobMilestones(jobId);
+  const { data: dispute } = useJobDispute(jobId);
+  const { data: invoice } = useJobInvoice(jobId);
+  const fundJob = useFundJob();
+  const releasePayment = useReleasePayment();
+  const refundPayment = useRefundPayment();
+  const cancelJob = useCancelFundedJob();
+
+  const state = paymentState(balance);
+  const frozen = isDisputeActive(dispute);
+  const toRelease = frozen ? 0 : releasableAmount(jobStatus, bidAmount, balance, milestones, entries);
+  const canFund = !frozen && jobStatus === 'in_progress' && state === 'unfunded';
+  // Handed-in work is settled through a dispute instead (see cancel_funded_job)
+  const workHandedIn = milestones.some((milestone) => milestone.status === 'submitted' || milestone.status === 'approved');
+  const canCancel = !frozen && jobStatus === 'in_progress' && (balance?.in_escrow ?? 0) > 0 && !workHandedIn;
+  const canRefund = !frozen && jobStatus === 'cancelled' && (balance?.in_escrow ?? 0) > 0;
+  const lastEntry = entries[entries.length - 1];
+  // Funding collects the invoice's tax along with the bid (see request_job_funding)
+  const tax = invoice?.status === 'unpaid' ? invoice.tax_amount : 0;
+
+  // Nothing happened and nothing can happen (e.g. a cancelled job that was never funded)
+  if (state === 'unfunded' && !canFund && !frozen) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm">
+          <Wallet className="h-4 w-4" />
+          <span className="font-semibold">Payment</span>
+          <PaymentStateBadge state={state} />
+          {balance && balance.funded > 0 && (
+            <span className="text-muted-foreground">
+              {formatMoney(balance.in_escrow)} in escrow
+              {balance.released > 0 && ` · ${formatMoney(balance.released)} released`}
+              {balance.fees > 0 && ` · ${formatMoney(balance.fees)} fees`}
+              {balance.refunded > 0 && ` · ${formatMoney(balance.refunded)} refunded`}
+            </span>
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          {canFund && (
+            <Button size="sm" onClick={() => fundJob.mutate(jobId)} disabled={fundJob.isPending}>
+              <Wallet className="h-4 w-4 mr-2" />
+              {fundJob.isPending ? 'Processing...' : `Fund ${formatMoney(bidAmount + tax)}`}
+            </Button>
+          )}
+          {toRelease > 0 && (
+            <Button size="sm" onClick={() => releasePayment.mutate(jobId)} disabled={releasePayment.isPending}>
+              <Banknote className="h-4 w-4 mr-2" />
+              {releasePayment.isPending ? 'Releasing...' : `Release ${formatMoney(toRelease)}`}
+            </Button>
+          )}
+          {canCancel && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => cancelJob.mutate(jobId, { onSuccess: onJobCancelled })}
+              disabled={cancelJob.isPending}
+            >
+              <Ban className="h-4 w-4 mr-2" />
+              {cancelJob.isPending ? 'Cancelling...' : 'Cancel Job'}
+            </Button>
+          )}
+          {canRefund && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => refundPayment.mutate(jobId)}
+              disabled={refundPayment.isPending}
+            >
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Refund {formatMoney(balance!.in_escrow)}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {canFund && (
+        <p className="text-xs text-muted-foreground">
+          Funding holds the bid amount{tax > 0 && ' and the invoice tax'} in escrow. The professional is paid
+          as you approve their work.
+        </p>
+      )}
+      {frozen && (
+        <p className="text-xs text-muted-foreground">
+          Payments are on hold while the dispute on this job is open.
+        </p>
+      )}
+      {lastEntry?.status === 'failed' && (
+        <p className="text-xs text-destructive">
+          Last payment attempt failed{lastEntry.failure_reason ? `: ${lastEntry.failure_reason}` : ''}
+        </p>
+      )}
+    </div>
+  );
+};
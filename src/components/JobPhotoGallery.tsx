@@ -0,0 +1,160 @@
+import { useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, ImagePlus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import {
+  MAX_JOB_PHOTOS,
+  getJobPhotoUrl,
+  useDeleteJobPhoto,
+  useJobPhotos,
+  useUploadJobPhotos,
+} from '@/hooks/useJobPhotos';
+
+interface JobPhotoGalleryProps {
+  jobId: string;
+  canEdit: boolean;                   // Job owner - may add and remove photos
+}
+
+/**
+ * JobPhotoGallery Component - Thumbnail grid of a job's photos with a full-size lightbox
+ */
+export const JobPhotoGallery = ({ jobId, canEdit }: JobPhotoGalleryProps) => {
+  const { data: photos = [] } = useJobPhotos(jobId);
+  const uploadPhotos = useUploadJobPhotos();
+  const deletePhoto = useDeleteJobPhoto();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+
+  if (photos.length === 0 && !canEdit) return null;
+
+  const remaining = MAX_JOB_PHOTOS - photos.length;
+  const openPhoto = openIndex !== null ? photos[openIndex] ?? null : null;
+
+  const showPhoto = (offset: number) => {
+    if (openIndex === null) return;
+    setOpenIndex((openIndex + offset + photos.length) % photos.length);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []).slice(0, remaining);
+    if (files.length > 0) {
+      const nextPosition = photos.length > 0 ? photos[photos.length - 1].position + 1 : 0;
+      uploadPhotos.mutate({ jobId, files, startPosition: nextPosition });
+    }
+    e.target.value = '';
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">Photos</h3>
+        {canEdit && remaining > 0 && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              multiple
+              className="hidden"
+              onChange={handleFileChange}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={uploadPhotos.isPending}
+            >
+              <ImagePlus className="h-4 w-4 mr-2" />
+              {uploadPhotos.isPending ? 'Uploading...' : 'Add Photos'}
+            </Button>
+          </>
+        )}
+      </div>
+
+      {photos.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No photos yet. Photos help professionals quote accurately.</p>
+      ) : (
+        <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+          {photos.map((photo, index) => (
+            <div key={photo.id} className="relative group">
+              <button
+                type="button"
+                onClick={() => setOpenIndex(index)}
+                className="block w-full"
+                aria-label={`View photo ${index + 1}`}
+              >
+                <img
+                  src={getJobPhotoUrl(photo.image_path)}
+                  alt={`Job photo ${index + 1}`}
+                  className="w-full aspect-square object-cover rounded-md hover:opacity-90 transition-opacity"
+                  loading="lazy"
+                />
+              </button>
+              {canEdit && (
+                <Button
+                  variant="destructive"
+                  size="icon"
+                  className="absolute top-1 right-1 h-7 w-7 opacity-0 group-hover:opacity-100 transition-opacity"
+                  onClick={() => deletePhoto.mutate(photo)}
+                  disabled={deletePhoto.isPending}
+                  aria-label="Remove photo"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* LIGHTBOX */}
+      <Dialog open={openPhoto !== null} onOpenChange={(open) => !open && setOpenIndex(null)}>
+        <DialogContent
+          className="max-w-4xl p-2"
+          onKeyDown={(e) => {
+            if (e.key === 'ArrowLeft') showPhoto(-1);
+            if (e.key === 'ArrowRight') showPhoto(1);
+          }}
+        >
+          <DialogTitle className="sr-only">
+            Photo {(openIndex ?? 0) + 1} of {photos.length}
+          </DialogTitle>
+          {openPhoto && (
+            <div className="relative">
+              <img
+                src={getJobPhotoUrl(openPhoto.image_path)}
+                alt={`Job photo ${(openIndex ?? 0) + 1}`}
+                className="w-full max-h-[80vh] object-contain rounded-md"
+              />
+              {photos.length > 1 && (
+                <>
+                  <Button
+                    variant="secondary"
+                    size="icon"
+                    className="absolute left-2 top-1/2 -translate-y-1/2"
+                    onClick={() => showPhoto(-1)}
+                    aria-label="Previous photo"
+                  >
+                    <ChevronLeft className="h-5 w-5" />
+                  </Button>
+                  <Button
+                    variant="secondary"
+                    size="icon"
+                    className="absolute right-2 top-1/2 -translate-y-1/2"
+                    onClick={() => showPhoto(1)}
+                    aria-label="Next photo"
+                  >
+                    <ChevronRight className="h-5 w-5" />
+                  </Button>
+                  <p className="text-center text-sm text-muted-foreground mt-2">
+                    {(openIndex ?? 0) + 1} / {photos.length}
+                  </p>
+                </>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
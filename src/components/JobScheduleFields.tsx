@@ -0,0 +1,107 @@
+import { format, startOfDay } from 'date-fns';
+import { CalendarIcon, X } from 'lucide-react';
+import type { DateRange } from 'react-day-picker';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+import type { JobScheduleValues } from '@/lib/jobSchedule';
+
+interface JobScheduleFieldsProps {
+  values: JobScheduleValues;
+  onChange: (changes: Partial<JobScheduleValues>) => void;
+}
+
+const describeRange = (range: DateRange | undefined) => {
+  if (!range?.from) return null;
+  if (!range.to) return `From ${format(range.from, 'PPP')}`;
+  return `${format(range.from, 'PPP')} - ${format(range.to, 'PPP')}`;
+};
+
+/**
+ * JobScheduleFields Component - Optional bid deadline and desired work dates
+ *
+ * Both are optional; convert with scheduleToColumns from @/lib/jobSchedule before saving.
+ */
+export const JobScheduleFields = ({ values, onChange }: JobScheduleFieldsProps) => {
+  const today = startOfDay(new Date());
+  const rangeLabel = describeRange(values.desiredDates);
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div>
+        <Label>Bidding Deadline</Label>
+        <div className="flex gap-2 mt-1">
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button
+                type="button"
+                variant="outline"
+                className={cn('flex-1 justify-start text-left font-normal', !values.bidDeadline && 'text-muted-foreground')}
+              >
+                <CalendarIcon className="mr-2 h-4 w-4" />
+                {values.bidDeadline ? format(values.bidDeadline, 'PPP') : 'No deadline'}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <Calendar
+                mode="single"
+                selected={values.bidDeadline}
+                onSelect={(bidDeadline) => onChange({ bidDeadline })}
+                disabled={{ before: today }}
+                initialFocus
+                className="p-3 pointer-events-auto"
+              />
+            </PopoverContent>
+          </Popover>
+          {values.bidDeadline && (
+            <Button type="button" variant="ghost" size="icon" onClick={() => onChange({ bidDeadline: undefined })} aria-label="Clear bidding deadline">
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground mt-1">
+          Bidding closes at the end of this day. Jobs without an accepted bid then expire.
+        </p>
+      </div>
+
+      <div>
+        <Label>Desired Start - Completion</Label>
+        <div className="flex gap-2 mt-1">
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button
+                type="button"
+                variant="outline"
+                className={cn('flex-1 justify-start text-left font-normal', !rangeLabel && 'text-muted-foreground')}
+              >
+                <CalendarIcon className="mr-2 h-4 w-4" />
+                {rangeLabel || 'Flexible'}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <Calendar
+                mode="range"
+                selected={values.desiredDates}
+                onSelect={(desiredDates) => onChange({ desiredDates })}
+                disabled={{ before: today }}
+                numberOfMonths={2}
+                initialFocus
+                className="p-3 pointer-events-auto"
+              />
+            </PopoverContent>
+          </Popover>
+          {rangeLabel && (
+            <Button type="button" variant="ghost" size="icon" onClick={() => onChange({ desiredDates: undefined })} aria-label="Clear desired dates">
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground mt-1">
+          When you'd like the work to start and be finished.
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import { Download, FileText } from 'lucide-react';
+import type { MessageAttachment } from '@/hooks/useChat';
+import { formatFileSize, isImageAttachment } from '@/lib/attachments';
+import { cn } from '@/lib/utils';
+
+interface MessageAttachmentListProps {
+  attachments: MessageAttachment[];
+  isOwn?: boolean;                    // Styles the file links for the sender's own bubble
+}
+
+/**
+ * MessageAttachmentList Component - The files sent with a chat message
+ *
+ * Images show as thumbnails that open full size in a new tab; other files are
+ * download links with their name and size.
+ */
+export const MessageAttachmentList = ({ attachments, isOwn }: MessageAttachmentListProps) => {
+  const images = attachments.filter((attachment) => isImageAttachment(attachment.content_type) && attachment.url);
+  const files = attachments.filter((attachment) => !isImageAttachment(attachment.content_type));
+
+  if (images.length === 0 && files.length === 0) return null;
+
+  return (
+    <div className="space-y-2 mt-1">
+      {images.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {images.map((attachment) => (
+            <a key={attachment.id} href={attachment.url!} target="_blank" rel="noopener noreferrer" title={attachment.file_name}>
+              <img
+                src={attachment.url!}
+                alt={attachment.file_name}
+                className="h-32 max-w-full object-cover rounded-md hover:opacity-90 transition-opacity"
+                loading="lazy"
+              />
+            </a>
+          ))}
+        </div>
+      )}
+
+      {files.map((attachment) => (
+        <a
+          key={attachment.id}
+          href={attachment.url ?? undefined}
+          download={attachment.file_name}
+          className={cn(
+            'flex items-center gap-2 rounded-md border px-3 py-2 text-sm hover:opacity-90',
+            isOwn ? 'border-primary-foreground/30' : 'bg-background',
+            !attachment.url && 'pointer-events-none opacity-60'
+          )}
+        >
+          <FileText className="h-4 w-4 shrink-0" />
+          <span className="flex-1 min-w-0">
+            <span className="block truncate">{attachment.file_name}</span>
+            <span className={cn('text-xs', isOwn ? 'text-primary-foreground/70' : 'text-muted-foreground')}>
+              {formatFileSize(attachment.size_bytes)}
+            </span>
+          </span>
+          <Download className="h-4 w-4 shrink-0" />
+        </a>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import { useSearchParams } from 'react-router-dom';
+import ChatInterface from '@/components/ChatInterface';
+
+/**
+ * MessagesPage Component - The inbox: every conversation the user is part of
+ *
+ * ?conversation=<id> opens that conversation, so chat buttons elsewhere in the
+ * app can link straight to it.
+ */
+const MessagesPage = () => {
+  const [searchParams] = useSearchParams();
+  const conversationId = searchParams.get('conversation') ?? undefined;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8">
+        {/* PAGE HEADER */}
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold text-primary mb-2">Messages</h1>
+          <p className="text-lg text-muted-foreground">
+            Conversations with job owners and professionals about your jobs
+          </p>
+        </div>
+
+        {/* Remounted per linked conversation so following a new link opens it */}
+        <ChatInterface
+          key={conversationId ?? 'inbox'}
+          initialConversationId={conversationId}
+          className="h-[70vh] min-h-[500px] max-w-6xl"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default MessagesPage;
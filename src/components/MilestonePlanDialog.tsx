@@ -0,0 +1,167 @@
+import { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useSetJobMilestones, type Milestone } from '@/hooks/useMilestones';
+import { dollarsToCents, formatMoney } from '@/lib/budget';
+
+interface MilestonePlanDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  jobId: string;
+  bidAmount: number;                  // Accepted bid in cents; the plan has to add up to it
+  milestones: Milestone[];            // Current plan, used as the starting rows
+}
+
+// A row as typed: amounts in dollars, dates as yyyy-mm-dd
+interface PlanRow {
+  key: string;
+  description: string;
+  amount: string;
+  dueDate: string;
+}
+
+const emptyRow = (): PlanRow => ({ key: crypto.randomUUID(), description: '', amount: '', dueDate: '' });
+
+const rowsFromMilestones = (milestones: Milestone[]): PlanRow[] =>
+  milestones.length > 0
+    ? milestones.map((milestone) => ({
+        key: milestone.id,
+        description: milestone.description,
+        amount: (milestone.amount / 100).toString(),
+        dueDate: milestone.due_date ?? '',
+      }))
+    : [emptyRow()];
+
+/**
+ * MilestonePlanDialog Component - Split an assigned job into milestones
+ *
+ * Each milestone gets a description, its share of the accepted bid and an optional
+ * due date. The shares must add up to the bid before the plan can be saved.
+ * The rows start from `milestones` when the dialog mounts, so render it only while open.
+ */
+export const MilestonePlanDialog = ({ open, onOpenChange, jobId, bidAmount, milestones }: MilestonePlanDialogProps) => {
+  const [rows, setRows] = useState<PlanRow[]>(() => rowsFromMilestones(milestones));
+  const setJobMilestones = useSetJobMilestones();
+
+  // Blank or unreadable amounts count as zero in the running total
+  const total = rows.reduce((sum, row) => sum + (dollarsToCents(row.amount) || 0), 0);
+  const remaining = bidAmount - total;
+  const isComplete = rows.every((row) => row.description.trim() && dollarsToCents(row.amount) > 0);
+  const canSave = isComplete && remaining === 0;
+
+  const updateRow = (key: string, changes: Partial<PlanRow>) =>
+    setRows((current) => current.map((row) => (row.key === key ? { ...row, ...changes } : row)));
+
+  const handleSave = () => {
+    setJobMilestones.mutate(
+      {
+        jobId,
+        milestones: rows.map((row) => ({
+          description: row.description.trim(),
+          amount: dollarsToCents(row.amount),
+          due_date: row.dueDate || null,
+        })),
+      },
+      { onSuccess: () => onOpenChange(false) }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Plan Milestones</DialogTitle>
+          <DialogDescription>
+            Break the work into steps. The homeowner approves each step as it's finished, and the job is
+            completed when every milestone is approved.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {rows.map((row, index) => (
+            <div key={row.key} className="grid grid-cols-12 gap-2 items-end">
+              <div className="col-span-12 sm:col-span-6">
+                <Label htmlFor={`milestone-description-${row.key}`} className="text-xs">
+                  Milestone {index + 1}
+                </Label>
+                <Input
+                  id={`milestone-description-${row.key}`}
+                  value={row.description}
+                  onChange={(e) => updateRow(row.key, { description: e.target.value })}
+                  placeholder="e.g. Remove old cabinets"
+                />
+              </div>
+              <div className="col-span-5 sm:col-span-2">
+                <Label htmlFor={`milestone-amount-${row.key}`} className="text-xs">Amount ($)</Label>
+                <Input
+                  id={`milestone-amount-${row.key}`}
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  inputMode="decimal"
+                  value={row.amount}
+                  onChange={(e) => updateRow(row.key, { amount: e.target.value })}
+                />
+              </div>
+              <div className="col-span-5 sm:col-span-3">
+                <Label htmlFor={`milestone-due-${row.key}`} className="text-xs">Due (optional)</Label>
+                <Input
+                  id={`milestone-due-${row.key}`}
+                  type="date"
+                  value={row.dueDate}
+                  onChange={(e) => updateRow(row.key, { dueDate: e.target.value })}
+                />
+              </div>
+              <div className="col-span-2 sm:col-span-1">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setRows((current) => current.filter((r) => r.key !== row.key))}
+                  disabled={rows.length === 1}
+                  aria-label={`Remove milestone ${index + 1}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          <Button variant="outline" size="sm" onClick={() => setRows((current) => [...current, emptyRow()])}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Milestone
+          </Button>
+
+          <div className="flex justify-between text-sm border-t pt-3">
+            <span>
+              Total {formatMoney(total)} of {formatMoney(bidAmount)}
+            </span>
+            {remaining !== 0 && (
+              <span className="text-destructive">
+                {remaining > 0 ? `${formatMoney(remaining)} left to assign` : `${formatMoney(-remaining)} over the bid`}
+              </span>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave || setJobMilestones.isPending}>
+            {setJobMilestones.isPending ? 'Saving...' : 'Save Plan'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,349 @@
+import { useRef, useState } from 'react';
+import { Check, Flag, ImagePlus, ListChecks, Pencil, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Textarea } from '@/components/ui/textarea';
+import { MilestonePlanDialog } from '@/components/MilestonePlanDialog';
+import {
+  useApproveMilestone,
+  useDisputeMilestone,
+  useJobMilestones,
+  useMilestonePhotos,
+  useSubmitMilestone,
+  type Milestone,
+} from '@/hooks/useMilestones';
+import { formatMoney } from '@/lib/budget';
+import {
+  MILESTONE_STATUS_BADGE_VARIANTS,
+  MILESTONE_STATUS_LABELS,
+  canSubmitMilestone,
+  formatMilestoneDue,
+  isMilestoneOverdue,
+  isMilestonePlanEditable,
+  milestoneProgress,
+} from '@/lib/milestones';
+import type { JobStatus } from '@/lib/status';
+
+// Completion photos a professional can attach to one submission
+const MAX_SUBMISSION_PHOTOS = 6;
+
+interface MilestoneTrackerProps {
+  jobId: string;
+  jobStatus: JobStatus;
+  bidAmount: number;                  // Accepted bid in cents
+  viewerRole: 'owner' | 'professional';
+  onJobCompleted?: () => void;        // Called after the last milestone is approved
+}
+
+// Thumbnails of a milestone's completion photos (signed links, opened in a new tab)
+const MilestonePhotoStrip = ({ milestoneId }: { milestoneId: string }) => {
+  const { data: photos = [] } = useMilestonePhotos(milestoneId);
+
+  if (photos.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2 mt-2">
+      {photos.filter((photo) => photo.url).map((photo, index) => (
+        <a key={photo.id} href={photo.url!} target="_blank" rel="noopener noreferrer">
+          <img
+            src={photo.url!}
+            alt={`Completion photo ${index + 1}`}
+            className="h-16 w-16 object-cover rounded-md hover:opacity-90 transition-opacity"
+            loading="lazy"
+          />
+        </a>
+      ))}
+    </div>
+  );
+};
+
+// Professional marks a milestone done, with an optional note and photos
+const SubmitMilestoneDialog = ({ milestone, onClose }: { milestone: Milestone; onClose: () => void }) => {
+  const [note, setNote] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const submitMilestone = useSubmitMilestone();
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = Array.from(e.target.files || []);
+    setFiles((current) => [...current, ...picked].slice(0, MAX_SUBMISSION_PHOTOS));
+    e.target.value = '';
+  };
+
+  const handleSubmit = () => {
+    submitMilestone.mutate(
+      { milestone, note: note.trim(), files },
+      { onSuccess: onClose }
+    );
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Mark Milestone Done</DialogTitle>
+          <DialogDescription>
+            "{milestone.description}" will be sent to the homeowner for approval.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="milestone-note">Note (optional)</Label>
+            <Textarea
+              id="milestone-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="What was done, anything the homeowner should check"
+              rows={3}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Photos (optional)</Label>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/*"
+                multiple
+                className="hidden"
+                onChange={handleFileChange}
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={files.length >= MAX_SUBMISSION_PHOTOS}
+              >
+                <ImagePlus className="h-4 w-4 mr-2" />
+                Add Photos
+              </Button>
+            </div>
+            {files.length > 0 && (
+              <ul className="text-sm space-y-1">
+                {files.map((file, index) => (
+                  <li key={`${file.name}-${index}`} className="flex items-center justify-between">
+                    <span className="truncate">{file.name}</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => setFiles((current) => current.filter((_, i) => i !== index))}
+                      aria-label={`Remove ${file.name}`}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={submitMilestone.isPending}>
+            {submitMilestone.isPending ? 'Submitting...' : 'Submit for Approval'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+// Job owner sends submitted work back with a reason
+const DisputeMilestoneDialog = ({ milestone, onClose }: { milestone: Milestone; onClose: () => void }) => {
+  const [reason, setReason] = useState('');
+  const disputeMilestone = useDisputeMilestone();
+
+  const handleSubmit = () => {
+    disputeMilestone.mutate(
+      { milestone, reason: reason.trim() },
+      { onSuccess: onClose }
+    );
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Dispute Milestone</DialogTitle>
+          <DialogDescription>
+            Tell the professional what still needs work on "{milestone.description}". They can fix it and submit it again.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="dispute-reason">What needs to be fixed?</Label>
+          <Textarea
+            id="dispute-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={4}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleSubmit}
+            disabled={!reason.trim() || disputeMilestone.isPending}
+          >
+            {disputeMilestone.isPending ? 'Sending...' : 'Dispute'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+/**
+ * MilestoneTracker Component - Milestone plan and progress for an assigned job
+ *
+ * Shared by the professional (Assigned Jobs) and the job owner (My Jobs). Both can
+ * plan milestones until work is submitted; the professional marks them done and the
+ * owner approves or disputes them. Approving the last milestone completes the job.
+ */
+export const MilestoneTracker = ({ jobId, jobStatus, bidAmount, viewerRole, onJobCompleted }: MilestoneTrackerProps) => {
+  const { data: milestones = [], isLoading } = useJobMilestones(jobId);
+  const approveMilestone = useApproveMilestone();
+  const [planOpen, setPlanOpen] = useState(false);
+  const [submitting, setSubmitting] = useState<Milestone | null>(null);
+  const [disputing, setDisputing] = useState<Milestone | null>(null);
+
+  if (isLoading) return null;
+
+  const isActive = jobStatus === 'in_progress';
+  // Closed jobs without a plan have nothing to show
+  if (milestones.length === 0 && !isActive) return null;
+
+  const progress = milestoneProgress(milestones);
+
+  const approve = (milestone: Milestone) => {
+    const isLast = milestones.every((other) => other.id === milestone.id || other.status === 'approved');
+    approveMilestone.mutate(milestone, {
+      onSuccess: () => {
+        if (isLast) onJobCompleted?.();
+      }
+    });
+  };
+  const canEditPlan = isActive && isMilestonePlanEditable(milestones);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold flex items-center gap-2">
+          <ListChecks className="h-4 w-4" />
+          Milestones
+        </h4>
+        {canEditPlan && (
+          <Button variant="outline" size="sm" onClick={() => setPlanOpen(true)}>
+            <Pencil className="h-4 w-4 mr-2" />
+            {milestones.length > 0 ? 'Edit Plan' : 'Plan Milestones'}
+          </Button>
+        )}
+      </div>
+
+      {milestones.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No milestones yet. Split the work into steps so progress can be tracked and approved as it happens.
+        </p>
+      ) : (
+        <>
+          <div className="space-y-1">
+            <Progress value={progress.percent} className="h-2" />
+            <p className="text-xs text-muted-foreground">
+              {progress.approved} of {progress.total} approved · {progress.percent}% of the work value
+            </p>
+          </div>
+
+          <ol className="space-y-3">
+            {milestones.map((milestone, index) => (
+              <li key={milestone.id} className="border rounded-lg p-3 text-sm">
+                <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-medium">
+                      {index + 1}. {milestone.description}
+                    </p>
+                    <p className="text-muted-foreground">
+                      {formatMoney(milestone.amount)}
+                      {milestone.due_date && (
+                        <span className={isMilestoneOverdue(milestone) ? 'text-destructive' : undefined}>
+                          {' · '}{formatMilestoneDue(milestone.due_date)}
+                        </span>
+                      )}
+                    </p>
+                  </div>
+                  <Badge variant={MILESTONE_STATUS_BADGE_VARIANTS[milestone.status]} className="self-start">
+                    {MILESTONE_STATUS_LABELS[milestone.status]}
+                  </Badge>
+                </div>
+
+                {milestone.completion_note && milestone.status !== 'pending' && (
+                  <p className="mt-2 text-muted-foreground">"{milestone.completion_note}"</p>
+                )}
+                {milestone.status === 'disputed' && milestone.dispute_reason && (
+                  <p className="mt-2 text-destructive">Disputed: {milestone.dispute_reason}</p>
+                )}
+
+                <MilestonePhotoStrip milestoneId={milestone.id} />
+
+                {isActive && viewerRole === 'professional' && canSubmitMilestone(milestone.status) && (
+                  <Button size="sm" className="mt-3" onClick={() => setSubmitting(milestone)}>
+                    <Check className="h-4 w-4 mr-2" />
+                    {milestone.status === 'disputed' ? 'Submit Again' : 'Mark Done'}
+                  </Button>
+                )}
+
+                {isActive && viewerRole === 'owner' && milestone.status === 'submitted' && (
+                  <div className="flex gap-2 mt-3">
+                    <Button
+                      size="sm"
+                      onClick={() => approve(milestone)}
+                      disabled={approveMilestone.isPending}
+                    >
+                      <Check className="h-4 w-4 mr-2" />
+                      Approve
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => setDisputing(milestone)}>
+                      <Flag className="h-4 w-4 mr-2" />
+                      Dispute
+                    </Button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ol>
+        </>
+      )}
+
+      {planOpen && (
+        <MilestonePlanDialog
+          open
+          onOpenChange={setPlanOpen}
+          jobId={jobId}
+          bidAmount={bidAmount}
+          milestones={milestones}
+        />
+      )}
+      {submitting && <SubmitMilestoneDialog milestone={submitting} onClose={() => setSubmitting(null)} />}
+      {disputing && <DisputeMilestoneDialog milestone={disputing} onClose={() => setDisputing(null)} />}
+    </div>
+  );
+};
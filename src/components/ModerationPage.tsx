@@ -0,0 +1,211 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Eye, Gavel, Scale } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Textarea } from '@/components/ui/textarea';
+import { ModerationStatusBadge } from '@/components/StatusBadge';
+import {
+  useModerationCases,
+  useResolveModerationCase,
+  useStartModerationReview,
+  type ModerationCase,
+} from '@/hooks/useModeration';
+import { MODERATION_OUTCOME_LABELS, REPORT_REASON_LABELS, type ModerationOutcome } from '@/lib/moderation';
+import { paths } from '@/lib/routes';
+
+const OUTCOMES: ModerationOutcome[] = ['dismissed', 'message_removed'];
+
+// Admin dismisses the report or removes the message from the conversation
+const ResolveCaseDialog = ({ moderationCase, onClose }: { moderationCase: ModerationCase; onClose: () => void }) => {
+  const [outcome, setOutcome] = useState<ModerationOutcome>('dismissed');
+  const [notes, setNotes] = useState('');
+  const resolveCase = useResolveModerationCase();
+
+  const handleSubmit = () => {
+    resolveCase.mutate(
+      { caseId: moderationCase.id, outcome, notes: notes.trim() || undefined },
+      { onSuccess: onClose }
+    );
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Resolve Report</DialogTitle>
+          <DialogDescription>
+            Removing the message replaces it with "This message was deleted" in the conversation and resolves
+            every other report about it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup value={outcome} onValueChange={(value) => setOutcome(value as ModerationOutcome)}>
+            {OUTCOMES.map((value) => (
+              <div key={value} className="flex items-center gap-2">
+                <RadioGroupItem value={value} id={`moderation-outcome-${value}`} />
+                <Label htmlFor={`moderation-outcome-${value}`}>{MODERATION_OUTCOME_LABELS[value]}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          <div className="space-y-2">
+            <Label htmlFor="moderation-notes">Internal notes (optional)</Label>
+            <Textarea
+              id="moderation-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Why the report was dismissed or the message removed"
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={resolveCase.isPending}>
+            {resolveCase.isPending ? 'Resolving...' : 'Resolve'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+/**
+ * ModerationPage Component - The admin queue of reported chat messages
+ *
+ * Admins pick up reports, read the message as it was reported and either dismiss
+ * the report or remove the message.
+ */
+const ModerationPage = () => {
+  const { data: cases = [], isLoading } = useModerationCases();
+  const startReview = useStartModerationReview();
+  const [resolving, setResolving] = useState<ModerationCase | null>(null);
+
+  const active = cases.filter((moderationCase) => moderationCase.status !== 'resolved');
+  const resolved = cases.filter((moderationCase) => moderationCase.status === 'resolved');
+
+  const renderCase = (moderationCase: ModerationCase) => (
+    <Card key={moderationCase.id}>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-2">
+          <div>
+            <CardTitle className="text-lg">{REPORT_REASON_LABELS[moderationCase.reason]}</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Reported on {format(new Date(moderationCase.created_at), 'PPp')}
+              {moderationCase.jobs && ` · ${moderationCase.jobs.title}`}
+            </p>
+          </div>
+          <ModerationStatusBadge status={moderationCase.status} />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <blockquote className="border-l-2 pl-3 text-sm whitespace-pre-wrap">
+          {moderationCase.message_content || <span className="italic text-muted-foreground">Attachments only</span>}
+        </blockquote>
+        {moderationCase.details && (
+          <p className="text-sm text-muted-foreground whitespace-pre-wrap">{moderationCase.details}</p>
+        )}
+
+        {moderationCase.outcome && (
+          <div className="text-sm">
+            <p className="font-medium">{MODERATION_OUTCOME_LABELS[moderationCase.outcome]}</p>
+            {moderationCase.resolution_notes && (
+              <p className="text-muted-foreground whitespace-pre-wrap">{moderationCase.resolution_notes}</p>
+            )}
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {moderationCase.job_id && (
+            <Button variant="outline" size="sm" asChild>
+              <Link to={paths.jobDetails(moderationCase.job_id)}>
+                <Eye className="h-4 w-4 mr-2" />
+                View Job
+              </Link>
+            </Button>
+          )}
+          {moderationCase.status === 'open' && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => startReview.mutate(moderationCase.id)}
+              disabled={startReview.isPending}
+            >
+              <Scale className="h-4 w-4 mr-2" />
+              Start Review
+            </Button>
+          )}
+          {moderationCase.status !== 'resolved' && (
+            <Button size="sm" onClick={() => setResolving(moderationCase)}>
+              <Gavel className="h-4 w-4 mr-2" />
+              Resolve
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8">
+        {/* PAGE HEADER */}
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold text-primary mb-2">Reports</h1>
+          <p className="text-lg text-muted-foreground">
+            Chat messages reported by the people who received them
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <Tabs defaultValue="active">
+            <TabsList>
+              <TabsTrigger value="active">Active ({active.length})</TabsTrigger>
+              <TabsTrigger value="resolved">Resolved ({resolved.length})</TabsTrigger>
+            </TabsList>
+            <TabsContent value="active" className="space-y-4">
+              {active.length === 0 ? (
+                <p className="text-muted-foreground py-8 text-center">No reports need attention</p>
+              ) : (
+                // Oldest first, so nothing waits longer than it has to
+                [...active].reverse().map(renderCase)
+              )}
+            </TabsContent>
+            <TabsContent value="resolved" className="space-y-4">
+              {resolved.length === 0 ? (
+                <p className="text-muted-foreground py-8 text-center">No resolved reports yet</p>
+              ) : (
+                resolved.map(renderCase)
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+      </div>
+
+      {resolving && <ResolveCaseDialog moderationCase={resolving} onClose={() => setResolving(null)} />}
+    </div>
+  );
+};
+
+export default ModerationPage;
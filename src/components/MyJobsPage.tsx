@@ -1,31 +1,51 @@
 import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Separator } from '@/components/ui/separator';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { useToast } from '@/hooks/use-toast';
-import { ArrowLeft, MapPin, Calendar, DollarSign, Eye, Users, MessageCircle, Check, X } from 'lucide-react';
+import { ArrowLeft, MapPin, Calendar, DollarSign, Eye, Users, MessageCircle, Check, X, Star, Pencil, Copy, Trash2 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { useAcceptBid, useRejectBid } from '@/hooks/useBids';
+import { useDeleteJob, useRepostJob } from '@/hooks/useJobs';
+import { useMyReviews } from '@/hooks/useReviews';
+import { useJobPaymentBalances } from '@/hooks/usePayments';
 import ChatButton from '@/components/ChatButton';
+import { JobStatusBadge } from '@/components/StatusBadge';
+import { ReviewDialog } from '@/components/ReviewDialog';
+import { MilestoneTracker } from '@/components/MilestoneTracker';
+import { JobPaymentPanel } from '@/components/JobPaymentPanel';
+import { JobInvoicePanel } from '@/components/JobInvoicePanel';
+import { JobDisputePanel } from '@/components/JobDisputePanel';
+import { BidDeadlineCountdown } from '@/components/BidDeadlineCountdown';
+import { JOB_STATUS_LABELS, getJobStatusOptions, type BidStatus, type JobStatus } from '@/lib/status';
+import { budgetFromColumns, formatBudget, formatMoney, type BudgetColumns } from '@/lib/budget';
+import { holdsEscrow } from '@/lib/payments';
 import { format } from 'date-fns';
+import { ROUTES, paths } from '@/lib/routes';
 
-interface MyJobsPageProps {
-  onViewChange: (view: string, data?: any) => void;
-}
-
-interface Job {
+interface Job extends BudgetColumns {
   id: string;
   title: string;
   description: string;
   location: string;
   category: string;
-  budget_min?: number;
-  budget_max?: number;
-  budget_type: string;
   timeline?: string;
-  status: string;
+  status: JobStatus;
+  bid_deadline?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -41,17 +61,30 @@ interface Bid {
   hourly_rate?: number;
   estimated_hours?: number;
   message?: string;
-  status: string;
+  status: BidStatus;
   created_at: string;
 }
 
-const MyJobsPage: React.FC<MyJobsPageProps> = ({ onViewChange }) => {
+const MyJobsPage: React.FC = () => {
+  const navigate = useNavigate();
   const { user } = useAuth();
   const { toast } = useToast();
+  const acceptBidMutation = useAcceptBid();
+  const rejectBidMutation = useRejectBid();
+  const deleteJobMutation = useDeleteJob();
+  const repostJobMutation = useRepostJob();
+  const [jobToDelete, setJobToDelete] = useState<Job | null>(null);
   const [jobs, setJobs] = useState<Job[]>([]);
   const [jobBids, setJobBids] = useState<Record<string, Bid[]>>({});
   const [loading, setLoading] = useState(true);
-  const [chatDialogOpen, setChatDialogOpen] = useState(false);
+  const [reviewJob, setReviewJob] = useState<{ job: Job; bid: Bid } | null>(null);
+  const { data: myReviews = [] } = useMyReviews(user?.id);
+  const reviewedJobIds = new Set(myReviews.map(review => review.job_id));
+  // Escrow balances for jobs that have an accepted bid
+  const assignedJobIds = jobs
+    .filter(job => jobBids[job.id]?.some(bid => bid.status === 'accepted'))
+    .map(job => job.id);
+  const { data: paymentBalances = {} } = useJobPaymentBalances(assignedJobIds);
 
   useEffect(() => {
     if (user) {
@@ -68,6 +101,7 @@ const MyJobsPage: React.FC<MyJobsPageProps> = ({ onViewChange }) => {
         .from('jobs')
         .select('*')
         .eq('user_id', user.id)
+        .is('deleted_at', null)
         .order('created_at', { ascending: false });
 
       if (jobsError) throw jobsError;
@@ -105,7 +139,7 @@ const MyJobsPage: React.FC<MyJobsPageProps> = ({ onViewChange }) => {
     }
   };
 
-  const updateJobStatus = async (jobId: string, newStatus: string) => {
+  const updateJobStatus = async (jobId: string, newStatus: JobStatus) => {
     try {
       const { error } = await supabase
         .from('jobs')
@@ -121,118 +155,68 @@ const MyJobsPage: React.FC<MyJobsPageProps> = ({ onViewChange }) => {
 
       toast({
         title: "Success",
-        description: `Job status updated to ${newStatus}`,
+        description: `Job status updated to ${JOB_STATUS_LABELS[newStatus]}`,
       });
     } catch (error) {
       console.error('Error updating job status:', error);
       toast({
         title: "Error",
-        description: "Failed to update job status",
+        description: error instanceof Error ? error.message : "Failed to update job status",
         variant: "destructive"
       });
     }
   };
 
-  const acceptBid = async (bidId: string, jobId: string) => {
-    try {
-      // Update the accepted bid status
-      const { error: bidError } = await supabase
-        .from('bids')
-        .update({ status: 'accepted' })
-        .eq('id', bidId);
-
-      if (bidError) throw bidError;
-
-      // Reject all other bids for this job
-      const { error: rejectError } = await supabase
-        .from('bids')
-        .update({ status: 'rejected' })
-        .eq('job_id', jobId)
-        .neq('id', bidId);
-
-      if (rejectError) throw rejectError;
-
-      // Update job status to in-progress
-      await updateJobStatus(jobId, 'in-progress');
-
-      // Update local state
-      setJobBids(prev => ({
-        ...prev,
-        [jobId]: prev[jobId]?.map(bid => ({
-          ...bid,
-          status: bid.id === bidId ? 'accepted' : 'rejected'
-        })) || []
-      }));
-
-      toast({
-        title: "Success",
-        description: "Bid accepted successfully!",
-      });
-    } catch (error) {
-      console.error('Error accepting bid:', error);
-      toast({
-        title: "Error",
-        description: "Failed to accept bid",
-        variant: "destructive"
-      });
-    }
+  const acceptBid = (bidId: string, jobId: string) => {
+    acceptBidMutation.mutate(bidId, {
+      onSuccess: () => {
+        // Mirror the server-side transaction in local state
+        setJobs(prev => prev.map(job =>
+          job.id === jobId ? { ...job, status: 'in_progress' } : job
+        ));
+        setJobBids(prev => ({
+          ...prev,
+          [jobId]: prev[jobId]?.map(bid => ({
+            ...bid,
+            status: bid.id === bidId ? 'accepted' : bid.status === 'pending' ? 'rejected' : bid.status
+          })) || []
+        }));
+      }
+    });
   };
 
-  const rejectBid = async (bidId: string, jobId: string) => {
-    try {
-      const { error } = await supabase
-        .from('bids')
-        .update({ status: 'rejected' })
-        .eq('id', bidId);
-
-      if (error) throw error;
-
-      // Update local state
-      setJobBids(prev => ({
-        ...prev,
-        [jobId]: prev[jobId]?.map(bid => 
-          bid.id === bidId ? { ...bid, status: 'rejected' } : bid
-        ) || []
-      }));
-
-      toast({
-        title: "Success",
-        description: "Bid rejected",
-      });
-    } catch (error) {
-      console.error('Error rejecting bid:', error);
-      toast({
-        title: "Error",
-        description: "Failed to reject bid",
-        variant: "destructive"
-      });
-    }
+  const rejectBid = (bidId: string, jobId: string) => {
+    rejectBidMutation.mutate(bidId, {
+      onSuccess: () => {
+        setJobBids(prev => ({
+          ...prev,
+          [jobId]: prev[jobId]?.map(bid =>
+            bid.id === bidId ? { ...bid, status: 'rejected' } : bid
+          ) || []
+        }));
+      }
+    });
   };
 
-  const formatBudget = (min?: number, max?: number, type?: string) => {
-    if (!min && !max) return "Budget not specified";
-    if (type === "fixed" && min) return `$${(min / 100).toLocaleString()}`;
-    if (min && max) return `$${(min / 100).toLocaleString()} - $${(max / 100).toLocaleString()}`;
-    return `$${((min || max)! / 100).toLocaleString()}`;
+  // Repost opens the copy for editing, since it usually needs a new deadline
+  const repostJob = (jobId: string) => {
+    repostJobMutation.mutate(jobId, {
+      onSuccess: (newJobId) => navigate(paths.editJob(newJobId))
+    });
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'open': return 'default';
-      case 'in-progress': return 'secondary';
-      case 'completed': return 'outline';
-      case 'cancelled': return 'destructive';
-      default: return 'default';
-    }
+  const confirmDeleteJob = () => {
+    if (!jobToDelete) return;
+    const jobId = jobToDelete.id;
+    deleteJobMutation.mutate(jobId, {
+      onSuccess: () => setJobs(prev => prev.filter(job => job.id !== jobId))
+    });
+    setJobToDelete(null);
   };
 
+  // Chats open in the inbox, on the conversation with that professional
   const handleStartChat = (conversationId: string) => {
-    setChatDialogOpen(true);
-    // You can implement chat dialog opening logic here
-    toast({
-      title: "Chat Started",
-      description: "Chat functionality will open here",
-    });
+    navigate(paths.conversation(conversationId));
   };
 
   if (loading) {
@@ -250,7 +234,7 @@ const MyJobsPage: React.FC<MyJobsPageProps> = ({ onViewChange }) => {
           <Button
             variant="ghost"
             size="sm"
-            onClick={() => onViewChange("home")}
+            onClick={() => navigate(ROUTES.home)}
             className="text-foreground hover:text-primary"
           >
             <ArrowLeft className="h-4 w-4 mr-2" />
@@ -263,7 +247,7 @@ const MyJobsPage: React.FC<MyJobsPageProps> = ({ onViewChange }) => {
             <h1 className="text-3xl font-bold text-foreground">My Jobs</h1>
             <p className="text-muted-foreground">Manage your posted jobs and review bids</p>
           </div>
-          <Button onClick={() => onViewChange('post-job')}>
+          <Button onClick={() => navigate(ROUTES.postJob)}>
             Post New Job
           </Button>
         </div>
@@ -272,7 +256,7 @@ const MyJobsPage: React.FC<MyJobsPageProps> = ({ onViewChange }) => {
           <Card>
             <CardContent className="text-center py-12">
               <p className="text-muted-foreground mb-4">You haven't posted any jobs yet</p>
-              <Button onClick={() => onViewChange('post-job')}>
+              <Button onClick={() => navigate(ROUTES.postJob)}>
                 Post Your First Job
               </Button>
             </CardContent>
@@ -283,6 +267,11 @@ const MyJobsPage: React.FC<MyJobsPageProps> = ({ onViewChange }) => {
               const bids = jobBids[job.id] || [];
               const acceptedBid = bids.find(bid => bid.status === 'accepted');
               const pendingBids = bids.filter(bid => bid.status === 'pending');
+              const myReview = myReviews.find(review => review.job_id === job.id);
+              // A funded job is cancelled from its payment panel, which checks no work was handed in
+              const statusOptions = getJobStatusOptions(job.status).filter(status =>
+                !(status === 'cancelled' && job.status === 'in_progress' && holdsEscrow(paymentBalances[job.id]))
+              );
 
               return (
                 <Card key={job.id} className="overflow-hidden">
@@ -303,26 +292,29 @@ const MyJobsPage: React.FC<MyJobsPageProps> = ({ onViewChange }) => {
                           </div>
                           <div className="flex items-center gap-1">
                             <DollarSign className="h-4 w-4" />
-                            {formatBudget(job.budget_min, job.budget_max, job.budget_type)}
+                            {formatBudget(budgetFromColumns(job))}
                           </div>
+                          {job.status === 'open' && job.bid_deadline && (
+                            <BidDeadlineCountdown bidDeadline={job.bid_deadline} />
+                          )}
                         </div>
                       </div>
                       <div className="flex items-center gap-2">
-                        <Badge variant={getStatusColor(job.status)}>
-                          {job.status}
-                        </Badge>
+                        <JobStatusBadge status={job.status} />
                         <Select
                           value={job.status}
-                          onValueChange={(value) => updateJobStatus(job.id, value)}
+                          onValueChange={(value) => updateJobStatus(job.id, value as JobStatus)}
+                          disabled={statusOptions.length === 1}
                         >
                           <SelectTrigger className="w-32">
                             <SelectValue />
                           </SelectTrigger>
                           <SelectContent>
-                            <SelectItem value="open">Open</SelectItem>
-                            <SelectItem value="in-progress">In Progress</SelectItem>
-                            <SelectItem value="completed">Completed</SelectItem>
-                            <SelectItem value="cancelled">Cancelled</SelectItem>
+                            {statusOptions.map((status) => (
+                              <SelectItem key={status} value={status}>
+                                {JOB_STATUS_LABELS[status]}
+                              </SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
                       </div>
@@ -340,19 +332,65 @@ const MyJobsPage: React.FC<MyJobsPageProps> = ({ onViewChange }) => {
                         </div>
                         {acceptedBid && (
                           <Badge variant="secondary">
-                            Bid Accepted: ${(acceptedBid.amount / 100).toLocaleString()}
+                            Bid Accepted: {formatMoney(acceptedBid.amount)}
+                          </Badge>
+                        )}
+                        {myReview && (
+                          <Badge variant="outline">
+                            <Star className="h-3 w-3 mr-1 fill-yellow-400 text-yellow-400" />
+                            You rated {myReview.rating}/5
                           </Badge>
                         )}
                       </div>
                       <div className="flex gap-2">
+                        {job.status === 'completed' && acceptedBid && !reviewedJobIds.has(job.id) && (
+                          <Button
+                            size="sm"
+                            onClick={() => setReviewJob({ job, bid: acceptedBid })}
+                          >
+                            <Star className="h-4 w-4 mr-2" />
+                            Leave a Review
+                          </Button>
+                        )}
                         <Button
                           variant="outline"
                           size="sm"
-                          onClick={() => onViewChange('job-details', { jobId: job.id })}
+                          onClick={() => navigate(paths.jobDetails(job.id))}
                         >
                           <Eye className="h-4 w-4 mr-2" />
                           View Details
                         </Button>
+                        {job.status === 'open' && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => navigate(paths.editJob(job.id))}
+                          >
+                            <Pencil className="h-4 w-4 mr-2" />
+                            Edit
+                          </Button>
+                        )}
+                        {(job.status === 'expired' || job.status === 'cancelled' || job.status === 'completed') && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => repostJob(job.id)}
+                            disabled={repostJobMutation.isPending}
+                          >
+                            <Copy className="h-4 w-4 mr-2" />
+                            Repost as New
+                          </Button>
+                        )}
+                        {job.status !== 'in_progress' && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setJobToDelete(job)}
+                            aria-label="Delete job"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
                         {acceptedBid && acceptedBid.professional_id && (
                           <ChatButton
                             jobId={job.id}
@@ -366,6 +404,28 @@ const MyJobsPage: React.FC<MyJobsPageProps> = ({ onViewChange }) => {
                       </div>
                     </div>
 
+                    {acceptedBid && ['in_progress', 'completed', 'cancelled'].includes(job.status) && (
+                      <>
+                        <Separator />
+                        <JobPaymentPanel
+                          jobId={job.id}
+                          jobStatus={job.status}
+                          bidAmount={acceptedBid.amount}
+                          balance={paymentBalances[job.id]}
+                          onJobCancelled={fetchMyJobs}
+                        />
+                        <JobInvoicePanel jobId={job.id} jobStatus={job.status} viewerRole="owner" />
+                        <JobDisputePanel jobId={job.id} jobStatus={job.status} />
+                        <MilestoneTracker
+                          jobId={job.id}
+                          jobStatus={job.status}
+                          bidAmount={acceptedBid.amount}
+                          viewerRole="owner"
+                          onJobCompleted={fetchMyJobs}
+                        />
+                      </>
+                    )}
+
                     {pendingBids.length > 0 && (
                       <>
                         <Separator />
@@ -380,7 +440,7 @@ const MyJobsPage: React.FC<MyJobsPageProps> = ({ onViewChange }) => {
                                       {bid.bidder_name || 'Anonymous Bidder'}
                                     </span>
                                     <span className="font-bold text-primary">
-                                      ${(bid.amount / 100).toLocaleString()}
+                                      {formatMoney(bid.amount)}
                                     </span>
                                   </div>
                                   {bid.message && (
@@ -396,7 +456,7 @@ const MyJobsPage: React.FC<MyJobsPageProps> = ({ onViewChange }) => {
                                   <Button
                                     size="sm"
                                     onClick={() => acceptBid(bid.id, job.id)}
-                                    disabled={job.status !== 'open'}
+                                    disabled={job.status !== 'open' || acceptBidMutation.isPending}
                                   >
                                     <Check className="h-4 w-4 mr-1" />
                                     Accept
@@ -405,7 +465,7 @@ const MyJobsPage: React.FC<MyJobsPageProps> = ({ onViewChange }) => {
                                     variant="outline"
                                     size="sm"
                                     onClick={() => rejectBid(bid.id, job.id)}
-                                    disabled={job.status !== 'open'}
+                                    disabled={job.status !== 'open' || rejectBidMutation.isPending}
                                   >
                                     <X className="h-4 w-4 mr-1" />
                                     Reject
@@ -427,7 +487,7 @@ const MyJobsPage: React.FC<MyJobsPageProps> = ({ onViewChange }) => {
                               <Button
                                 variant="ghost"
                                 size="sm"
-                                onClick={() => onViewChange('job-details', { jobId: job.id })}
+                                onClick={() => navigate(paths.jobDetails(job.id))}
                                 className="w-full"
                               >
                                 View all {pendingBids.length} bids
@@ -444,6 +504,35 @@ const MyJobsPage: React.FC<MyJobsPageProps> = ({ onViewChange }) => {
           </div>
         )}
       </div>
+
+      <AlertDialog open={!!jobToDelete} onOpenChange={(open) => !open && setJobToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this job?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {jobToDelete?.status === 'open'
+                ? 'The job will be cancelled and any pending bids rejected. '
+                : ''}
+              It will no longer appear in your jobs or in search. Bids and conversations are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Job</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDeleteJob}>Delete Job</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {reviewJob && user && (
+        <ReviewDialog
+          open={!!reviewJob}
+          onOpenChange={(open) => !open && setReviewJob(null)}
+          jobId={reviewJob.job.id}
+          jobTitle={reviewJob.job.title}
+          reviewerId={user.id}
+          professionalName={reviewJob.bid.bidder_name}
+        />
+      )}
     </div>
   );
 };
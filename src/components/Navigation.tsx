@@ -1,80 +1,118 @@
 // IMPORT REACT HOOK AND UI COMPONENTS
 import { useState } from 'react'; // For managing mobile menu open/closed state
+import { useLocation, useNavigate } from 'react-router-dom'; // Current URL and navigation
 import { Button } from '@/components/ui/button'; // Reusable button component
-import { Menu, X, Hammer, User, Plus, LogIn, LogOut, CheckCircle } from 'lucide-react'; // Icons from Lucide library
+import { Menu, X, Hammer, User, Plus, LogIn, LogOut, CheckCircle, Scale, MessageCircle, Flag } from 'lucide-react'; // Icons from Lucide library
 import { useAuth } from '@/hooks/useAuth'; // Authentication hook
+import { useUnreadMessageCount } from '@/hooks/useChat'; // Unread messages, kept live by ChatRealtimeProvider
+import { ROUTES } from '@/lib/routes'; // App route paths
+import { ROLE_LABELS } from '@/lib/permissions'; // Display names for roles
 
-// INTERFACE - Defines what props this component expects
-interface NavigationProps {
-  currentView: string; // Which page is currently active
-  onViewChange: (view: string) => void; // Function to call when user clicks navigation
-}
+// UNREAD BADGE - Count of unread messages next to a navigation item
+const UnreadBadge = ({ count }: { count: number }) => (
+  <span className="ml-1 bg-destructive text-destructive-foreground text-xs rounded-full h-5 min-w-5 px-1 flex items-center justify-center font-medium">
+    {count > 99 ? '99+' : count}
+  </span>
+);
 
 // NAVIGATION COMPONENT - The top navigation bar
-// Props are passed in as function parameters using destructuring
-export const Navigation = ({
-  currentView,
-  onViewChange
-}: NavigationProps) => {
+// The active item is derived from the URL, so it always matches the page on screen
+export const Navigation = () => {
+  const navigate = useNavigate();
+  const { pathname } = useLocation();
   const {
     isAuthenticated,
     profile,
     signOut,
-    isJobPoster,
-    isProfessional
+    can
   } = useAuth();
   // STATE FOR MOBILE MENU - tracks whether mobile menu is open or closed
   // useState(false) means menu starts closed
   const [isOpen, setIsOpen] = useState(false);
+  const unreadMessages = useUnreadMessageCount(isAuthenticated);
 
-  // DYNAMIC NAVIGATION ITEMS - Based on user role and authentication status
+  // DYNAMIC NAVIGATION ITEMS - Based on the permissions of the user's role
   const getNavItems = () => {
-    const baseItems = [{
-      id: 'home',
+    const baseItems: { to: string; label: string; icon: typeof User | null; badge?: number }[] = [{
+      to: ROUTES.home,
       label: 'Home',
       icon: null
     }];
     if (isAuthenticated) {
-      if (isProfessional) {
+      if (can('bid:create')) {
         // Professional users can browse and bid on jobs
         baseItems.push({
-          id: 'browse-jobs',
+          to: ROUTES.browseJobs,
           label: 'Browse Jobs',
           icon: null
-        }, {
-          id: 'assigned-jobs',
+        });
+      }
+      if (can('assignment:view')) {
+        baseItems.push({
+          to: ROUTES.assignments,
           label: 'My Assignments',
           icon: CheckCircle
         });
-      } else if (isJobPoster) {
+      }
+      if (can('profile:manage')) {
+        baseItems.push({
+          to: ROUTES.editProfile,
+          label: 'My Profile',
+          icon: User
+        });
+      }
+      if (can('job:manage')) {
         // Job posters can view professionals and post jobs
         baseItems.push({
-          id: 'my-jobs',
+          to: ROUTES.myJobs,
           label: 'My Jobs',
           icon: null
         });
         // Temporarily hidden - Find Pros feature
         // baseItems.push({
-        //   id: 'professionals',
+        //   to: ROUTES.professionals,
         //   label: 'Find Pros',
         //   icon: User
         // });
+      }
+      if (can('job:create')) {
         baseItems.push({
-          id: 'post-job',
+          to: ROUTES.postJob,
           label: 'Post a Job',
           icon: Plus
         });
       }
+      // Every signed-in user has an inbox
+      baseItems.push({
+        to: ROUTES.messages,
+        label: 'Messages',
+        icon: MessageCircle,
+        badge: unreadMessages
+      });
+      if (can('dispute:resolve')) {
+        baseItems.push({
+          to: ROUTES.disputes,
+          label: 'Disputes',
+          icon: Scale
+        });
+      }
+      if (can('message:moderate')) {
+        baseItems.push({
+          to: ROUTES.moderation,
+          label: 'Reports',
+          icon: Flag
+        });
+      }
     } else {
       // Non-authenticated users can browse both
       baseItems.push({
-        id: 'browse-jobs',
+        to: ROUTES.browseJobs,
         label: 'Browse Jobs',
         icon: null
       });
       // Temporarily hidden - Find Pros feature
       // baseItems.push({
-      //   id: 'professionals',
+      //   to: ROUTES.professionals,
       //   label: 'Find Pros',
       //   icon: User
       // });
@@ -83,6 +121,14 @@ export const Navigation = ({
   };
   const navItems = getNavItems();
 
+  // ACTIVE ITEM - Exact match for home, prefix match for everything else
+  // (so /jobs/123 keeps "Browse Jobs" highlighted, but /jobs/new only matches "Post a Job")
+  const activeItem = navItems
+    .filter(item => item.to === ROUTES.home ? pathname === ROUTES.home : pathname === item.to || pathname.startsWith(`${item.to}/`))
+    .sort((a, b) => b.to.length - a.to.length)[0];
+  const isActive = (to: string) => activeItem?.to === to;
+  const goTo = (to: string) => navigate(isAuthenticated ? to : ROUTES.auth);
+
   // RENDER THE NAVIGATION BAR - This is the JSX that creates the HTML structure
   return <nav className="bg-white border-b border-border shadow-sm"> {/* Main navigation container */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8"> {/* Center content with max width */}
@@ -97,14 +143,15 @@ export const Navigation = ({
           {/* DESKTOP NAVIGATION - Only visible on medium screens and up (hidden on mobile) */}
           <div className="hidden md:flex items-center space-x-8">
             {/* MAP OVER navItems - Creates a button for each navigation item */}
-            {navItems.map(item => <button key={item.id} // React needs unique keys for list items
-          onClick={() => onViewChange(isAuthenticated ? item.id : 'auth')} // Redirect to auth if not authenticated
-          className={`flex items-center space-x-1 px-3 py-2 rounded-md text-sm font-medium transition-colors ${currentView === item.id ? 'text-primary bg-primary/10' // Active state: primary color with light background
+            {navItems.map(item => <button key={item.to} // React needs unique keys for list items
+          onClick={() => goTo(item.to)} // Redirect to auth if not authenticated
+          className={`flex items-center space-x-1 px-3 py-2 rounded-md text-sm font-medium transition-colors ${isActive(item.to) ? 'text-primary bg-primary/10' // Active state: primary color with light background
           : 'text-muted-foreground hover:text-foreground hover:bg-muted' // Inactive state with hover effects
           }`}>
                 {/* CONDITIONAL ICON - Only show icon if item has one */}
                 {item.icon && <item.icon className="h-4 w-4" />}
                 <span>{item.label}</span>  {/* Button text */}
+                {!!item.badge && <UnreadBadge count={item.badge} />}
               </button>)}
           </div>
 
@@ -116,7 +163,7 @@ export const Navigation = ({
                   <User className="h-4 w-4" />
                   <span>{profile?.full_name || profile?.email}</span>
                   <span className="text-xs bg-primary/10 text-primary px-2 py-1 rounded-full">
-                    {profile?.role === 'job_poster' ? 'Job Poster' : 'Professional'}
+                    {profile && ROLE_LABELS[profile.role]}
                   </span>
                 </div>
                 
@@ -126,7 +173,7 @@ export const Navigation = ({
                   Sign Out
                 </Button>
               </> : (/* Sign In Button for non-authenticated users */
-          <Button variant={currentView === "auth" ? "default" : "outline"} onClick={() => onViewChange("auth")}>
+          <Button variant={pathname === ROUTES.auth ? "default" : "outline"} onClick={() => navigate(ROUTES.auth)}>
                 <LogIn className="h-4 w-4 mr-2" />
                 Sign In
               </Button>)}
@@ -146,27 +193,28 @@ export const Navigation = ({
         {isOpen && <div className="md:hidden"> {/* Hidden on desktop, visible on mobile */}
             <div className="px-2 pt-2 pb-3 space-y-1 border-t border-border">
               {/* MOBILE NAVIGATION ITEMS - Same items as desktop but in vertical layout */}
-              {navItems.map(item => <button key={item.id} onClick={() => {
-            onViewChange(isAuthenticated ? item.id : 'auth'); // Navigate to auth if not authenticated
+              {navItems.map(item => <button key={item.to} onClick={() => {
+            goTo(item.to); // Navigate to auth if not authenticated
             setIsOpen(false); // Close mobile menu after clicking
-          }} className={`flex items-center space-x-2 w-full px-3 py-2 rounded-md text-base font-medium transition-colors ${currentView === item.id ? 'text-primary bg-primary/10' // Active state styling
+          }} className={`flex items-center space-x-2 w-full px-3 py-2 rounded-md text-base font-medium transition-colors ${isActive(item.to) ? 'text-primary bg-primary/10' // Active state styling
           : 'text-muted-foreground hover:text-foreground hover:bg-muted' // Inactive with hover
           }`}>
                   {item.icon && <item.icon className="h-4 w-4" />}
                   <span>{item.label}</span>
+                  {!!item.badge && <UnreadBadge count={item.badge} />}
                 </button>)}
               
               {/* MOBILE AUTHENTICATION BUTTONS */}
               <div className="flex flex-col space-y-2 pt-4">
                 {isAuthenticated ? <>
                     <div className="px-3 py-2 text-sm text-muted-foreground">
-                      {profile?.full_name} ({profile?.role === 'job_poster' ? 'Job Poster' : 'Professional'})
+                      {profile?.full_name} ({profile && ROLE_LABELS[profile.role]})
                     </div>
                     <Button variant="outline" onClick={signOut}>
                       <LogOut className="h-4 w-4 mr-2" />
                       Sign Out
                     </Button>
-                  </> : <Button variant="outline" onClick={() => onViewChange('auth')}>
+                  </> : <Button variant="outline" onClick={() => navigate(ROUTES.auth)}>
                     <LogIn className="h-4 w-4 mr-2" />
                     Sign In
                   </Button>}
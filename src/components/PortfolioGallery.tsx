@@ -0,0 +1,100 @@
+import { useRef, useState } from 'react';
+import { ImagePlus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { useAddPortfolioItem, useDeletePortfolioItem, usePortfolio } from '@/hooks/usePortfolio';
+
+interface PortfolioGalleryProps {
+  professionalId: string;
+  ownerUserId: string | null;         // Set when the viewer owns this profile and may edit it
+}
+
+/**
+ * PortfolioGallery Component - Grid of work photos, with upload/remove for the profile owner
+ */
+export const PortfolioGallery = ({ professionalId, ownerUserId }: PortfolioGalleryProps) => {
+  const { data: items = [], isLoading } = usePortfolio(professionalId);
+  const addItem = useAddPortfolioItem();
+  const deleteItem = useDeletePortfolioItem();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [caption, setCaption] = useState('');
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file || !ownerUserId) return;
+
+    addItem.mutate(
+      { professionalId, userId: ownerUserId, file, caption: caption.trim() },
+      { onSuccess: () => setCaption('') }
+    );
+    e.target.value = '';  // Allow picking the same file again
+  };
+
+  // Nothing to show to visitors when the portfolio is empty
+  if (!ownerUserId && !isLoading && items.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Portfolio</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {ownerUserId && (
+          <div className="flex gap-2">
+            <Input
+              placeholder="Caption (optional)"
+              value={caption}
+              onChange={(e) => setCaption(e.target.value)}
+            />
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+            <Button onClick={() => fileInputRef.current?.click()} disabled={addItem.isPending}>
+              <ImagePlus className="h-4 w-4 mr-2" />
+              {addItem.isPending ? 'Uploading...' : 'Add Photo'}
+            </Button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-muted-foreground">Loading portfolio...</p>
+        ) : items.length === 0 ? (
+          <p className="text-muted-foreground">No photos yet. Add some of your best work.</p>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            {items.map((item) => (
+              <figure key={item.id} className="relative group">
+                <img
+                  src={item.image_url}
+                  alt={item.caption || 'Portfolio photo'}
+                  className="w-full aspect-square object-cover rounded-md"
+                  loading="lazy"
+                />
+                {item.caption && (
+                  <figcaption className="text-sm text-muted-foreground mt-1 truncate">{item.caption}</figcaption>
+                )}
+                {ownerUserId && (
+                  <Button
+                    variant="destructive"
+                    size="icon"
+                    className="absolute top-2 right-2 h-8 w-8 opacity-0 group-hover:opacity-100 transition-opacity"
+                    onClick={() => deleteItem.mutate(item)}
+                    disabled={deleteItem.isPending}
+                    aria-label="Remove photo"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </figure>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,5 +1,6 @@
 // IMPORT REACT HOOKS AND UI COMPONENTS
-import { useState } from 'react';  // For managing form data state
+import { useEffect, useMemo, useRef, useState } from 'react';  // For managing form data state
+import { useNavigate } from 'react-router-dom';  // For moving to another page after posting
 import { Button } from '@/components/ui/button';  // Reusable button component
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';  // Card layout components
 import { Input } from '@/components/ui/input';  // Text input field
@@ -7,65 +8,69 @@ import { Label } from '@/components/ui/label';  // Form labels
 import { Textarea } from '@/components/ui/textarea';  // Multi-line text input
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';  // Dropdown selects
 import { Badge } from '@/components/ui/badge';  // Small status indicators
-import { ArrowLeft, MapPin, DollarSign, Calendar, CheckCircle } from 'lucide-react';  // Icons
-import { useCreateJob, NewJob } from '@/hooks/useJobs';  // Custom hook for creating jobs
+import { ArrowLeft, MapPin, DollarSign, Calendar, CheckCircle, ImagePlus, X } from 'lucide-react';  // Icons
+import { useCreateJob, useUpdateJob, NewJob, type Job } from '@/hooks/useJobs';  // Custom hooks for saving jobs
+import { MAX_JOB_PHOTOS, useUploadJobPhotos } from '@/hooks/useJobPhotos';  // Photo uploads for the new job
 import { useAuth } from '@/hooks/useAuth';  // Authentication hook
+import { ROUTES, paths } from '@/lib/routes';  // App route paths
+import { JOB_CATEGORIES, categoryValue } from '@/lib/categories';  // Shared category list
+import { EMPTY_BUDGET_FORM, budgetToForm, formToBudget, validateBudget, type BudgetFormValues } from '@/lib/budget';  // Typed budgets
+import { BudgetEditor } from '@/components/BudgetEditor';  // Fixed / range / hourly budget inputs
+import { JobScheduleFields } from '@/components/JobScheduleFields';  // Deadline and desired date pickers
+import { JobPhotoGallery } from '@/components/JobPhotoGallery';  // Photo management for an existing job
+import { EMPTY_JOB_SCHEDULE, scheduleFromColumns, scheduleToColumns, type JobScheduleValues } from '@/lib/jobSchedule';  // Schedule columns
 
-// INTERFACE - Defines props this component expects
 interface PostJobPageProps {
-  onViewChange: (view: string) => void;  // Function to navigate between pages
+  job?: Job;                          // Existing job to edit (see EditJobPage); omit to post a new one
 }
 
-// POST JOB PAGE COMPONENT - Form for creating new job posts
-export const PostJobPage = ({ onViewChange }: PostJobPageProps) => {
+// POST JOB PAGE COMPONENT - Form for creating new job posts, and for editing them
+export const PostJobPage = ({ job }: PostJobPageProps = {}) => {
+  const navigate = useNavigate();
   const { user, profile } = useAuth();
-  // MUTATION HOOK - Handles creating jobs in the database
-  // This gives us a function to call when user submits the form
+  const isEditing = !!job;
+  // MUTATION HOOKS - Handle creating and updating jobs in the database
+  // These give us functions to call when user submits the form
   const createJobMutation = useCreateJob();
+  const updateJobMutation = useUpdateJob();
+  const uploadPhotosMutation = useUploadJobPhotos();
   
   // FORM STATE - Stores all the form field values
   // useState with an object to track multiple form fields at once
   const [formData, setFormData] = useState({
-    title: '',        // Job title (e.g., "Kitchen Cabinet Painting")
-    description: '',  // Detailed description of the work
-    category: '',     // Type of work (painting, plumbing, etc.)
-    budget: '',       // Budget range selected by user
-    location: '',     // Where the job is located
-    timeline: '',     // When the work needs to be done
-    photos: []        // Array for uploaded photos (not implemented yet)
+    title: job?.title ?? '',              // Job title (e.g., "Kitchen Cabinet Painting")
+    description: job?.description ?? '',  // Detailed description of the work
+    category: job?.category ?? '',        // Type of work (painting, plumbing, etc.)
+    location: job?.location ?? '',        // Where the job is located
   });
 
-  const categories = [
-    'Painting',
-    'Plumbing', 
-    'Electrical',
-    'General Maintenance',
-    'Carpentry',
-    'Cleaning',
-    'Landscaping',
-    'HVAC',
-    'Roofing',
-    'Other'
-  ];
+  // BUDGET - Edited as typed (dollars) and converted to a typed Budget on submit
+  const [budgetValues, setBudgetValues] = useState<BudgetFormValues>(
+    job ? budgetToForm(job.budget) : EMPTY_BUDGET_FORM
+  );
+  const [showBudgetErrors, setShowBudgetErrors] = useState(false);
+
+  // SCHEDULE - Optional bid deadline and desired start / completion dates
+  const [schedule, setSchedule] = useState<JobScheduleValues>(
+    job ? scheduleFromColumns(job) : EMPTY_JOB_SCHEDULE
+  );
 
-  const budgetRanges = [
-    'Under $100',
-    '$100 - $300',
-    '$300 - $500',
-    '$500 - $1,000',
-    '$1,000 - $2,500',
-    '$2,500 - $5,000',
-    '$5,000+',
-    'Hourly Rate'
-  ];
+  // PHOTOS - Kept separately from the text fields; uploaded once the job exists
+  // (storage paths are keyed on the job id)
+  const [photos, setPhotos] = useState<File[]>([]);
+  const photoInputRef = useRef<HTMLInputElement>(null);
+  const photoPreviews = useMemo(() => photos.map(photo => URL.createObjectURL(photo)), [photos]);
 
-  const timelines = [
-    'ASAP (Within 24 hours)',
-    'Within a few days',
-    'Within a week',
-    'Within a month',
-    'Flexible timing'
-  ];
+  // Free the preview URLs when the selection changes or the page unmounts
+  useEffect(() => {
+    return () => photoPreviews.forEach(url => URL.revokeObjectURL(url));
+  }, [photoPreviews]);
+
+  const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    setPhotos(prev => [...prev, ...selected].slice(0, MAX_JOB_PHOTOS));
+    e.target.value = '';  // Allow picking the same file again
+  };
 
   // HANDLE FORM SUBMISSION - Called when user clicks "Post Job"
   const handleSubmit = (e: React.FormEvent) => {
@@ -74,46 +79,37 @@ export const PostJobPage = ({ onViewChange }: PostJobPageProps) => {
     
     // Check if user is authenticated
     if (!user) {
-      onViewChange('auth');
+      navigate(ROUTES.auth);
       return;
     }
     
     // FORM VALIDATION - Check that required fields are filled
-    if (!formData.title || !formData.description || !formData.category || !formData.budget || !formData.location) {
+    if (!formData.title || !formData.description || !formData.category || !formData.location) {
       return;  // Exit early if any required field is missing
     }
 
-    // BUDGET PARSING - Convert user-friendly budget range to database format
-    // Find the budget range that matches what user selected
-    const budgetRange = budgetRanges.find(range => 
-      range.toLowerCase().replace(/[\s$+]/g, '-') === formData.budget
-    );
-    
-    // Initialize budget values (stored in cents in database)
-    let budget_min = 0;
-    let budget_max = 0;
-    
-    // CONVERT BUDGET RANGES TO CENTS - Database stores money as integers (cents)
-    // $100 = 10000 cents, $1000 = 100000 cents, etc.
-    if (budgetRange?.includes('Under $100')) {
-      budget_max = 10000; // $100 in cents
-    } else if (budgetRange?.includes('$100 - $300')) {
-      budget_min = 10000;   // $100 in cents
-      budget_max = 30000;   // $300 in cents
-    } else if (budgetRange?.includes('$300 - $500')) {
-      budget_min = 30000;   // $300 in cents
-      budget_max = 50000;   // $500 in cents
-    } else if (budgetRange?.includes('$500 - $1,000')) {
-      budget_min = 50000;   // $500 in cents
-      budget_max = 100000;  // $1,000 in cents
-    } else if (budgetRange?.includes('$1,000 - $2,500')) {
-      budget_min = 100000;  // $1,000 in cents
-      budget_max = 250000;  // $2,500 in cents
-    } else if (budgetRange?.includes('$2,500 - $5,000')) {
-      budget_min = 250000;  // $2,500 in cents
-      budget_max = 500000;  // $5,000 in cents
-    } else if (budgetRange?.includes('$5,000+')) {
-      budget_min = 500000;  // $5,000+ in cents
+    // BUDGET VALIDATION - Convert the editor's dollar values to cents and check them
+    const budget = formToBudget(budgetValues);
+    if (validateBudget(budget)) {
+      setShowBudgetErrors(true);  // The editor shows what's wrong
+      return;
+    }
+
+    // SAVE EDITS - Changes are logged by the database for professionals who already bid
+    if (job) {
+      updateJobMutation.mutate(
+        {
+          id: job.id,
+          title: formData.title,
+          description: formData.description,
+          category: formData.category,
+          budget,
+          location: formData.location,
+          ...scheduleToColumns(schedule),
+        },
+        { onSuccess: () => navigate(paths.jobDetails(job.id)) }
+      );
+      return;
     }
 
     // CREATE JOB OBJECT - Format data for database insertion
@@ -121,11 +117,9 @@ export const PostJobPage = ({ onViewChange }: PostJobPageProps) => {
       title: formData.title,
       description: formData.description,
       category: formData.category,
-      budget_min,  // Minimum budget in cents
-      budget_max,  // Maximum budget in cents
-      budget_type: budgetRange?.includes('Hourly') ? 'hourly' : 'range',  // Budget type
+      budget,  // Fixed, range or hourly budget in cents
       location: formData.location,
-      timeline: formData.timeline,
+      ...scheduleToColumns(schedule),  // Bid deadline and desired dates
       homeowner_name: profile?.full_name || profile?.email || 'User', // Use actual user name
       homeowner_verified: false,  // TODO: Set based on actual user verification status
       user_id: user.id  // Set the authenticated user's ID
@@ -134,22 +128,32 @@ export const PostJobPage = ({ onViewChange }: PostJobPageProps) => {
     // SUBMIT TO DATABASE - Call our mutation hook to create the job
     createJobMutation.mutate(newJob, {
       // onSuccess runs if job creation was successful
-      onSuccess: () => {
+      onSuccess: (job) => {
         // RESET FORM - Clear all form fields after successful submission
         setFormData({
           title: '',
           description: '',
           category: '',
-          budget: '',
           location: '',
-          timeline: '',
-          photos: []
         });
+        setSchedule(EMPTY_JOB_SCHEDULE);
+        setBudgetValues(EMPTY_BUDGET_FORM);
+        setShowBudgetErrors(false);
+
+        // UPLOAD PHOTOS - Now that the job exists, then redirect once they're done
+        if (photos.length > 0) {
+          uploadPhotosMutation.mutate(
+            { jobId: job.id, files: photos },
+            { onSettled: () => navigate(ROUTES.browseJobs) }
+          );
+          setPhotos([]);
+          return;
+        }
 
         // REDIRECT USER - Navigate to browse jobs page after a short delay
         // This gives time for the success toast to show
         setTimeout(() => {
-          onViewChange('browse-jobs');
+          navigate(ROUTES.browseJobs);
         }, 2000);
       }
     });
@@ -170,15 +174,17 @@ export const PostJobPage = ({ onViewChange }: PostJobPageProps) => {
         <div className="mb-8">
           <Button 
             variant="ghost" 
-            onClick={() => onViewChange('home')} 
+            onClick={() => navigate(job ? paths.jobDetails(job.id) : ROUTES.home)} 
             className="mb-4"
           >
             <ArrowLeft className="h-4 w-4 mr-2" />
-            Back to Home
+            {isEditing ? 'Back to Job' : 'Back to Home'}
           </Button>
-          <h1 className="text-3xl font-bold text-foreground mb-2">Post a Job</h1>
+          <h1 className="text-3xl font-bold text-foreground mb-2">{isEditing ? 'Edit Job' : 'Post a Job'}</h1>
           <p className="text-muted-foreground">
-            Tell us about your project and get competitive bids from trusted professionals
+            {isEditing
+              ? 'Professionals who already bid will see a record of what you changed'
+              : 'Tell us about your project and get competitive bids from trusted professionals'}
           </p>
         </div>
 
@@ -210,8 +216,8 @@ export const PostJobPage = ({ onViewChange }: PostJobPageProps) => {
                     <SelectValue placeholder="Select a category" />
                   </SelectTrigger>
                   <SelectContent>
-                    {categories.map((category) => (
-                      <SelectItem key={category} value={category.toLowerCase()}>
+                    {JOB_CATEGORIES.map((category) => (
+                      <SelectItem key={category} value={categoryValue(category)}>
                         {category}
                       </SelectItem>
                     ))}
@@ -256,36 +262,73 @@ export const PostJobPage = ({ onViewChange }: PostJobPageProps) => {
               </div>
 
               <div>
-                <Label htmlFor="budget">Budget Range *</Label>
-                <Select value={formData.budget} onValueChange={(value) => handleInputChange('budget', value)}>
-                  <SelectTrigger className="mt-1">
-                    <SelectValue placeholder="Select your budget range" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {budgetRanges.map((range) => (
-                      <SelectItem key={range} value={range.toLowerCase().replace(/[\s$+]/g, '-')}>
-                        {range}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
+                <Label>Budget *</Label>
+                <div className="mt-2">
+                  <BudgetEditor
+                    values={budgetValues}
+                    onChange={(changes) => setBudgetValues(prev => ({ ...prev, ...changes }))}
+                    showErrors={showBudgetErrors}
+                  />
+                </div>
               </div>
 
-              <div>
-                <Label htmlFor="timeline">Timeline</Label>
-                <Select value={formData.timeline} onValueChange={(value) => handleInputChange('timeline', value)}>
-                  <SelectTrigger className="mt-1">
-                    <SelectValue placeholder="When do you need this completed?" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {timelines.map((timeline) => (
-                      <SelectItem key={timeline} value={timeline.toLowerCase().replace(/[\s()]/g, '-')}>
-                        {timeline}
-                      </SelectItem>
+              <JobScheduleFields
+                values={schedule}
+                onChange={(changes) => setSchedule(prev => ({ ...prev, ...changes }))}
+              />
+            </CardContent>
+          </Card>
+
+          {/* Photos */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Photos</CardTitle>
+              <CardDescription>
+                Up to {MAX_JOB_PHOTOS} photos. They're resized and location data is removed before upload.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {job ? (
+                <JobPhotoGallery jobId={job.id} canEdit />
+              ) : (
+                <>
+                  <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                    {photoPreviews.map((url, index) => (
+                      <div key={url} className="relative">
+                        <img src={url} alt={`Photo ${index + 1}`} className="w-full aspect-square object-cover rounded-md" />
+                        <Button
+                          type="button"
+                          variant="destructive"
+                          size="icon"
+                          className="absolute top-1 right-1 h-6 w-6"
+                          onClick={() => setPhotos(prev => prev.filter((_, i) => i !== index))}
+                          aria-label="Remove photo"
+                        >
+                          <X className="h-3 w-3" />
+                        </Button>
+                      </div>
                     ))}
-                  </SelectContent>
-                </Select>
-              </div>
+                    {photos.length < MAX_JOB_PHOTOS && (
+                      <button
+                        type="button"
+                        onClick={() => photoInputRef.current?.click()}
+                        className="aspect-square border-2 border-dashed border-border rounded-md flex flex-col items-center justify-center text-muted-foreground hover:border-primary hover:text-primary transition-colors"
+                      >
+                        <ImagePlus className="h-6 w-6 mb-1" />
+                        <span className="text-xs">Add Photos</span>
+                      </button>
+                    )}
+                  </div>
+                  <input
+                    ref={photoInputRef}
+                    type="file"
+                    accept="image/*"
+                    multiple
+                    className="hidden"
+                    onChange={handlePhotoChange}
+                  />
+                </>
+              )}
             </CardContent>
           </Card>
 
@@ -314,18 +357,20 @@ export const PostJobPage = ({ onViewChange }: PostJobPageProps) => {
               type="submit" 
               size="lg" 
               className="flex-1"
-              disabled={createJobMutation.isPending}
+              disabled={createJobMutation.isPending || updateJobMutation.isPending || uploadPhotosMutation.isPending}
             >
-              {createJobMutation.isPending ? 'Posting...' : 'Post Job'}
+              {isEditing
+                ? updateJobMutation.isPending ? 'Saving...' : 'Save Changes'
+                : createJobMutation.isPending ? 'Posting...' : uploadPhotosMutation.isPending ? 'Uploading photos...' : 'Post Job'}
             </Button>
             <Button 
               type="button" 
               variant="outline" 
               size="lg" 
-              onClick={() => onViewChange('home')}
+              onClick={() => navigate(job ? paths.jobDetails(job.id) : ROUTES.home)}
               className="flex-1 sm:flex-initial sm:px-8"
             >
-              Save Draft
+              {isEditing ? 'Cancel' : 'Save Draft'}
             </Button>
           </div>
         </form>
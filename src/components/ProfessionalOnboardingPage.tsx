@@ -0,0 +1,149 @@
+// ==============================================
+// PROFESSIONAL ONBOARDING PAGE COMPONENT
+// ==============================================
+// Step-by-step wizard that creates the signed-in professional's `professionals` row,
+// which is what makes them appear in the professionals directory
+
+import React, { useEffect, useState } from "react";
+import { Navigate, useNavigate } from "react-router-dom";
+import { ArrowLeft, ArrowRight, Check } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { ProfessionalProfileForm } from "@/components/ProfessionalProfileForm";
+import { useAuth } from "@/hooks/useAuth";
+import { useMyProfessional, useCreateProfessional } from "@/hooks/useProfessionals";
+import { useToast } from "@/hooks/use-toast";
+import {
+  emptyProfessionalForm,
+  formToProfessionalInput,
+  validateProfessionalSection,
+  type ProfessionalFormSection,
+  type ProfessionalFormValues,
+} from "@/lib/professionalProfile";
+import { ROUTES, paths } from "@/lib/routes";
+
+// WIZARD STEPS - One form section per step
+const STEPS: { section: ProfessionalFormSection; title: string; description: string }[] = [
+  { section: 'basics', title: 'About You', description: 'Tell homeowners who you are and where you work' },
+  { section: 'skills', title: 'Skills & Rates', description: 'What you do, how long you have done it and what you charge' },
+  { section: 'contact', title: 'Photo & Contact', description: 'Add a profile photo and choose how customers reach you' },
+];
+
+const ProfessionalOnboardingPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user, profile } = useAuth();
+  const { data: existing, isLoading } = useMyProfessional(user?.id);
+  const createProfessional = useCreateProfessional();
+  const [step, setStep] = useState(0);
+  const [values, setValues] = useState<ProfessionalFormValues>(() =>
+    emptyProfessionalForm({ name: profile?.full_name, email: profile?.email, phone: profile?.phone })
+  );
+
+  // The profile loads after the page mounts, so fill in the account defaults once it arrives
+  useEffect(() => {
+    if (!profile) return;
+    setValues(prev => ({
+      ...prev,
+      name: prev.name || profile.full_name || '',
+      email: prev.email || profile.email || '',
+      phone: prev.phone || profile.phone || '',
+    }));
+  }, [profile]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  // Already onboarded - edit the existing profile instead
+  if (existing) {
+    return <Navigate to={ROUTES.editProfile} replace />;
+  }
+
+  const current = STEPS[step];
+  const isLastStep = step === STEPS.length - 1;
+
+  const handleNext = () => {
+    const error = validateProfessionalSection(current.section, values);
+    if (error) {
+      toast({ title: "Missing information", description: error, variant: "destructive" });
+      return;
+    }
+
+    if (!isLastStep) {
+      setStep(step + 1);
+      return;
+    }
+
+    createProfessional.mutate(
+      { userId: user!.id, profile: formToProfessionalInput(values) },
+      { onSuccess: (professional) => navigate(paths.professionalProfile(professional.id)) }
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background py-8">
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-foreground mb-2">Set Up Your Professional Profile</h1>
+          <p className="text-muted-foreground">
+            Complete your profile to appear in the professionals directory and get invited to jobs
+          </p>
+        </div>
+
+        <div className="mb-6">
+          <div className="flex justify-between text-sm text-muted-foreground mb-2">
+            <span>Step {step + 1} of {STEPS.length}</span>
+            <span>{current.title}</span>
+          </div>
+          <Progress value={((step + 1) / STEPS.length) * 100} />
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{current.title}</CardTitle>
+            <CardDescription>{current.description}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ProfessionalProfileForm
+              section={current.section}
+              values={values}
+              onChange={(changes) => setValues(prev => ({ ...prev, ...changes }))}
+              userId={user!.id}
+            />
+          </CardContent>
+        </Card>
+
+        <div className="flex justify-between mt-6">
+          <Button
+            variant="outline"
+            onClick={() => step === 0 ? navigate(ROUTES.home) : setStep(step - 1)}
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            {step === 0 ? 'Later' : 'Back'}
+          </Button>
+          <Button onClick={handleNext} disabled={createProfessional.isPending}>
+            {isLastStep ? (
+              <>
+                <Check className="h-4 w-4 mr-2" />
+                {createProfessional.isPending ? 'Saving...' : 'Finish'}
+              </>
+            ) : (
+              <>
+                Next
+                <ArrowRight className="h-4 w-4 ml-2" />
+              </>
+            )}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProfessionalOnboardingPage;
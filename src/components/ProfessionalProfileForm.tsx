@@ -0,0 +1,234 @@
+import { useRef } from 'react';
+import { Camera, MapPin } from 'lucide-react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { useUploadAvatar, type ContactPreference } from '@/hooks/useProfessionals';
+import {
+  CONTACT_PREFERENCE_LABELS,
+  PROFESSIONAL_SKILLS,
+  RESPONSE_TIMES,
+  type ProfessionalFormSection,
+  type ProfessionalFormValues,
+} from '@/lib/professionalProfile';
+
+interface ProfessionalProfileFormProps {
+  section: ProfessionalFormSection;
+  values: ProfessionalFormValues;
+  onChange: (changes: Partial<ProfessionalFormValues>) => void;
+  userId: string;                     // Owner of the avatar folder
+}
+
+/**
+ * ProfessionalProfileForm Component - One section of the professional profile form
+ *
+ * The onboarding wizard shows one section per step; the edit page shows all three.
+ */
+export const ProfessionalProfileForm = ({ section, values, onChange, userId }: ProfessionalProfileFormProps) => {
+  const avatarInputRef = useRef<HTMLInputElement>(null);
+  const uploadAvatar = useUploadAvatar();
+
+  const handleAvatarChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    uploadAvatar.mutate({ userId, file }, {
+      onSuccess: (avatarUrl) => onChange({ avatar_url: avatarUrl })
+    });
+    e.target.value = '';
+  };
+
+  const toggleSkill = (skill: string) => {
+    onChange({
+      skills: values.skills.includes(skill)
+        ? values.skills.filter(s => s !== skill)
+        : [...values.skills, skill]
+    });
+  };
+
+  if (section === 'basics') {
+    return (
+      <div className="space-y-6">
+        <div>
+          <Label htmlFor="pro-name">Full Name *</Label>
+          <Input
+            id="pro-name"
+            value={values.name}
+            onChange={(e) => onChange({ name: e.target.value })}
+            className="mt-1"
+          />
+        </div>
+        <div>
+          <Label htmlFor="pro-title">Professional Title *</Label>
+          <Input
+            id="pro-title"
+            placeholder="e.g., Licensed Electrician"
+            value={values.title}
+            onChange={(e) => onChange({ title: e.target.value })}
+            className="mt-1"
+          />
+        </div>
+        <div>
+          <Label htmlFor="pro-location">Service Area *</Label>
+          <div className="relative">
+            <MapPin className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+            <Input
+              id="pro-location"
+              placeholder="City, State or ZIP code"
+              value={values.location}
+              onChange={(e) => onChange({ location: e.target.value })}
+              className="mt-1 pl-10"
+            />
+          </div>
+        </div>
+        <div>
+          <Label htmlFor="pro-description">About You</Label>
+          <Textarea
+            id="pro-description"
+            placeholder="Describe your experience, the work you specialise in and what customers can expect"
+            value={values.description}
+            onChange={(e) => onChange({ description: e.target.value })}
+            className="mt-1 min-h-32"
+          />
+        </div>
+      </div>
+    );
+  }
+
+  if (section === 'skills') {
+    return (
+      <div className="space-y-6">
+        <div>
+          <Label>Skills *</Label>
+          <div className="flex flex-wrap gap-2 mt-2">
+            {PROFESSIONAL_SKILLS.map((skill) => (
+              <Badge
+                key={skill}
+                variant={values.skills.includes(skill) ? 'default' : 'outline'}
+                className="cursor-pointer select-none"
+                onClick={() => toggleSkill(skill)}
+              >
+                {skill}
+              </Badge>
+            ))}
+          </div>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="pro-experience">Years of Experience</Label>
+            <Input
+              id="pro-experience"
+              type="number"
+              min={0}
+              value={values.experience_years}
+              onChange={(e) => onChange({ experience_years: e.target.value })}
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label htmlFor="pro-rate">Hourly Rate ($)</Label>
+            <Input
+              id="pro-rate"
+              type="number"
+              min={0}
+              step="1"
+              placeholder="Leave blank to quote per job"
+              value={values.hourly_rate}
+              onChange={(e) => onChange({ hourly_rate: e.target.value })}
+              className="mt-1"
+            />
+          </div>
+        </div>
+        <div>
+          <Label>Typical Response Time</Label>
+          <Select value={values.response_time} onValueChange={(value) => onChange({ response_time: value })}>
+            <SelectTrigger className="mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RESPONSE_TIMES.map((time) => (
+                <SelectItem key={time} value={time}>
+                  {time}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Avatar className="w-20 h-20">
+          <AvatarImage src={values.avatar_url || ''} alt={values.name} />
+          <AvatarFallback>{values.name.split(' ').map(n => n[0]).join('') || '?'}</AvatarFallback>
+        </Avatar>
+        <input
+          ref={avatarInputRef}
+          type="file"
+          accept="image/*"
+          className="hidden"
+          onChange={handleAvatarChange}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => avatarInputRef.current?.click()}
+          disabled={uploadAvatar.isPending}
+        >
+          <Camera className="h-4 w-4 mr-2" />
+          {uploadAvatar.isPending ? 'Uploading...' : values.avatar_url ? 'Change Photo' : 'Upload Photo'}
+        </Button>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="pro-phone">Phone</Label>
+          <Input
+            id="pro-phone"
+            type="tel"
+            value={values.phone}
+            onChange={(e) => onChange({ phone: e.target.value })}
+            className="mt-1"
+          />
+        </div>
+        <div>
+          <Label htmlFor="pro-email">Email</Label>
+          <Input
+            id="pro-email"
+            type="email"
+            value={values.email}
+            onChange={(e) => onChange({ email: e.target.value })}
+            className="mt-1"
+          />
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Phone and email are shown on your public profile. Leave them blank to only be reachable through in-app messages.
+      </p>
+      <div>
+        <Label>Preferred Contact Method</Label>
+        <RadioGroup
+          value={values.preferred_contact}
+          onValueChange={(value) => onChange({ preferred_contact: value as ContactPreference })}
+          className="mt-2"
+        >
+          {(Object.keys(CONTACT_PREFERENCE_LABELS) as ContactPreference[]).map((method) => (
+            <div key={method} className="flex items-center space-x-2">
+              <RadioGroupItem value={method} id={`contact-${method}`} />
+              <Label htmlFor={`contact-${method}`} className="font-normal">
+                {CONTACT_PREFERENCE_LABELS[method]}
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+      </div>
+    </div>
+  );
+};
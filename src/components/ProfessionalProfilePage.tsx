@@ -0,0 +1,199 @@
+// ==============================================
+// PROFESSIONAL PROFILE PAGE COMPONENT
+// ==============================================
+// Shows a single professional's public profile, reached from /pros/:id: bio, skills,
+// rates, portfolio photos, completed jobs and reviews, plus "Invite to bid" for posters
+
+import React, { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { ArrowLeft, MapPin, Shield, Briefcase, Clock, Send, Pencil, Phone, Mail } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { StarRating } from "@/components/StarRating";
+import { ReviewList } from "@/components/ReviewList";
+import { PortfolioGallery } from "@/components/PortfolioGallery";
+import { JobHistoryList } from "@/components/JobHistoryList";
+import { InviteToBidDialog } from "@/components/InviteToBidDialog";
+import { useAuth } from "@/hooks/useAuth";
+import { useProfessional } from "@/hooks/useProfessionals";
+import { useProfessionalRouteParams } from "@/hooks/useRouteParams";
+import { CONTACT_PREFERENCE_LABELS } from "@/lib/professionalProfile";
+import { ROUTES } from "@/lib/routes";
+import { formatHourlyRate } from "@/lib/budget";
+
+const ProfessionalProfilePage: React.FC = () => {
+  const { id } = useProfessionalRouteParams();
+  const navigate = useNavigate();
+  const { user, can } = useAuth();
+  const { data: professional, isLoading, error } = useProfessional(id);
+  const [inviteOpen, setInviteOpen] = useState(false);
+
+  const formatPrice = (hourlyRate: number | null) => {
+    if (!hourlyRate) return 'Contact for pricing';
+    return formatHourlyRate(hourlyRate);
+  };
+
+  // LOADING STATE
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  // NOT FOUND / ERROR STATE
+  if (!professional) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-lg text-muted-foreground mb-4">
+            {error ? 'Error loading this profile. Please try again.' : 'Professional not found'}
+          </p>
+          <Button onClick={() => navigate(ROUTES.professionals)}>Back to Professionals</Button>
+        </div>
+      </div>
+    );
+  }
+
+  const isOwnProfile = !!user && professional.user_id === user.id;
+  // Invitations need a registered professional to show up for
+  const canInvite = can('job:create') && !!professional.user_id && !isOwnProfile;
+
+  return (
+    <div className="min-h-screen bg-background py-8">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+        <Button
+          variant="ghost"
+          onClick={() => navigate(ROUTES.professionals)}
+          className="mb-4"
+        >
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Professionals
+        </Button>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-start gap-4">
+              <Avatar className="w-20 h-20">
+                <AvatarImage src={professional.avatar_url || ''} alt={professional.name} />
+                <AvatarFallback>{professional.name.split(' ').map(n => n[0]).join('')}</AvatarFallback>
+              </Avatar>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 mb-1">
+                  <CardTitle className="text-2xl">{professional.name}</CardTitle>
+                  {professional.verified && (
+                    <Badge variant="secondary" className="text-green-700">
+                      <Shield className="h-3 w-3 mr-1" />
+                      Verified
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-muted-foreground mb-2">{professional.title}</p>
+                <div className="flex items-center gap-1 mb-2">
+                  <StarRating rating={professional.rating} />
+                  <span className="ml-1 text-sm font-medium">{professional.rating}</span>
+                  <span className="text-sm text-muted-foreground">
+                    ({professional.review_count} reviews)
+                  </span>
+                </div>
+                <div className="flex items-center text-sm text-muted-foreground">
+                  <MapPin className="h-4 w-4 mr-1" />
+                  {professional.location}
+                </div>
+              </div>
+              <div className="text-right">
+                <div className="text-xl font-semibold text-primary mb-3">
+                  {formatPrice(professional.hourly_rate)}
+                </div>
+                {canInvite && (
+                  <Button onClick={() => setInviteOpen(true)}>
+                    <Send className="h-4 w-4 mr-2" />
+                    Invite to Bid
+                  </Button>
+                )}
+                {isOwnProfile && (
+                  <Button variant="outline" onClick={() => navigate(ROUTES.editProfile)}>
+                    <Pencil className="h-4 w-4 mr-2" />
+                    Edit Profile
+                  </Button>
+                )}
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {professional.description && (
+              <p className="text-muted-foreground whitespace-pre-wrap">{professional.description}</p>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+              <div className="flex items-center">
+                <Briefcase className="h-4 w-4 mr-2 text-muted-foreground" />
+                <span>{professional.experience_years} years experience</span>
+              </div>
+              <div className="flex items-center">
+                <span className="font-medium">{professional.completed_jobs} jobs completed</span>
+              </div>
+              <div className="flex items-center">
+                <Clock className="h-4 w-4 mr-2 text-muted-foreground" />
+                <span>Responds {professional.response_time.toLowerCase()}</span>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-4 text-sm">
+              {professional.phone && (
+                <a href={`tel:${professional.phone}`} className="flex items-center hover:text-primary">
+                  <Phone className="h-4 w-4 mr-2 text-muted-foreground" />
+                  {professional.phone}
+                </a>
+              )}
+              {professional.email && (
+                <a href={`mailto:${professional.email}`} className="flex items-center hover:text-primary">
+                  <Mail className="h-4 w-4 mr-2 text-muted-foreground" />
+                  {professional.email}
+                </a>
+              )}
+              <span className="text-muted-foreground">
+                Prefers: {CONTACT_PREFERENCE_LABELS[professional.preferred_contact]}
+              </span>
+            </div>
+
+            <div>
+              <p className="text-sm font-medium mb-2">Skills:</p>
+              <div className="flex flex-wrap gap-1">
+                {professional.skills.map((skill) => (
+                  <Badge key={skill} variant="outline" className="text-xs">
+                    {skill}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="mt-6 space-y-6">
+          <PortfolioGallery
+            professionalId={professional.id}
+            ownerUserId={isOwnProfile ? user.id : null}
+          />
+          <JobHistoryList professionalId={professional.id} />
+          <ReviewList professionalUserId={professional.user_id} />
+        </div>
+      </div>
+
+      {canInvite && user && (
+        <InviteToBidDialog
+          open={inviteOpen}
+          onOpenChange={setInviteOpen}
+          professionalId={professional.id}
+          professionalName={professional.name}
+          userId={user.id}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ProfessionalProfilePage;
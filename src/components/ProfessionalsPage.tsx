@@ -1,18 +1,19 @@
 import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { ArrowLeft, Search, MapPin, Star, Shield, Briefcase, Phone, Mail, Filter } from 'lucide-react';
+import { ArrowLeft, Search, MapPin, Shield, Briefcase, Phone, Mail, Filter, User } from 'lucide-react';
 import { useProfessionals } from '@/hooks/useProfessionals';
+import { StarRating } from '@/components/StarRating';
+import { ROUTES, paths } from '@/lib/routes';
+import { formatHourlyRate } from '@/lib/budget';
 
-interface ProfessionalsPageProps {
-  onViewChange: (view: string) => void;
-}
-
-export const ProfessionalsPage = ({ onViewChange }: ProfessionalsPageProps) => {
+export const ProfessionalsPage = () => {
+  const navigate = useNavigate();
   const [searchTerm, setSearchTerm] = useState('');
   const [skillFilter, setSkillFilter] = useState('all');
   const [locationFilter, setLocationFilter] = useState('');
@@ -22,7 +23,7 @@ export const ProfessionalsPage = ({ onViewChange }: ProfessionalsPageProps) => {
 
   const formatPrice = (hourlyRate: number | null) => {
     if (!hourlyRate) return 'Contact for pricing';
-    return `$${(hourlyRate / 100).toFixed(0)}/hour`;
+    return formatHourlyRate(hourlyRate);
   };
 
   // All professionals now come from the database
@@ -52,15 +53,6 @@ export const ProfessionalsPage = ({ onViewChange }: ProfessionalsPageProps) => {
     return matchesSearch && matchesSkill && matchesLocation && matchesRating;
   });
 
-  const renderStars = (rating: number) => {
-    return Array.from({ length: 5 }, (_, i) => (
-      <Star
-        key={i}
-        className={`h-4 w-4 ${i < Math.floor(rating) ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300'}`}
-      />
-    ));
-  };
-
   return (
     <div className="min-h-screen bg-background py-8">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -68,7 +60,7 @@ export const ProfessionalsPage = ({ onViewChange }: ProfessionalsPageProps) => {
         <div className="mb-8">
           <Button 
             variant="ghost" 
-            onClick={() => onViewChange('home')} 
+            onClick={() => navigate(ROUTES.home)} 
             className="mb-4"
           >
             <ArrowLeft className="h-4 w-4 mr-2" />
@@ -165,7 +157,7 @@ export const ProfessionalsPage = ({ onViewChange }: ProfessionalsPageProps) => {
                     </div>
                     <p className="text-muted-foreground mb-2">{pro.title}</p>
                     <div className="flex items-center gap-1 mb-2">
-                      {renderStars(pro.rating)}
+                      <StarRating rating={pro.rating} />
                       <span className="ml-1 text-sm font-medium">{pro.rating}</span>
                       <span className="text-sm text-muted-foreground">
                         ({pro.review_count} reviews)
@@ -215,6 +207,10 @@ export const ProfessionalsPage = ({ onViewChange }: ProfessionalsPageProps) => {
                 </div>
 
                 <div className="flex gap-2">
+                  <Button variant="outline" size="sm" className="flex-1" onClick={() => navigate(paths.professionalProfile(pro.id))}>
+                    <User className="h-4 w-4 mr-1" />
+                    View Profile
+                  </Button>
                   <Button variant="outline" size="sm" className="flex-1">
                     <Mail className="h-4 w-4 mr-1" />
                     Message
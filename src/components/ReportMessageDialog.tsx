@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Textarea } from '@/components/ui/textarea';
+import type { Message } from '@/hooks/useChat';
+import { useReportMessage } from '@/hooks/useModeration';
+import { REPORT_REASONS, REPORT_REASON_LABELS, type ReportReason } from '@/lib/moderation';
+
+interface ReportMessageDialogProps {
+  message: Message;
+  onClose: () => void;
+}
+
+/**
+ * ReportMessageDialog Component - Reports a received message to the admins
+ *
+ * The report keeps a copy of the message, so it can still be reviewed if the
+ * sender edits or deletes it afterwards.
+ */
+export const ReportMessageDialog = ({ message, onClose }: ReportMessageDialogProps) => {
+  const [reason, setReason] = useState<ReportReason>('harassment');
+  const [details, setDetails] = useState('');
+  const reportMessage = useReportMessage();
+
+  const handleSubmit = () => {
+    reportMessage.mutate(
+      { messageId: message.id, reason, details: details.trim() || undefined },
+      { onSuccess: onClose }
+    );
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Report Message</DialogTitle>
+          <DialogDescription>
+            Our team will review it. The sender isn't told who reported them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {message.content && (
+            <blockquote className="border-l-2 pl-3 text-sm text-muted-foreground whitespace-pre-wrap line-clamp-4">
+              {message.content}
+            </blockquote>
+          )}
+
+          <RadioGroup value={reason} onValueChange={(value) => setReason(value as ReportReason)}>
+            {REPORT_REASONS.map((value) => (
+              <div key={value} className="flex items-center gap-2">
+                <RadioGroupItem value={value} id={`report-reason-${value}`} />
+                <Label htmlFor={`report-reason-${value}`}>{REPORT_REASON_LABELS[value]}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          <div className="space-y-2">
+            <Label htmlFor="report-details">Anything else we should know (optional)</Label>
+            <Textarea
+              id="report-details"
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleSubmit} disabled={reportMessage.isPending}>
+            {reportMessage.isPending ? 'Reporting...' : 'Report'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { StarRating } from '@/components/StarRating';
+import { useCreateReview } from '@/hooks/useReviews';
+
+interface ReviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  jobId: string;
+  jobTitle: string;
+  reviewerId: string;
+  professionalName?: string;
+}
+
+/**
+ * ReviewDialog Component - Lets a job poster rate the professional on a completed job
+ */
+export const ReviewDialog = ({ open, onOpenChange, jobId, jobTitle, reviewerId, professionalName }: ReviewDialogProps) => {
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState('');
+  const createReview = useCreateReview();
+
+  const handleSubmit = () => {
+    createReview.mutate(
+      { job_id: jobId, reviewer_id: reviewerId, rating, comment: comment.trim() || undefined },
+      {
+        onSuccess: () => {
+          setRating(0);
+          setComment('');
+          onOpenChange(false);
+        }
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Leave a Review</DialogTitle>
+          <DialogDescription>
+            How did {professionalName || 'the professional'} do on "{jobTitle}"? Reviews can't be changed once submitted.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Rating</Label>
+            <StarRating rating={rating} onChange={setRating} size="lg" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="review-comment">Comment (optional)</Label>
+            <Textarea
+              id="review-comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Share details about the quality of work, communication and timeliness"
+              rows={4}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={rating === 0 || createReview.isPending}>
+            {createReview.isPending ? 'Submitting...' : 'Submit Review'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
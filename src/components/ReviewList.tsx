@@ -0,0 +1,56 @@
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Separator } from '@/components/ui/separator';
+import { StarRating } from '@/components/StarRating';
+import { useProfessionalReviews } from '@/hooks/useReviews';
+
+interface ReviewListProps {
+  professionalUserId: string | null;  // Auth user id of the professional (null if not registered)
+}
+
+/**
+ * ReviewList Component - Reviews left for a professional, newest first
+ */
+export const ReviewList = ({ professionalUserId }: ReviewListProps) => {
+  const { data: reviews = [], isLoading, error } = useProfessionalReviews(professionalUserId);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Reviews ({reviews.length})</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-muted-foreground">Loading reviews...</p>
+        ) : error ? (
+          <p className="text-muted-foreground">Error loading reviews. Please try again.</p>
+        ) : reviews.length === 0 ? (
+          <p className="text-muted-foreground">No reviews yet</p>
+        ) : (
+          <div className="space-y-4">
+            {reviews.map((review, index) => (
+              <div key={review.id}>
+                {index > 0 && <Separator className="mb-4" />}
+                <div className="flex items-center justify-between mb-1">
+                  <StarRating rating={review.rating} />
+                  <span className="text-xs text-muted-foreground">
+                    {format(new Date(review.created_at), 'MMM dd, yyyy')}
+                  </span>
+                </div>
+                <p className="text-sm font-medium">
+                  {review.reviewer_name || 'Anonymous'}
+                  {review.jobs?.title && (
+                    <span className="text-muted-foreground font-normal"> · {review.jobs.title}</span>
+                  )}
+                </p>
+                {review.comment && (
+                  <p className="text-sm text-muted-foreground mt-1 whitespace-pre-wrap">{review.comment}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,56 @@
+import { Link, Navigate, Outlet, useLocation } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/useAuth';
+import { ROLE_LABELS, rolesWithPermission, type Permission } from '@/lib/permissions';
+import { ROUTES } from '@/lib/routes';
+
+interface RequireAuthProps {
+  permission?: Permission;  // Permission needed for the nested routes (any signed-in user if omitted)
+}
+
+/**
+ * RequireAuth Component - Layout route that guards its nested routes
+ *
+ * - Shows a spinner while the session (and, for permission checks, the profile) loads
+ * - Sends signed-out users to /auth, remembering where they were headed
+ * - Shows an access message when the user's role lacks the permission
+ *
+ * This only decides what the UI shows - RLS enforces the same rules in the database.
+ */
+export const RequireAuth = ({ permission }: RequireAuthProps) => {
+  const { loading, isAuthenticated, profile, can } = useAuth();
+  const location = useLocation();
+
+  // The profile is fetched after the session, so wait for it before checking permissions
+  if (loading || (isAuthenticated && permission && !profile)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return <Navigate to={ROUTES.auth} replace state={{ from: location }} />;
+  }
+
+  if (permission && !can(permission)) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-lg text-muted-foreground mb-4">
+            This page is only available to {rolesWithPermission(permission).map(role => `${ROLE_LABELS[role]}s`).join(' and ')}
+          </p>
+          <Button asChild>
+            <Link to={ROUTES.home}>Return Home</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return <Outlet />;
+};
@@ -0,0 +1,54 @@
+import { Star } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface StarRatingProps {
+  rating: number;                        // Current rating (0-5, may be fractional when display-only)
+  onChange?: (rating: number) => void;   // Makes the stars clickable when provided
+  size?: 'sm' | 'md' | 'lg';
+  className?: string;
+}
+
+const SIZE_CLASSES = {
+  sm: 'h-4 w-4',
+  md: 'h-5 w-5',
+  lg: 'h-7 w-7',
+};
+
+/**
+ * StarRating Component - Five stars, filled up to the rating
+ *
+ * Display-only by default; pass onChange to use it as a rating input.
+ */
+export const StarRating = ({ rating, onChange, size = 'sm', className }: StarRatingProps) => {
+  return (
+    <div className={cn('flex items-center gap-0.5', className)} role={onChange ? 'radiogroup' : undefined}>
+      {Array.from({ length: 5 }, (_, i) => {
+        const value = i + 1;
+        const star = (
+          <Star
+            className={cn(
+              SIZE_CLASSES[size],
+              i < Math.floor(rating) ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300'
+            )}
+          />
+        );
+
+        return onChange ? (
+          <button
+            key={value}
+            type="button"
+            role="radio"
+            aria-checked={value === rating}
+            aria-label={`${value} star${value === 1 ? '' : 's'}`}
+            onClick={() => onChange(value)}
+            className="transition-transform hover:scale-110"
+          >
+            {star}
+          </button>
+        ) : (
+          <span key={value}>{star}</span>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+import { Badge } from '@/components/ui/badge';
+import {
+  BID_STATUS_BADGE_VARIANTS,
+  BID_STATUS_LABELS,
+  JOB_STATUS_BADGE_VARIANTS,
+  JOB_STATUS_LABELS,
+  type BidStatus,
+  type JobStatus,
+} from '@/lib/status';
+import { PAYMENT_STATE_BADGE_VARIANTS, PAYMENT_STATE_LABELS, type PaymentState } from '@/lib/payments';
+import { INVOICE_STATUS_BADGE_VARIANTS, INVOICE_STATUS_LABELS, type InvoiceStatus } from '@/lib/invoices';
+import { DISPUTE_STATUS_BADGE_VARIANTS, DISPUTE_STATUS_LABELS, type DisputeStatus } from '@/lib/disputes';
+import { MODERATION_STATUS_BADGE_VARIANTS, MODERATION_STATUS_LABELS, type ModerationStatus } from '@/lib/moderation';
+
+interface JobStatusBadgeProps {
+  status: JobStatus;
+  className?: string;
+}
+
+interface BidStatusBadgeProps {
+  status: BidStatus;
+  className?: string;
+}
+
+interface PaymentStateBadgeProps {
+  state: PaymentState;
+  className?: string;
+}
+
+interface InvoiceStatusBadgeProps {
+  status: InvoiceStatus;
+  className?: string;
+}
+
+interface DisputeStatusBadgeProps {
+  status: DisputeStatus;
+  className?: string;
+}
+
+interface ModerationStatusBadgeProps {
+  status: ModerationStatus;
+  className?: string;
+}
+
+/**
+ * Badges for job and bid statuses - colours and labels come from @/lib/status
+ * (@/lib/payments for escrow states, @/lib/invoices for invoices, @/lib/disputes
+ * for disputes, @/lib/moderation for reported messages)
+ */
+export const JobStatusBadge = ({ status, className }: JobStatusBadgeProps) => (
+  <Badge variant={JOB_STATUS_BADGE_VARIANTS[status]} className={className}>
+    {JOB_STATUS_LABELS[status]}
+  </Badge>
+);
+
+export const BidStatusBadge = ({ status, className }: BidStatusBadgeProps) => (
+  <Badge variant={BID_STATUS_BADGE_VARIANTS[status]} className={className}>
+    {BID_STATUS_LABELS[status]}
+  </Badge>
+);
+
+export const PaymentStateBadge = ({ state, className }: PaymentStateBadgeProps) => (
+  <Badge variant={PAYMENT_STATE_BADGE_VARIANTS[state]} className={className}>
+    {PAYMENT_STATE_LABELS[state]}
+  </Badge>
+);
+
+export const InvoiceStatusBadge = ({ status, className }: InvoiceStatusBadgeProps) => (
+  <Badge variant={INVOICE_STATUS_BADGE_VARIANTS[status]} className={className}>
+    {INVOICE_STATUS_LABELS[status]}
+  </Badge>
+);
+
+export const DisputeStatusBadge = ({ status, className }: DisputeStatusBadgeProps) => (
+  <Badge variant={DISPUTE_STATUS_BADGE_VARIANTS[status]} className={className}>
+    {DISPUTE_STATUS_LABELS[status]}
+  </Badge>
+);
+
+
+export const ModerationStatusBadge = ({ status, className }: ModerationStatusBadgeProps) => (
+  <Badge variant={MODERATION_STATUS_BADGE_VARIANTS[status]} className={className}>
+    {MODERATION_STATUS_LABELS[status]}
+  </Badge>
+);
\ No newline at end of file
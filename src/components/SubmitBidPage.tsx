@@ -6,6 +6,8 @@
 
 // REACT IMPORTS
 import React, { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
 
 // ICON IMPORTS - ArrowLeft for back navigation
 import { ArrowLeft } from "lucide-react";
@@ -16,35 +18,48 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { BankAccountFields } from "@/components/BankAccountFields";
 
 // CUSTOM HOOKS - useToast for showing success/error messages
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
+import { useMyActiveBid } from "@/hooks/useBids";
+import { useFeeRules } from "@/hooks/useFeeRules";
+import { saveBankDetails } from "@/hooks/useBankDetails";
+import { useJobRouteParams } from "@/hooks/useRouteParams";
+import { ROUTES, paths } from "@/lib/routes";
+import { budgetFromColumns, formatBudget, formatMoney, type BudgetColumns } from "@/lib/budget";
+import { BID_INELIGIBILITY_MESSAGES, describeBidError, getBidIneligibility } from "@/lib/bidEligibility";
+import { calculatePlatformFee, describeFeeRule, professionalPayout, selectFeeRule } from "@/lib/fees";
+import { EMPTY_BANK_ACCOUNT, validateBankAccount, type BankAccountValues } from "@/lib/bankAccount";
+import type { JobStatus } from "@/lib/status";
 
 // SUPABASE CLIENT - For database operations
 import { supabase } from "@/integrations/supabase/client";
 
-// COMPONENT PROPS INTERFACE
-// Defines what data this component expects to receive from parent
-interface SubmitBidPageProps {
-  jobId: string;                      // Job ID to fetch and submit bid for
-  onViewChange: (view: string) => void; // Function to navigate to different pages
-}
-
 // JOB INTERFACE
 // Defines the structure of job data
-interface Job {
+interface Job extends BudgetColumns {
   id: string;
   title: string;
   description: string;
   location: string;
-  budget_min?: number;
-  budget_max?: number;
+  status: JobStatus;
+  category: string;
+  user_id: string | null;
+  bid_deadline: string | null;
 }
 
 // MAIN COMPONENT FUNCTION
-const SubmitBidPage: React.FC<SubmitBidPageProps> = ({ jobId, onViewChange }) => {
-  const { user, profile } = useAuth();
+// The job ID comes from the /jobs/:id/bid route
+const SubmitBidPage: React.FC = () => {
+  const { id: jobId } = useJobRouteParams();
+  const navigate = useNavigate();
+  const { user, profile, isProfessional } = useAuth();
+  // An existing pending/accepted bid means this professional can't bid again
+  const { data: activeBid, isLoading: activeBidLoading } = useMyActiveBid(jobId, user?.id);
+  // Fee rules for previewing the platform fee on the bid
+  const { data: feeRules = [] } = useFeeRules();
   // TOAST HOOK - For showing success/error notifications
   const { toast } = useToast();
   
@@ -63,10 +78,12 @@ const SubmitBidPage: React.FC<SubmitBidPageProps> = ({ jobId, onViewChange }) =>
     bidder_phone: "",          // Contact phone number
     hourly_rate: "",           // How much they charge per hour
     estimated_hours: "",       // How many hours they estimate the job will take
-    bank_account_number: "",   // For payment processing
     message: "",               // Optional message to the homeowner
   });
 
+  // BANK ACCOUNT STATE - Where to be paid; saved encrypted after the bid is created
+  const [bankAccount, setBankAccount] = useState<BankAccountValues>(EMPTY_BANK_ACCOUNT);
+
   // FETCH JOB DATA
   // Retrieves job details from database
   const fetchJob = async () => {
@@ -86,7 +103,7 @@ const SubmitBidPage: React.FC<SubmitBidPageProps> = ({ jobId, onViewChange }) =>
           description: "The job you're trying to bid on doesn't exist.",
           variant: "destructive",
         });
-        onViewChange("browse-jobs");
+        navigate(ROUTES.browseJobs);
         return;
       }
       
@@ -99,7 +116,7 @@ const SubmitBidPage: React.FC<SubmitBidPageProps> = ({ jobId, onViewChange }) =>
         description: "Please try again later.",
         variant: "destructive",
       });
-      onViewChange("browse-jobs");
+      navigate(ROUTES.browseJobs);
     } finally {
       setLoading(false);
     }
@@ -119,12 +136,17 @@ const SubmitBidPage: React.FC<SubmitBidPageProps> = ({ jobId, onViewChange }) =>
   };
 
   // TOTAL CALCULATION FUNCTION
-  // Calculates the total bid amount based on hourly rate × estimated hours
+  // Calculates the total bid amount based on hourly rate × estimated hours, the
+  // platform fee on it (and the rule it comes from) and what the professional is
+  // paid, all in cents
   // parseFloat converts strings to numbers, || 0 provides fallback if empty/invalid
   const calculateTotal = () => {
     const rate = parseFloat(formData.hourly_rate) || 0;
     const hours = parseFloat(formData.estimated_hours) || 0;
-    return rate * hours;
+    const amount = Math.round(rate * hours * 100);
+    const feeRule = job ? selectFeeRule(feeRules, job.category) : null;
+    const fee = calculatePlatformFee(amount, feeRule);
+    return { amount, fee, feeRule, payout: professionalPayout(amount, fee) };
   };
 
   // FORM SUBMISSION HANDLER
@@ -139,10 +161,21 @@ const SubmitBidPage: React.FC<SubmitBidPageProps> = ({ jobId, onViewChange }) =>
         description: "Please sign in to submit a bid.",
         variant: "destructive",
       });
-      onViewChange('auth');
+      navigate(ROUTES.auth);
       return;
     }
     
+    // Check the bank details before creating the bid; the database checks them again
+    const bankAccountProblem = validateBankAccount(bankAccount.format, bankAccount.routingCode, bankAccount.accountNumber);
+    if (bankAccountProblem) {
+      toast({
+        title: "Check your bank details",
+        description: bankAccountProblem,
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsSubmitting(true); // Show loading state and disable submit button
 
     try {
@@ -151,26 +184,42 @@ const SubmitBidPage: React.FC<SubmitBidPageProps> = ({ jobId, onViewChange }) =>
       
       // INSERT BID INTO DATABASE
       // Using Supabase client to add a new record to the "bids" table
-      const { error } = await supabase
+      const { data: bid, error } = await supabase
         .from("bids")
         .insert({
           job_id: job.id,                                    // Link bid to specific job
           professional_id: user.id,                          // Set authenticated user's ID
           user_id: user.id,                                  // Also set user_id for consistency
-          amount: Math.round(total * 100),                   // Convert to cents for storage
+          amount: total.amount,                              // Cents; the database stores the fee
           bidder_name: formData.bidder_name,                // Professional's name
           bidder_email: formData.bidder_email,              // Contact email
           bidder_phone: formData.bidder_phone,              // Contact phone
           hourly_rate: Math.round(parseFloat(formData.hourly_rate) * 100), // Convert to cents
           estimated_hours: parseInt(formData.estimated_hours), // Convert string to integer
-          bank_account_number: formData.bank_account_number, // Payment info
           message: formData.message,                         // Optional message
           status: "pending",                                 // Default status for new bids
-        });
+        })
+        .select("id")
+        .single();
 
       // CHECK FOR DATABASE ERRORS
       if (error) throw error;
 
+      // SAVE BANK DETAILS - Encrypted by the database; the bid stands even if this
+      // fails, and the details can be added from the job page
+      try {
+        await saveBankDetails({ bidId: bid.id, ...bankAccount });
+      } catch (bankError) {
+        console.error("Error saving bank details:", bankError);
+        toast({
+          title: "Bid submitted, but your bank details weren't saved",
+          description: "Add them from the job page before the job starts.",
+          variant: "destructive",
+        });
+        navigate(paths.jobDetails(job.id));
+        return;
+      }
+
       // SHOW SUCCESS MESSAGE
       toast({
         title: "Bid submitted successfully!",
@@ -178,15 +227,15 @@ const SubmitBidPage: React.FC<SubmitBidPageProps> = ({ jobId, onViewChange }) =>
       });
 
       // NAVIGATE BACK TO JOB LISTINGS
-      onViewChange("browse-jobs");
+      navigate(ROUTES.browseJobs);
       
     } catch (error: any) {
       // HANDLE ANY ERRORS
+      // Eligibility failures come back with a HINT code that maps to a specific message
       console.error("Error submitting bid:", error);
       
       toast({
-        title: "Error submitting bid",
-        description: "Please try again later.",
+        ...describeBidError(error),
         variant: "destructive",
       });
     } finally {
@@ -197,7 +246,7 @@ const SubmitBidPage: React.FC<SubmitBidPageProps> = ({ jobId, onViewChange }) =>
   };
 
   // Show loading screen while fetching job data
-  if (loading) {
+  if (loading || activeBidLoading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
         <div className="text-center">
@@ -214,7 +263,7 @@ const SubmitBidPage: React.FC<SubmitBidPageProps> = ({ jobId, onViewChange }) =>
       <div className="min-h-screen bg-background flex items-center justify-center">
         <div className="text-center">
           <p className="text-lg text-muted-foreground mb-4">Job not found</p>
-          <Button onClick={() => onViewChange("browse-jobs")}>
+          <Button onClick={() => navigate(ROUTES.browseJobs)}>
             <ArrowLeft className="h-4 w-4 mr-2" />
             Back to Jobs
           </Button>
@@ -224,6 +273,17 @@ const SubmitBidPage: React.FC<SubmitBidPageProps> = ({ jobId, onViewChange }) =>
   }
 
 
+  // ELIGIBILITY - Same rules the database enforces on insert
+  const ineligibility = getBidIneligibility({
+    job,
+    userId: user?.id,
+    isProfessional,
+    hasActiveBid: !!activeBid,
+  });
+
+  // Bid total with the platform fee taken off the professional's payout
+  const bidTotal = calculateTotal();
+
   return (
     <div className="min-h-screen bg-background">
       <div className="container mx-auto px-4 py-8">
@@ -231,7 +291,7 @@ const SubmitBidPage: React.FC<SubmitBidPageProps> = ({ jobId, onViewChange }) =>
           <Button
             variant="ghost"
             size="sm"
-            onClick={() => onViewChange("browse-jobs")}
+            onClick={() => navigate(ROUTES.browseJobs)}
             className="text-foreground hover:text-primary"
           >
             <ArrowLeft className="h-4 w-4 mr-2" />
@@ -246,13 +306,25 @@ const SubmitBidPage: React.FC<SubmitBidPageProps> = ({ jobId, onViewChange }) =>
                 Submit Bid for: {job.title}
               </CardTitle>
               <p className="text-muted-foreground">{job.location}</p>
-              {job.budget_min && job.budget_max && (
+              <p className="text-sm text-muted-foreground">
+                Budget: {formatBudget(budgetFromColumns(job))}
+              </p>
+              {job.bid_deadline && (
                 <p className="text-sm text-muted-foreground">
-                  Budget: ${job.budget_min} - ${job.budget_max}
+                  Bids close {format(new Date(job.bid_deadline), "MMM d, yyyy h:mm a")}
                 </p>
               )}
             </CardHeader>
             <CardContent>
+              {ineligibility ? (
+                <div className="text-center py-8 space-y-4">
+                  <h3 className="text-lg font-semibold">{BID_INELIGIBILITY_MESSAGES[ineligibility].title}</h3>
+                  <p className="text-muted-foreground">{BID_INELIGIBILITY_MESSAGES[ineligibility].description}</p>
+                  <Button variant="outline" onClick={() => navigate(paths.jobDetails(job.id))}>
+                    View Job
+                  </Button>
+                </div>
+              ) : (
               <form onSubmit={handleSubmit} className="space-y-6">
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div>
@@ -321,21 +393,20 @@ const SubmitBidPage: React.FC<SubmitBidPageProps> = ({ jobId, onViewChange }) =>
 
                 <div className="bg-muted p-4 rounded-lg">
                   <p className="text-lg font-semibold text-primary">
-                    Total Bid Amount: ${calculateTotal().toFixed(2)}
+                    Total Bid Amount: {formatMoney(bidTotal.amount)}
                   </p>
+                  {bidTotal.fee > 0 && bidTotal.feeRule && (
+                    <p className="text-sm text-muted-foreground mt-1">
+                      Platform fee {formatMoney(bidTotal.fee)} ({describeFeeRule(bidTotal.feeRule)}) · You receive{' '}
+                      {formatMoney(bidTotal.payout)}
+                    </p>
+                  )}
                 </div>
 
-                <div>
-                  <Label htmlFor="bank_account_number">Bank Account Number *</Label>
-                  <Input
-                    id="bank_account_number"
-                    name="bank_account_number"
-                    value={formData.bank_account_number}
-                    onChange={handleInputChange}
-                    placeholder="For payment processing"
-                    required
-                  />
-                </div>
+                <BankAccountFields
+                  values={bankAccount}
+                  onChange={(changes) => setBankAccount((prev) => ({ ...prev, ...changes }))}
+                />
 
                 <div>
                   <Label htmlFor="message">Additional Message</Label>
@@ -357,6 +428,7 @@ const SubmitBidPage: React.FC<SubmitBidPageProps> = ({ jobId, onViewChange }) =>
                   {isSubmitting ? "Submitting..." : "Submit Bid"}
                 </Button>
               </form>
+              )}
             </CardContent>
           </Card>
         </div>
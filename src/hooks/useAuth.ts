@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/components/ui/use-toast';
+import { hasPermission, type Permission, type UserRole } from '@/lib/permissions';
 
 export interface UserProfile {
   id: string;
@@ -9,7 +10,7 @@ export interface UserProfile {
   email: string;
   full_name: string | null;
   phone: string | null;
-  role: 'job_poster' | 'professional';
+  role: UserRole;
   created_at: string;
   updated_at: string;
 }
@@ -71,7 +72,7 @@ export const useAuth = () => {
   const signUp = async (email: string, password: string, userData: {
     full_name: string;
     phone?: string;
-    role: 'job_poster' | 'professional';
+    role: UserRole;
   }) => {
     try {
       setLoading(true);
@@ -241,5 +242,6 @@ export const useAuth = () => {
     isAuthenticated: !!user,
     isJobPoster: profile?.role === 'job_poster',
     isProfessional: profile?.role === 'professional',
+    can: (permission: Permission) => hasPermission(profile?.role, permission),
   };
 };
\ No newline at end of file
@@ -0,0 +1,122 @@
+// IMPORT REACT QUERY HOOKS - These help us manage API calls to our database
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';  // Our database connection
+import { useToast } from '@/hooks/use-toast';  // For showing success/error messages
+import type { BankAccountFormat } from '@/lib/bankAccount';
+
+// BID PAYMENT DETAILS INTERFACE - The readable columns of "bid_payment_details";
+// the encrypted account number itself can't be selected
+export interface BidPaymentDetails {
+  id: string;
+  bid_id: string;
+  user_id: string;
+  account_format: BankAccountFormat | null;  // NULL for details saved before formats were checked
+  routing_code: string | null;
+  account_last4: string;
+  created_at: string;
+  updated_at: string;
+  bank_detail_reveals: BankDetailReveal[];
+}
+
+// One row of the "bank_detail_reveals" audit log
+export interface BankDetailReveal {
+  id: string;
+  revealed_by: string | null;         // NULL when revealed by the service role for a payout
+  revealed_as: 'owner' | 'service_role';
+  reason: string | null;
+  revealed_at: string;
+}
+
+export interface BankDetailsInput {
+  bidId: string;
+  format: BankAccountFormat;
+  routingCode: string;
+  accountNumber: string;
+}
+
+// Listed explicitly: selecting * would include the encrypted column and be refused
+const DETAILS_COLUMNS =
+  'id, bid_id, user_id, account_format, routing_code, account_last4, created_at, updated_at, ' +
+  'bank_detail_reveals(id, revealed_by, revealed_as, reason, revealed_at)';
+
+// Saves (or replaces) the bank details for one of the caller's bids
+export const saveBankDetails = async ({ bidId, format, routingCode, accountNumber }: BankDetailsInput) => {
+  const { error } = await supabase.rpc('save_bid_payment_details', {
+    p_bid_id: bidId,
+    p_format: format,
+    p_routing_code: routingCode,
+    p_account_number: accountNumber,
+  });
+  if (error) throw error;
+};
+
+// HOOK TO FETCH A BID'S MASKED BANK DETAILS - With the reveal log, newest first;
+// null when none are saved
+export const useBidPaymentDetails = (bidId: string) => {
+  return useQuery({
+    queryKey: ['bid-payment-details', bidId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('bid_payment_details')
+        .select(DETAILS_COLUMNS)
+        .eq('bid_id', bidId)
+        .order('revealed_at', { referencedTable: 'bank_detail_reveals', ascending: false })
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as unknown as BidPaymentDetails | null;
+    },
+    enabled: !!bidId
+  });
+};
+
+// HOOK TO SAVE BANK DETAILS - Validated again by the database
+export const useSaveBankDetails = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: saveBankDetails,
+
+    onSuccess: (_data, { bidId }) => {
+      queryClient.invalidateQueries({ queryKey: ['bid-payment-details', bidId] });
+      toast({
+        title: "Bank details saved",
+      });
+    },
+
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save bank details",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+// HOOK TO REVEAL THE FULL ACCOUNT NUMBER - Each reveal is added to the audit log
+export const useRevealAccountNumber = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (bidId: string) => {
+      const { data, error } = await supabase.rpc('reveal_bid_account_number', { p_bid_id: bidId });
+      if (error) throw error;
+      return data;
+    },
+
+    onSuccess: (_data, bidId) => {
+      queryClient.invalidateQueries({ queryKey: ['bid-payment-details', bidId] });
+    },
+
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't show account number",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+};
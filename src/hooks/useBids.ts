@@ -0,0 +1,230 @@
+// IMPORT REACT QUERY HOOKS - These help us manage API calls to our database
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';  // Our database connection
+import { useToast } from '@/hooks/use-toast';  // For showing success/error messages
+
+// BID REVISION INTERFACE - One step in a bid's negotiation history ("bid_revisions" table)
+export type BidRevisionKind = 'submitted' | 'revised' | 'countered' | 'withdrawn';
+
+export interface BidRevision {
+  id: string;
+  bid_id: string;
+  author_id: string | null;           // Professional for submitted/revised/withdrawn, job owner for countered
+  kind: BidRevisionKind;
+  amount: number | null;              // Offer total in cents (null for withdrawals)
+  hourly_rate: number | null;         // In cents, when the offer is hourly
+  estimated_hours: number | null;
+  message: string | null;
+  created_at: string;
+}
+
+// Terms of an offer - used for both revisions and counter-offers
+// When hourly_rate and estimated_hours are both set the database computes the amount
+export interface BidOffer {
+  bidId: string;
+  amount: number;                     // In cents
+  hourlyRate?: number | null;         // In cents
+  estimatedHours?: number | null;
+  message?: string;
+}
+
+const offerParams = ({ bidId, amount, hourlyRate, estimatedHours, message }: BidOffer) => ({
+  p_bid_id: bidId,
+  p_amount: amount,
+  p_hourly_rate: hourlyRate ?? undefined,
+  p_estimated_hours: estimatedHours ?? undefined,
+  p_message: message || undefined,
+});
+
+// HOOK TO ACCEPT A BID - Runs the server-side accept_bid function
+// The database accepts the bid, rejects the other pending bids and moves the job
+// to in_progress in a single transaction, so a failure can't leave a half-accepted job
+export const useAcceptBid = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (bidId: string) => {
+      const { error } = await supabase.rpc('accept_bid', { p_bid_id: bidId });
+      if (error) throw error;
+    },
+
+    onSuccess: () => {
+      // The job is no longer open, so refresh the job listings
+      queryClient.invalidateQueries({ queryKey: ['jobs'] });
+
+      toast({
+        title: "Success",
+        description: "Bid accepted successfully!",
+      });
+    },
+
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to accept bid",
+        description: error.message,
+        variant: "destructive"
+      });
+      console.error('Error accepting bid:', error);
+    }
+  });
+};
+
+// HOOK TO REJECT A BID - Runs the server-side reject_bid function
+// Only the job owner can reject, and only while the bid is still pending
+export const useRejectBid = () => {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (bidId: string) => {
+      const { error } = await supabase.rpc('reject_bid', { p_bid_id: bidId });
+      if (error) throw error;
+    },
+
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Bid rejected",
+      });
+    },
+
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to reject bid",
+        description: error.message,
+        variant: "destructive"
+      });
+      console.error('Error rejecting bid:', error);
+    }
+  });
+};
+
+// HOOK TO FETCH THE CURRENT PROFESSIONAL'S ACTIVE BID ON A JOB - Pending or accepted
+// Professionals may only hold one active bid per job (enforced in the database)
+export const useMyActiveBid = (jobId: string, userId: string | null | undefined) => {
+  return useQuery({
+    queryKey: ['bids', 'active', jobId, userId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('bids')
+        .select('id, status')
+        .eq('job_id', jobId)
+        .eq('user_id', userId!)
+        .in('status', ['pending', 'accepted'])
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!jobId && !!userId
+  });
+};
+
+// HOOK TO FETCH A BID'S NEGOTIATION HISTORY - Oldest first
+export const useBidRevisions = (bidId: string) => {
+  return useQuery({
+    queryKey: ['bid-revisions', bidId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('bid_revisions')
+        .select('*')
+        .eq('bid_id', bidId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data as BidRevision[];
+    },
+    enabled: !!bidId
+  });
+};
+
+// HOOK TO REVISE A BID - The professional changes the terms of their pending bid
+export const useReviseBid = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (offer: BidOffer) => {
+      const { error } = await supabase.rpc('revise_bid', offerParams(offer));
+      if (error) throw error;
+    },
+
+    onSuccess: (_data, { bidId }) => {
+      queryClient.invalidateQueries({ queryKey: ['bid-revisions', bidId] });
+      toast({
+        title: "Bid updated",
+        description: "The job owner will see your revised offer.",
+      });
+    },
+
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to revise bid",
+        description: error.message,
+        variant: "destructive"
+      });
+      console.error('Error revising bid:', error);
+    }
+  });
+};
+
+// HOOK TO WITHDRAW A BID - The professional pulls out while the bid is still pending
+export const useWithdrawBid = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ bidId, message }: { bidId: string; message?: string }) => {
+      const { error } = await supabase.rpc('withdraw_bid', { p_bid_id: bidId, p_message: message || undefined });
+      if (error) throw error;
+    },
+
+    onSuccess: (_data, { bidId }) => {
+      queryClient.invalidateQueries({ queryKey: ['bid-revisions', bidId] });
+      toast({
+        title: "Bid withdrawn",
+        description: "Your bid is no longer being considered.",
+      });
+    },
+
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to withdraw bid",
+        description: error.message,
+        variant: "destructive"
+      });
+      console.error('Error withdrawing bid:', error);
+    }
+  });
+};
+
+// HOOK TO SEND A COUNTER-OFFER - The job owner proposes different terms on a pending bid
+// The bid keeps its terms until the professional revises it to match
+export const useCounterBid = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (offer: BidOffer) => {
+      const { error } = await supabase.rpc('counter_bid', offerParams(offer));
+      if (error) throw error;
+    },
+
+    onSuccess: (_data, { bidId }) => {
+      queryClient.invalidateQueries({ queryKey: ['bid-revisions', bidId] });
+      toast({
+        title: "Counter-offer sent",
+        description: "The professional can revise their bid to accept it.",
+      });
+    },
+
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to send counter-offer",
+        description: error.message,
+        variant: "destructive"
+      });
+      console.error('Error sending counter-offer:', error);
+    }
+  });
+};
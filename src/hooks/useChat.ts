@@ -1,307 +1,585 @@
-import { useState, useEffect } from 'react';
-import { supabase } from '@/integrations/supabase/client';
-import { useAuth } from '@/hooks/useAuth';
-import { useToast } from '@/components/ui/use-toast';
+// IMPORT REACT QUERY HOOKS - These help us manage API calls to our database
+import {
+  useQuery,
+  useInfiniteQuery,
+  useMutation,
+  useQueryClient,
+  type InfiniteData,
+  type QueryClient,
+} from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';  // Our database connection
+import { useToast } from '@/hooks/use-toast';  // For showing success/error messages
+import { resizeImage } from '@/lib/image';  // Shrinks photos and strips EXIF before upload
+import type { JobStatus } from '@/lib/status';
+import {
+  MESSAGE_ATTACHMENTS_BUCKET,
+  isImageAttachment,
+  shouldResizeAttachment,
+  validateAttachment,
+} from '@/lib/attachments';
+
+// How long signed attachment links stay valid (seconds)
+const ATTACHMENT_URL_TTL = 60 * 60;
+
+// Messages loaded per page of a conversation's history
+export const MESSAGES_PAGE_SIZE = 30;
+
+// How long after sending a message its sender can still edit it; the database
+// enforces the same window
+export const MESSAGE_EDIT_WINDOW_MINUTES = 15;
+
+const MESSAGE_COLUMNS = 'id, conversation_id, job_id, sender_id, recipient_id, content, delivered_at, read_at, edited_at, deleted_at, created_at, updated_at';
+const MESSAGE_SELECT = `${MESSAGE_COLUMNS}, message_attachments(*)`;
+
+// MESSAGE ATTACHMENT INTERFACE - Matches the "message_attachments" table, with a signed link
+export interface MessageAttachment {
+  id: string;
+  message_id: string;
+  conversation_id: string;
+  uploaded_by: string;
+  file_path: string;                  // "<conversation id>/<upload id>/<file>" inside the bucket
+  file_name: string;
+  content_type: string;
+  size_bytes: number;
+  created_at: string;
+  url: string | null;                 // Signed link; downloads non-image files under file_name
+}
 
+// MESSAGE INTERFACE - Matches the "messages" table, with its attachments
 export interface Message {
   id: string;
   conversation_id: string;
+  job_id: string;
   sender_id: string;
   recipient_id: string;
-  content: string;
+  content: string;                    // Empty when the message is only attachments, or deleted
+  delivered_at: string | null;        // When it reached the recipient's app
   read_at: string | null;
+  edited_at: string | null;           // Last edited by the sender
+  deleted_at: string | null;          // Deleted by the sender or removed by an admin
   created_at: string;
   updated_at: string;
-  sender_profile?: {
-    full_name: string;
-    email: string;
-  };
+  attachments: MessageAttachment[];
 }
 
-export interface Conversation {
+// CONVERSATION INTERFACE - A row of the "conversation_summaries" view: the
+// conversation with its job, the other participant, the latest message and the
+// viewer's unread count and preferences
+export interface ConversationSummary {
   id: string;
   job_id: string;
   job_poster_id: string;
   professional_id: string;
   last_message_at: string;
   created_at: string;
-  job?: {
-    title: string;
-    status: string;
-  };
-  other_participant?: {
-    full_name: string;
-    email: string;
-  };
+  job_title: string | null;
+  job_status: JobStatus | null;
+  other_participant_id: string | null;
+  other_participant_name: string | null;
+  other_participant_last_seen_at: string | null;
+  unread_count: number;
+  last_message_content: string | null;   // Empty for a message that is only attachments
+  last_message_sender_id: string | null;
+  last_message_deleted: boolean;
+  archived: boolean;                  // Archived by the viewer, with nothing newer since
+  muted: boolean;                     // Left out of the viewer's unread badge
 }
 
-/**
- * Custom hook for managing chat conversations and messages
- * 
- * Features:
- * - Real-time message updates using Supabase realtime
- * - Conversation management for job-related chats
- * - Message sending with optimistic updates
- * - Read status tracking
- */
-export const useChat = () => {
-  const { user } = useAuth();
-  const { toast } = useToast();
-  
-  const [conversations, setConversations] = useState<Conversation[]>([]);
-  const [messages, setMessages] = useState<Message[]>([]);
-  const [activeConversation, setActiveConversation] = useState<string | null>(null);
-  const [loading, setLoading] = useState(false);
-
-  /**
-   * Fetches all conversations for the current user
-   * Includes job details and other participant info
-   */
-  const fetchConversations = async () => {
-    if (!user) return;
-
-    try {
-      const { data, error } = await supabase
-        .from('conversations')
-        .select(`
-          *,
-          job:jobs(title, status)
-        `)
-        .or(`job_poster_id.eq.${user.id},professional_id.eq.${user.id}`)
-        .order('last_message_at', { ascending: false });
+// A message matching an inbox search
+export interface MessageSearchResult {
+  id: string;
+  conversation_id: string;
+  sender_id: string;
+  content: string;
+  created_at: string;
+}
 
-      if (error) {
-        console.error('Error fetching conversations:', error);
-        return;
-      }
+// Where the next page of a conversation's history starts: the oldest message loaded.
+// Messages can share a created_at, so the id breaks ties.
+export interface MessagesCursor {
+  created_at: string;
+  id: string;
+}
 
-      // Fetch participant profiles separately
-      const conversationsWithProfiles = await Promise.all(
-        (data || []).map(async (conv) => {
-          const otherUserId = user.id === conv.job_poster_id ? conv.professional_id : conv.job_poster_id;
-          
-          const { data: profileData } = await supabase
-            .from('profiles')
-            .select('full_name, email')
-            .eq('user_id', otherUserId)
-            .single();
-
-          return {
-            ...conv,
-            other_participant: profileData || { full_name: 'Unknown', email: '' }
-          };
-        })
-      );
+// One page of a conversation's history
+export interface MessagesPage {
+  messages: Message[];                // Oldest first
+  nextCursor: MessagesCursor | null;  // The oldest message, if there may be older ones
+}
 
-      setConversations(conversationsWithProfiles);
-    } catch (error) {
-      console.error('Conversation fetch error:', error);
+type MessageRow = Omit<Message, 'attachments'> & {
+  message_attachments: Omit<MessageAttachment, 'url'>[];
+};
+
+// Orders each message's attachments and signs their links
+const withAttachmentUrls = async (rows: MessageRow[]): Promise<Message[]> => {
+  const signed = await Promise.all(
+    rows.flatMap((row) => row.message_attachments).map(async (attachment) => {
+      const { data } = await supabase.storage
+        .from(MESSAGE_ATTACHMENTS_BUCKET)
+        .createSignedUrl(
+          attachment.file_path,
+          ATTACHMENT_URL_TTL,
+          isImageAttachment(attachment.content_type) ? undefined : { download: attachment.file_name }
+        );
+      return [attachment.id, data?.signedUrl ?? null] as const;
+    })
+  );
+  const urls = new Map(signed);
+
+  return rows.map(({ message_attachments, ...message }) => ({
+    ...message,
+    attachments: [...message_attachments]
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .map((attachment) => ({ ...attachment, url: urls.get(attachment.id) ?? null })),
+  }));
+};
+
+// Loads a single message with its attachments
+export const fetchMessage = async (messageId: string) => {
+  const { data, error } = await supabase
+    .from('messages')
+    .select(MESSAGE_SELECT)
+    .eq('id', messageId)
+    .single();
+
+  if (error) throw error;
+  const [message] = await withAttachmentUrls([data as unknown as MessageRow]);
+  return message;
+};
+
+// Adds a message to the end of its conversation's loaded history, if that
+// conversation has been opened and doesn't have it yet
+export const addMessageToCache = (queryClient: QueryClient, message: Message) => {
+  queryClient.setQueryData<InfiniteData<MessagesPage>>(['messages', message.conversation_id], (data) => {
+    if (!data || data.pages.some((page) => page.messages.some((m) => m.id === message.id))) return data;
+
+    const [newest, ...older] = data.pages;
+    return { ...data, pages: [{ ...newest, messages: [...newest.messages, message] }, ...older] };
+  });
+};
+
+// Applies an edit, deletion or change of delivery or read state to the loaded
+// history. A deleted message loses its attachments along with its text.
+export const updateMessageInCache = (
+  queryClient: QueryClient,
+  change: Pick<Message, 'id' | 'conversation_id' | 'content' | 'delivered_at' | 'read_at' | 'edited_at' | 'deleted_at'>
+) => {
+  queryClient.setQueryData<InfiniteData<MessagesPage>>(['messages', change.conversation_id], (data) => data && {
+    ...data,
+    pages: data.pages.map((page) => ({
+      ...page,
+      messages: page.messages.map((message) =>
+        message.id === change.id
+          ? {
+            ...message,
+            content: change.content,
+            delivered_at: change.delivered_at,
+            read_at: change.read_at,
+            edited_at: change.edited_at,
+            deleted_at: change.deleted_at,
+            attachments: change.deleted_at ? [] : message.attachments,
+          }
+          : message
+      ),
+    })),
+  });
+};
+
+// True while the sender can still edit the message
+export const canEditMessage = (message: Message, userId: string | undefined, now = Date.now()) =>
+  message.sender_id === userId &&
+  !message.deleted_at &&
+  now - new Date(message.created_at).getTime() < MESSAGE_EDIT_WINDOW_MINUTES * 60 * 1000;
+
+// Removes uploads that didn't make it into a message
+const removeUploads = async (paths: string[]) => {
+  if (paths.length > 0) {
+    await supabase.storage.from(MESSAGE_ATTACHMENTS_BUCKET).remove(paths);
+  }
+};
+
+// Uploads files into the conversation's folder, ready to be sent with a message.
+// Photos are resized (which also strips their EXIF data) first. If any upload
+// fails, the ones already uploaded are removed again.
+const uploadAttachments = async (conversationId: string, files: File[]) => {
+  const uploaded: { path: string; file_name: string; content_type: string; size_bytes: number }[] = [];
+
+  try {
+    for (const file of files) {
+      const problem = validateAttachment(file);
+      if (problem) throw new Error(problem);
+
+      const resize = shouldResizeAttachment(file.type);
+      const body = resize ? await resizeImage(file) : file;
+      const fileName = resize ? file.name.replace(/\.[^.]*$/, '') + '.jpg' : file.name;
+      const contentType = resize ? 'image/jpeg' : file.type;
+      // Storage keys are kept to safe characters; the original name is stored alongside
+      const path = `${conversationId}/${crypto.randomUUID()}/${fileName.replace(/[^\w.-]+/g, '_')}`;
+
+      const { error } = await supabase.storage
+        .from(MESSAGE_ATTACHMENTS_BUCKET)
+        .upload(path, body, { contentType });
+      if (error) throw error;
+
+      uploaded.push({ path, file_name: fileName, content_type: contentType, size_bytes: body.size });
     }
-  };
-
-  /**
-   * Fetches messages for a specific conversation
-   */
-  const fetchMessages = async (conversationId: string) => {
-    if (!user) return;
+  } catch (error) {
+    await removeUploads(uploaded.map((attachment) => attachment.path));
+    throw error;
+  }
+
+  return uploaded;
+};
+
+// HOOK TO FETCH THE USER'S CONVERSATIONS - Most recently active first, with the
+// other participant's name and unread counts in a single query. Kept fresh by
+// ChatRealtimeProvider.
+export const useConversations = (enabled = true) => {
+  return useQuery({
+    queryKey: ['conversations'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('conversation_summaries')
+        .select('*')
+        .order('last_message_at', { ascending: false });
 
-    setLoading(true);
-    try {
+      if (error) throw error;
+      return data as ConversationSummary[];
+    },
+    enabled
+  });
+};
+
+// HOOK FOR THE TOTAL UNREAD COUNT - Across every conversation that isn't muted
+export const useUnreadMessageCount = (enabled = true) => {
+  const { data: conversations = [] } = useConversations(enabled);
+  return conversations
+    .filter((conversation) => !conversation.muted)
+    .reduce((total, conversation) => total + conversation.unread_count, 0);
+};
+
+// HOOK TO SEARCH MESSAGE TEXT - Across all of the user's conversations, newest first
+export const useMessageSearch = (text: string) => {
+  const term = text.trim();
+
+  return useQuery({
+    queryKey: ['message-search', term],
+    queryFn: async () => {
       const { data, error } = await supabase
         .from('messages')
-        .select('*')
-        .eq('conversation_id', conversationId)
-        .order('created_at', { ascending: true });
+        .select('id, conversation_id, sender_id, content, created_at')
+        .textSearch('search_vector', term, { type: 'websearch', config: 'english' })
+        .order('created_at', { ascending: false })
+        .limit(20);
+
+      if (error) throw error;
+      return data as MessageSearchResult[];
+    },
+    enabled: term.length >= 2
+  });
+};
+
+// HOOK TO FETCH A CONVERSATION'S MESSAGES - Newest page first; fetchNextPage loads
+// the page before the oldest message loaded so far
+export const useConversationMessages = (conversationId: string | null) => {
+  return useInfiniteQuery({
+    queryKey: ['messages', conversationId],
+    initialPageParam: null as MessagesCursor | null,
+
+    queryFn: async ({ pageParam }): Promise<MessagesPage> => {
+      let query = supabase
+        .from('messages')
+        .select(MESSAGE_SELECT)
+        .eq('conversation_id', conversationId!);
 
-      if (error) {
-        console.error('Error fetching messages:', error);
-        return;
+      if (pageParam) {
+        query = query.or(
+          `created_at.lt."${pageParam.created_at}",and(created_at.eq."${pageParam.created_at}",id.lt.${pageParam.id})`
+        );
       }
 
-      // Fetch sender profiles separately
-      const messagesWithProfiles = await Promise.all(
-        (data || []).map(async (message) => {
-          const { data: profileData } = await supabase
-            .from('profiles')
-            .select('full_name, email')
-            .eq('user_id', message.sender_id)
-            .single();
+      const { data, error } = await query
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(MESSAGES_PAGE_SIZE);
 
-          return {
-            ...message,
-            sender_profile: profileData || { full_name: 'Unknown', email: '' }
-          };
-        })
-      );
+      if (error) throw error;
 
-      setMessages(messagesWithProfiles);
-      setActiveConversation(conversationId);
+      const messages = await withAttachmentUrls((data as unknown as MessageRow[]).reverse());
+      return {
+        messages,
+        nextCursor: messages.length === MESSAGES_PAGE_SIZE
+          ? { created_at: messages[0].created_at, id: messages[0].id }
+          : null,
+      };
+    },
 
-      // Mark messages as read
-      await markMessagesAsRead(conversationId);
-    } catch (error) {
-      console.error('Message fetch error:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!conversationId
+  });
+};
+
+// HOOK TO SEND A MESSAGE - Uploads any files, then writes the message and its
+// attachments together through send_message
+export const useSendMessage = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
 
-  /**
-   * Sends a new message in the conversation
-   */
-  const sendMessage = async (conversationId: string, content: string) => {
-    if (!user || !content.trim()) return;
+  return useMutation({
+    mutationFn: async ({ conversationId, content, files = [] }: {
+      conversationId: string;
+      content: string;
+      files?: File[];
+    }) => {
+      const attachments = await uploadAttachments(conversationId, files);
+
+      const { data, error } = await supabase.rpc('send_message', {
+        p_conversation_id: conversationId,
+        p_content: content.trim(),
+        p_attachments: attachments,
+      });
+      if (error) {
+        await removeUploads(attachments.map((attachment) => attachment.path));
+        throw error;
+      }
 
-    try {
-      // Get conversation details to determine recipient
-      const conversation = conversations.find(c => c.id === conversationId);
-      if (!conversation) return;
+      return attachments.length > 0
+        ? fetchMessage(data.id)
+        : ({ ...data, attachments: [] } as Message);
+    },
 
-      const recipientId = user.id === conversation.job_poster_id 
-        ? conversation.professional_id 
-        : conversation.job_poster_id;
+    onSuccess: (message) => {
+      addMessageToCache(queryClient, message);
+      queryClient.invalidateQueries({ queryKey: ['conversations'] });
+    },
 
+    onError: (error: Error) => {
+      toast({
+        title: "Error sending message",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+// HOOK TO EDIT A MESSAGE - Only its sender, and only within the edit window
+export const useEditMessage = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ messageId, content }: { messageId: string; content: string }) => {
       const { data, error } = await supabase
         .from('messages')
-        .insert({
-          conversation_id: conversationId,
-          sender_id: user.id,
-          recipient_id: recipientId,
-          content: content.trim(),
-          job_id: conversation.job_id
-        })
-        .select()
+        .update({ content: content.trim() })
+        .eq('id', messageId)
+        .select(MESSAGE_COLUMNS)
         .single();
 
-      if (error) {
-        toast({
-          title: "Error sending message",
-          description: error.message,
-          variant: "destructive",
-        });
-        return;
-      }
+      if (error) throw error;
+      return data as Omit<Message, 'attachments'>;
+    },
 
-      // Fetch sender profile for the new message
-      const { data: profileData } = await supabase
-        .from('profiles')
-        .select('full_name, email')
-        .eq('user_id', user.id)
-        .single();
+    onSuccess: (message) => {
+      updateMessageInCache(queryClient, message);
+      queryClient.invalidateQueries({ queryKey: ['conversations'] });
+    },
 
-      const messageWithProfile = {
-        ...data,
-        sender_profile: profileData || { full_name: 'Unknown', email: '' }
-      };
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to edit message",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+// HOOK TO DELETE A MESSAGE - Leaves a "message deleted" placeholder in the
+// conversation. The database drops the attachment records, after which the files
+// count as unsent uploads that the sender can remove from storage.
+export const useDeleteMessage = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
 
-      // Update conversation's last message time
-      await supabase
-        .from('conversations')
-        .update({ last_message_at: new Date().toISOString() })
-        .eq('id', conversationId);
+  return useMutation({
+    mutationFn: async (message: Message) => {
+      const { data, error } = await supabase
+        .from('messages')
+        .update({ deleted_at: new Date().toISOString() })
+        .eq('id', message.id)
+        .select(MESSAGE_COLUMNS)
+        .single();
+
+      if (error) throw error;
+      await removeUploads(message.attachments.map((attachment) => attachment.file_path));
+      return data as Omit<Message, 'attachments'>;
+    },
 
-      // Optimistically add message to local state
-      setMessages(prev => [...prev, messageWithProfile]);
+    onSuccess: (message) => {
+      updateMessageInCache(queryClient, message);
+      queryClient.invalidateQueries({ queryKey: ['conversations'] });
+      toast({
+        title: "Message deleted",
+      });
+    },
 
-    } catch (error) {
-      console.error('Send message error:', error);
+    onError: (error: Error) => {
       toast({
-        title: "Error",
-        description: "Failed to send message. Please try again.",
-        variant: "destructive",
+        title: "Failed to delete message",
+        description: error.message,
+        variant: "destructive"
       });
     }
-  };
+  });
+};
+
+// HOOK TO OPEN A CONVERSATION ABOUT A JOB - Returns the id of the existing
+// conversation between the two participants, creating it the first time
+export const useStartConversation = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ jobId, jobPosterId, professionalId }: {
+      jobId: string;
+      jobPosterId: string;
+      professionalId: string;
+    }) => {
+      const { data: existing, error: findError } = await supabase
+        .from('conversations')
+        .select('id')
+        .eq('job_id', jobId)
+        .eq('job_poster_id', jobPosterId)
+        .eq('professional_id', professionalId)
+        .maybeSingle();
+
+      if (findError) throw findError;
+      if (existing) return existing.id;
 
-  /**
-   * Creates a new conversation between job poster and professional
-   */
-  const createConversation = async (jobId: string, professionalId: string, jobPosterId: string) => {
-    try {
       const { data, error } = await supabase
         .from('conversations')
-        .insert({
-          job_id: jobId,
-          job_poster_id: jobPosterId,
-          professional_id: professionalId
-        })
-        .select()
+        .insert({ job_id: jobId, job_poster_id: jobPosterId, professional_id: professionalId })
+        .select('id')
         .single();
 
-      if (error) {
-        console.error('Error creating conversation:', error);
-        return null;
-      }
-
-      await fetchConversations();
+      if (error) throw error;
       return data.id;
-    } catch (error) {
-      console.error('Create conversation error:', error);
-      return null;
+    },
+
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['conversations'] });
+    },
+
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to start conversation",
+        description: error.message,
+        variant: "destructive"
+      });
     }
-  };
+  });
+};
 
-  /**
-   * Marks messages as read for the current user
-   */
-  const markMessagesAsRead = async (conversationId: string) => {
-    if (!user) return;
+// HOOK TO MARK A CONVERSATION AS READ - Every message the user has received in it
+export const useMarkConversationRead = () => {
+  const queryClient = useQueryClient();
 
-    try {
-      await supabase
+  return useMutation({
+    mutationFn: async ({ conversationId, userId }: { conversationId: string; userId: string }) => {
+      const readAt = new Date().toISOString();
+      const { error } = await supabase
         .from('messages')
-        .update({ read_at: new Date().toISOString() })
+        .update({ read_at: readAt })
         .eq('conversation_id', conversationId)
-        .eq('recipient_id', user.id)
+        .eq('recipient_id', userId)
         .is('read_at', null);
-    } catch (error) {
+
+      if (error) throw error;
+      return readAt;
+    },
+
+    // Updated in place rather than refetched, so a long history isn't reloaded
+    onSuccess: (readAt, { conversationId, userId }) => {
+      queryClient.setQueryData<InfiniteData<MessagesPage>>(['messages', conversationId], (data) => data && {
+        ...data,
+        pages: data.pages.map((page) => ({
+          ...page,
+          messages: page.messages.map((message) =>
+            message.recipient_id === userId && !message.read_at ? { ...message, read_at: readAt } : message
+          ),
+        })),
+      });
+      queryClient.setQueryData<ConversationSummary[]>(['conversations'], (conversations) =>
+        conversations?.map((conversation) =>
+          conversation.id === conversationId ? { ...conversation, unread_count: 0 } : conversation
+        )
+      );
+    },
+
+    onError: (error: Error) => {
       console.error('Mark as read error:', error);
     }
-  };
-
-  // Set up real-time subscriptions
-  useEffect(() => {
-    if (!user) return;
-
-    // Subscribe to new messages
-    const messageChannel = supabase
-      .channel('messages')
-      .on('postgres_changes', {
-        event: 'INSERT',
-        schema: 'public',
-        table: 'messages',
-        filter: `recipient_id=eq.${user.id}`
-      }, (payload) => {
-        console.log('New message received:', payload);
-        // If we're viewing this conversation, add the message
-        if (payload.new.conversation_id === activeConversation) {
-          setMessages(prev => [...prev, payload.new as Message]);
-        }
-        // Refresh conversations to update last message time
-        fetchConversations();
-      })
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(messageChannel);
-    };
-  }, [user, activeConversation]);
-
-  // Fetch conversations on mount
-  useEffect(() => {
-    if (user) {
-      fetchConversations();
+  });
+};
+
+// HOOK TO ARCHIVE OR MUTE A CONVERSATION - For the current user only; leaves
+// whichever setting isn't given as it is
+export const useUpdateConversationPreferences = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ conversationId, archived, muted }: {
+      conversationId: string;
+      archived?: boolean;
+      muted?: boolean;
+    }) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('You must be signed in to change conversation settings');
+
+      const now = new Date().toISOString();
+      const { error } = await supabase
+        .from('conversation_preferences')
+        .upsert(
+          {
+            conversation_id: conversationId,
+            user_id: user.id,
+            ...(archived !== undefined && { archived_at: archived ? now : null }),
+            ...(muted !== undefined && { muted_at: muted ? now : null }),
+          },
+          { onConflict: 'conversation_id,user_id' }
+        );
+
+      if (error) throw error;
+    },
+
+    onSuccess: (_, { conversationId, archived, muted }) => {
+      queryClient.setQueryData<ConversationSummary[]>(['conversations'], (conversations) =>
+        conversations?.map((conversation) =>
+          conversation.id === conversationId
+            ? { ...conversation, archived: archived ?? conversation.archived, muted: muted ?? conversation.muted }
+            : conversation
+        )
+      );
+      queryClient.invalidateQueries({ queryKey: ['conversations'] });
+
+      const title = archived !== undefined
+        ? (archived ? "Conversation archived" : "Conversation moved to inbox")
+        : (muted ? "Conversation muted" : "Conversation unmuted");
+      toast({
+        title,
+      });
+    },
+
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update conversation",
+        description: error.message,
+        variant: "destructive"
+      });
     }
-  }, [user]);
-
-  return {
-    conversations,
-    messages,
-    activeConversation,
-    loading,
-    fetchMessages,
-    sendMessage,
-    createConversation,
-    setActiveConversation
-  };
-};
\ No newline at end of file
+  });
+};
@@ -0,0 +1,90 @@
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+// How long a typing indicator stays up without another keystroke (ms)
+const TYPING_TIMEOUT_MS = 5000;
+
+// Least time between two "typing" broadcasts from the same user (ms)
+const TYPING_THROTTLE_MS = 2000;
+
+// State of the chat's realtime subscription: idle while signed out, and
+// disconnected until the channel rejoins after a network drop
+export type ChatRealtimeStatus = 'idle' | 'connecting' | 'connected' | 'disconnected';
+
+export interface ChatRealtimeValue {
+  status: ChatRealtimeStatus;
+  onlineUserIds: ReadonlySet<string>;  // Conversation partners with the app open right now
+}
+
+export const ChatRealtimeContext = createContext<ChatRealtimeValue>({
+  status: 'idle',
+  onlineUserIds: new Set(),
+});
+
+/**
+ * The shared chat subscription set up by ChatRealtimeProvider
+ */
+export const useChatRealtime = () => useContext(ChatRealtimeContext);
+
+/**
+ * Typing indicators for one conversation, exchanged as broadcasts on a private
+ * channel of its own that only exists while the conversation is open. Returns who
+ * else is typing, and functions to call as the user types and when they send.
+ */
+export const useConversationTyping = (conversationId: string | null, userId: string | undefined) => {
+  const [typingUserIds, setTypingUserIds] = useState<string[]>([]);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const lastSentAt = useRef(0);
+
+  useEffect(() => {
+    setTypingUserIds([]);
+    if (!conversationId || !userId) return;
+
+    const timers = new Map<string, ReturnType<typeof setTimeout>>();
+    const stopTyping = (typingUserId: string) => {
+      clearTimeout(timers.get(typingUserId));
+      timers.delete(typingUserId);
+      setTypingUserIds((ids) => ids.filter((id) => id !== typingUserId));
+    };
+
+    const channel = supabase
+      .channel(`typing:${conversationId}`, { config: { private: true } })
+      .on('broadcast', { event: 'typing' }, ({ payload }) => {
+        const typingUserId = (payload as { user_id: string }).user_id;
+        if (typingUserId === userId) return;
+
+        setTypingUserIds((ids) => (ids.includes(typingUserId) ? ids : [...ids, typingUserId]));
+        clearTimeout(timers.get(typingUserId));
+        timers.set(typingUserId, setTimeout(() => stopTyping(typingUserId), TYPING_TIMEOUT_MS));
+      })
+      .on('broadcast', { event: 'stopped_typing' }, ({ payload }) => {
+        stopTyping((payload as { user_id: string }).user_id);
+      })
+      .subscribe();
+    channelRef.current = channel;
+
+    return () => {
+      timers.forEach((timer) => clearTimeout(timer));
+      channelRef.current = null;
+      supabase.removeChannel(channel);
+    };
+  }, [conversationId, userId]);
+
+  const notifyTyping = useCallback(() => {
+    const now = Date.now();
+    if (!channelRef.current || now - lastSentAt.current < TYPING_THROTTLE_MS) return;
+
+    lastSentAt.current = now;
+    channelRef.current.send({ type: 'broadcast', event: 'typing', payload: { user_id: userId } });
+  }, [userId]);
+
+  const notifyStoppedTyping = useCallback(() => {
+    if (!channelRef.current) return;
+
+    lastSentAt.current = 0;
+    channelRef.current.send({ type: 'broadcast', event: 'stopped_typing', payload: { user_id: userId } });
+  }, [userId]);
+
+  return { typingUserIds, notifyTyping, notifyStoppedTyping };
+};
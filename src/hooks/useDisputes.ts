@@ -0,0 +1,331 @@
+// IMPORT REACT QUERY HOOKS - These help us manage API calls to our database
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';  // Our database connection
+import { useToast } from '@/hooks/use-toast';  // For showing success/error messages
+import { requestPayment } from '@/hooks/usePayments';
+import { resizeImage } from '@/lib/image';  // Shrinks photos and strips EXIF before upload
+import type { DisputeEvidenceKind, DisputeOutcome, DisputeStatus } from '@/lib/disputes';
+
+// Private storage bucket for evidence photos, readable by the job's participants
+// and admins
+const DISPUTE_EVIDENCE_BUCKET = 'dispute-evidence';
+
+// How long signed photo links stay valid (seconds)
+const PHOTO_URL_TTL = 60 * 60;
+
+const EVIDENCE_SELECT = 'dispute_evidence(*, messages(id, content, sender_id, created_at))';
+
+// DISPUTE EVIDENCE INTERFACE - A "dispute_evidence" row with the quoted message or
+// a signed link to the photo
+export interface DisputeEvidence {
+  id: string;
+  dispute_id: string;
+  submitted_by: string;
+  kind: DisputeEvidenceKind;
+  message_id: string | null;
+  image_path: string | null;          // "<job id>/<dispute id>/<file>" inside the bucket
+  note: string | null;
+  created_at: string;
+  messages: { id: string; content: string; sender_id: string; created_at: string } | null;
+  url: string | null;
+}
+
+// DISPUTE INTERFACE - Matches the "job_disputes" table, with its evidence
+export interface JobDispute {
+  id: string;
+  job_id: string;
+  milestone_id: string | null;        // Set when the dispute is about one milestone
+  opened_by: string;
+  opened_as: 'owner' | 'professional';
+  reason: string;
+  status: DisputeStatus;
+  outcome: DisputeOutcome | null;
+  release_amount: number | null;      // Cents paid to the professional on resolution
+  refund_amount: number | null;       // Cents returned to the job owner on resolution
+  resolution_notes: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  updated_at: string;
+  dispute_evidence: DisputeEvidence[];
+}
+
+// A dispute as the admin queue lists it, with the job and milestone it is about
+export interface AdminDispute extends JobDispute {
+  jobs: { id: string; title: string; user_id: string } | null;
+  job_milestones: { description: string; amount: number } | null;
+}
+
+// A message from the job's conversation that can be put forward as evidence
+export interface ConversationMessage {
+  id: string;
+  content: string;
+  sender_id: string;
+  created_at: string;
+}
+
+// Orders each dispute's evidence and signs its photo links
+const withEvidenceUrls = async <T extends JobDispute>(disputes: T[]): Promise<T[]> => {
+  const paths = disputes.flatMap((dispute) =>
+    dispute.dispute_evidence.map((evidence) => evidence.image_path).filter((path): path is string => !!path)
+  );
+  const { data: signed } = paths.length > 0
+    ? await supabase.storage.from(DISPUTE_EVIDENCE_BUCKET).createSignedUrls(paths, PHOTO_URL_TTL)
+    : { data: [] };
+  const urls = new Map((signed ?? []).map((item) => [item.path, item.signedUrl]));
+
+  return disputes.map((dispute) => ({
+    ...dispute,
+    dispute_evidence: [...dispute.dispute_evidence]
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .map((evidence) => ({
+        ...evidence,
+        url: evidence.image_path ? urls.get(evidence.image_path) ?? null : null,
+      })),
+  }));
+};
+
+// Uploads evidence photos into the dispute's folder, each with the same note
+const addEvidencePhotos = async (dispute: { id: string; job_id: string }, files: File[], note?: string) => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('You must be signed in to add evidence');
+
+  for (const file of files) {
+    const image = await resizeImage(file);
+    const imagePath = `${dispute.job_id}/${dispute.id}/${crypto.randomUUID()}.jpg`;
+
+    const { error: uploadError } = await supabase.storage
+      .from(DISPUTE_EVIDENCE_BUCKET)
+      .upload(imagePath, image, { contentType: 'image/jpeg' });
+    if (uploadError) throw uploadError;
+
+    const { error } = await supabase.from('dispute_evidence').insert({
+      dispute_id: dispute.id,
+      submitted_by: user.id,
+      kind: 'photo',
+      image_path: imagePath,
+      note: note || null,
+    });
+    if (error) throw error;
+  }
+};
+
+// HOOK TO FETCH A JOB'S DISPUTE - The most recent one, resolved or not (null if
+// the job has never been disputed)
+export const useJobDispute = (jobId: string) => {
+  return useQuery({
+    queryKey: ['disputes', jobId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('job_disputes')
+        .select(`*, ${EVIDENCE_SELECT}`)
+        .eq('job_id', jobId)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return null;
+
+      const [dispute] = await withEvidenceUrls([data as unknown as JobDispute]);
+      return dispute;
+    },
+    enabled: !!jobId
+  });
+};
+
+// HOOK TO FETCH EVERY DISPUTE - The admin queue, newest first
+export const useDisputes = () => {
+  return useQuery({
+    queryKey: ['disputes', 'all'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('job_disputes')
+        .select(`*, jobs(id, title, user_id), job_milestones(description, amount), ${EVIDENCE_SELECT}`)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return withEvidenceUrls(data as unknown as AdminDispute[]);
+    }
+  });
+};
+
+// HOOK TO FETCH THE MESSAGES OF A JOB'S CONVERSATION - Newest first, to pick evidence from
+export const useJobConversationMessages = (jobId: string, enabled = true) => {
+  return useQuery({
+    queryKey: ['dispute-messages', jobId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('messages')
+        .select('id, content, sender_id, created_at')
+        .eq('job_id', jobId)
+        .is('deleted_at', null)
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      return data as ConversationMessage[];
+    },
+    enabled: !!jobId && enabled
+  });
+};
+
+// HOOK TO OPEN A DISPUTE - Freezes the job's payments until an admin resolves it
+export const useOpenDispute = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ jobId, reason, milestoneId, messageIds = [], files = [] }: {
+      jobId: string;
+      reason: string;
+      milestoneId?: string;
+      messageIds?: string[];
+      files?: File[];
+    }) => {
+      const { data, error } = await supabase.rpc('open_dispute', {
+        p_job_id: jobId,
+        p_reason: reason,
+        p_milestone_id: milestoneId,
+        p_message_ids: messageIds,
+      });
+      if (error) throw error;
+
+      await addEvidencePhotos(data, files);
+    },
+
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['disputes'] });
+      toast({
+        title: "Dispute opened",
+        description: "Payments on this job are on hold until it has been resolved.",
+      });
+    },
+
+    onError: (error: Error, { jobId }) => {
+      // Photos can fail after the dispute itself was opened
+      queryClient.invalidateQueries({ queryKey: ['disputes', jobId] });
+      toast({
+        title: "Failed to open dispute",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+// HOOK TO ADD EVIDENCE TO AN UNRESOLVED DISPUTE - Messages from the conversation
+// and photos with an optional note
+export const useAddDisputeEvidence = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ dispute, messageIds = [], files = [], note }: {
+      dispute: JobDispute;
+      messageIds?: string[];
+      files?: File[];
+      note?: string;
+    }) => {
+      if (messageIds.length > 0) {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) throw new Error('You must be signed in to add evidence');
+
+        const { error } = await supabase.from('dispute_evidence').insert(
+          messageIds.map((messageId) => ({
+            dispute_id: dispute.id,
+            submitted_by: user.id,
+            kind: 'message',
+            message_id: messageId,
+          }))
+        );
+        if (error) throw error;
+      }
+
+      await addEvidencePhotos(dispute, files, note);
+    },
+
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['disputes'] });
+      toast({
+        title: "Evidence added",
+      });
+    },
+
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ['disputes'] });
+      toast({
+        title: "Failed to add evidence",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+// HOOK TO PICK UP A DISPUTE FOR REVIEW - Admins only
+export const useStartDisputeReview = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (disputeId: string) => {
+      const { error } = await supabase.rpc('start_dispute_review', { p_dispute_id: disputeId });
+      if (error) throw error;
+    },
+
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['disputes'] });
+      toast({
+        title: "Dispute under review",
+      });
+    },
+
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to start review",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+// HOOK TO RESOLVE A DISPUTE - Admins only. Goes through the payments edge function,
+// which pays out or refunds the escrow according to the outcome. A refund cancels
+// the job and a release completes it.
+export const useResolveDispute = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: ({ disputeId, outcome, releaseAmount, notes }: {
+      disputeId: string;
+      outcome: DisputeOutcome;
+      releaseAmount?: number;
+      notes?: string;
+    }) => requestPayment({ action: 'resolve', disputeId, outcome, releaseAmount, notes }),
+
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['disputes'] });
+      queryClient.invalidateQueries({ queryKey: ['payments'] });
+      queryClient.invalidateQueries({ queryKey: ['milestones'] });
+      queryClient.invalidateQueries({ queryKey: ['jobs'] });
+      toast({
+        title: "Dispute resolved",
+      });
+    },
+
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ['disputes'] });
+      queryClient.invalidateQueries({ queryKey: ['payments'] });
+      toast({
+        title: "Failed to resolve dispute",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+};
@@ -0,0 +1,38 @@
+// IMPORT REACT QUERY HOOKS - These help us manage API calls to our database
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';  // Our database connection
+
+// FEE RULE INTERFACE - Matches the "fee_rules" table
+export interface FeeRule {
+  id: string;
+  name: string;
+  category: string | null;            // jobs.category value; null for every category
+  fee_type: 'percent' | 'flat';
+  percent: number | null;             // For percent rules
+  flat_amount: number | null;         // Cents, for flat rules
+  minimum_amount: number;             // Cents
+  is_promotional: boolean;            // Overrides standing rules while its window is open
+  starts_at: string | null;
+  ends_at: string | null;
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// HOOK TO FETCH THE ACTIVE FEE RULES - Used to preview a bid's fee before it is
+// saved; the database works out the fee that is actually stored
+export const useFeeRules = () => {
+  return useQuery({
+    queryKey: ['fee-rules'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('fee_rules')
+        .select('*')
+        .eq('active', true);
+
+      if (error) throw error;
+      return data as FeeRule[];
+    },
+    staleTime: 5 * 60 * 1000
+  });
+};
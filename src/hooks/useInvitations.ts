@@ -0,0 +1,103 @@
+// IMPORT REACT QUERY HOOKS - These help us manage API calls to our database
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';  // Our database connection
+import { useToast } from '@/hooks/use-toast';  // For showing success/error messages
+import type { JobStatus } from '@/lib/status';
+
+// JOB INVITATION INTERFACE - Matches the "job_invitations" table, plus the joined job
+export interface JobInvitation {
+  id: string;
+  job_id: string;
+  professional_id: string;            // professionals.id of the invited professional
+  invited_by: string;                 // Auth user id of the job poster
+  message: string | null;
+  created_at: string;
+  jobs?: {
+    id: string;
+    title: string;
+    location: string;
+    status: JobStatus;
+    homeowner_name: string;
+  } | null;
+}
+
+// HOOK TO FETCH INVITATIONS RECEIVED BY THE CURRENT PROFESSIONAL
+// RLS only returns invitations the user sent or received, so exclude the sent ones
+export const useReceivedInvitations = (userId: string | null | undefined) => {
+  return useQuery({
+    queryKey: ['invitations', 'received', userId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('job_invitations')
+        .select('*, jobs(id, title, location, status, homeowner_name)')
+        .neq('invited_by', userId!)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data as JobInvitation[];
+    },
+    enabled: !!userId
+  });
+};
+
+// HOOK TO FETCH THE JOBS A POSTER HAS ALREADY INVITED A PROFESSIONAL TO
+export const useSentInvitations = (userId: string | null | undefined, professionalId: string) => {
+  return useQuery({
+    queryKey: ['invitations', 'sent', userId, professionalId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('job_invitations')
+        .select('*')
+        .eq('invited_by', userId!)
+        .eq('professional_id', professionalId);
+
+      if (error) throw error;
+      return data as JobInvitation[];
+    },
+    enabled: !!userId && !!professionalId
+  });
+};
+
+// HOOK TO INVITE A PROFESSIONAL TO BID ON ONE OF THE POSTER'S OPEN JOBS
+export const useInviteToBid = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (invitation: {
+      job_id: string;
+      professional_id: string;
+      invited_by: string;
+      message?: string;
+    }) => {
+      const { error } = await supabase
+        .from('job_invitations')
+        .insert(invitation);
+
+      if (error) {
+        // Unique (job_id, professional_id) - already invited to this job
+        if (error.code === '23505') {
+          throw new Error('This professional has already been invited to that job');
+        }
+        throw error;
+      }
+    },
+
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['invitations'] });
+      toast({
+        title: "Invitation sent",
+        description: "The professional has been invited to bid on your job.",
+      });
+    },
+
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to send invitation",
+        description: error.message,
+        variant: "destructive"
+      });
+      console.error('Error sending invitation:', error);
+    }
+  });
+};
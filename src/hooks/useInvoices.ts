@@ -0,0 +1,95 @@
+// IMPORT REACT QUERY HOOKS - These help us manage API calls to our database
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';  // Our database connection
+import { useToast } from '@/hooks/use-toast';  // For showing success/error messages
+import type { InvoiceLineKind, InvoiceStatus } from '@/lib/invoices';
+
+// INVOICE LINE INTERFACE - Matches the "invoice_line_items" table
+export interface InvoiceLineItem {
+  id: string;
+  invoice_id: string;
+  position: number;
+  kind: InvoiceLineKind;
+  description: string;
+  quantity: number;
+  unit_amount: number;                // Cents
+  amount: number;                     // Cents
+  milestone_id: string | null;
+}
+
+// INVOICE INTERFACE - Matches the "invoices" table, with its lines in order and
+// the platform fee the bid pays
+export interface Invoice {
+  id: string;
+  job_id: string;
+  bid_id: string;
+  professional_id: string;            // Issuer
+  customer_id: string;                // Job owner
+  sequence: number;
+  invoice_number: string;             // "INV-0001", numbered per professional
+  status: InvoiceStatus;
+  issuer_name: string;
+  issuer_email: string | null;
+  customer_name: string;
+  customer_email: string | null;
+  job_title: string;
+  currency: string;
+  subtotal: number;                   // Cents
+  tax_rate: number;                   // Percent
+  tax_amount: number;                 // Cents
+  total: number;                      // Cents
+  issued_at: string;
+  paid_at: string | null;
+  created_at: string;
+  updated_at: string;
+  invoice_line_items: InvoiceLineItem[];
+  bids: { platform_fee: number } | null;  // Cents, deducted from the professional's payout
+}
+
+// HOOK TO FETCH A JOB'S INVOICE - null until one has been generated
+export const useJobInvoice = (jobId: string) => {
+  return useQuery({
+    queryKey: ['invoices', jobId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('invoices')
+        .select('*, invoice_line_items(*), bids(platform_fee)')
+        .eq('job_id', jobId)
+        .order('position', { referencedTable: 'invoice_line_items', ascending: true })
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as Invoice | null;
+    },
+    enabled: !!jobId
+  });
+};
+
+// HOOK TO GENERATE OR REFRESH A JOB'S INVOICE - Unpaid invoices are rebuilt from
+// the current bid and milestones; only the professional passes a tax rate
+export const useGenerateInvoice = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ jobId, taxRate }: { jobId: string; taxRate?: number }) => {
+      const { error } = await supabase.rpc('generate_invoice', { p_job_id: jobId, p_tax_rate: taxRate });
+      if (error) throw error;
+    },
+
+    onSuccess: (_data, { jobId }) => {
+      queryClient.invalidateQueries({ queryKey: ['invoices', jobId] });
+      toast({
+        title: "Invoice ready",
+      });
+    },
+
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to generate invoice",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+};
@@ -0,0 +1,120 @@
+// IMPORT REACT QUERY HOOKS - These help us manage API calls to our database
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';  // Our database connection
+import { useToast } from '@/hooks/use-toast';  // For showing success/error messages
+import { resizeImage } from '@/lib/image';  // Shrinks photos and strips EXIF before upload
+
+// Storage bucket holding job photos (public read, job-owner-only write)
+const JOB_PHOTOS_BUCKET = 'job-photos';
+
+// Maximum number of photos per job
+export const MAX_JOB_PHOTOS = 8;
+
+// JOB PHOTO INTERFACE - Matches the "job_photos" table
+export interface JobPhoto {
+  id: string;
+  job_id: string;
+  image_path: string;                 // "<job id>/<file>" inside the job-photos bucket
+  position: number;                   // Display order, 0 first
+  created_at: string;
+}
+
+// Public URL of a stored job photo
+export const getJobPhotoUrl = (imagePath: string) =>
+  supabase.storage.from(JOB_PHOTOS_BUCKET).getPublicUrl(imagePath).data.publicUrl;
+
+// HOOK TO FETCH A JOB'S PHOTOS - In display order
+export const useJobPhotos = (jobId: string) => {
+  return useQuery({
+    queryKey: ['job-photos', jobId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('job_photos')
+        .select('*')
+        .eq('job_id', jobId)
+        .order('position', { ascending: true });
+
+      if (error) throw error;
+      return data as JobPhoto[];
+    },
+    enabled: !!jobId
+  });
+};
+
+// HOOK TO UPLOAD PHOTOS TO A JOB
+// Each file is resized and stripped of EXIF data in the browser before upload
+export const useUploadJobPhotos = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ jobId, files, startPosition = 0 }: { jobId: string; files: File[]; startPosition?: number }) => {
+      for (const [index, file] of files.entries()) {
+        const image = await resizeImage(file);
+        const imagePath = `${jobId}/${crypto.randomUUID()}.jpg`;
+
+        const { error: uploadError } = await supabase.storage
+          .from(JOB_PHOTOS_BUCKET)
+          .upload(imagePath, image, { contentType: 'image/jpeg' });
+        if (uploadError) throw uploadError;
+
+        const { error } = await supabase
+          .from('job_photos')
+          .insert({ job_id: jobId, image_path: imagePath, position: startPosition + index });
+
+        if (error) {
+          // Don't leave an orphaned file behind if the row couldn't be created
+          await supabase.storage.from(JOB_PHOTOS_BUCKET).remove([imagePath]);
+          throw error;
+        }
+      }
+    },
+
+    onSuccess: (_data, { jobId }) => {
+      queryClient.invalidateQueries({ queryKey: ['job-photos', jobId] });
+      // Browse cards show the first photo as a thumbnail
+      queryClient.invalidateQueries({ queryKey: ['jobs'] });
+    },
+
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to upload photos",
+        description: error.message,
+        variant: "destructive"
+      });
+      console.error('Error uploading job photos:', error);
+    }
+  });
+};
+
+// HOOK TO REMOVE A PHOTO FROM A JOB - Deletes the row and the stored file
+export const useDeleteJobPhoto = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (photo: JobPhoto) => {
+      const { error } = await supabase
+        .from('job_photos')
+        .delete()
+        .eq('id', photo.id);
+      if (error) throw error;
+
+      await supabase.storage.from(JOB_PHOTOS_BUCKET).remove([photo.image_path]);
+    },
+
+    onSuccess: (_data, photo) => {
+      queryClient.invalidateQueries({ queryKey: ['job-photos', photo.job_id] });
+      queryClient.invalidateQueries({ queryKey: ['jobs'] });
+    },
+
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to remove photo",
+        description: error.message,
+        variant: "destructive"
+      });
+      console.error('Error deleting job photo:', error);
+    }
+  });
+};
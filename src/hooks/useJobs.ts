@@ -1,7 +1,12 @@
 // IMPORT REACT QUERY HOOKS - These help us manage API calls to our database
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';  // Our database connection
 import { useToast } from '@/hooks/use-toast';  // For showing success/error messages
+import type { JobStatus } from '@/lib/status';  // Canonical job status values
+import type { JobPhoto } from '@/hooks/useJobPhotos';  // Embedded photo rows for thumbnails
+import { budgetFromColumns, budgetToColumns, type Budget, type BudgetColumns } from '@/lib/budget';  // Job budget model
+import { DEFAULT_JOB_FILTERS, postedAfter, type JobFilters } from '@/lib/jobFilters';  // Browse Jobs search filters
+import type { JobChangeField } from '@/lib/jobChanges';  // Fields recorded in the change log
 
 // JOB INTERFACE - Defines the structure of a job object from our database
 // TypeScript interfaces help prevent bugs by ensuring data has the right shape
@@ -10,17 +15,22 @@ export interface Job {
   title: string;                 // Job title (e.g., "Kitchen Cabinet Painting")
   description: string;           // Detailed description of the work needed
   category: string;              // Type of work (e.g., "painting", "plumbing")
-  budget_min: number;            // Minimum budget in cents (e.g., 10000 = $100)
-  budget_max: number;            // Maximum budget in cents
-  budget_type: string;           // "range" or "hourly"
+  budget: Budget;                // Fixed, range or hourly budget in cents (see @/lib/budget)
   location: string;              // Where the job is located
   timeline: string;              // When the work needs to be done
-  status: string;                // "open", "in_progress", "completed", etc.
+  status: JobStatus;             // "open", "in_progress", "completed", etc. (see @/lib/status)
+  bid_deadline: string | null;   // When bidding closes (null = open until the job is awarded)
+  desired_start_date: string | null;      // When the poster would like work to start (yyyy-mm-dd)
+  desired_completion_date: string | null; // When the poster would like work finished (yyyy-mm-dd)
   homeowner_id: string | null;   // ID of the person who posted the job (null if not logged in)
   homeowner_name: string;        // Name of the person who posted the job
   homeowner_verified: boolean;   // Whether the homeowner is verified
+  user_id: string | null;        // Auth user who owns the job (only they can update it)
+  deleted_at: string | null;     // Set when the poster deletes the job (rows are kept for audit)
+  reposted_from: string | null;  // The closed job this one was reposted from
   created_at: string;            // When the job was posted (timestamp)
   updated_at: string;            // When the job was last modified (timestamp)
+  job_photos?: Pick<JobPhoto, 'image_path' | 'position'>[]; // Only present when the query embeds them
 }
 
 // NEW JOB INTERFACE - Defines what data we need to create a new job
@@ -29,41 +39,167 @@ export interface NewJob {
   title: string;                      // Required: Job title
   description: string;                // Required: Job description
   category: string;                   // Required: Job category
-  budget_min: number;                 // Required: Minimum budget in cents
-  budget_max: number;                 // Required: Maximum budget in cents
-  budget_type?: string;               // Optional: "range" or "hourly" (? means optional)
+  budget: Budget;                     // Required: Fixed, range or hourly budget
   location: string;                   // Required: Job location
   timeline?: string;                  // Optional: When work needs to be done
+  bid_deadline?: string | null;       // Optional: When bidding closes
+  desired_start_date?: string | null;      // Optional: Desired start date (yyyy-mm-dd)
+  desired_completion_date?: string | null; // Optional: Desired completion date (yyyy-mm-dd)
   homeowner_name: string;             // Required: Name of person posting job
   homeowner_verified?: boolean;       // Optional: Whether homeowner is verified
   user_id: string;                    // Required: ID of authenticated user posting the job
 }
 
-// HOOK TO FETCH JOBS FROM DATABASE - This is a custom React hook
+// JOB ROW - A job as stored; the budget columns are folded into `budget` by toJob
+type JobRow = Omit<Job, 'budget'> & BudgetColumns;
+
+const toJob = (row: JobRow): Job => ({ ...row, budget: budgetFromColumns(row) });
+
+// Number of jobs fetched per page on Browse Jobs
+export const JOBS_PAGE_SIZE = 20;
+
+// One page of search results, plus the total number of matching jobs
+export interface JobsPage {
+  jobs: Job[];
+  total: number;
+}
+
+// Escape LIKE wildcards so user input is matched literally
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, (char) => `\\${char}`);
+
+// HOOK TO SEARCH OPEN JOBS - This is a custom React hook
 // Hooks are functions that let us use React features (they start with "use")
-export const useJobs = () => {
-  // useQuery automatically fetches data and manages loading/error states
-  return useQuery({
-    queryKey: ['jobs'],  // Unique identifier for this query (used for caching)
-    
-    // queryFn - The function that actually fetches the data
-    queryFn: async () => {
+// Filtering, sorting and paging all happen in the database; pages are loaded on demand
+export const useJobs = (filters: JobFilters = DEFAULT_JOB_FILTERS) => {
+  // useInfiniteQuery fetches one page at a time and keeps the pages loaded so far
+  return useInfiniteQuery({
+    queryKey: ['jobs', 'search', filters],  // Each distinct filter set is cached separately
+    initialPageParam: 0,
+
+    // queryFn - Fetches the page with the given index
+    queryFn: async ({ pageParam }): Promise<JobsPage> => {
+      const from = pageParam * JOBS_PAGE_SIZE;
+
       // Call Supabase database to get jobs
-      const { data, error } = await supabase
+      let query = supabase
         .from('jobs')                          // From the "jobs" table
-        .select('*')                           // Select all columns (*)
-        .eq('status', 'open')                  // Only get jobs where status equals 'open'
-        .order('created_at', { ascending: false }); // Sort by newest first (false = descending)
-      
+        .select('*, job_photos(image_path, position)', { count: 'exact' }) // Plus photo paths for thumbnails
+        .eq('status', 'open')                  // Only jobs still taking bids
+        .is('deleted_at', null);               // Deleted jobs are kept but never listed
+
+      const text = filters.text.trim();
+      if (text) {
+        // Uses the GIN-indexed search_vector; supports quoted phrases and -exclusions
+        query = query.textSearch('search_vector', text, { type: 'websearch', config: 'english' });
+      }
+      if (filters.category) {
+        query = query.eq('category', filters.category);
+      }
+      if (filters.budgetMin !== null) {
+        // A null budget_max means the job has no upper limit
+        query = query.or(`budget_max.gte.${filters.budgetMin},budget_max.is.null`);
+      }
+      if (filters.budgetMax !== null) {
+        query = query.lte('budget_min', filters.budgetMax);
+      }
+      const location = filters.location.trim();
+      if (location) {
+        query = query.ilike('location', `%${escapeLike(location)}%`);
+      }
+      const since = postedAfter(filters.postedWithin);
+      if (since) {
+        query = query.gte('created_at', since);
+      }
+
+      switch (filters.sort) {
+        case 'oldest':
+          query = query.order('created_at', { ascending: true });
+          break;
+        case 'budget_high':
+          query = query.order('budget_min', { ascending: false, nullsFirst: false });
+          break;
+        case 'budget_low':
+          query = query.order('budget_min', { ascending: true, nullsFirst: false });
+          break;
+      }
+
+      const { data, error, count } = await query
+        .order('created_at', { ascending: false })  // Newest first (also the tie-breaker for other sorts)
+        .order('position', { referencedTable: 'job_photos', ascending: true })  // First photo first
+        .range(from, from + JOBS_PAGE_SIZE - 1);
+
       // If there was an error fetching data, throw it (React Query will catch it)
       if (error) throw error;
-      
-      // Return the data, telling TypeScript it's an array of Job objects
-      return data as Job[];
+
+      return { jobs: (data as JobRow[]).map(toJob), total: count ?? 0 };
+    },
+
+    // Next page index, or undefined once every matching job has been loaded
+    getNextPageParam: (lastPage, allPages) =>
+      allPages.length * JOBS_PAGE_SIZE < lastPage.total ? allPages.length : undefined,
+  });
+};
+
+// HOOK TO COUNT OPEN JOBS PER CATEGORY - For the home page category cards
+export const useOpenJobCategoryCounts = () => {
+  return useQuery({
+    queryKey: ['jobs', 'category-counts'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('jobs')
+        .select('category')
+        .eq('status', 'open')
+        .is('deleted_at', null);
+
+      if (error) throw error;
+
+      const counts: Record<string, number> = {};
+      for (const { category } of data) {
+        counts[category] = (counts[category] ?? 0) + 1;
+      }
+      return counts;
     }
   });
 };
 
+// HOOK TO FETCH THE CURRENT POSTER'S OPEN JOBS - e.g. to pick one to invite a professional to
+export const useMyOpenJobs = (userId: string | null | undefined) => {
+  return useQuery({
+    queryKey: ['jobs', 'mine', userId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('jobs')
+        .select('*')
+        .eq('user_id', userId!)
+        .eq('status', 'open')
+        .is('deleted_at', null)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data as JobRow[]).map(toJob);
+    },
+    enabled: !!userId
+  });
+};
+
+// HOOK TO FETCH ONE JOB - e.g. to edit it
+export const useJob = (jobId: string) => {
+  return useQuery({
+    queryKey: ['jobs', 'detail', jobId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('jobs')
+        .select('*')
+        .eq('id', jobId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data ? toJob(data as JobRow) : null;
+    },
+    enabled: !!jobId
+  });
+};
+
 // HOOK TO CREATE NEW JOBS - This handles posting a new job to the database
 export const useCreateJob = () => {
   // Get access to the query client (manages our cached data)
@@ -75,18 +211,18 @@ export const useCreateJob = () => {
   // Unlike useQuery (which fetches), mutations only run when we tell them to
   return useMutation({
     // The function that actually creates the job in the database
-    mutationFn: async (newJob: NewJob) => {
+    mutationFn: async ({ budget, ...newJob }: NewJob) => {
       // Insert the new job data into Supabase
       const { data, error } = await supabase
         .from('jobs')           // Into the "jobs" table
-        .insert(newJob)         // Insert the newJob data
+        .insert({ ...newJob, ...budgetToColumns(budget) })  // Budget stored as its columns
         .select()               // Return the inserted data
         .single();              // Expect only one row back
       
       // If database returns an error, throw it
       if (error) throw error;
       // Return the newly created job data
-      return data;
+      return toJob(data as JobRow);
     },
     
     // onSuccess runs when the job is successfully created
@@ -114,4 +250,132 @@ export const useCreateJob = () => {
       console.error('Error creating job:', error);
     }
   });
-};
\ No newline at end of file
+};
+// JOB UPDATE - The details a poster can edit; ownership and status are not editable here
+export type JobUpdate = Partial<Omit<NewJob, 'user_id' | 'homeowner_name' | 'homeowner_verified'>> & { id: string };
+
+// HOOK TO EDIT A JOB - Only open jobs can be edited; the database logs every change
+// to job_changes so bidders can see what changed after they bid
+export const useUpdateJob = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, budget, ...changes }: JobUpdate) => {
+      const { data, error } = await supabase
+        .from('jobs')
+        .update({ ...changes, ...(budget ? budgetToColumns(budget) : {}), updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return toJob(data as JobRow);
+    },
+
+    onSuccess: (job) => {
+      queryClient.invalidateQueries({ queryKey: ['jobs'] });
+      queryClient.invalidateQueries({ queryKey: ['job-changes', job.id] });
+      toast({
+        title: "Job updated",
+        description: "Professionals who already bid can see what changed.",
+      });
+    },
+
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update job",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+// HOOK TO DELETE A JOB - Soft delete: the job disappears from listings but its bids
+// and conversations are kept. Open jobs are cancelled and their pending bids rejected.
+export const useDeleteJob = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (jobId: string) => {
+      const { error } = await supabase.rpc('delete_job', { p_job_id: jobId });
+      if (error) throw error;
+    },
+
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['jobs'] });
+      queryClient.invalidateQueries({ queryKey: ['bids'] });
+      toast({
+        title: "Job deleted",
+      });
+    },
+
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete job",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+// HOOK TO REPOST A CLOSED JOB - Copies an expired, cancelled or completed job into
+// a new open job and returns the new job's id
+export const useRepostJob = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (jobId: string) => {
+      const { data, error } = await supabase.rpc('repost_job', { p_job_id: jobId });
+      if (error) throw error;
+      return data;
+    },
+
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['jobs'] });
+      toast({
+        title: "Job reposted",
+        description: "A new copy of the job is open for bids.",
+      });
+    },
+
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to repost job",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+// JOB CHANGE INTERFACE - One edit, as recorded in the "job_changes" table
+export interface JobChange {
+  id: string;
+  job_id: string;
+  changed_by: string | null;
+  changes: Partial<Record<JobChangeField, { from: unknown; to: unknown }>>;
+  created_at: string;
+}
+
+// HOOK TO FETCH A JOB'S CHANGE LOG - Oldest first; visible to the owner and bidders
+export const useJobChanges = (jobId: string) => {
+  return useQuery({
+    queryKey: ['job-changes', jobId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('job_changes')
+        .select('*')
+        .eq('job_id', jobId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data as unknown as JobChange[];
+    },
+    enabled: !!jobId
+  });
+};
@@ -0,0 +1,241 @@
+// IMPORT REACT QUERY HOOKS - These help us manage API calls to our database
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';  // Our database connection
+import { useToast } from '@/hooks/use-toast';  // For showing success/error messages
+import { resizeImage } from '@/lib/image';  // Shrinks photos and strips EXIF before upload
+import type { Json } from '@/integrations/supabase/types';
+import type { MilestoneStatus } from '@/lib/milestones';
+
+// Private storage bucket for completion photos, readable by the job owner and the
+// assigned professional only
+const MILESTONE_PHOTOS_BUCKET = 'milestone-photos';
+
+// How long signed photo links stay valid (seconds)
+const PHOTO_URL_TTL = 60 * 60;
+
+// MILESTONE INTERFACE - Matches the "job_milestones" table
+export interface Milestone {
+  id: string;
+  job_id: string;
+  position: number;                   // Display order, 0 first
+  description: string;
+  amount: number;                     // Share of the accepted bid, in cents
+  due_date: string | null;            // yyyy-mm-dd
+  status: MilestoneStatus;
+  completion_note: string | null;     // Professional's note when marking it done
+  dispute_reason: string | null;      // Owner's reason for the latest dispute
+  submitted_at: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// MILESTONE PHOTO INTERFACE - A "milestone_photos" row with a signed link to the file
+export interface MilestonePhoto {
+  id: string;
+  milestone_id: string;
+  image_path: string;                 // "<job id>/<milestone id>/<file>" inside the bucket
+  created_at: string;
+  url: string | null;
+}
+
+// One row of a milestone plan as set_job_milestones takes it
+export interface MilestonePlanItem {
+  description: string;
+  amount: number;                     // Cents
+  due_date: string | null;            // yyyy-mm-dd
+}
+
+// HOOK TO FETCH A JOB'S MILESTONES - In plan order
+export const useJobMilestones = (jobId: string) => {
+  return useQuery({
+    queryKey: ['milestones', jobId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('job_milestones')
+        .select('*')
+        .eq('job_id', jobId)
+        .order('position', { ascending: true });
+
+      if (error) throw error;
+      return data as Milestone[];
+    },
+    enabled: !!jobId
+  });
+};
+
+// HOOK TO FETCH A MILESTONE'S COMPLETION PHOTOS - The bucket is private, so each
+// photo comes with a signed URL
+export const useMilestonePhotos = (milestoneId: string) => {
+  return useQuery({
+    queryKey: ['milestone-photos', milestoneId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('milestone_photos')
+        .select('*')
+        .eq('milestone_id', milestoneId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      if (data.length === 0) return [] as MilestonePhoto[];
+
+      const { data: signed } = await supabase.storage
+        .from(MILESTONE_PHOTOS_BUCKET)
+        .createSignedUrls(data.map((photo) => photo.image_path), PHOTO_URL_TTL);
+
+      return data.map((photo, index) => ({
+        ...photo,
+        url: signed?.[index]?.signedUrl ?? null,
+      })) as MilestonePhoto[];
+    },
+    enabled: !!milestoneId
+  });
+};
+
+// HOOK TO SAVE A JOB'S MILESTONE PLAN - Replaces every milestone; the amounts have
+// to add up to the accepted bid
+export const useSetJobMilestones = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ jobId, milestones }: { jobId: string; milestones: MilestonePlanItem[] }) => {
+      const { error } = await supabase.rpc('set_job_milestones', {
+        p_job_id: jobId,
+        p_milestones: milestones as unknown as Json,
+      });
+      if (error) throw error;
+    },
+
+    onSuccess: (_data, { jobId }) => {
+      queryClient.invalidateQueries({ queryKey: ['milestones', jobId] });
+      toast({
+        title: "Milestones saved",
+      });
+    },
+
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save milestones",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+// HOOK TO MARK A MILESTONE DONE - Uploads any completion photos, then submits the
+// milestone for the job owner's approval
+export const useSubmitMilestone = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ milestone, note, files = [] }: { milestone: Milestone; note?: string; files?: File[] }) => {
+      for (const file of files) {
+        const image = await resizeImage(file);
+        const imagePath = `${milestone.job_id}/${milestone.id}/${crypto.randomUUID()}.jpg`;
+
+        const { error: uploadError } = await supabase.storage
+          .from(MILESTONE_PHOTOS_BUCKET)
+          .upload(imagePath, image, { contentType: 'image/jpeg' });
+        if (uploadError) throw uploadError;
+
+        const { error } = await supabase
+          .from('milestone_photos')
+          .insert({ milestone_id: milestone.id, image_path: imagePath });
+
+        if (error) {
+          // Don't leave an orphaned file behind if the row couldn't be created
+          await supabase.storage.from(MILESTONE_PHOTOS_BUCKET).remove([imagePath]);
+          throw error;
+        }
+      }
+
+      const { error } = await supabase.rpc('submit_milestone', {
+        p_milestone_id: milestone.id,
+        p_note: note || undefined,
+      });
+      if (error) throw error;
+    },
+
+    onSuccess: (_data, { milestone }) => {
+      queryClient.invalidateQueries({ queryKey: ['milestones', milestone.job_id] });
+      queryClient.invalidateQueries({ queryKey: ['milestone-photos', milestone.id] });
+      toast({
+        title: "Milestone submitted",
+        description: "The homeowner has been asked to review your work.",
+      });
+    },
+
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to submit milestone",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+// HOOK TO APPROVE A SUBMITTED MILESTONE - Approving the last one completes the job
+export const useApproveMilestone = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (milestone: Milestone) => {
+      const { error } = await supabase.rpc('approve_milestone', { p_milestone_id: milestone.id });
+      if (error) throw error;
+    },
+
+    onSuccess: (_data, milestone) => {
+      queryClient.invalidateQueries({ queryKey: ['milestones', milestone.job_id] });
+      // The job status changes when the final milestone is approved
+      queryClient.invalidateQueries({ queryKey: ['jobs'] });
+      toast({
+        title: "Milestone approved",
+      });
+    },
+
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to approve milestone",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+// HOOK TO DISPUTE A SUBMITTED MILESTONE - Sends it back to the professional with a reason
+export const useDisputeMilestone = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ milestone, reason }: { milestone: Milestone; reason: string }) => {
+      const { error } = await supabase.rpc('dispute_milestone', {
+        p_milestone_id: milestone.id,
+        p_reason: reason,
+      });
+      if (error) throw error;
+    },
+
+    onSuccess: (_data, { milestone }) => {
+      queryClient.invalidateQueries({ queryKey: ['milestones', milestone.job_id] });
+      toast({
+        title: "Milestone disputed",
+        description: "The professional can fix the work and submit it again.",
+      });
+    },
+
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to dispute milestone",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+};
@@ -0,0 +1,155 @@
+// IMPORT REACT QUERY HOOKS - These help us manage API calls to our database
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';  // Our database connection
+import { useToast } from '@/hooks/use-toast';  // For showing success/error messages
+import type { ModerationOutcome, ModerationStatus, ReportReason } from '@/lib/moderation';
+
+// MODERATION CASE INTERFACE - Matches the "moderation_cases" table, with the job
+// the reported conversation is about
+export interface ModerationCase {
+  id: string;
+  message_id: string;
+  job_id: string | null;
+  reported_by: string;
+  reported_user_id: string;           // The message's sender
+  reason: ReportReason;
+  details: string | null;
+  message_content: string;            // The text as it was when reported
+  status: ModerationStatus;
+  outcome: ModerationOutcome | null;
+  resolution_notes: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  updated_at: string;
+  jobs: { id: string; title: string } | null;
+}
+
+// HOOK TO FETCH EVERY MODERATION CASE - The admin queue, newest first
+export const useModerationCases = () => {
+  return useQuery({
+    queryKey: ['moderation-cases'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('moderation_cases')
+        .select('*, jobs(id, title)')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data as ModerationCase[];
+    }
+  });
+};
+
+// HOOK TO REPORT A MESSAGE - Opens a moderation case for the admins
+export const useReportMessage = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ messageId, reason, details }: {
+      messageId: string;
+      reason: ReportReason;
+      details?: string;
+    }) => {
+      const { data, error } = await supabase.rpc('report_message', {
+        p_message_id: messageId,
+        p_reason: reason,
+        p_details: details,
+      });
+      if (error) throw error;
+      return data;
+    },
+
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['moderation-cases'] });
+      toast({
+        title: "Message reported",
+        description: "Thanks for letting us know. Our team will review it.",
+      });
+    },
+
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to report message",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+// HOOK TO PICK UP A CASE FOR REVIEW - Admins only
+export const useStartModerationReview = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (caseId: string) => {
+      const { error } = await supabase.rpc('start_moderation_review', { p_case_id: caseId });
+      if (error) throw error;
+    },
+
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['moderation-cases'] });
+      toast({
+        title: "Report under review",
+      });
+    },
+
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to start review",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+// HOOK TO RESOLVE A CASE - Admins only. Goes through the moderation edge function,
+// which also deletes a removed message's files from storage. Removing the message
+// resolves every other open report about it as well.
+export const useResolveModerationCase = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ caseId, outcome, notes }: {
+      caseId: string;
+      outcome: ModerationOutcome;
+      notes?: string;
+    }) => {
+      const { error } = await supabase.functions.invoke('moderation', {
+        body: { action: 'resolve', caseId, outcome, notes },
+      });
+
+      if (error) {
+        if (error instanceof FunctionsHttpError) {
+          const details = await error.context.json().catch(() => null);
+          if (details?.error) throw new Error(details.error);
+        }
+        throw error;
+      }
+    },
+
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['moderation-cases'] });
+      toast({
+        title: "Report resolved",
+      });
+    },
+
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ['moderation-cases'] });
+      toast({
+        title: "Failed to resolve report",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+};
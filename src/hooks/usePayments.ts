@@ -0,0 +1,213 @@
+// IMPORT REACT QUERY HOOKS - These help us manage API calls to our database
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';  // Our database connection
+import { useToast } from '@/hooks/use-toast';  // For showing success/error messages
+import type { PaymentBalance, PaymentEntryStatus, PaymentEntryType } from '@/lib/payments';
+import type { DisputeOutcome } from '@/lib/disputes';
+
+// PAYMENT LEDGER ENTRY INTERFACE - Matches the "payment_ledger" table
+export interface PaymentEntry {
+  id: string;
+  job_id: string;
+  bid_id: string;
+  milestone_id: string | null;        // Set on releases for a milestone
+  entry_type: PaymentEntryType;
+  amount: number;                     // Cents
+  currency: string;
+  status: PaymentEntryStatus;
+  provider: string;
+  provider_reference: string | null;
+  failure_reason: string | null;
+  charge_id: string | null;
+  release_id: string | null;          // Set on fees: the release they were taken from
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface PaymentResponse {
+  entry?: PaymentEntry;
+  entries?: PaymentEntry[];
+  redirectUrl?: string | null;        // Hosted checkout to send the job owner to
+}
+
+type PaymentRequest =
+  | { action: 'fund' | 'release' | 'refund'; jobId: string; returnUrl?: string }
+  | { action: 'resolve'; disputeId: string; outcome: DisputeOutcome; releaseAmount?: number; notes?: string };
+
+// Calls the payments edge function; refusals come back with a readable message
+export const requestPayment = async (body: PaymentRequest) => {
+  const { data, error } = await supabase.functions.invoke<PaymentResponse>('payments', { body });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const details = await error.context.json().catch(() => null);
+      if (details?.error) throw new Error(details.error);
+    }
+    throw error;
+  }
+
+  // The provider can refuse after the ledger entry was written
+  const failedEntry = [data?.entry, ...(data?.entries ?? [])].find((entry) => entry?.status === 'failed');
+  if (failedEntry) {
+    throw new Error(failedEntry.failure_reason || 'The payment provider declined the request');
+  }
+
+  return data;
+};
+
+// HOOK TO FETCH ESCROW BALANCES FOR SEVERAL JOBS - Keyed by job id; jobs with no
+// payments yet are missing from the result
+export const useJobPaymentBalances = (jobIds: string[]) => {
+  return useQuery({
+    queryKey: ['payments', 'balances', jobIds],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('job_payment_balances')
+        .select('*')
+        .in('job_id', jobIds);
+
+      if (error) throw error;
+      return Object.fromEntries(
+        (data as PaymentBalance[]).map((balance) => [balance.job_id, balance])
+      ) as Record<string, PaymentBalance>;
+    },
+    enabled: jobIds.length > 0
+  });
+};
+
+// HOOK TO FETCH A JOB'S PAYMENT LEDGER - Oldest first
+export const useJobPayments = (jobId: string) => {
+  return useQuery({
+    queryKey: ['payments', jobId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('payment_ledger')
+        .select('*')
+        .eq('job_id', jobId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data as PaymentEntry[];
+    },
+    enabled: !!jobId
+  });
+};
+
+// HOOK TO FUND A JOB - Charges the job owner for the accepted bid. With a hosted
+// checkout the browser is sent there and comes back to the current page.
+export const useFundJob = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (jobId: string) =>
+      requestPayment({ action: 'fund', jobId, returnUrl: window.location.href }),
+
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['payments'] });
+      if (data?.redirectUrl) {
+        window.location.assign(data.redirectUrl);
+        return;
+      }
+      toast({
+        title: "Job funded",
+        description: "The payment is held until you approve the work.",
+      });
+    },
+
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ['payments'] });
+      toast({
+        title: "Failed to fund job",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+// HOOK TO RELEASE HELD MONEY - Pays the professional for approved work
+export const useReleasePayment = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (jobId: string) => requestPayment({ action: 'release', jobId }),
+
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['payments'] });
+      toast({
+        title: "Payment released",
+      });
+    },
+
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ['payments'] });
+      toast({
+        title: "Failed to release payment",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+// HOOK TO CANCEL A FUNDED JOB - Refused once work has been handed in; the held
+// money can then be refunded
+export const useCancelFundedJob = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (jobId: string) => {
+      const { error } = await supabase.rpc('cancel_funded_job', { p_job_id: jobId });
+      if (error) throw error;
+    },
+
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['payments'] });
+      queryClient.invalidateQueries({ queryKey: ['invoices'] });
+      toast({
+        title: "Job cancelled",
+        description: "You can now refund what's held in escrow.",
+      });
+    },
+
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to cancel job",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+};
+
+// HOOK TO REFUND A CANCELLED JOB - Returns whatever is still held to the job owner
+export const useRefundPayment = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (jobId: string) => requestPayment({ action: 'refund', jobId }),
+
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['payments'] });
+      toast({
+        title: "Refund requested",
+        description: "The held amount is on its way back to you.",
+      });
+    },
+
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ['payments'] });
+      toast({
+        title: "Failed to refund payment",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+};
@@ -0,0 +1,120 @@
+// IMPORT REACT QUERY HOOKS - These help us manage API calls to our database
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';  // Our database connection
+import { useToast } from '@/hooks/use-toast';  // For showing success/error messages
+
+// Storage bucket holding portfolio photos (public read, owner-only write)
+const PORTFOLIO_BUCKET = 'portfolio';
+
+// PORTFOLIO ITEM INTERFACE - Matches the "portfolio_items" table, plus a display URL
+export interface PortfolioItem {
+  id: string;
+  professional_id: string;            // professionals.id this photo belongs to
+  image_path: string;                 // Path inside the portfolio bucket ("<user id>/<file>")
+  caption: string | null;
+  created_at: string;
+  image_url: string;                  // Public URL for the image (computed client-side)
+}
+
+// HOOK TO FETCH A PROFESSIONAL'S PORTFOLIO - Newest first
+export const usePortfolio = (professionalId: string) => {
+  return useQuery({
+    queryKey: ['portfolio', professionalId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('portfolio_items')
+        .select('*')
+        .eq('professional_id', professionalId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      return (data || []).map(item => ({
+        ...item,
+        image_url: supabase.storage.from(PORTFOLIO_BUCKET).getPublicUrl(item.image_path).data.publicUrl,
+      })) as PortfolioItem[];
+    },
+    enabled: !!professionalId
+  });
+};
+
+// HOOK TO ADD A PHOTO - Uploads to the user's folder, then records it in portfolio_items
+export const useAddPortfolioItem = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ professionalId, userId, file, caption }: {
+      professionalId: string;
+      userId: string;
+      file: File;
+      caption?: string;
+    }) => {
+      const extension = file.name.split('.').pop()?.toLowerCase() || 'jpg';
+      const imagePath = `${userId}/${crypto.randomUUID()}.${extension}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from(PORTFOLIO_BUCKET)
+        .upload(imagePath, file, { contentType: file.type });
+      if (uploadError) throw uploadError;
+
+      const { error } = await supabase
+        .from('portfolio_items')
+        .insert({ professional_id: professionalId, image_path: imagePath, caption: caption || null });
+
+      if (error) {
+        // Don't leave an orphaned file behind if the row couldn't be created
+        await supabase.storage.from(PORTFOLIO_BUCKET).remove([imagePath]);
+        throw error;
+      }
+    },
+
+    onSuccess: (_data, { professionalId }) => {
+      queryClient.invalidateQueries({ queryKey: ['portfolio', professionalId] });
+      toast({
+        title: "Photo added",
+        description: "Your portfolio has been updated.",
+      });
+    },
+
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to upload photo",
+        description: error.message,
+        variant: "destructive"
+      });
+      console.error('Error adding portfolio item:', error);
+    }
+  });
+};
+
+// HOOK TO REMOVE A PHOTO - Deletes the row and the stored file
+export const useDeletePortfolioItem = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (item: PortfolioItem) => {
+      const { error } = await supabase
+        .from('portfolio_items')
+        .delete()
+        .eq('id', item.id);
+      if (error) throw error;
+
+      await supabase.storage.from(PORTFOLIO_BUCKET).remove([item.image_path]);
+    },
+
+    onSuccess: (_data, item) => {
+      queryClient.invalidateQueries({ queryKey: ['portfolio', item.professional_id] });
+    },
+
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to remove photo",
+        description: error.message,
+        variant: "destructive"
+      });
+      console.error('Error deleting portfolio item:', error);
+    }
+  });
+};
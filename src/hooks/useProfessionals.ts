@@ -1,6 +1,10 @@
 // IMPORT REACT QUERY - For fetching data from our database
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';  // Database connection
+import { useToast } from '@/hooks/use-toast';  // For showing success/error messages
+
+// HOW A PROFESSIONAL PREFERS TO BE CONTACTED
+export type ContactPreference = 'message' | 'email' | 'phone';
 
 // PROFESSIONAL INTERFACE - Defines the structure of professional data
 // This matches the structure of our "professionals" table in Supabase
@@ -18,6 +22,7 @@ export interface Professional {
   phone: string | null;               // Phone number (optional)
   email: string | null;               // Email address (optional)
   avatar_url: string | null;          // URL to profile picture (optional)
+  preferred_contact: ContactPreference; // In-app message, email or phone
   verified: boolean;                  // Whether they've been verified by platform
   rating: number;                     // Average rating (0-5 stars)
   review_count: number;               // Total number of reviews received
@@ -47,4 +52,195 @@ export const useProfessionals = () => {
       return data as Professional[];
     }
   });
-};
\ No newline at end of file
+};
+
+// HOOK TO FETCH A SINGLE PROFESSIONAL BY ID
+export const useProfessional = (id: string) => {
+  return useQuery({
+    queryKey: ['professionals', id],  // Cached per professional
+    
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('professionals')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();           // null (not an error) when the id doesn't exist
+      
+      if (error) throw error;
+      
+      return data as Professional | null;
+    },
+    enabled: !!id  // Don't query until we have an id
+  });
+};
+
+// JOB HISTORY ENTRY - A completed job won by a professional
+export interface ProfessionalJobHistoryEntry {
+  job_id: string;
+  title: string;
+  category: string;
+  location: string;
+  completed_at: string;
+  rating: number | null;              // Review rating, if the poster left one
+}
+
+// HOOK TO FETCH A PROFESSIONAL'S COMPLETED JOBS ON THE PLATFORM
+// Bids are private, so this goes through the get_professional_job_history function
+export const useProfessionalJobHistory = (professionalId: string) => {
+  return useQuery({
+    queryKey: ['professionals', professionalId, 'job-history'],
+    
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .rpc('get_professional_job_history', { p_professional_id: professionalId });
+      
+      if (error) throw error;
+      
+      return data as ProfessionalJobHistoryEntry[];
+    },
+    enabled: !!professionalId
+  });
+};
+
+// PROFESSIONAL PROFILE INPUT - The fields a professional maintains themselves
+// (verification, rating, review count and completed jobs are managed by the platform)
+export interface ProfessionalProfileInput {
+  name: string;
+  title: string;
+  description: string | null;
+  location: string;
+  skills: string[];
+  experience_years: number;
+  hourly_rate: number | null;         // In cents
+  response_time: string;
+  phone: string | null;
+  email: string | null;
+  avatar_url: string | null;
+  preferred_contact: ContactPreference;
+}
+
+// HOOK TO FETCH THE SIGNED-IN USER'S OWN PROFESSIONAL ROW (null until they onboard)
+export const useMyProfessional = (userId: string | null | undefined) => {
+  return useQuery({
+    queryKey: ['professionals', 'mine', userId],
+    
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('professionals')
+        .select('*')
+        .eq('user_id', userId!)
+        .maybeSingle();
+      
+      if (error) throw error;
+      
+      return data as Professional | null;
+    },
+    enabled: !!userId
+  });
+};
+
+// HOOK TO CREATE THE SIGNED-IN USER'S PROFESSIONAL ROW - Onboarding
+export const useCreateProfessional = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ userId, profile }: { userId: string; profile: ProfessionalProfileInput }) => {
+      const { data, error } = await supabase
+        .from('professionals')
+        .insert({ ...profile, user_id: userId })
+        .select()
+        .single();
+      
+      if (error) throw error;
+      return data as Professional;
+    },
+
+    onSuccess: () => {
+      // The directory, the profile page and "mine" all read from professionals
+      queryClient.invalidateQueries({ queryKey: ['professionals'] });
+      
+      toast({
+        title: "Profile created",
+        description: "You now appear in the professionals directory.",
+      });
+    },
+
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save profile",
+        description: error.message,
+        variant: "destructive"
+      });
+      console.error('Error creating professional profile:', error);
+    }
+  });
+};
+
+// HOOK TO UPDATE THE SIGNED-IN USER'S PROFESSIONAL ROW
+// Users may only update the self-described columns, so user_id stays out of the payload
+export const useUpdateProfessional = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ userId, profile }: { userId: string; profile: ProfessionalProfileInput }) => {
+      const { data, error } = await supabase
+        .from('professionals')
+        .update(profile)
+        .eq('user_id', userId)
+        .select()
+        .single();
+      
+      if (error) throw error;
+      return data as Professional;
+    },
+
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['professionals'] });
+      
+      toast({
+        title: "Profile saved",
+        description: "Your professional profile is up to date.",
+      });
+    },
+
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save profile",
+        description: error.message,
+        variant: "destructive"
+      });
+      console.error('Error saving professional profile:', error);
+    }
+  });
+};
+
+// HOOK TO UPLOAD AN AVATAR - Stores it in the user's folder and returns its public URL
+export const useUploadAvatar = () => {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ userId, file }: { userId: string; file: File }) => {
+      const extension = file.name.split('.').pop()?.toLowerCase() || 'jpg';
+      // A new name per upload so browsers and the CDN don't serve the old picture
+      const path = `${userId}/avatar-${Date.now()}.${extension}`;
+
+      const { error } = await supabase.storage
+        .from('avatars')
+        .upload(path, file, { contentType: file.type });
+      if (error) throw error;
+
+      return supabase.storage.from('avatars').getPublicUrl(path).data.publicUrl;
+    },
+
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to upload photo",
+        description: error.message,
+        variant: "destructive"
+      });
+      console.error('Error uploading avatar:', error);
+    }
+  });
+};
@@ -0,0 +1,104 @@
+// IMPORT REACT QUERY HOOKS - These help us manage API calls to our database
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';  // Our database connection
+import { useToast } from '@/hooks/use-toast';  // For showing success/error messages
+
+// REVIEW INTERFACE - Matches the "reviews" table, plus the reviewed job's title
+export interface Review {
+  id: string;                         // Unique identifier for each review
+  job_id: string;                     // The completed job being reviewed (one review per job)
+  bid_id: string;                     // The accepted bid on that job
+  reviewer_id: string;                // Job poster who wrote the review
+  reviewer_name: string | null;       // Job poster's name at the time of the review
+  professional_user_id: string;       // Auth user id of the reviewed professional
+  rating: number;                     // 1-5 stars
+  comment: string | null;             // Optional written feedback
+  created_at: string;                 // When the review was left
+  updated_at: string;
+  jobs?: { title: string } | null;    // Joined job title for display
+}
+
+// NEW REVIEW INTERFACE - The database fills in the bid, professional and reviewer name
+export interface NewReview {
+  job_id: string;
+  reviewer_id: string;
+  rating: number;
+  comment?: string;
+}
+
+// HOOK TO FETCH A PROFESSIONAL'S REVIEWS - Newest first
+export const useProfessionalReviews = (professionalUserId: string | null | undefined) => {
+  return useQuery({
+    queryKey: ['reviews', 'professional', professionalUserId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('reviews')
+        .select('*, jobs(title)')
+        .eq('professional_user_id', professionalUserId!)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data as Review[];
+    },
+    enabled: !!professionalUserId  // Professionals without an account have no reviews
+  });
+};
+
+// HOOK TO FETCH THE REVIEWS A USER HAS WRITTEN - Used to hide "Leave a Review" once done
+export const useMyReviews = (reviewerId: string | null | undefined) => {
+  return useQuery({
+    queryKey: ['reviews', 'reviewer', reviewerId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('reviews')
+        .select('*')
+        .eq('reviewer_id', reviewerId!)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data as Review[];
+    },
+    enabled: !!reviewerId
+  });
+};
+
+// HOOK TO LEAVE A REVIEW
+// The database checks that the job is completed, belongs to the reviewer and has
+// not been reviewed yet, then updates the professional's rating
+export const useCreateReview = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (review: NewReview) => {
+      const { data, error } = await supabase
+        .from('reviews')
+        .insert(review)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as Review;
+    },
+
+    onSuccess: () => {
+      // Review lists and the professional's rating have both changed
+      queryClient.invalidateQueries({ queryKey: ['reviews'] });
+      queryClient.invalidateQueries({ queryKey: ['professionals'] });
+
+      toast({
+        title: "Review submitted",
+        description: "Thanks for sharing your feedback!",
+      });
+    },
+
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to submit review",
+        description: error.message,
+        variant: "destructive"
+      });
+      console.error('Error creating review:', error);
+    }
+  });
+};
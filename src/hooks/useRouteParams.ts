@@ -0,0 +1,18 @@
+import { useParams } from 'react-router-dom';
+import type { JobRouteParams, ProfessionalRouteParams } from '@/lib/routes';
+
+/**
+ * Typed accessors for dynamic route segments
+ *
+ * These hooks are only used by components mounted under the matching route
+ * (see App.tsx), so the segment is always present.
+ */
+export const useJobRouteParams = (): JobRouteParams => {
+  const { id } = useParams<JobRouteParams>();
+  return { id: id as string };
+};
+
+export const useProfessionalRouteParams = (): ProfessionalRouteParams => {
+  const { id } = useParams<ProfessionalRouteParams>();
+  return { id: id as string };
+};
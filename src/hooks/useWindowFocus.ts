@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+
+const isWindowFocused = () => document.visibilityState === 'visible' && document.hasFocus();
+
+/**
+ * Whether the user is looking at this tab: it is visible and has focus
+ */
+export const useWindowFocus = () => {
+  const [focused, setFocused] = useState(isWindowFocused);
+
+  useEffect(() => {
+    const update = () => setFocused(isWindowFocused());
+    window.addEventListener('focus', update);
+    window.addEventListener('blur', update);
+    document.addEventListener('visibilitychange', update);
+    return () => {
+      window.removeEventListener('focus', update);
+      window.removeEventListener('blur', update);
+      document.removeEventListener('visibilitychange', update);
+    };
+  }, []);
+
+  return focused;
+};
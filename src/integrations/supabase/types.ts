@@ -14,28 +14,82 @@ export type Database = {
   }
   public: {
     Tables: {
+      bank_detail_reveals: {
+        Row: {
+          bid_id: string
+          id: string
+          payment_details_id: string
+          reason: string | null
+          revealed_as: string
+          revealed_at: string
+          revealed_by: string | null
+        }
+        Insert: {
+          bid_id: string
+          id?: string
+          payment_details_id: string
+          reason?: string | null
+          revealed_as: string
+          revealed_at?: string
+          revealed_by?: string | null
+        }
+        Update: {
+          bid_id?: string
+          id?: string
+          payment_details_id?: string
+          reason?: string | null
+          revealed_as?: string
+          revealed_at?: string
+          revealed_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bank_detail_reveals_bid_id_fkey"
+            columns: ["bid_id"]
+            isOneToOne: false
+            referencedRelation: "bids"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_detail_reveals_payment_details_id_fkey"
+            columns: ["payment_details_id"]
+            isOneToOne: false
+            referencedRelation: "bid_payment_details"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       bid_payment_details: {
         Row: {
-          bank_account_number: string
+          account_format: string | null
+          account_last4: string
+          account_number_encrypted: string
           bid_id: string
           created_at: string
           id: string
+          routing_code: string | null
           updated_at: string
           user_id: string
         }
         Insert: {
-          bank_account_number: string
+          account_format?: string | null
+          account_last4: string
+          account_number_encrypted: string
           bid_id: string
           created_at?: string
           id?: string
+          routing_code?: string | null
           updated_at?: string
           user_id: string
         }
         Update: {
-          bank_account_number?: string
+          account_format?: string | null
+          account_last4?: string
+          account_number_encrypted?: string
           bid_id?: string
           created_at?: string
           id?: string
+          routing_code?: string | null
           updated_at?: string
           user_id?: string
         }
@@ -49,6 +103,50 @@ export type Database = {
           },
         ]
       }
+      bid_revisions: {
+        Row: {
+          amount: number | null
+          author_id: string | null
+          bid_id: string
+          created_at: string
+          estimated_hours: number | null
+          hourly_rate: number | null
+          id: string
+          kind: string
+          message: string | null
+        }
+        Insert: {
+          amount?: number | null
+          author_id?: string | null
+          bid_id: string
+          created_at?: string
+          estimated_hours?: number | null
+          hourly_rate?: number | null
+          id?: string
+          kind: string
+          message?: string | null
+        }
+        Update: {
+          amount?: number | null
+          author_id?: string | null
+          bid_id?: string
+          created_at?: string
+          estimated_hours?: number | null
+          hourly_rate?: number | null
+          id?: string
+          kind?: string
+          message?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bid_revisions_bid_id_fkey"
+            columns: ["bid_id"]
+            isOneToOne: false
+            referencedRelation: "bids"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       bids: {
         Row: {
           amount: number
@@ -61,8 +159,9 @@ export type Database = {
           id: string
           job_id: string
           message: string | null
+          platform_fee: number
           professional_id: string | null
-          status: string | null
+          status: Database["public"]["Enums"]["bid_status"]
           timeline: string | null
           updated_at: string
           user_id: string | null
@@ -78,8 +177,9 @@ export type Database = {
           id?: string
           job_id: string
           message?: string | null
+          platform_fee?: number
           professional_id?: string | null
-          status?: string | null
+          status?: Database["public"]["Enums"]["bid_status"]
           timeline?: string | null
           updated_at?: string
           user_id?: string | null
@@ -95,8 +195,9 @@ export type Database = {
           id?: string
           job_id?: string
           message?: string | null
+          platform_fee?: number
           professional_id?: string | null
-          status?: string | null
+          status?: Database["public"]["Enums"]["bid_status"]
           timeline?: string | null
           updated_at?: string
           user_id?: string | null
@@ -111,6 +212,56 @@ export type Database = {
           },
         ]
       }
+      chat_presence: {
+        Row: {
+          last_seen_at: string
+          user_id: string
+        }
+        Insert: {
+          last_seen_at?: string
+          user_id: string
+        }
+        Update: {
+          last_seen_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      conversation_preferences: {
+        Row: {
+          archived_at: string | null
+          conversation_id: string
+          created_at: string
+          muted_at: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          archived_at?: string | null
+          conversation_id: string
+          created_at?: string
+          muted_at?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          archived_at?: string | null
+          conversation_id?: string
+          created_at?: string
+          muted_at?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_preferences_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       conversations: {
         Row: {
           created_at: string
@@ -146,110 +297,950 @@ export type Database = {
           },
         ]
       }
-      jobs: {
+      dispute_evidence: {
         Row: {
-          budget_max: number | null
-          budget_min: number | null
-          budget_type: string | null
-          category: string
           created_at: string
-          description: string
-          homeowner_id: string | null
-          homeowner_name: string
-          homeowner_verified: boolean | null
+          dispute_id: string
           id: string
-          location: string
-          status: string | null
-          timeline: string | null
-          title: string
+          image_path: string | null
+          kind: string
+          message_id: string | null
+          note: string | null
+          submitted_by: string
+        }
+        Insert: {
+          created_at?: string
+          dispute_id: string
+          id?: string
+          image_path?: string | null
+          kind: string
+          message_id?: string | null
+          note?: string | null
+          submitted_by: string
+        }
+        Update: {
+          created_at?: string
+          dispute_id?: string
+          id?: string
+          image_path?: string | null
+          kind?: string
+          message_id?: string | null
+          note?: string | null
+          submitted_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "dispute_evidence_dispute_id_fkey"
+            columns: ["dispute_id"]
+            isOneToOne: false
+            referencedRelation: "job_disputes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "dispute_evidence_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fee_rules: {
+        Row: {
+          active: boolean
+          category: string | null
+          created_at: string
+          ends_at: string | null
+          fee_type: string
+          flat_amount: number | null
+          id: string
+          is_promotional: boolean
+          minimum_amount: number
+          name: string
+          percent: number | null
+          starts_at: string | null
           updated_at: string
-          user_id: string | null
         }
         Insert: {
-          budget_max?: number | null
-          budget_min?: number | null
-          budget_type?: string | null
-          category: string
+          active?: boolean
+          category?: string | null
           created_at?: string
-          description: string
-          homeowner_id?: string | null
-          homeowner_name: string
-          homeowner_verified?: boolean | null
+          ends_at?: string | null
+          fee_type: string
+          flat_amount?: number | null
           id?: string
-          location: string
-          status?: string | null
-          timeline?: string | null
-          title: string
+          is_promotional?: boolean
+          minimum_amount?: number
+          name: string
+          percent?: number | null
+          starts_at?: string | null
           updated_at?: string
-          user_id?: string | null
         }
         Update: {
-          budget_max?: number | null
-          budget_min?: number | null
-          budget_type?: string | null
-          category?: string
+          active?: boolean
+          category?: string | null
           created_at?: string
-          description?: string
-          homeowner_id?: string | null
-          homeowner_name?: string
-          homeowner_verified?: boolean | null
+          ends_at?: string | null
+          fee_type?: string
+          flat_amount?: number | null
           id?: string
-          location?: string
-          status?: string | null
-          timeline?: string | null
-          title?: string
+          is_promotional?: boolean
+          minimum_amount?: number
+          name?: string
+          percent?: number | null
+          starts_at?: string | null
           updated_at?: string
-          user_id?: string | null
         }
         Relationships: []
       }
-      messages: {
+      invoice_counters: {
         Row: {
-          content: string
-          conversation_id: string | null
+          last_sequence: number
+          professional_id: string
+        }
+        Insert: {
+          last_sequence: number
+          professional_id: string
+        }
+        Update: {
+          last_sequence?: number
+          professional_id?: string
+        }
+        Relationships: []
+      }
+      invoice_line_items: {
+        Row: {
+          amount: number
+          description: string
+          id: string
+          invoice_id: string
+          kind: string
+          milestone_id: string | null
+          position: number
+          quantity: number
+          unit_amount: number
+        }
+        Insert: {
+          amount: number
+          description: string
+          id?: string
+          invoice_id: string
+          kind: string
+          milestone_id?: string | null
+          position: number
+          quantity?: number
+          unit_amount: number
+        }
+        Update: {
+          amount?: number
+          description?: string
+          id?: string
+          invoice_id?: string
+          kind?: string
+          milestone_id?: string | null
+          position?: number
+          quantity?: number
+          unit_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_line_items_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_line_items_milestone_id_fkey"
+            columns: ["milestone_id"]
+            isOneToOne: false
+            referencedRelation: "job_milestones"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoices: {
+        Row: {
+          bid_id: string
           created_at: string
+          currency: string
+          customer_email: string | null
+          customer_id: string
+          customer_name: string
           id: string
+          invoice_number: string
+          issued_at: string
+          issuer_email: string | null
+          issuer_name: string
           job_id: string
-          read_at: string | null
-          recipient_id: string
-          sender_id: string
+          job_title: string
+          paid_at: string | null
+          professional_id: string
+          sequence: number
+          status: string
+          subtotal: number
+          tax_amount: number
+          tax_rate: number
+          total: number
           updated_at: string
         }
         Insert: {
-          content: string
-          conversation_id?: string | null
+          bid_id: string
           created_at?: string
+          currency?: string
+          customer_email?: string | null
+          customer_id: string
+          customer_name: string
           id?: string
+          invoice_number: string
+          issued_at?: string
+          issuer_email?: string | null
+          issuer_name: string
           job_id: string
-          read_at?: string | null
-          recipient_id: string
-          sender_id: string
+          job_title: string
+          paid_at?: string | null
+          professional_id: string
+          sequence: number
+          status?: string
+          subtotal?: number
+          tax_amount?: number
+          tax_rate?: number
+          total?: number
           updated_at?: string
         }
         Update: {
-          content?: string
-          conversation_id?: string | null
+          bid_id?: string
           created_at?: string
+          currency?: string
+          customer_email?: string | null
+          customer_id?: string
+          customer_name?: string
           id?: string
+          invoice_number?: string
+          issued_at?: string
+          issuer_email?: string | null
+          issuer_name?: string
           job_id?: string
-          read_at?: string | null
-          recipient_id?: string
-          sender_id?: string
+          job_title?: string
+          paid_at?: string | null
+          professional_id?: string
+          sequence?: number
+          status?: string
+          subtotal?: number
+          tax_amount?: number
+          tax_rate?: number
+          total?: number
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "messages_conversation_id_fkey"
-            columns: ["conversation_id"]
+            foreignKeyName: "invoices_bid_id_fkey"
+            columns: ["bid_id"]
+            isOneToOne: true
+            referencedRelation: "bids"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_job_id_fkey"
+            columns: ["job_id"]
             isOneToOne: false
-            referencedRelation: "conversations"
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_changes: {
+        Row: {
+          changed_by: string | null
+          changes: Json
+          created_at: string
+          id: string
+          job_id: string
+        }
+        Insert: {
+          changed_by?: string | null
+          changes: Json
+          created_at?: string
+          id?: string
+          job_id: string
+        }
+        Update: {
+          changed_by?: string | null
+          changes?: Json
+          created_at?: string
+          id?: string
+          job_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_changes_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
             referencedColumns: ["id"]
           },
+        ]
+      }
+      job_disputes: {
+        Row: {
+          created_at: string
+          id: string
+          job_id: string
+          milestone_id: string | null
+          opened_as: string
+          opened_by: string
+          outcome: string | null
+          reason: string
+          refund_amount: number | null
+          release_amount: number | null
+          resolution_notes: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          job_id: string
+          milestone_id?: string | null
+          opened_as: string
+          opened_by: string
+          outcome?: string | null
+          reason: string
+          refund_amount?: number | null
+          release_amount?: number | null
+          resolution_notes?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          job_id?: string
+          milestone_id?: string | null
+          opened_as?: string
+          opened_by?: string
+          outcome?: string | null
+          reason?: string
+          refund_amount?: number | null
+          release_amount?: number | null
+          resolution_notes?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_disputes_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "job_disputes_milestone_id_fkey"
+            columns: ["milestone_id"]
+            isOneToOne: false
+            referencedRelation: "job_milestones"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_invitations: {
+        Row: {
+          created_at: string
+          id: string
+          invited_by: string
+          job_id: string
+          message: string | null
+          professional_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          invited_by: string
+          job_id: string
+          message?: string | null
+          professional_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          invited_by?: string
+          job_id?: string
+          message?: string | null
+          professional_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_invitations_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "job_invitations_professional_id_fkey"
+            columns: ["professional_id"]
+            isOneToOne: false
+            referencedRelation: "professionals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_milestones: {
+        Row: {
+          amount: number
+          completion_note: string | null
+          created_at: string
+          description: string
+          dispute_reason: string | null
+          due_date: string | null
+          id: string
+          job_id: string
+          position: number
+          reviewed_at: string | null
+          status: string
+          submitted_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          completion_note?: string | null
+          created_at?: string
+          description: string
+          dispute_reason?: string | null
+          due_date?: string | null
+          id?: string
+          job_id: string
+          position: number
+          reviewed_at?: string | null
+          status?: string
+          submitted_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          completion_note?: string | null
+          created_at?: string
+          description?: string
+          dispute_reason?: string | null
+          due_date?: string | null
+          id?: string
+          job_id?: string
+          position?: number
+          reviewed_at?: string | null
+          status?: string
+          submitted_at?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_milestones_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_photos: {
+        Row: {
+          created_at: string
+          id: string
+          image_path: string
+          job_id: string
+          position: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          image_path: string
+          job_id: string
+          position?: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          image_path?: string
+          job_id?: string
+          position?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_photos_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      jobs: {
+        Row: {
+          bid_deadline: string | null
+          budget_max: number | null
+          budget_min: number
+          budget_type: string
+          category: string
+          created_at: string
+          deleted_at: string | null
+          description: string
+          desired_completion_date: string | null
+          desired_start_date: string | null
+          estimated_hours: number | null
+          homeowner_id: string | null
+          homeowner_name: string
+          homeowner_verified: boolean | null
+          hourly_rate_max: number | null
+          hourly_rate_min: number | null
+          id: string
+          location: string
+          reposted_from: string | null
+          search_vector: unknown
+          status: Database["public"]["Enums"]["job_status"]
+          timeline: string | null
+          title: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          bid_deadline?: string | null
+          budget_max?: number | null
+          budget_min?: number
+          budget_type?: string
+          category: string
+          created_at?: string
+          deleted_at?: string | null
+          description: string
+          desired_completion_date?: string | null
+          desired_start_date?: string | null
+          estimated_hours?: number | null
+          homeowner_id?: string | null
+          homeowner_name: string
+          homeowner_verified?: boolean | null
+          hourly_rate_max?: number | null
+          hourly_rate_min?: number | null
+          id?: string
+          location: string
+          reposted_from?: string | null
+          search_vector?: unknown
+          status?: Database["public"]["Enums"]["job_status"]
+          timeline?: string | null
+          title: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          bid_deadline?: string | null
+          budget_max?: number | null
+          budget_min?: number
+          budget_type?: string
+          category?: string
+          created_at?: string
+          deleted_at?: string | null
+          description?: string
+          desired_completion_date?: string | null
+          desired_start_date?: string | null
+          estimated_hours?: number | null
+          homeowner_id?: string | null
+          homeowner_name?: string
+          homeowner_verified?: boolean | null
+          hourly_rate_max?: number | null
+          hourly_rate_min?: number | null
+          id?: string
+          location?: string
+          reposted_from?: string | null
+          search_vector?: unknown
+          status?: Database["public"]["Enums"]["job_status"]
+          timeline?: string | null
+          title?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "jobs_reposted_from_fkey"
+            columns: ["reposted_from"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_attachments: {
+        Row: {
+          content_type: string
+          conversation_id: string
+          created_at: string
+          file_name: string
+          file_path: string
+          id: string
+          message_id: string
+          size_bytes: number
+          uploaded_by: string
+        }
+        Insert: {
+          content_type: string
+          conversation_id: string
+          created_at?: string
+          file_name: string
+          file_path: string
+          id?: string
+          message_id: string
+          size_bytes: number
+          uploaded_by: string
+        }
+        Update: {
+          content_type?: string
+          conversation_id?: string
+          created_at?: string
+          file_name?: string
+          file_path?: string
+          id?: string
+          message_id?: string
+          size_bytes?: number
+          uploaded_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_attachments_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_attachments_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      messages: {
+        Row: {
+          content: string
+          conversation_id: string | null
+          created_at: string
+          deleted_at: string | null
+          delivered_at: string | null
+          edited_at: string | null
+          id: string
+          job_id: string
+          read_at: string | null
+          recipient_id: string
+          search_vector: unknown
+          sender_id: string
+          updated_at: string
+        }
+        Insert: {
+          content: string
+          conversation_id?: string | null
+          created_at?: string
+          deleted_at?: string | null
+          delivered_at?: string | null
+          edited_at?: string | null
+          id?: string
+          job_id: string
+          read_at?: string | null
+          recipient_id: string
+          search_vector?: unknown
+          sender_id: string
+          updated_at?: string
+        }
+        Update: {
+          content?: string
+          conversation_id?: string | null
+          created_at?: string
+          deleted_at?: string | null
+          delivered_at?: string | null
+          edited_at?: string | null
+          id?: string
+          job_id?: string
+          read_at?: string | null
+          recipient_id?: string
+          search_vector?: unknown
+          sender_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      milestone_photos: {
+        Row: {
+          created_at: string
+          id: string
+          image_path: string
+          milestone_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          image_path: string
+          milestone_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          image_path?: string
+          milestone_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "milestone_photos_milestone_id_fkey"
+            columns: ["milestone_id"]
+            isOneToOne: false
+            referencedRelation: "job_milestones"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      moderation_cases: {
+        Row: {
+          created_at: string
+          details: string | null
+          id: string
+          job_id: string | null
+          message_content: string
+          message_id: string
+          outcome: string | null
+          reason: string
+          reported_by: string
+          reported_user_id: string
+          resolution_notes: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          job_id?: string | null
+          message_content: string
+          message_id: string
+          outcome?: string | null
+          reason: string
+          reported_by: string
+          reported_user_id: string
+          resolution_notes?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          job_id?: string | null
+          message_content?: string
+          message_id?: string
+          outcome?: string | null
+          reason?: string
+          reported_by?: string
+          reported_user_id?: string
+          resolution_notes?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "moderation_cases_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "moderation_cases_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_ledger: {
+        Row: {
+          amount: number
+          bid_id: string
+          charge_id: string | null
+          created_at: string
+          created_by: string | null
+          currency: string
+          entry_type: string
+          failure_reason: string | null
+          id: string
+          job_id: string
+          milestone_id: string | null
+          provider: string
+          provider_reference: string | null
+          release_id: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          bid_id: string
+          charge_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          currency?: string
+          entry_type: string
+          failure_reason?: string | null
+          id?: string
+          job_id: string
+          milestone_id?: string | null
+          provider: string
+          provider_reference?: string | null
+          release_id?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          bid_id?: string
+          charge_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          currency?: string
+          entry_type?: string
+          failure_reason?: string | null
+          id?: string
+          job_id?: string
+          milestone_id?: string | null
+          provider?: string
+          provider_reference?: string | null
+          release_id?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_ledger_bid_id_fkey"
+            columns: ["bid_id"]
+            isOneToOne: false
+            referencedRelation: "bids"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_ledger_charge_id_fkey"
+            columns: ["charge_id"]
+            isOneToOne: false
+            referencedRelation: "payment_ledger"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_ledger_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_ledger_milestone_id_fkey"
+            columns: ["milestone_id"]
+            isOneToOne: false
+            referencedRelation: "job_milestones"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_ledger_release_id_fkey"
+            columns: ["release_id"]
+            isOneToOne: false
+            referencedRelation: "payment_ledger"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payout_accounts: {
+        Row: {
+          account_id: string
+          created_at: string
+          provider: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          account_id: string
+          created_at?: string
+          provider: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          account_id?: string
+          created_at?: string
+          provider?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      portfolio_items: {
+        Row: {
+          caption: string | null
+          created_at: string
+          id: string
+          image_path: string
+          professional_id: string
+        }
+        Insert: {
+          caption?: string | null
+          created_at?: string
+          id?: string
+          image_path: string
+          professional_id: string
+        }
+        Update: {
+          caption?: string | null
+          created_at?: string
+          id?: string
+          image_path?: string
+          professional_id?: string
+        }
+        Relationships: [
           {
-            foreignKeyName: "messages_job_id_fkey"
-            columns: ["job_id"]
+            foreignKeyName: "portfolio_items_professional_id_fkey"
+            columns: ["professional_id"]
             isOneToOne: false
-            referencedRelation: "jobs"
+            referencedRelation: "professionals"
             referencedColumns: ["id"]
           },
         ]
@@ -267,6 +1258,7 @@ export type Database = {
           location: string
           name: string
           phone: string | null
+          preferred_contact: string
           rating: number | null
           response_time: string | null
           review_count: number | null
@@ -288,6 +1280,7 @@ export type Database = {
           location: string
           name: string
           phone?: string | null
+          preferred_contact?: string
           rating?: number | null
           response_time?: string | null
           review_count?: number | null
@@ -309,6 +1302,7 @@ export type Database = {
           location?: string
           name?: string
           phone?: string | null
+          preferred_contact?: string
           rating?: number | null
           response_time?: string | null
           review_count?: number | null
@@ -353,18 +1347,665 @@ export type Database = {
         }
         Relationships: []
       }
+      reviews: {
+        Row: {
+          bid_id: string
+          comment: string | null
+          created_at: string
+          id: string
+          job_id: string
+          professional_user_id: string
+          rating: number
+          reviewer_id: string
+          reviewer_name: string | null
+          updated_at: string
+        }
+        Insert: {
+          bid_id?: string
+          comment?: string | null
+          created_at?: string
+          id?: string
+          job_id: string
+          professional_user_id?: string
+          rating: number
+          reviewer_id: string
+          reviewer_name?: string | null
+          updated_at?: string
+        }
+        Update: {
+          bid_id?: string
+          comment?: string | null
+          created_at?: string
+          id?: string
+          job_id?: string
+          professional_user_id?: string
+          rating?: number
+          reviewer_id?: string
+          reviewer_name?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reviews_bid_id_fkey"
+            columns: ["bid_id"]
+            isOneToOne: false
+            referencedRelation: "bids"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reviews_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: true
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
-      [_ in never]: never
+      conversation_summaries: {
+        Row: {
+          archived: boolean | null
+          created_at: string | null
+          id: string | null
+          job_id: string | null
+          job_poster_id: string | null
+          job_status: string | null
+          job_title: string | null
+          last_message_at: string | null
+          last_message_content: string | null
+          last_message_deleted: boolean | null
+          last_message_sender_id: string | null
+          muted: boolean | null
+          other_participant_id: string | null
+          other_participant_last_seen_at: string | null
+          other_participant_name: string | null
+          professional_id: string | null
+          unread_count: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversations_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_payment_balances: {
+        Row: {
+          fees: number | null
+          funded: number | null
+          in_escrow: number | null
+          job_id: string | null
+          pending: number | null
+          refunded: number | null
+          released: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_ledger_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
+      aba_routing_is_valid: {
+        Args: { p_routing: string }
+        Returns: boolean
+      }
+      accept_bid: {
+        Args: { p_bid_id: string }
+        Returns: undefined
+      }
+      admin_dispute: {
+        Args: { p_admin_id: string; p_dispute_id: string }
+        Returns: {
+          created_at: string
+          id: string
+          job_id: string
+          milestone_id: string | null
+          opened_as: string
+          opened_by: string
+          outcome: string | null
+          reason: string
+          refund_amount: number | null
+          release_amount: number | null
+          resolution_notes: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          updated_at: string
+        }
+      }
+      approve_milestone: {
+        Args: { p_milestone_id: string }
+        Returns: undefined
+      }
+      bank_details_key: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      bid_offer_amount: {
+        Args: {
+          p_amount: number
+          p_estimated_hours: number
+          p_hourly_rate: number
+        }
+        Returns: number
+      }
+      cancel_funded_job: {
+        Args: { p_job_id: string }
+        Returns: undefined
+      }
+      close_expired_jobs: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      counter_bid: {
+        Args: {
+          p_amount: number
+          p_bid_id: string
+          p_estimated_hours?: number
+          p_hourly_rate?: number
+          p_message?: string
+        }
+        Returns: undefined
+      }
+      conversation_channel_participant: {
+        Args: { p_topic: string }
+        Returns: boolean
+      }
+      conversation_folder_participant: {
+        Args: { p_object_name: string }
+        Returns: boolean
+      }
+      current_user_role: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      delete_job: {
+        Args: { p_job_id: string }
+        Returns: undefined
+      }
+      dispute_milestone: {
+        Args: { p_milestone_id: string; p_reason: string }
+        Returns: undefined
+      }
+      generate_invoice: {
+        Args: { p_job_id: string; p_tax_rate?: number }
+        Returns: {
+          bid_id: string
+          created_at: string
+          currency: string
+          customer_email: string | null
+          customer_id: string
+          customer_name: string
+          id: string
+          invoice_number: string
+          issued_at: string
+          issuer_email: string | null
+          issuer_name: string
+          job_id: string
+          job_title: string
+          paid_at: string | null
+          professional_id: string
+          sequence: number
+          status: string
+          subtotal: number
+          tax_amount: number
+          tax_rate: number
+          total: number
+          updated_at: string
+        }
+      }
+      get_professional_job_history: {
+        Args: { p_professional_id: string }
+        Returns: {
+          category: string
+          completed_at: string
+          job_id: string
+          location: string
+          rating: number
+          title: string
+        }[]
+      }
+      iban_is_valid: {
+        Args: { p_iban: string }
+        Returns: boolean
+      }
+      involved_in_job: {
+        Args: { p_job_id: string }
+        Returns: boolean
+      }
+      is_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      is_conversation_participant: {
+        Args: { p_conversation_id: string }
+        Returns: boolean
+      }
+      is_dispute_evidence_message: {
+        Args: { p_message_id: string }
+        Returns: boolean
+      }
+      is_valid_job_status_transition: {
+        Args: {
+          from_status: Database["public"]["Enums"]["job_status"]
+          to_status: Database["public"]["Enums"]["job_status"]
+        }
+        Returns: boolean
+      }
+      job_folder_participant_role: {
+        Args: { p_object_name: string }
+        Returns: string
+      }
+      job_content: {
+        Args: { j: Database["public"]["Tables"]["jobs"]["Row"] }
+        Returns: Json
+      }
+      job_participant_role: {
+        Args: { p_job_id: string }
+        Returns: string
+      }
+      lock_negotiable_bid: {
+        Args: { p_as_job_owner: boolean; p_bid_id: string }
+        Returns: {
+          amount: number
+          bidder_email: string | null
+          bidder_name: string | null
+          bidder_phone: string | null
+          created_at: string
+          estimated_hours: number | null
+          hourly_rate: number | null
+          id: string
+          job_id: string
+          message: string | null
+          platform_fee: number
+          professional_id: string | null
+          status: Database["public"]["Enums"]["bid_status"]
+          timeline: string | null
+          updated_at: string
+          user_id: string | null
+        }
+      }
+      open_dispute: {
+        Args: {
+          p_job_id: string
+          p_message_ids?: string[]
+          p_milestone_id?: string
+          p_reason: string
+        }
+        Returns: {
+          created_at: string
+          id: string
+          job_id: string
+          milestone_id: string | null
+          opened_as: string
+          opened_by: string
+          outcome: string | null
+          reason: string
+          refund_amount: number | null
+          release_amount: number | null
+          resolution_notes: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          updated_at: string
+        }
+      }
+      owns_job_folder: {
+        Args: { p_object_name: string }
+        Returns: boolean
+      }
+      payment_job_bid: {
+        Args: { p_job_id: string; p_user_id: string }
+        Returns: {
+          amount: number
+          bidder_email: string | null
+          bidder_name: string | null
+          bidder_phone: string | null
+          created_at: string
+          estimated_hours: number | null
+          hourly_rate: number | null
+          id: string
+          job_id: string
+          message: string | null
+          platform_fee: number
+          professional_id: string | null
+          status: Database["public"]["Enums"]["bid_status"]
+          timeline: string | null
+          updated_at: string
+          user_id: string | null
+        }
+      }
+      platform_fee: {
+        Args: { p_amount: number; p_at?: string; p_category: string }
+        Returns: number
+      }
+      platform_fee_rule: {
+        Args: { p_at?: string; p_category: string }
+        Returns: {
+          active: boolean
+          category: string | null
+          created_at: string
+          ends_at: string | null
+          fee_type: string
+          flat_amount: number | null
+          id: string
+          is_promotional: boolean
+          minimum_amount: number
+          name: string
+          percent: number | null
+          starts_at: string | null
+          updated_at: string
+        }
+      }
+      record_payment_result: {
+        Args: {
+          p_entry_id: string
+          p_failure_reason?: string
+          p_provider_reference?: string
+          p_status: string
+        }
+        Returns: {
+          amount: number
+          bid_id: string
+          charge_id: string | null
+          created_at: string
+          created_by: string | null
+          currency: string
+          entry_type: string
+          failure_reason: string | null
+          id: string
+          job_id: string
+          milestone_id: string | null
+          provider: string
+          provider_reference: string | null
+          release_id: string | null
+          status: string
+          updated_at: string
+        }
+      }
+      refresh_professional_stats: {
+        Args: { p_user_id: string }
+        Returns: undefined
+      }
+      reject_bid: {
+        Args: { p_bid_id: string }
+        Returns: undefined
+      }
+      report_message: {
+        Args: { p_details?: string; p_message_id: string; p_reason: string }
+        Returns: {
+          created_at: string
+          details: string | null
+          id: string
+          job_id: string | null
+          message_content: string
+          message_id: string
+          outcome: string | null
+          reason: string
+          reported_by: string
+          reported_user_id: string
+          resolution_notes: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          updated_at: string
+        }
+      }
+      repost_job: {
+        Args: { p_job_id: string }
+        Returns: string
+      }
+      request_job_funding: {
+        Args: { p_job_id: string; p_provider: string; p_user_id: string }
+        Returns: {
+          amount: number
+          bid_id: string
+          charge_id: string | null
+          created_at: string
+          created_by: string | null
+          currency: string
+          entry_type: string
+          failure_reason: string | null
+          id: string
+          job_id: string
+          milestone_id: string | null
+          provider: string
+          provider_reference: string | null
+          release_id: string | null
+          status: string
+          updated_at: string
+        }
+      }
+      request_payment_refund: {
+        Args: { p_job_id: string; p_provider: string; p_user_id: string }
+        Returns: {
+          amount: number
+          bid_id: string
+          charge_id: string | null
+          created_at: string
+          created_by: string | null
+          currency: string
+          entry_type: string
+          failure_reason: string | null
+          id: string
+          job_id: string
+          milestone_id: string | null
+          provider: string
+          provider_reference: string | null
+          release_id: string | null
+          status: string
+          updated_at: string
+        }
+      }
+      request_payment_release: {
+        Args: { p_job_id: string; p_provider: string; p_user_id: string }
+        Returns: {
+          amount: number
+          bid_id: string
+          charge_id: string | null
+          created_at: string
+          created_by: string | null
+          currency: string
+          entry_type: string
+          failure_reason: string | null
+          id: string
+          job_id: string
+          milestone_id: string | null
+          provider: string
+          provider_reference: string | null
+          release_id: string | null
+          status: string
+          updated_at: string
+        }[]
+      }
+      resolve_dispute: {
+        Args: {
+          p_admin_id: string
+          p_dispute_id: string
+          p_notes?: string
+          p_outcome: string
+          p_provider: string
+          p_release_amount?: number
+        }
+        Returns: {
+          amount: number
+          bid_id: string
+          charge_id: string | null
+          created_at: string
+          created_by: string | null
+          currency: string
+          entry_type: string
+          failure_reason: string | null
+          id: string
+          job_id: string
+          milestone_id: string | null
+          provider: string
+          provider_reference: string | null
+          release_id: string | null
+          status: string
+          updated_at: string
+        }[]
+      }
+      resolve_moderation_case: {
+        Args: {
+          p_admin_id: string
+          p_case_id: string
+          p_notes?: string
+          p_outcome: string
+        }
+        Returns: {
+          created_at: string
+          details: string | null
+          id: string
+          job_id: string | null
+          message_content: string
+          message_id: string
+          outcome: string | null
+          reason: string
+          reported_by: string
+          reported_user_id: string
+          resolution_notes: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          updated_at: string
+        }
+      }
+      reveal_bid_account_number: {
+        Args: { p_bid_id: string; p_reason?: string }
+        Returns: string
+      }
+      revise_bid: {
+        Args: {
+          p_amount: number
+          p_bid_id: string
+          p_estimated_hours?: number
+          p_hourly_rate?: number
+          p_message?: string
+        }
+        Returns: undefined
+      }
+      save_bid_payment_details: {
+        Args: {
+          p_account_number: string
+          p_bid_id: string
+          p_format: string
+          p_routing_code: string
+        }
+        Returns: string
+      }
+      send_message: {
+        Args: {
+          p_attachments?: Json
+          p_content: string
+          p_conversation_id: string
+        }
+        Returns: {
+          content: string
+          conversation_id: string | null
+          created_at: string
+          deleted_at: string | null
+          delivered_at: string | null
+          edited_at: string | null
+          id: string
+          job_id: string
+          read_at: string | null
+          recipient_id: string
+          search_vector: unknown
+          sender_id: string
+          updated_at: string
+        }
+      }
+      set_job_milestones: {
+        Args: { p_job_id: string; p_milestones: Json }
+        Returns: undefined
+      }
+      shares_conversation_with: {
+        Args: { p_user_id: string }
+        Returns: boolean
+      }
+      start_dispute_review: {
+        Args: { p_dispute_id: string }
+        Returns: {
+          created_at: string
+          id: string
+          job_id: string
+          milestone_id: string | null
+          opened_as: string
+          opened_by: string
+          outcome: string | null
+          reason: string
+          refund_amount: number | null
+          release_amount: number | null
+          resolution_notes: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          updated_at: string
+        }
+      }
+      start_moderation_review: {
+        Args: { p_case_id: string }
+        Returns: {
+          created_at: string
+          details: string | null
+          id: string
+          job_id: string | null
+          message_content: string
+          message_id: string
+          outcome: string | null
+          reason: string
+          reported_by: string
+          reported_user_id: string
+          resolution_notes: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          updated_at: string
+        }
+      }
+      submit_milestone: {
+        Args: { p_milestone_id: string; p_note?: string }
+        Returns: undefined
+      }
+      touch_chat_presence: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
       user_is_not_job_poster: {
         Args: { bid_user_id: string; job_id: string }
         Returns: boolean
       }
+      withdraw_bid: {
+        Args: { p_bid_id: string; p_message?: string }
+        Returns: undefined
+      }
     }
     Enums: {
-      [_ in never]: never
+      bid_status: "pending" | "accepted" | "rejected" | "withdrawn"
+      job_status: "open" | "in_progress" | "completed" | "cancelled" | "expired"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -491,6 +2132,9 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      bid_status: ["pending", "accepted", "rejected", "withdrawn"],
+      job_status: ["open", "in_progress", "completed", "cancelled", "expired"],
+    },
   },
 } as const
@@ -0,0 +1,50 @@
+// CHAT ATTACHMENT MODULE
+// Files sent with chat messages. They live in the private message-attachments
+// bucket, readable by the conversation's two participants only; the bucket enforces
+// the same size limit and file types as below, so these checks only give early,
+// friendlier errors.
+
+export const MESSAGE_ATTACHMENTS_BUCKET = 'message-attachments';
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+
+export const ATTACHMENT_CONTENT_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/gif',
+  'application/pdf',
+  'text/plain',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+];
+
+// For the file picker's accept attribute
+export const ATTACHMENT_ACCEPT = ATTACHMENT_CONTENT_TYPES.join(',');
+
+export const isImageAttachment = (contentType: string) => contentType.startsWith('image/');
+
+// Animated GIFs would lose their animation through the resize canvas
+export const shouldResizeAttachment = (contentType: string) =>
+  isImageAttachment(contentType) && contentType !== 'image/gif';
+
+// Why a file can't be attached, or null if it can
+export const validateAttachment = (file: File): string | null => {
+  if (!ATTACHMENT_CONTENT_TYPES.includes(file.type)) {
+    return `${file.name} is not a supported file type`;
+  }
+  // Photos are shrunk before upload, so only other files are held to the limit here
+  if (!shouldResizeAttachment(file.type) && file.size > MAX_ATTACHMENT_BYTES) {
+    return `${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_BYTES)}`;
+  }
+  return null;
+};
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
@@ -0,0 +1,121 @@
+// BANK ACCOUNT MODULE
+// Where a professional wants to be paid for a bid. The account number is encrypted
+// in the database and only its last four digits come back to the browser; the full
+// number is decrypted on request by reveal_bid_account_number, which logs every
+// call. save_bid_payment_details repeats these checks server-side.
+
+export type BankAccountFormat = 'iban' | 'us' | 'ca' | 'bm';
+
+export const BANK_ACCOUNT_FORMATS: BankAccountFormat[] = ['bm', 'us', 'ca', 'iban'];
+
+export const BANK_ACCOUNT_FORMAT_LABELS: Record<BankAccountFormat, string> = {
+  bm: 'Bermuda bank',
+  us: 'US bank',
+  ca: 'Canadian bank',
+  iban: 'IBAN (Europe, UK and others)',
+};
+
+// The bank identifier each format asks for; IBANs already contain it
+export const ROUTING_CODE_LABELS: Record<BankAccountFormat, string | null> = {
+  bm: 'Bank SWIFT Code',
+  us: 'Routing Number',
+  ca: 'Transit and Institution Number',
+  iban: null,
+};
+
+export const ROUTING_CODE_PLACEHOLDERS: Record<BankAccountFormat, string> = {
+  bm: 'e.g. BNTBBMHM',
+  us: '9 digits',
+  ca: '12345-003',
+  iban: '',
+};
+
+export const ACCOUNT_NUMBER_LABELS: Record<BankAccountFormat, string> = {
+  bm: 'Account Number',
+  us: 'Account Number',
+  ca: 'Account Number',
+  iban: 'IBAN',
+};
+
+// IBAN lengths for the countries we pay out to (same table as iban_is_valid)
+const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24, AE: 23, AT: 20, BE: 16, BG: 22, BH: 22, CH: 21, CY: 28,
+  CZ: 24, DE: 22, DK: 18, EE: 20, ES: 24, FI: 18, FO: 18, FR: 27,
+  GB: 22, GI: 23, GL: 18, GR: 27, HR: 21, HU: 28, IE: 22, IL: 23,
+  IS: 26, IT: 27, KW: 30, LI: 21, LT: 20, LU: 20, LV: 21, MC: 27,
+  MT: 31, NL: 18, NO: 15, PL: 28, PT: 25, QA: 29, RO: 24, SA: 24,
+  SE: 24, SI: 19, SK: 24, SM: 27, TR: 26, VG: 24,
+};
+
+// Spaces and dashes are only there for readability
+export const normalizeBankInput = (value: string) => value.replace(/[\s-]/g, '').toUpperCase();
+
+export const isValidIban = (value: string) => {
+  const iban = normalizeBankInput(value);
+  if (!/^[A-Z]{2}[0-9]{2}[A-Z0-9]+$/.test(iban) || IBAN_LENGTHS[iban.slice(0, 2)] !== iban.length) {
+    return false;
+  }
+
+  // Country code and check digits go to the end, letters become 10..35, then mod 97
+  // one digit at a time so long IBANs don't overflow
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const digits = /[0-9]/.test(char) ? char : String(char.charCodeAt(0) - 55);
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+};
+
+// ABA routing numbers carry a 3-7-1 weighted checksum
+export const isValidAbaRouting = (value: string) => {
+  const routing = normalizeBankInput(value);
+  if (!/^[0-9]{9}$/.test(routing)) return false;
+
+  const d = routing.split('').map(Number);
+  return (3 * (d[0] + d[3] + d[6]) + 7 * (d[1] + d[4] + d[7]) + (d[2] + d[5] + d[8])) % 10 === 0;
+};
+
+// What's wrong with the entered details, or null when they look valid
+export const validateBankAccount = (format: BankAccountFormat, routingCode: string, accountNumber: string): string | null => {
+  const routing = normalizeBankInput(routingCode);
+  const account = normalizeBankInput(accountNumber);
+
+  switch (format) {
+    case 'iban':
+      return isValidIban(account) ? null : "That IBAN isn't valid";
+    case 'us':
+      if (!isValidAbaRouting(routing)) return "That routing number isn't valid";
+      return /^[0-9]{4,17}$/.test(account) ? null : 'US account numbers are 4 to 17 digits';
+    case 'ca':
+      if (!/^[0-9]{8}$/.test(routing)) return 'Enter the 5-digit transit and 3-digit institution number';
+      return /^[0-9]{7,12}$/.test(account) ? null : 'Canadian account numbers are 7 to 12 digits';
+    case 'bm':
+      if (!/^[A-Z]{4}BM[A-Z0-9]{2}([A-Z0-9]{3})?$/.test(routing)) return "Enter your Bermuda bank's SWIFT code";
+      return /^[0-9]{6,17}$/.test(account) ? null : 'Bermuda account numbers are 6 to 17 digits';
+  }
+};
+
+// "•••• 1234"
+export const maskAccountNumber = (last4: string) => `•••• ${last4}`;
+
+// Canadian transit/institution numbers are stored as 8 digits and shown as 12345-003
+export const formatRoutingCode = (format: BankAccountFormat | null, routingCode: string | null) => {
+  if (!routingCode) return null;
+  return format === 'ca' ? `${routingCode.slice(0, 5)}-${routingCode.slice(5)}` : routingCode;
+};
+
+// EDITOR VALUES - What BankAccountFields works with
+export interface BankAccountValues {
+  format: BankAccountFormat;
+  routingCode: string;
+  accountNumber: string;
+}
+
+export const EMPTY_BANK_ACCOUNT: BankAccountValues = {
+  format: 'bm',
+  routingCode: '',
+  accountNumber: '',
+};
@@ -0,0 +1,77 @@
+// BID ELIGIBILITY MODULE
+// Who may bid on a job, and what to tell them when they can't. The database trigger
+// public.check_bid_eligibility is authoritative and reports a refusal through the
+// error's HINT using the same codes as BidIneligibility, so checks made up front and
+// errors coming back from an insert produce the same message.
+import type { JobStatus } from '@/lib/status';
+
+export type BidIneligibility =
+  | 'job_not_found'
+  | 'job_not_open'
+  | 'bid_deadline_passed'
+  | 'not_professional'
+  | 'own_job'
+  | 'duplicate_bid';
+
+export const BID_INELIGIBILITY_MESSAGES: Record<BidIneligibility, { title: string; description: string }> = {
+  job_not_found: {
+    title: 'Job not found',
+    description: 'This job has been removed.',
+  },
+  job_not_open: {
+    title: 'Bidding is closed',
+    description: 'This job is no longer accepting bids.',
+  },
+  bid_deadline_passed: {
+    title: 'Bidding deadline has passed',
+    description: 'The job owner stopped accepting new bids for this job.',
+  },
+  not_professional: {
+    title: 'Professionals only',
+    description: 'Only professional accounts can bid on jobs.',
+  },
+  own_job: {
+    title: "That's your job",
+    description: "You can't bid on a job you posted.",
+  },
+  duplicate_bid: {
+    title: 'You already bid on this job',
+    description: 'Revise or withdraw your existing bid from the job page instead.',
+  },
+};
+
+interface EligibilityInput {
+  job: { status: JobStatus; user_id?: string | null; bid_deadline?: string | null };
+  userId: string | undefined;
+  isProfessional: boolean;
+  hasActiveBid: boolean;              // Viewer already has a pending or accepted bid on the job
+}
+
+export const isBidDeadlinePassed = (bidDeadline: string | null | undefined, now = new Date()) =>
+  !!bidDeadline && new Date(bidDeadline).getTime() <= now.getTime();
+
+// First rule the viewer fails, or null if they may bid (same order as the database)
+export const getBidIneligibility = ({ job, userId, isProfessional, hasActiveBid }: EligibilityInput): BidIneligibility | null => {
+  if (!isProfessional) return 'not_professional';
+  if (userId && job.user_id === userId) return 'own_job';
+  if (job.status !== 'open') return 'job_not_open';
+  if (isBidDeadlinePassed(job.bid_deadline)) return 'bid_deadline_passed';
+  if (hasActiveBid) return 'duplicate_bid';
+  return null;
+};
+
+const isBidIneligibility = (value: unknown): value is BidIneligibility =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(BID_INELIGIBILITY_MESSAGES, value);
+
+// Toast content for an error returned when submitting a bid
+export const describeBidError = (error: { message?: string; hint?: string | null; code?: string } | null | undefined) => {
+  if (isBidIneligibility(error?.hint)) return BID_INELIGIBILITY_MESSAGES[error.hint];
+
+  // Backstop for the one-active-bid unique index if two submissions race
+  if (error?.code === '23505') return BID_INELIGIBILITY_MESSAGES.duplicate_bid;
+
+  return {
+    title: 'Error submitting bid',
+    description: error?.message || 'Please try again later.',
+  };
+};
@@ -0,0 +1,209 @@
+// JOB BUDGET MODULE
+// The typed shape of a job's budget, how it maps to the jobs table columns, and the
+// one set of money formatters every page uses. All amounts are in cents.
+
+export type Budget =
+  | { type: 'fixed'; amount: number }
+  | { type: 'range'; min: number; max: number | null }          // max null = open-ended ("$5,000+")
+  | { type: 'hourly'; rateMin: number; rateMax: number; estimatedHours: number };
+
+export type BudgetType = Budget['type'];
+
+export const BUDGET_TYPES: readonly BudgetType[] = ['fixed', 'range', 'hourly'];
+
+export const BUDGET_TYPE_LABELS: Record<BudgetType, string> = {
+  fixed: 'Fixed Price',
+  range: 'Price Range',
+  hourly: 'Hourly Rate',
+};
+
+// Budget columns on the jobs table (see the budget model migration)
+export interface BudgetColumns {
+  budget_type: string;
+  budget_min: number;
+  budget_max: number | null;
+  hourly_rate_min: number | null;
+  hourly_rate_max: number | null;
+  estimated_hours: number | null;
+}
+
+// Columns to write for a budget. For hourly budgets the database derives
+// budget_min / budget_max (the total estimate) itself.
+export const budgetToColumns = (budget: Budget): BudgetColumns => {
+  switch (budget.type) {
+    case 'fixed':
+      return {
+        budget_type: 'fixed',
+        budget_min: budget.amount,
+        budget_max: budget.amount,
+        hourly_rate_min: null,
+        hourly_rate_max: null,
+        estimated_hours: null,
+      };
+    case 'range':
+      return {
+        budget_type: 'range',
+        budget_min: budget.min,
+        budget_max: budget.max,
+        hourly_rate_min: null,
+        hourly_rate_max: null,
+        estimated_hours: null,
+      };
+    case 'hourly':
+      return {
+        budget_type: 'hourly',
+        budget_min: budget.rateMin * budget.estimatedHours,
+        budget_max: budget.rateMax * budget.estimatedHours,
+        hourly_rate_min: budget.rateMin,
+        hourly_rate_max: budget.rateMax,
+        estimated_hours: budget.estimatedHours,
+      };
+  }
+};
+
+// Budget described by a jobs row; unknown types are read as a range
+export const budgetFromColumns = (row: Partial<BudgetColumns>): Budget => {
+  if (row.budget_type === 'hourly' && row.hourly_rate_min && row.hourly_rate_max && row.estimated_hours) {
+    return {
+      type: 'hourly',
+      rateMin: row.hourly_rate_min,
+      rateMax: row.hourly_rate_max,
+      estimatedHours: row.estimated_hours,
+    };
+  }
+  if (row.budget_type === 'fixed' && row.budget_min) {
+    return { type: 'fixed', amount: row.budget_min };
+  }
+  return { type: 'range', min: row.budget_min ?? 0, max: row.budget_max || null };
+};
+
+// Total the poster expects to pay, as [low, high]; high is null when open-ended
+export const budgetTotal = (budget: Budget): [number, number | null] => {
+  const { budget_min, budget_max } = budgetToColumns(budget);
+  return [budget_min, budget_max];
+};
+
+// Returns an error message, or null if the budget is valid
+export const validateBudget = (budget: Budget): string | null => {
+  switch (budget.type) {
+    case 'fixed':
+      if (!(budget.amount > 0)) return 'Enter the amount you want to pay.';
+      return null;
+    case 'range':
+      if (!(budget.min >= 0)) return 'The minimum budget must be zero or more.';
+      if (budget.max === null && budget.min === 0) return 'Enter a minimum or a maximum budget.';
+      if (budget.max !== null && !(budget.max > budget.min)) return 'The maximum budget must be more than the minimum.';
+      return null;
+    case 'hourly':
+      if (!(budget.rateMin > 0)) return 'Enter the hourly rate you expect to pay.';
+      if (!(budget.rateMax >= budget.rateMin)) return 'The maximum rate can\'t be lower than the minimum rate.';
+      if (!Number.isInteger(budget.estimatedHours) || budget.estimatedHours <= 0) {
+        return 'Enter the estimated number of hours as a whole number.';
+      }
+      return null;
+  }
+};
+
+// "$1,250" - cents shown as whole dollars unless there are cents to show
+export const formatMoney = (cents: number) =>
+  `$${(cents / 100).toLocaleString(undefined, {
+    minimumFractionDigits: cents % 100 === 0 ? 0 : 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+// "$45/hr"
+export const formatHourlyRate = (cents: number) => `${formatMoney(cents)}/hr`;
+
+// Human-readable budget, e.g. "$500", "$200 - $500", "$5,000+", "$40 - $60/hr (~10 hrs)"
+export const formatBudget = (budget: Budget): string => {
+  switch (budget.type) {
+    case 'fixed':
+      return formatMoney(budget.amount);
+    case 'range':
+      if (budget.max === null) return budget.min > 0 ? `${formatMoney(budget.min)}+` : 'Budget TBD';
+      if (budget.min === 0) return `Up to ${formatMoney(budget.max)}`;
+      return `${formatMoney(budget.min)} - ${formatMoney(budget.max)}`;
+    case 'hourly': {
+      const rate = budget.rateMin === budget.rateMax
+        ? formatHourlyRate(budget.rateMin)
+        : `${formatMoney(budget.rateMin)} - ${formatHourlyRate(budget.rateMax)}`;
+      return `${rate} (~${budget.estimatedHours} hrs)`;
+    }
+  }
+};
+
+// EDITOR FORM VALUES - Dollar strings as typed, converted to a Budget on submit
+export interface BudgetFormValues {
+  type: BudgetType;
+  amount: string;
+  min: string;
+  max: string;
+  rateMin: string;
+  rateMax: string;
+  estimatedHours: string;
+}
+
+export const EMPTY_BUDGET_FORM: BudgetFormValues = {
+  type: 'range',
+  amount: '',
+  min: '',
+  max: '',
+  rateMin: '',
+  rateMax: '',
+  estimatedHours: '',
+};
+
+// Dollars as typed ("1,250.50") to cents; NaN when not a number
+export const dollarsToCents = (value: string): number => {
+  const cleaned = value.replace(/[$,\s]/g, '');
+  if (!cleaned) return NaN;
+  return Math.round(Number(cleaned) * 100);
+};
+
+const centsToDollars = (cents: number | null) => (cents === null ? '' : String(cents / 100));
+
+// Budget from the editor's values. Empty optional fields: a range's max (open-ended)
+// and an hourly maximum rate (same as the minimum).
+export const formToBudget = (values: BudgetFormValues): Budget => {
+  switch (values.type) {
+    case 'fixed':
+      return { type: 'fixed', amount: dollarsToCents(values.amount) };
+    case 'range':
+      return {
+        type: 'range',
+        min: values.min.trim() ? dollarsToCents(values.min) : 0,
+        max: values.max.trim() ? dollarsToCents(values.max) : null,
+      };
+    case 'hourly': {
+      const rateMin = dollarsToCents(values.rateMin);
+      return {
+        type: 'hourly',
+        rateMin,
+        rateMax: values.rateMax.trim() ? dollarsToCents(values.rateMax) : rateMin,
+        estimatedHours: Number(values.estimatedHours),
+      };
+    }
+  }
+};
+
+export const budgetToForm = (budget: Budget): BudgetFormValues => {
+  switch (budget.type) {
+    case 'fixed':
+      return { ...EMPTY_BUDGET_FORM, type: 'fixed', amount: centsToDollars(budget.amount) };
+    case 'range':
+      return {
+        ...EMPTY_BUDGET_FORM,
+        type: 'range',
+        min: budget.min > 0 ? centsToDollars(budget.min) : '',
+        max: centsToDollars(budget.max),
+      };
+    case 'hourly':
+      return {
+        ...EMPTY_BUDGET_FORM,
+        type: 'hourly',
+        rateMin: centsToDollars(budget.rateMin),
+        rateMax: centsToDollars(budget.rateMax),
+        estimatedHours: String(budget.estimatedHours),
+      };
+  }
+};
@@ -0,0 +1,25 @@
+// JOB CATEGORIES MODULE
+// The one list of job categories, shared by the post form, the browse filters and the
+// home page. Jobs store the lowercased label in jobs.category (e.g. "general maintenance").
+
+export const JOB_CATEGORIES = [
+  'Painting',
+  'Plumbing',
+  'Electrical',
+  'General Maintenance',
+  'Carpentry',
+  'Cleaning',
+  'Landscaping',
+  'HVAC',
+  'Roofing',
+  'Other',
+] as const;
+
+export type JobCategoryLabel = typeof JOB_CATEGORIES[number];
+
+// Value stored in jobs.category for a category label
+export const categoryValue = (label: string) => label.toLowerCase();
+
+// Display label for a stored category value; unknown legacy values are shown as-is
+export const categoryLabel = (value: string) =>
+  JOB_CATEGORIES.find(label => categoryValue(label) === value.toLowerCase()) ?? value;
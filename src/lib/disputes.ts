@@ -0,0 +1,51 @@
+// DISPUTE MODULE
+// A dispute escalates a disagreement over an assigned job to the platform. Either
+// participant opens it with a reason and evidence (messages from the job's
+// conversation, photos); it goes open -> under_review -> resolved, and the admin's
+// outcome decides where the money still in escrow goes. Payments on the job are
+// frozen until then. The rules live in the database (open_dispute,
+// start_dispute_review, resolve_dispute); these helpers label and summarise.
+import type { BadgeProps } from '@/components/ui/badge';
+import { formatMoney } from '@/lib/budget';
+
+export type DisputeStatus = 'open' | 'under_review' | 'resolved';
+export type DisputeOutcome = 'refund' | 'partial' | 'release';
+export type DisputeEvidenceKind = 'message' | 'photo';
+
+type BadgeVariant = NonNullable<BadgeProps['variant']>;
+
+export const DISPUTE_STATUS_LABELS: Record<DisputeStatus, string> = {
+  open: 'Dispute Open',
+  under_review: 'Under Review',
+  resolved: 'Resolved',
+};
+
+export const DISPUTE_STATUS_BADGE_VARIANTS: Record<DisputeStatus, BadgeVariant> = {
+  open: 'destructive',
+  under_review: 'secondary',
+  resolved: 'outline',
+};
+
+export const DISPUTE_OUTCOME_LABELS: Record<DisputeOutcome, string> = {
+  refund: 'Refund the job owner',
+  partial: 'Split the escrow',
+  release: 'Pay the professional',
+};
+
+// Open and under-review disputes hold the job's payments
+export const isDisputeActive = (dispute: { status: DisputeStatus } | null | undefined) =>
+  !!dispute && dispute.status !== 'resolved';
+
+// "$150 to the professional, $50 refunded" - what a resolution did with the escrow
+export const describeDisputeResolution = (dispute: {
+  outcome: DisputeOutcome | null;
+  release_amount: number | null;
+  refund_amount: number | null;
+}) => {
+  if (!dispute.outcome) return null;
+
+  const parts = [];
+  if (dispute.release_amount) parts.push(`${formatMoney(dispute.release_amount)} to the professional`);
+  if (dispute.refund_amount) parts.push(`${formatMoney(dispute.refund_amount)} refunded`);
+  return parts.length > 0 ? parts.join(', ') : 'Nothing was held in escrow';
+};
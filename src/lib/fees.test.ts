@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import type { FeeRule } from '@/hooks/useFeeRules';
+import { calculatePlatformFee, describeFeeRule, professionalPayout, selectFeeRule } from '@/lib/fees';
+
+// The same cases run against platform_fee_rule / platform_fee in
+// supabase/tests/database/platform_fee.test.sql, so the preview and the stored fee agree
+
+const rule = (overrides: Partial<FeeRule>): FeeRule => ({
+  id: overrides.name ?? 'rule',
+  name: 'rule',
+  category: null,
+  fee_type: 'percent',
+  percent: 10,
+  flat_amount: null,
+  minimum_amount: 0,
+  is_promotional: false,
+  starts_at: null,
+  ends_at: null,
+  active: true,
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const AT = new Date('2025-06-15T12:00:00Z');
+
+const standard = rule({ name: 'standard', percent: 10, minimum_amount: 500 });
+const plumbing = rule({ name: 'plumbing', category: 'Plumbing', percent: 8, created_at: '2025-02-01T00:00:00Z' });
+const summerSale = rule({
+  name: 'summer sale',
+  percent: 5,
+  is_promotional: true,
+  starts_at: '2025-06-01T00:00:00Z',
+  ends_at: '2025-07-01T00:00:00Z',
+});
+
+describe('selectFeeRule', () => {
+  it('uses the catch-all rule when nothing more specific applies', () => {
+    expect(selectFeeRule([standard, plumbing], 'painting', AT)).toBe(standard);
+  });
+
+  it('prefers the category rule over the catch-all, ignoring case', () => {
+    expect(selectFeeRule([standard, plumbing], 'plumbing', AT)).toBe(plumbing);
+  });
+
+  it('prefers a promotional rule over the category rule', () => {
+    expect(selectFeeRule([standard, plumbing, summerSale], 'plumbing', AT)).toBe(summerSale);
+  });
+
+  it('prefers the newest rule when the others tie', () => {
+    const newer = rule({ name: 'newer', percent: 12, created_at: '2025-03-01T00:00:00Z' });
+    expect(selectFeeRule([standard, newer], 'painting', AT)).toBe(newer);
+  });
+
+  it('only applies a rule inside its start / end window', () => {
+    const rules = [standard, summerSale];
+    expect(selectFeeRule(rules, 'painting', new Date('2025-05-31T23:59:59Z'))).toBe(standard);
+    expect(selectFeeRule(rules, 'painting', new Date('2025-06-01T00:00:00Z'))).toBe(summerSale);
+    // ends_at is exclusive
+    expect(selectFeeRule(rules, 'painting', new Date('2025-07-01T00:00:00Z'))).toBe(standard);
+  });
+
+  it('skips inactive rules', () => {
+    expect(selectFeeRule([standard, { ...plumbing, active: false }], 'plumbing', AT)).toBe(standard);
+  });
+
+  it('returns null when no rule applies', () => {
+    expect(selectFeeRule([plumbing], 'painting', AT)).toBeNull();
+    expect(selectFeeRule([], 'painting', AT)).toBeNull();
+  });
+});
+
+describe('calculatePlatformFee', () => {
+  it('takes a percentage of the amount, rounded to the cent', () => {
+    expect(calculatePlatformFee(45000, standard)).toBe(4500);
+    expect(calculatePlatformFee(12345, rule({ percent: 7.5 }))).toBe(926);
+  });
+
+  it('never charges less than the minimum', () => {
+    expect(calculatePlatformFee(2000, standard)).toBe(500);
+  });
+
+  it('charges a flat fee whatever the amount', () => {
+    const flat = rule({ fee_type: 'flat', percent: null, flat_amount: 2500 });
+    expect(calculatePlatformFee(10000, flat)).toBe(2500);
+    expect(calculatePlatformFee(90000, flat)).toBe(2500);
+  });
+
+  it('never charges more than the amount itself', () => {
+    expect(calculatePlatformFee(300, standard)).toBe(300);
+    expect(calculatePlatformFee(1000, rule({ fee_type: 'flat', percent: null, flat_amount: 2500 }))).toBe(1000);
+  });
+
+  it('charges nothing without a rule or an amount', () => {
+    expect(calculatePlatformFee(45000, null)).toBe(0);
+    expect(calculatePlatformFee(0, standard)).toBe(0);
+  });
+});
+
+describe('professionalPayout', () => {
+  it('is the amount less the fee, never negative', () => {
+    expect(professionalPayout(45000, 4500)).toBe(40500);
+    expect(professionalPayout(300, 500)).toBe(0);
+  });
+});
+
+describe('describeFeeRule', () => {
+  it('describes percentage and flat rules', () => {
+    expect(describeFeeRule(standard)).toBe('10%, min $5');
+    expect(describeFeeRule(rule({ fee_type: 'flat', percent: null, flat_amount: 2500 }))).toBe('$25 flat');
+  });
+});
@@ -0,0 +1,50 @@
+// PLATFORM FEE MODULE
+// The marketplace's commission on a bid, taken from the professional's payout. Rules
+// live in fee_rules; these helpers mirror platform_fee_rule / platform_fee in the
+// database so a bid form can preview the fee. The fee stored on the bid
+// (bids.platform_fee) is the one that counts.
+import type { FeeRule } from '@/hooks/useFeeRules';
+import { formatMoney } from '@/lib/budget';
+
+const isInWindow = (rule: FeeRule, at: Date) =>
+  (!rule.starts_at || new Date(rule.starts_at) <= at) && (!rule.ends_at || new Date(rule.ends_at) > at);
+
+// The rule for a job category: promotional before standing, the category's own
+// rule before the catch-all, then the newest
+export const selectFeeRule = (rules: FeeRule[], category: string, at: Date = new Date()): FeeRule | null => {
+  const candidates = rules.filter(
+    (rule) =>
+      rule.active &&
+      isInWindow(rule, at) &&
+      (rule.category === null || rule.category.toLowerCase() === category.toLowerCase())
+  );
+
+  candidates.sort(
+    (a, b) =>
+      Number(b.is_promotional) - Number(a.is_promotional) ||
+      Number(b.category !== null) - Number(a.category !== null) ||
+      b.created_at.localeCompare(a.created_at)
+  );
+  return candidates[0] ?? null;
+};
+
+// Fee in cents for an amount in cents: never below the rule's minimum, never more
+// than the amount itself
+export const calculatePlatformFee = (amount: number, rule: FeeRule | null): number => {
+  if (!rule || amount <= 0) return 0;
+
+  const fee = rule.fee_type === 'percent'
+    ? Math.round((amount * (rule.percent ?? 0)) / 100)
+    : rule.flat_amount ?? 0;
+
+  return Math.min(Math.max(fee, rule.minimum_amount), amount);
+};
+
+// What the professional is paid for a bid once the fee is taken
+export const professionalPayout = (amount: number, fee: number) => Math.max(amount - fee, 0);
+
+// "10%, min $5", "$25 flat"
+export const describeFeeRule = (rule: FeeRule) => {
+  const base = rule.fee_type === 'percent' ? `${Number(rule.percent)}%` : `${formatMoney(rule.flat_amount ?? 0)} flat`;
+  return rule.minimum_amount > 0 ? `${base}, min ${formatMoney(rule.minimum_amount)}` : base;
+};
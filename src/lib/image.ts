@@ -0,0 +1,61 @@
+// CLIENT-SIDE IMAGE PROCESSING
+// Photos from phones are often 4000px+ and carry EXIF metadata (including GPS
+// coordinates of the user's home). Re-encoding through a canvas shrinks the image
+// and drops all metadata, since a canvas only holds pixels.
+
+interface ResizeOptions {
+  maxDimension?: number;              // Longest side in pixels
+  quality?: number;                   // JPEG quality, 0-1
+}
+
+// Decodes the file, applying its EXIF orientation so rotated phone photos stay upright
+const loadImage = async (file: File): Promise<ImageBitmap | HTMLImageElement> => {
+  if ('createImageBitmap' in window) {
+    return createImageBitmap(file, { imageOrientation: 'from-image' });
+  }
+
+  // Fallback for browsers without createImageBitmap (modern browsers apply orientation to <img>)
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return image;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Resize an image so its longest side is at most maxDimension and re-encode it as
+ * JPEG without metadata. Smaller images are re-encoded at their original size.
+ */
+export const resizeImage = async (
+  file: File,
+  { maxDimension = 1600, quality = 0.85 }: ResizeOptions = {}
+): Promise<Blob> => {
+  const image = await loadImage(file);
+  const scale = Math.min(1, maxDimension / Math.max(image.width, image.height));
+  const width = Math.round(image.width * scale);
+  const height = Math.round(image.height * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Could not process image');
+
+  // White background so transparent PNGs don't turn black as JPEG
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, width, height);
+  context.drawImage(image, 0, 0, width, height);
+  if ('close' in image) image.close();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Could not process image'))),
+      'image/jpeg',
+      quality
+    );
+  });
+};
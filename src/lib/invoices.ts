@@ -0,0 +1,118 @@
+// INVOICE MODULE
+// Invoices are generated in the database from a job's accepted bid (see
+// generate_invoice): one per bid, numbered per professional. Funding the job
+// charges the invoice total, tax included. An invoice is unpaid until that total
+// has been released from escrow, and void if the job is cancelled before that. The
+// platform fee is shown under the total: the job owner doesn't pay it, it comes out
+// of the professional's payout. This module labels them and renders the PDF
+// download.
+import { format } from 'date-fns';
+import type { BadgeProps } from '@/components/ui/badge';
+import type { Invoice } from '@/hooks/useInvoices';
+import { formatMoney } from '@/lib/budget';
+
+export type InvoiceStatus = 'unpaid' | 'paid' | 'void';
+export type InvoiceLineKind = 'labor' | 'milestone' | 'tax';
+
+type BadgeVariant = NonNullable<BadgeProps['variant']>;
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  unpaid: 'Unpaid',
+  paid: 'Paid',
+  void: 'Void',
+};
+
+export const INVOICE_STATUS_BADGE_VARIANTS: Record<InvoiceStatus, BadgeVariant> = {
+  unpaid: 'outline',
+  paid: 'default',
+  void: 'destructive',
+};
+
+// "4 × $50", or just the amount for single items
+const describeQuantity = (quantity: number, unitAmount: number) =>
+  Number(quantity) === 1 ? formatMoney(unitAmount) : `${Number(quantity)} × ${formatMoney(unitAmount)}`;
+
+// Builds the invoice as an A4 PDF and downloads it as INV-0001.pdf. jsPDF is loaded
+// on first use so it stays out of the main bundle.
+export const downloadInvoicePdf = async (invoice: Invoice) => {
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const left = 20;
+  const right = 190;
+  let y = 25;
+
+  doc.setFontSize(20);
+  doc.text('Invoice', left, y);
+  doc.setFontSize(10);
+  doc.text(invoice.invoice_number, right, y - 6, { align: 'right' });
+  doc.text(`Issued ${format(new Date(invoice.issued_at), 'PP')}`, right, y, { align: 'right' });
+  doc.text(INVOICE_STATUS_LABELS[invoice.status].toUpperCase(), right, y + 6, { align: 'right' });
+
+  // Parties
+  y += 18;
+  doc.setFont('helvetica', 'bold');
+  doc.text('From', left, y);
+  doc.text('Bill to', 110, y);
+  doc.setFont('helvetica', 'normal');
+  doc.text([invoice.issuer_name, invoice.issuer_email ?? ''].filter(Boolean), left, y + 6);
+  doc.text([invoice.customer_name, invoice.customer_email ?? ''].filter(Boolean), 110, y + 6);
+
+  y += 24;
+  doc.text(`Job: ${invoice.job_title}`, left, y);
+
+  // Line items
+  y += 12;
+  doc.setFont('helvetica', 'bold');
+  doc.text('Description', left, y);
+  doc.text('Qty × Rate', 140, y, { align: 'right' });
+  doc.text('Amount', right, y, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  doc.line(left, y + 2, right, y + 2);
+  y += 8;
+
+  // The tax line is shown with the totals
+  for (const line of invoice.invoice_line_items.filter((item) => item.kind !== 'tax')) {
+    if (y > 270) {
+      doc.addPage();
+      y = 25;
+    }
+    const description = doc.splitTextToSize(line.description, 90) as string[];
+    doc.text(description, left, y);
+    doc.text(describeQuantity(line.quantity, line.unit_amount), 140, y, { align: 'right' });
+    doc.text(formatMoney(line.amount), right, y, { align: 'right' });
+    y += 6 * description.length + 1;
+  }
+
+  // Totals
+  doc.line(120, y, right, y);
+  y += 6;
+  doc.text('Subtotal', 140, y, { align: 'right' });
+  doc.text(formatMoney(invoice.subtotal), right, y, { align: 'right' });
+  if (invoice.tax_amount > 0) {
+    y += 6;
+    doc.text(`Tax (${Number(invoice.tax_rate)}%)`, 140, y, { align: 'right' });
+    doc.text(formatMoney(invoice.tax_amount), right, y, { align: 'right' });
+  }
+  y += 7;
+  doc.setFont('helvetica', 'bold');
+  doc.text(`Total (${invoice.currency.toUpperCase()})`, 140, y, { align: 'right' });
+  doc.text(formatMoney(invoice.total), right, y, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+
+  const platformFee = invoice.bids?.platform_fee ?? 0;
+  if (platformFee > 0) {
+    y += 7;
+    doc.text('Platform fee (deducted from the payout)', 140, y, { align: 'right' });
+    doc.text(`-${formatMoney(platformFee)}`, right, y, { align: 'right' });
+    y += 6;
+    doc.text('Professional receives', 140, y, { align: 'right' });
+    doc.text(formatMoney(invoice.total - platformFee), right, y, { align: 'right' });
+  }
+
+  if (invoice.paid_at) {
+    y += 12;
+    doc.text(`Paid ${format(new Date(invoice.paid_at), 'PP')}. Thank you!`, left, y);
+  }
+
+  doc.save(`${invoice.invoice_number}.pdf`);
+};
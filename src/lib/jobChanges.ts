@@ -0,0 +1,63 @@
+// JOB CHANGE LOG MODULE
+// Labels and formatting for the edits recorded in job_changes. The fields are the
+// keys of public.job_content: the budget and desired dates are stored as whole
+// objects so each entry can show a complete before / after value.
+import { format } from 'date-fns';
+import { budgetFromColumns, formatBudget, type BudgetColumns } from '@/lib/budget';
+import { categoryLabel } from '@/lib/categories';
+import { formatDesiredDates } from '@/lib/jobSchedule';
+
+export type JobChangeField =
+  | 'title'
+  | 'description'
+  | 'category'
+  | 'location'
+  | 'timeline'
+  | 'budget'
+  | 'bid_deadline'
+  | 'desired_dates';
+
+export const JOB_CHANGE_LABELS: Record<JobChangeField, string> = {
+  title: 'Title',
+  description: 'Description',
+  category: 'Category',
+  location: 'Location',
+  timeline: 'Timeline',
+  budget: 'Budget',
+  bid_deadline: 'Bidding deadline',
+  desired_dates: 'Desired dates',
+};
+
+// Display order, most important first
+export const JOB_CHANGE_FIELDS: readonly JobChangeField[] = [
+  'budget',
+  'bid_deadline',
+  'desired_dates',
+  'title',
+  'description',
+  'category',
+  'location',
+  'timeline',
+];
+
+// One side of a change as text
+export const formatJobChangeValue = (field: JobChangeField, value: unknown): string => {
+  if (value === null || value === undefined || value === '') {
+    return field === 'bid_deadline' ? 'No deadline' : 'Not set';
+  }
+
+  switch (field) {
+    case 'budget':
+      return formatBudget(budgetFromColumns(value as Partial<BudgetColumns>));
+    case 'bid_deadline':
+      return format(new Date(value as string), 'MMM d, yyyy');
+    case 'desired_dates': {
+      const { desired_start_date, desired_completion_date } = value as Record<string, string | null>;
+      return formatDesiredDates(desired_start_date, desired_completion_date) || 'Flexible';
+    }
+    case 'category':
+      return categoryLabel(value as string);
+    default:
+      return String(value);
+  }
+};
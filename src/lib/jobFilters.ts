@@ -0,0 +1,99 @@
+// JOB SEARCH FILTERS MODULE
+// Typed filters for Browse Jobs, and their mapping to and from URL search params so a
+// filtered search can be bookmarked, shared and restored with the back button.
+
+export type JobSort = 'newest' | 'oldest' | 'budget_high' | 'budget_low';
+export type PostedWithin = 'any' | '1d' | '7d' | '30d';
+
+export interface JobFilters {
+  text: string;                       // Full-text search over title and description
+  category: string | null;            // Stored category value (see @/lib/categories)
+  budgetMin: number | null;           // In cents - job's budget must reach at least this
+  budgetMax: number | null;           // In cents - job's budget must start at or below this
+  location: string;                   // Substring match, case-insensitive
+  postedWithin: PostedWithin;
+  sort: JobSort;
+}
+
+export const DEFAULT_JOB_FILTERS: JobFilters = {
+  text: '',
+  category: null,
+  budgetMin: null,
+  budgetMax: null,
+  location: '',
+  postedWithin: 'any',
+  sort: 'newest',
+};
+
+export const JOB_SORT_LABELS: Record<JobSort, string> = {
+  newest: 'Newest first',
+  oldest: 'Oldest first',
+  budget_high: 'Highest budget',
+  budget_low: 'Lowest budget',
+};
+
+export const POSTED_WITHIN_LABELS: Record<PostedWithin, string> = {
+  any: 'Any time',
+  '1d': 'Last 24 hours',
+  '7d': 'Last 7 days',
+  '30d': 'Last 30 days',
+};
+
+const POSTED_WITHIN_DAYS: Record<Exclude<PostedWithin, 'any'>, number> = {
+  '1d': 1,
+  '7d': 7,
+  '30d': 30,
+};
+
+// Preset budget ranges offered in the filter select (cents)
+export const BUDGET_FILTER_RANGES: { label: string; min: number | null; max: number | null }[] = [
+  { label: 'Under $200', min: null, max: 20000 },
+  { label: '$200 - $500', min: 20000, max: 50000 },
+  { label: '$500 - $1,000', min: 50000, max: 100000 },
+  { label: '$1,000+', min: 100000, max: null },
+];
+
+// Earliest created_at a job may have to satisfy postedWithin, or null for no limit
+export const postedAfter = (postedWithin: PostedWithin, now = new Date()): string | null => {
+  if (postedWithin === 'any') return null;
+  const days = POSTED_WITHIN_DAYS[postedWithin];
+  return new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+};
+
+const parseCents = (value: string | null): number | null => {
+  if (!value) return null;
+  const cents = Number.parseInt(value, 10);
+  return Number.isFinite(cents) && cents >= 0 ? cents : null;
+};
+
+const isOneOf = <T extends string>(value: string | null, options: Record<T, unknown>): value is T =>
+  value !== null && Object.prototype.hasOwnProperty.call(options, value);
+
+// Read filters from the URL, falling back to defaults for missing or invalid params
+export const filtersFromSearchParams = (params: URLSearchParams): JobFilters => {
+  const postedWithin = params.get('posted');
+  const sort = params.get('sort');
+
+  return {
+    text: params.get('q') ?? '',
+    category: params.get('category') || null,
+    budgetMin: parseCents(params.get('min')),
+    budgetMax: parseCents(params.get('max')),
+    location: params.get('location') ?? '',
+    postedWithin: isOneOf(postedWithin, POSTED_WITHIN_LABELS) ? postedWithin : DEFAULT_JOB_FILTERS.postedWithin,
+    sort: isOneOf(sort, JOB_SORT_LABELS) ? sort : DEFAULT_JOB_FILTERS.sort,
+  };
+};
+
+// Write filters to URL params, leaving out anything at its default so URLs stay short
+export const filtersToSearchParams = (filters: JobFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (filters.text.trim()) params.set('q', filters.text.trim());
+  if (filters.category) params.set('category', filters.category);
+  if (filters.budgetMin !== null) params.set('min', String(filters.budgetMin));
+  if (filters.budgetMax !== null) params.set('max', String(filters.budgetMax));
+  if (filters.location.trim()) params.set('location', filters.location.trim());
+  if (filters.postedWithin !== DEFAULT_JOB_FILTERS.postedWithin) params.set('posted', filters.postedWithin);
+  if (filters.sort !== DEFAULT_JOB_FILTERS.sort) params.set('sort', filters.sort);
+  return params;
+};
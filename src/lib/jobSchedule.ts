@@ -0,0 +1,86 @@
+// JOB SCHEDULE MODULE
+// Bid deadlines and the poster's desired start / completion dates. Deadlines are
+// timestamps (bidding closes at the end of the chosen day, local time); desired
+// dates are plain calendar dates stored as yyyy-mm-dd.
+import { differenceInMinutes, endOfDay, format, parseISO } from 'date-fns';
+import type { DateRange } from 'react-day-picker';
+import { isBidDeadlinePassed } from '@/lib/bidEligibility';
+import type { JobStatus } from '@/lib/status';
+
+export interface JobScheduleColumns {
+  bid_deadline: string | null;
+  desired_start_date: string | null;
+  desired_completion_date: string | null;
+}
+
+// DATE columns, without shifting the day through UTC
+const toDateColumn = (date: Date | undefined): string | null =>
+  date ? format(date, 'yyyy-MM-dd') : null;
+
+const fromDateColumn = (value: string | null | undefined): Date | undefined =>
+  value ? parseISO(value) : undefined;
+
+// EDITOR VALUES - What the date pickers in JobScheduleFields work with
+export interface JobScheduleValues {
+  bidDeadline: Date | undefined;       // Last day professionals can bid
+  desiredDates: DateRange | undefined; // When the poster wants the work to start and finish
+}
+
+export const EMPTY_JOB_SCHEDULE: JobScheduleValues = {
+  bidDeadline: undefined,
+  desiredDates: undefined,
+};
+
+// Bidding stays open through the end of the chosen day, local time
+export const scheduleToColumns = (values: JobScheduleValues): JobScheduleColumns => ({
+  bid_deadline: values.bidDeadline ? endOfDay(values.bidDeadline).toISOString() : null,
+  desired_start_date: toDateColumn(values.desiredDates?.from),
+  desired_completion_date: toDateColumn(values.desiredDates?.to),
+});
+
+export const scheduleFromColumns = (row: Partial<JobScheduleColumns>): JobScheduleValues => {
+  const from = fromDateColumn(row.desired_start_date);
+  const to = fromDateColumn(row.desired_completion_date);
+  return {
+    bidDeadline: row.bid_deadline ? new Date(row.bid_deadline) : undefined,
+    desiredDates: from || to ? { from, to } : undefined,
+  };
+};
+
+// "Closes in 2d 4h", "Closes in 35m", "Bidding closed"
+export const formatBidCountdown = (bidDeadline: string, now = new Date()): string => {
+  const minutes = differenceInMinutes(new Date(bidDeadline), now);
+  if (minutes <= 0) return 'Bidding closed';
+
+  const days = Math.floor(minutes / (60 * 24));
+  const hours = Math.floor((minutes % (60 * 24)) / 60);
+  if (days > 0) return `Closes in ${days}d ${hours}h`;
+  if (hours > 0) return `Closes in ${hours}h ${minutes % 60}m`;
+  return `Closes in ${minutes}m`;
+};
+
+// "Oct 6 - Oct 20, 2025", "From Oct 6, 2025", "By Oct 20, 2025", or null when unset
+export const formatDesiredDates = (start: string | null | undefined, end: string | null | undefined): string | null => {
+  const startDate = fromDateColumn(start);
+  const endDate = fromDateColumn(end);
+  if (startDate && endDate) {
+    const startFormat = startDate.getFullYear() === endDate.getFullYear() ? 'MMM d' : 'MMM d, yyyy';
+    return `${format(startDate, startFormat)} - ${format(endDate, 'MMM d, yyyy')}`;
+  }
+  if (startDate) return `From ${format(startDate, 'MMM d, yyyy')}`;
+  if (endDate) return `By ${format(endDate, 'MMM d, yyyy')}`;
+  return null;
+};
+
+// Desired dates when set, else the free-text timeline older jobs were posted with
+export const formatJobTimeline = (job: {
+  timeline?: string | null;
+  desired_start_date?: string | null;
+  desired_completion_date?: string | null;
+}): string | null =>
+  formatDesiredDates(job.desired_start_date, job.desired_completion_date) || job.timeline || null;
+
+// Status to show: an open job past its deadline is expired even before the
+// close_expired_jobs sweep gets to it
+export const effectiveJobStatus = (job: { status: JobStatus; bid_deadline?: string | null }, now = new Date()): JobStatus =>
+  job.status === 'open' && isBidDeadlinePassed(job.bid_deadline, now) ? 'expired' : job.status;
@@ -0,0 +1,60 @@
+// JOB MILESTONE MODULE
+// Statuses and progress for job_milestones. A milestone goes pending -> submitted
+// (the professional marked it done) -> approved, or back from submitted to disputed
+// until the professional submits it again. The database functions enforce who may
+// make each move; these helpers only decide what the UI shows and offers.
+import { format, isBefore, parseISO, startOfToday } from 'date-fns';
+import type { BadgeProps } from '@/components/ui/badge';
+
+export type MilestoneStatus = 'pending' | 'submitted' | 'approved' | 'disputed';
+
+type BadgeVariant = NonNullable<BadgeProps['variant']>;
+
+export const MILESTONE_STATUS_LABELS: Record<MilestoneStatus, string> = {
+  pending: 'Not Started',
+  submitted: 'Awaiting Approval',
+  approved: 'Approved',
+  disputed: 'Disputed',
+};
+
+export const MILESTONE_STATUS_BADGE_VARIANTS: Record<MilestoneStatus, BadgeVariant> = {
+  pending: 'outline',
+  submitted: 'secondary',
+  approved: 'default',
+  disputed: 'destructive',
+};
+
+// The professional can (re)submit work that isn't done or was disputed
+export const canSubmitMilestone = (status: MilestoneStatus) =>
+  status === 'pending' || status === 'disputed';
+
+// The plan can be rewritten until any milestone has been submitted
+export const isMilestonePlanEditable = (milestones: { status: MilestoneStatus }[]) =>
+  milestones.every((milestone) => milestone.status === 'pending');
+
+export interface MilestoneProgress {
+  approved: number;
+  total: number;
+  percent: number;                    // Share of the total amount approved, 0-100
+}
+
+// Progress is weighted by amount, so a large milestone moves the bar further
+export const milestoneProgress = (milestones: { amount: number; status: MilestoneStatus }[]): MilestoneProgress => {
+  const totalAmount = milestones.reduce((sum, milestone) => sum + milestone.amount, 0);
+  const approvedAmount = milestones
+    .filter((milestone) => milestone.status === 'approved')
+    .reduce((sum, milestone) => sum + milestone.amount, 0);
+
+  return {
+    approved: milestones.filter((milestone) => milestone.status === 'approved').length,
+    total: milestones.length,
+    percent: totalAmount > 0 ? Math.round((approvedAmount / totalAmount) * 100) : 0,
+  };
+};
+
+// "Due Mar 3, 2026" for a yyyy-mm-dd due date, read as a local calendar day
+export const formatMilestoneDue = (dueDate: string) => `Due ${format(parseISO(dueDate), 'MMM d, yyyy')}`;
+
+// Past its due date and not yet approved
+export const isMilestoneOverdue = (milestone: { due_date: string | null; status: MilestoneStatus }) =>
+  !!milestone.due_date && milestone.status !== 'approved' && isBefore(parseISO(milestone.due_date), startOfToday());
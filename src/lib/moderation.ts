@@ -0,0 +1,42 @@
+// MODERATION MODULE
+// The recipient of an abusive chat message reports it, which opens a moderation
+// case holding a copy of the text as it was reported. A case goes open ->
+// under_review -> resolved; the admin either dismisses it or removes the message,
+// which settles every other report about the same message too. The rules live in
+// the database (report_message, start_moderation_review, resolve_moderation_case,
+// called through the moderation edge function); these helpers label them.
+import type { BadgeProps } from '@/components/ui/badge';
+
+export type ModerationStatus = 'open' | 'under_review' | 'resolved';
+export type ModerationOutcome = 'dismissed' | 'message_removed';
+export type ReportReason = 'spam' | 'harassment' | 'scam' | 'inappropriate' | 'other';
+
+type BadgeVariant = NonNullable<BadgeProps['variant']>;
+
+// In the order the report form offers them
+export const REPORT_REASONS: ReportReason[] = ['harassment', 'spam', 'scam', 'inappropriate', 'other'];
+
+export const REPORT_REASON_LABELS: Record<ReportReason, string> = {
+  spam: 'Spam',
+  harassment: 'Harassment or threats',
+  scam: 'Scam or fraud',
+  inappropriate: 'Inappropriate content',
+  other: 'Something else',
+};
+
+export const MODERATION_STATUS_LABELS: Record<ModerationStatus, string> = {
+  open: 'Reported',
+  under_review: 'Under Review',
+  resolved: 'Resolved',
+};
+
+export const MODERATION_STATUS_BADGE_VARIANTS: Record<ModerationStatus, BadgeVariant> = {
+  open: 'destructive',
+  under_review: 'secondary',
+  resolved: 'outline',
+};
+
+export const MODERATION_OUTCOME_LABELS: Record<ModerationOutcome, string> = {
+  dismissed: 'Dismiss the report',
+  message_removed: 'Remove the message',
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { holdsEscrow, releasableAmount, type PaymentBalance } from '@/lib/payments';
+
+// Mirrors the milestone shares in request_payment_release and the cases in
+// supabase/tests/database/invoices.test.sql
+
+const balance = (overrides: Partial<PaymentBalance>): PaymentBalance => ({
+  job_id: 'job',
+  funded: 0,
+  released: 0,
+  refunded: 0,
+  pending: 0,
+  in_escrow: 0,
+  fees: 0,
+  ...overrides,
+});
+
+describe('releasableAmount', () => {
+  const milestones = [
+    { id: 'prep', amount: 15000, status: 'approved' as const },
+    { id: 'paint', amount: 30000, status: 'pending' as const },
+  ];
+
+  it('is nothing until the job is funded', () => {
+    expect(releasableAmount('in_progress', 45000, undefined, milestones, [])).toBe(0);
+  });
+
+  it('releases approved milestones without a payout', () => {
+    const funded = balance({ funded: 45000, in_escrow: 45000 });
+    expect(releasableAmount('in_progress', 45000, funded, milestones, [])).toBe(15000);
+    expect(
+      releasableAmount('in_progress', 45000, funded, milestones, [
+        { milestone_id: 'prep', entry_type: 'release', status: 'pending' },
+      ])
+    ).toBe(0);
+  });
+
+  it('adds each milestone\'s share of the invoice tax held with the charge', () => {
+    const funded = balance({ funded: 49500, in_escrow: 49500 });
+    expect(releasableAmount('in_progress', 45000, funded, milestones, [])).toBe(16500);
+  });
+
+  it('rounds the tax shares so they add up to the tax', () => {
+    const thirds = ['a', 'b', 'c'].map((id) => ({ id, amount: 100, status: 'approved' as const }));
+    const funded = balance({ funded: 310, in_escrow: 310 });
+    expect(releasableAmount('in_progress', 300, funded, thirds, [])).toBe(310);
+    expect(releasableAmount('in_progress', 300, funded, thirds.slice(0, 1), [])).toBe(103);
+  });
+
+  it('releases the whole escrow of a completed job without milestones', () => {
+    const funded = balance({ funded: 49500, in_escrow: 49500 });
+    expect(releasableAmount('completed', 45000, funded, [], [])).toBe(49500);
+    expect(releasableAmount('in_progress', 45000, funded, [], [])).toBe(0);
+  });
+});
+
+describe('holdsEscrow', () => {
+  it('holds money while funds are in escrow or still being charged', () => {
+    expect(holdsEscrow(undefined)).toBe(false);
+    expect(holdsEscrow(balance({}))).toBe(false);
+    expect(holdsEscrow(balance({ funded: 45000, in_escrow: 45000 }))).toBe(true);
+    expect(holdsEscrow(balance({ pending: 45000 }))).toBe(true);
+  });
+});
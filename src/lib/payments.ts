@@ -0,0 +1,97 @@
+// JOB PAYMENT MODULE
+// Escrow state for the payment ledger. A job owner funds the accepted bid, plus the
+// tax on its invoice, the money is held, and it is released to the professional as
+// work is approved, less the platform fee (or refunded if the job is cancelled). The
+// amounts come from the job_payment_balances view; the payments edge function and
+// the request_* database functions do the work.
+import type { BadgeProps } from '@/components/ui/badge';
+import type { JobStatus } from '@/lib/status';
+import type { MilestoneStatus } from '@/lib/milestones';
+
+export type PaymentEntryType = 'charge' | 'hold' | 'release' | 'refund' | 'fee';
+export type PaymentEntryStatus = 'pending' | 'succeeded' | 'failed';
+
+// One job's row of job_payment_balances, in cents
+export interface PaymentBalance {
+  job_id: string;
+  funded: number;                     // Charged and put on hold
+  released: number;                   // Paid out to the professional
+  refunded: number;                   // Returned to the job owner
+  pending: number;                    // Charges, releases and refunds still processing
+  in_escrow: number;                  // Held and not yet committed to a release, fee or refund
+  fees: number;                       // Platform fees taken from releases
+}
+
+export type PaymentState = 'unfunded' | 'processing' | 'funded' | 'partially_released' | 'released' | 'refunded';
+
+type BadgeVariant = NonNullable<BadgeProps['variant']>;
+
+export const PAYMENT_STATE_LABELS: Record<PaymentState, string> = {
+  unfunded: 'Not Funded',
+  processing: 'Processing',
+  funded: 'Funded',
+  partially_released: 'Partly Released',
+  released: 'Released',
+  refunded: 'Refunded',
+};
+
+export const PAYMENT_STATE_BADGE_VARIANTS: Record<PaymentState, BadgeVariant> = {
+  unfunded: 'outline',
+  processing: 'secondary',
+  funded: 'default',
+  partially_released: 'default',
+  released: 'secondary',
+  refunded: 'destructive',
+};
+
+export const paymentState = (balance: PaymentBalance | undefined): PaymentState => {
+  if (!balance || (balance.funded === 0 && balance.pending === 0)) return 'unfunded';
+  if (balance.pending > 0) return 'processing';
+  if (balance.refunded > 0 && balance.in_escrow === 0) return 'refunded';
+  if (balance.released + balance.fees >= balance.funded) return 'released';
+  if (balance.released > 0) return 'partially_released';
+  return 'funded';
+};
+
+// Money is held or being charged for the job, so it can only be cancelled through
+// cancel_funded_job, never by changing its status
+export const holdsEscrow = (balance: PaymentBalance | undefined) =>
+  !!balance && (balance.in_escrow > 0 || balance.pending > 0);
+
+// What the job owner can release right now: approved milestones without a payout,
+// or the whole escrow of a completed job that has no milestones. Anything charged on
+// top of the bid is invoice tax, and each milestone carries its share of it (rounded
+// so the shares add up exactly). The database (request_payment_release) applies the
+// same rule.
+export const releasableAmount = (
+  jobStatus: JobStatus,
+  bidAmount: number,
+  balance: PaymentBalance | undefined,
+  milestones: { id: string; amount: number; status: MilestoneStatus }[],
+  entries: { milestone_id: string | null; entry_type: PaymentEntryType; status: PaymentEntryStatus }[]
+): number => {
+  if (!balance || balance.funded === 0) return 0;
+
+  if (milestones.length === 0) {
+    return jobStatus === 'completed' ? balance.in_escrow : 0;
+  }
+
+  const paidMilestoneIds = new Set(
+    entries
+      .filter((entry) => entry.entry_type === 'release' && entry.status !== 'failed')
+      .map((entry) => entry.milestone_id)
+  );
+  const tax = balance.funded - bidAmount;
+  // Milestones come in plan order, which is how the tax shares are rounded
+  let planned = 0;
+  let approved = 0;
+  for (const milestone of milestones) {
+    const taxShare = Math.round((tax * (planned + milestone.amount)) / bidAmount) - Math.round((tax * planned) / bidAmount);
+    planned += milestone.amount;
+    if (milestone.status === 'approved' && !paidMilestoneIds.has(milestone.id)) {
+      approved += milestone.amount + taxShare;
+    }
+  }
+  // A dispute resolution may already have paid out or refunded the escrow
+  return approved <= balance.in_escrow ? approved : 0;
+};
@@ -0,0 +1,36 @@
+// ROLE PERMISSIONS MODULE
+// Maps each profile role to the things it is allowed to do. Route guards and the
+// navigation bar both read from here, and the same rules are enforced server-side
+// by the RLS policies on jobs, bids and professionals (see public.current_user_role()).
+// Admins are staff: the role can't be picked at sign-up.
+
+export type UserRole = 'job_poster' | 'professional' | 'admin';
+
+export type Permission =
+  | 'job:create'          // Post new jobs
+  | 'job:manage'          // See and manage your own jobs (My Jobs)
+  | 'bid:create'          // Bid on other people's jobs
+  | 'assignment:view'     // See jobs you've won (My Assignments)
+  | 'profile:manage'      // Create and edit your professional profile
+  | 'dispute:resolve'     // Review and resolve job disputes (Disputes)
+  | 'message:moderate';   // Review reported chat messages (Reports)
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  job_poster: ['job:create', 'job:manage'],
+  professional: ['bid:create', 'assignment:view', 'profile:manage'],
+  admin: ['dispute:resolve', 'message:moderate'],
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  job_poster: 'Job Poster',
+  professional: 'Professional',
+  admin: 'Admin',
+};
+
+// True when the role grants the permission (false for signed-out users / no profile)
+export const hasPermission = (role: UserRole | null | undefined, permission: Permission): boolean =>
+  !!role && ROLE_PERMISSIONS[role].includes(permission);
+
+// Roles that hold a permission - used for "only available to ..." messages
+export const rolesWithPermission = (permission: Permission): UserRole[] =>
+  (Object.keys(ROLE_PERMISSIONS) as UserRole[]).filter(role => hasPermission(role, permission));
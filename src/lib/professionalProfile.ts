@@ -0,0 +1,130 @@
+// PROFESSIONAL PROFILE FORM HELPERS
+// Shared by the onboarding wizard and the edit-profile page. The form keeps numbers
+// as strings while the user types; these helpers convert to and from the
+// professionals row and validate each section of the form.
+import type { ContactPreference, Professional, ProfessionalProfileInput } from '@/hooks/useProfessionals';
+
+export type ProfessionalFormSection = 'basics' | 'skills' | 'contact';
+
+export interface ProfessionalFormValues {
+  name: string;
+  title: string;
+  description: string;
+  location: string;
+  skills: string[];
+  experience_years: string;
+  hourly_rate: string;                // Whole dollars per hour
+  response_time: string;
+  phone: string;
+  email: string;
+  avatar_url: string | null;
+  preferred_contact: ContactPreference;
+}
+
+export const PROFESSIONAL_SKILLS = [
+  'Painting',
+  'Plumbing',
+  'Electrical',
+  'General Repairs',
+  'Carpentry',
+  'Cleaning',
+  'Landscaping',
+  'HVAC',
+  'Roofing',
+  'Drywall',
+  'Flooring',
+  'Tiling',
+];
+
+export const RESPONSE_TIMES = [
+  'Within 1 hour',
+  'Within 2 hours',
+  'Within 24 hours',
+  'Within 2 days',
+];
+
+export const CONTACT_PREFERENCE_LABELS: Record<ContactPreference, string> = {
+  message: 'In-app message',
+  email: 'Email',
+  phone: 'Phone',
+};
+
+// Blank form, prefilled from the user's account where possible
+export const emptyProfessionalForm = (defaults: { name?: string | null; email?: string | null; phone?: string | null }): ProfessionalFormValues => ({
+  name: defaults.name || '',
+  title: '',
+  description: '',
+  location: '',
+  skills: [],
+  experience_years: '',
+  hourly_rate: '',
+  response_time: 'Within 24 hours',
+  phone: defaults.phone || '',
+  email: defaults.email || '',
+  avatar_url: null,
+  preferred_contact: 'message',
+});
+
+export const professionalToForm = (professional: Professional): ProfessionalFormValues => ({
+  name: professional.name,
+  title: professional.title,
+  description: professional.description || '',
+  location: professional.location,
+  skills: professional.skills || [],
+  experience_years: String(professional.experience_years ?? ''),
+  hourly_rate: professional.hourly_rate ? String(professional.hourly_rate / 100) : '',
+  response_time: professional.response_time || 'Within 24 hours',
+  phone: professional.phone || '',
+  email: professional.email || '',
+  avatar_url: professional.avatar_url,
+  preferred_contact: professional.preferred_contact,
+});
+
+export const formToProfessionalInput = (values: ProfessionalFormValues): ProfessionalProfileInput => ({
+  name: values.name.trim(),
+  title: values.title.trim(),
+  description: values.description.trim() || null,
+  location: values.location.trim(),
+  skills: values.skills,
+  experience_years: parseInt(values.experience_years, 10) || 0,
+  hourly_rate: values.hourly_rate ? Math.round(parseFloat(values.hourly_rate) * 100) : null,
+  response_time: values.response_time,
+  phone: values.phone.trim() || null,
+  email: values.email.trim() || null,
+  avatar_url: values.avatar_url,
+  preferred_contact: values.preferred_contact,
+});
+
+// Returns an error message for the first invalid field in the section, or null
+export const validateProfessionalSection = (section: ProfessionalFormSection, values: ProfessionalFormValues): string | null => {
+  switch (section) {
+    case 'basics':
+      if (!values.name.trim()) return 'Please enter your name';
+      if (!values.title.trim()) return 'Please enter a professional title';
+      if (!values.location.trim()) return 'Please enter where you work';
+      return null;
+    case 'skills': {
+      if (values.skills.length === 0) return 'Please pick at least one skill';
+      const years = Number(values.experience_years);
+      if (values.experience_years && (!Number.isInteger(years) || years < 0 || years > 80)) {
+        return 'Years of experience must be a whole number';
+      }
+      const rate = Number(values.hourly_rate);
+      if (values.hourly_rate && (!Number.isFinite(rate) || rate <= 0)) {
+        return 'Hourly rate must be a positive amount';
+      }
+      return null;
+    }
+    case 'contact':
+      if (values.preferred_contact === 'phone' && !values.phone.trim()) {
+        return 'Add a phone number to be contacted by phone';
+      }
+      if (values.preferred_contact === 'email' && !values.email.trim()) {
+        return 'Add an email address to be contacted by email';
+      }
+      if (values.email.trim() && !/^\S+@\S+\.\S+$/.test(values.email.trim())) {
+        return 'Please enter a valid email address';
+      }
+      return null;
+  }
+};
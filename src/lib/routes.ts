@@ -0,0 +1,62 @@
+// APP ROUTES - Every URL the app understands, in one place
+// Route patterns are used by <Route path> in App.tsx; the builders below turn
+// ids into concrete URLs so pages never assemble paths by hand.
+
+export const ROUTES = {
+  home: '/',
+  auth: '/auth',
+  browseJobs: '/jobs',
+  postJob: '/jobs/new',
+  jobDetails: '/jobs/:id',
+  submitBid: '/jobs/:id/bid',
+  editJob: '/jobs/:id/edit',
+  myJobs: '/my-jobs',
+  assignments: '/assignments',
+  professionals: '/pros',
+  professionalProfile: '/pros/:id',
+  onboarding: '/onboarding',
+  editProfile: '/profile/edit',
+  messages: '/messages',
+  disputes: '/admin/disputes',
+  moderation: '/admin/reports',
+} as const;
+
+// ROUTE PARAMS - Shape of the dynamic segments for each parameterised route
+export type JobRouteParams = { id: string };
+export type ProfessionalRouteParams = { id: string };
+
+// PATH BUILDERS - Fill in the dynamic segments of a route pattern
+export const paths = {
+  jobDetails: (jobId: string) => `/jobs/${encodeURIComponent(jobId)}`,
+  submitBid: (jobId: string) => `/jobs/${encodeURIComponent(jobId)}/bid`,
+  editJob: (jobId: string) => `/jobs/${encodeURIComponent(jobId)}/edit`,
+  professionalProfile: (professionalId: string) => `/pros/${encodeURIComponent(professionalId)}`,
+  conversation: (conversationId: string) => `/messages?conversation=${encodeURIComponent(conversationId)}`,
+};
+
+// LEGACY LINKS - Maps the old ?view=<name>&jobId=<id> query strings to real paths
+// so bookmarks from before the router was introduced keep working
+export const legacyViewToPath = (view: string, jobId: string | null): string | null => {
+  switch (view) {
+    case 'home':
+      return ROUTES.home;
+    case 'auth':
+      return ROUTES.auth;
+    case 'browse-jobs':
+      return ROUTES.browseJobs;
+    case 'post-job':
+      return ROUTES.postJob;
+    case 'my-jobs':
+      return ROUTES.myJobs;
+    case 'assigned-jobs':
+      return ROUTES.assignments;
+    case 'professionals':
+      return ROUTES.professionals;
+    case 'job-details':
+      return jobId ? paths.jobDetails(jobId) : ROUTES.browseJobs;
+    case 'submit-bid':
+      return jobId ? paths.submitBid(jobId) : ROUTES.browseJobs;
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,65 @@
+// JOB AND BID STATUS MODULE
+// Single source of truth for status values on the client. The values come from the
+// job_status / bid_status Postgres enums (see Constants in the generated types), so
+// adding a value in a migration and regenerating types updates every badge and select.
+import { Constants, type Enums } from '@/integrations/supabase/types';
+import type { BadgeProps } from '@/components/ui/badge';
+
+export type JobStatus = Enums<'job_status'>;
+export type BidStatus = Enums<'bid_status'>;
+
+type BadgeVariant = NonNullable<BadgeProps['variant']>;
+
+// All statuses, in the order they are declared in the database
+export const JOB_STATUSES: readonly JobStatus[] = Constants.public.Enums.job_status;
+export const BID_STATUSES: readonly BidStatus[] = Constants.public.Enums.bid_status;
+
+export const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+  open: 'Open',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  expired: 'Expired',
+};
+
+export const BID_STATUS_LABELS: Record<BidStatus, string> = {
+  pending: 'Pending',
+  accepted: 'Accepted',
+  rejected: 'Rejected',
+  withdrawn: 'Withdrawn',
+};
+
+export const JOB_STATUS_BADGE_VARIANTS: Record<JobStatus, BadgeVariant> = {
+  open: 'default',
+  in_progress: 'secondary',
+  completed: 'outline',
+  cancelled: 'destructive',
+  expired: 'secondary',
+};
+
+export const BID_STATUS_BADGE_VARIANTS: Record<BidStatus, BadgeVariant> = {
+  pending: 'outline',
+  accepted: 'default',
+  rejected: 'destructive',
+  withdrawn: 'secondary',
+};
+
+// LEGAL JOB TRANSITIONS - Mirrors public.is_valid_job_status_transition
+// The database trigger is authoritative; this map only decides what the UI offers.
+// A job only goes in_progress by accepting a bid (accept_bid), never from here.
+export const JOB_STATUS_TRANSITIONS: Record<JobStatus, readonly JobStatus[]> = {
+  open: ['cancelled'],
+  in_progress: ['completed', 'cancelled'],
+  completed: [],
+  cancelled: [],
+  expired: [],                      // Set by the close_expired_jobs sweep, never from the UI
+};
+
+export const canTransitionJob = (from: JobStatus, to: JobStatus) =>
+  from === to || JOB_STATUS_TRANSITIONS[from].includes(to);
+
+// Statuses a job can be moved to from its current status, including staying put
+export const getJobStatusOptions = (current: JobStatus): JobStatus[] => [
+  current,
+  ...JOB_STATUS_TRANSITIONS[current],
+];
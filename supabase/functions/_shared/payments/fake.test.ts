@@ -0,0 +1,45 @@
+// Run with `deno test supabase/functions`
+import { assertEquals, assertRejects } from 'jsr:@std/assert@1';
+import { createFakeProvider } from './fake.ts';
+
+const webhook = (body: unknown, secret?: string) =>
+  new Request('http://localhost/payment-webhook', {
+    method: 'POST',
+    headers: secret ? { 'x-fake-webhook-secret': secret } : {},
+    body: JSON.stringify(body),
+  });
+
+const provider = createFakeProvider({ webhookSecret: 'test-secret' });
+
+Deno.test('charges, releases and refunds succeed at once', async () => {
+  const charge = await provider.charge({
+    entryId: 'entry-1',
+    jobId: 'job-1',
+    amount: 45000,
+    currency: 'usd',
+    description: 'Paint the fence',
+    returnUrl: 'http://localhost',
+  });
+  assertEquals(charge.status, 'succeeded');
+  assertEquals(charge.providerReference?.startsWith('fake_ch_'), true);
+
+  const release = await provider.release({ entryId: 'entry-2', jobId: 'job-1', amount: 40500, currency: 'usd', payeeAccountId: null });
+  assertEquals(release.status, 'succeeded');
+
+  const refund = await provider.refund({ entryId: 'entry-3', amount: 4500, chargeReference: charge.providerReference ?? '' });
+  assertEquals(refund.status, 'succeeded');
+});
+
+Deno.test('the webhook reads a PaymentEvent carrying the shared secret', async () => {
+  const event = await provider.parseWebhook(webhook({ entryId: 'entry-1', status: 'failed', failureReason: 'Card declined' }, 'test-secret'));
+  assertEquals(event, { entryId: 'entry-1', status: 'failed', providerReference: undefined, failureReason: 'Card declined' });
+});
+
+Deno.test('the webhook rejects a missing or wrong secret', async () => {
+  await assertRejects(() => provider.parseWebhook(webhook({ entryId: 'entry-1', status: 'succeeded' })));
+  await assertRejects(() => provider.parseWebhook(webhook({ entryId: 'entry-1', status: 'succeeded' }, 'guess')));
+});
+
+Deno.test('the webhook ignores events without an entry', async () => {
+  assertEquals(await provider.parseWebhook(webhook({ status: 'succeeded' }, 'test-secret')), null);
+});
@@ -0,0 +1,41 @@
+// FAKE PAYMENT PROVIDER
+// For local development and tests: no money moves and every call succeeds at once,
+// so funding, release and refund can be exercised end to end without a processor
+// account. Its webhook takes a plain JSON PaymentEvent, guarded by a shared secret
+// that every request must carry, to simulate asynchronous updates such as a late
+// failure.
+import type { PaymentEvent, PaymentProvider, PaymentResult } from './provider.ts';
+
+interface FakeConfig {
+  webhookSecret: string;              // Expected in the x-fake-webhook-secret header
+}
+
+const succeeded = (prefix: string): PaymentResult => ({
+  status: 'succeeded',
+  providerReference: `fake_${prefix}_${crypto.randomUUID()}`,
+});
+
+export const createFakeProvider = (config: FakeConfig): PaymentProvider => ({
+  name: 'fake',
+
+  charge: async () => succeeded('ch'),
+
+  release: async () => succeeded('tr'),
+
+  refund: async () => succeeded('re'),
+
+  async parseWebhook(request: Request): Promise<PaymentEvent | null> {
+    if (!config.webhookSecret || request.headers.get('x-fake-webhook-secret') !== config.webhookSecret) {
+      throw new Error('Invalid fake webhook secret');
+    }
+
+    const event = await request.json() as Partial<PaymentEvent>;
+    if (!event.entryId || !event.status) return null;
+    return {
+      entryId: event.entryId,
+      status: event.status,
+      providerReference: event.providerReference,
+      failureReason: event.failureReason,
+    };
+  },
+});
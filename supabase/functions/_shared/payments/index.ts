@@ -0,0 +1,52 @@
+// Picks the payment provider from the PAYMENT_PROVIDER secret ("stripe" or "fake").
+// There is no default: a function that can't tell which processor it talks to
+// refuses to run rather than guess. The fake provider only runs against a local
+// Supabase stack, since its webhook would otherwise let anyone settle payments.
+import { createFakeProvider } from './fake.ts';
+import type { PaymentProvider } from './provider.ts';
+import { createStripeProvider } from './stripe.ts';
+
+export type * from './provider.ts';
+
+// Hosts the edge runtime sees as SUPABASE_URL under `supabase start`
+const LOCAL_HOSTS = new Set(['kong', 'localhost', '127.0.0.1', 'host.docker.internal']);
+
+const isLocalStack = (): boolean => {
+  const url = Deno.env.get('SUPABASE_URL');
+  if (!url) return false;
+  try {
+    return LOCAL_HOSTS.has(new URL(url).hostname);
+  } catch {
+    return false;
+  }
+};
+
+export const getPaymentProvider = (): PaymentProvider => {
+  const name = Deno.env.get('PAYMENT_PROVIDER');
+  if (!name) {
+    throw new Error('PAYMENT_PROVIDER must be set to "stripe" or "fake"');
+  }
+
+  switch (name) {
+    case 'stripe': {
+      const secretKey = Deno.env.get('STRIPE_SECRET_KEY');
+      const webhookSecret = Deno.env.get('STRIPE_WEBHOOK_SECRET');
+      if (!secretKey || !webhookSecret) {
+        throw new Error('STRIPE_SECRET_KEY and STRIPE_WEBHOOK_SECRET must be set to use Stripe');
+      }
+      return createStripeProvider({ secretKey, webhookSecret });
+    }
+    case 'fake': {
+      if (!isLocalStack()) {
+        throw new Error('The fake payment provider only runs against a local Supabase stack');
+      }
+      const webhookSecret = Deno.env.get('FAKE_WEBHOOK_SECRET');
+      if (!webhookSecret) {
+        throw new Error('FAKE_WEBHOOK_SECRET must be set to use the fake provider');
+      }
+      return createFakeProvider({ webhookSecret });
+    }
+    default:
+      throw new Error(`Unknown PAYMENT_PROVIDER "${name}"`);
+  }
+};
@@ -0,0 +1,56 @@
+// PAYMENT PROVIDER INTERFACE
+// Everything the escrow flow needs from a payment processor. Amounts are in cents.
+// Each call carries the payment_ledger entry id so the provider can echo it back in
+// webhooks, which is how asynchronous results find their ledger row. The methods
+// throw when the provider refuses a request; callers record that as a failed entry.
+
+export type PaymentResultStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface PaymentResult {
+  status: PaymentResultStatus;
+  providerReference: string | null;   // Provider's id for the payment, transfer or refund
+  failureReason?: string;
+  redirectUrl?: string;               // Hosted page the payer has to visit to finish a charge
+}
+
+export interface ChargeInput {
+  entryId: string;
+  jobId: string;
+  amount: number;
+  currency: string;
+  description: string;
+  payerEmail?: string;
+  returnUrl: string;                  // Where the payer lands after a hosted checkout
+}
+
+export interface ReleaseInput {
+  entryId: string;
+  jobId: string;
+  amount: number;
+  currency: string;
+  payeeAccountId: string | null;      // Professional's connected account (payout_accounts)
+}
+
+export interface RefundInput {
+  entryId: string;
+  amount: number;
+  chargeReference: string;            // provider_reference of the original charge
+}
+
+// A verified webhook event, reduced to what the ledger records
+export interface PaymentEvent {
+  entryId: string;
+  status: PaymentResultStatus;
+  providerReference?: string;
+  failureReason?: string;
+}
+
+export interface PaymentProvider {
+  readonly name: 'stripe' | 'fake';
+  charge(input: ChargeInput): Promise<PaymentResult>;
+  release(input: ReleaseInput): Promise<PaymentResult>;
+  refund(input: RefundInput): Promise<PaymentResult>;
+  // Verifies the request came from the provider (throws if it didn't); null for
+  // events the ledger ignores
+  parseWebhook(request: Request): Promise<PaymentEvent | null>;
+}
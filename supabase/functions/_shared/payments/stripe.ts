@@ -0,0 +1,195 @@
+// STRIPE ADAPTER
+// Talks to the Stripe REST API directly (form-encoded requests, no SDK).
+//   charge  - a hosted Checkout session; the payer is redirected to it and the
+//             result arrives by webhook. Funds settle in the platform balance,
+//             which is what "held in escrow" means here.
+//   release - a transfer to the professional's connected account
+//   refund  - a refund against the checkout's payment intent
+// Webhooks are verified with the endpoint's signing secret (Stripe-Signature header).
+import type {
+  ChargeInput,
+  PaymentEvent,
+  PaymentProvider,
+  PaymentResultStatus,
+  RefundInput,
+  ReleaseInput,
+} from './provider.ts';
+
+const STRIPE_API = 'https://api.stripe.com/v1';
+
+// Reject webhook signatures older than this (seconds), against replays
+const SIGNATURE_TOLERANCE = 5 * 60;
+
+interface StripeConfig {
+  secretKey: string;
+  webhookSecret: string;
+}
+
+// The fields read from Stripe responses and webhook event objects
+interface StripeObject {
+  id?: string;
+  url?: string;
+  status?: string;
+  payment_status?: string;
+  payment_intent?: string;
+  failure_reason?: string | null;
+  metadata?: Record<string, string>;
+  error?: { message?: string };
+}
+
+interface StripeEvent {
+  type: string;
+  data?: { object?: StripeObject };
+}
+
+// Throws with Stripe's own message when a request is refused
+const stripeRequest = async (
+  config: StripeConfig,
+  path: string,
+  params: Record<string, string>,
+  idempotencyKey: string
+): Promise<StripeObject> => {
+  const response = await fetch(`${STRIPE_API}${path}`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${config.secretKey}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+      // The ledger entry id makes retries of the same request safe
+      'Idempotency-Key': idempotencyKey,
+    },
+    body: new URLSearchParams(params),
+  });
+
+  const body = await response.json() as StripeObject;
+  if (!response.ok) {
+    throw new Error(body.error?.message ?? `Stripe request failed (${response.status})`);
+  }
+  return body;
+};
+
+// Refunds can also be "requires_action" or "pending" for a while
+const refundStatus = (status: string | undefined): PaymentResultStatus =>
+  status === 'succeeded' ? 'succeeded' : status === 'failed' || status === 'canceled' ? 'failed' : 'pending';
+
+// Constant-time comparison of two hex strings
+const safeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+const hmacSha256Hex = async (secret: string, payload: string) => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(payload));
+  return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Checks "t=<timestamp>,v1=<signature>[,v1=...]" against the raw body
+const verifySignature = async (config: StripeConfig, header: string | null, payload: string) => {
+  if (!header) throw new Error('Missing Stripe-Signature header');
+
+  const parts = header.split(',').map((part) => part.split('=') as [string, string]);
+  const timestamp = Number(parts.find(([key]) => key === 't')?.[1]);
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value);
+
+  if (!timestamp || signatures.length === 0) throw new Error('Malformed Stripe-Signature header');
+  if (Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE) throw new Error('Stripe signature is too old');
+
+  const expected = await hmacSha256Hex(config.webhookSecret, `${timestamp}.${payload}`);
+  if (!signatures.some((signature) => safeEqual(signature, expected))) {
+    throw new Error('Stripe signature does not match');
+  }
+};
+
+export const createStripeProvider = (config: StripeConfig): PaymentProvider => ({
+  name: 'stripe',
+
+  async charge(input: ChargeInput) {
+    const session = await stripeRequest(config, '/checkout/sessions', {
+      mode: 'payment',
+      success_url: input.returnUrl,
+      cancel_url: input.returnUrl,
+      client_reference_id: input.entryId,
+      ...(input.payerEmail ? { customer_email: input.payerEmail } : {}),
+      'line_items[0][quantity]': '1',
+      'line_items[0][price_data][currency]': input.currency,
+      'line_items[0][price_data][unit_amount]': String(input.amount),
+      'line_items[0][price_data][product_data][name]': input.description,
+      'metadata[ledger_entry_id]': input.entryId,
+      'payment_intent_data[metadata][ledger_entry_id]': input.entryId,
+      'payment_intent_data[transfer_group]': input.jobId,
+    }, input.entryId);
+
+    return { status: 'pending', providerReference: session.id ?? null, redirectUrl: session.url };
+  },
+
+  async release(input: ReleaseInput) {
+    if (!input.payeeAccountId) {
+      throw new Error('The professional has not set up payouts yet');
+    }
+
+    const transfer = await stripeRequest(config, '/transfers', {
+      amount: String(input.amount),
+      currency: input.currency,
+      destination: input.payeeAccountId,
+      transfer_group: input.jobId,
+      'metadata[ledger_entry_id]': input.entryId,
+    }, input.entryId);
+
+    // Transfers between Stripe balances complete immediately
+    return { status: 'succeeded', providerReference: transfer.id ?? null };
+  },
+
+  async refund(input: RefundInput) {
+    const refund = await stripeRequest(config, '/refunds', {
+      payment_intent: input.chargeReference,
+      amount: String(input.amount),
+      'metadata[ledger_entry_id]': input.entryId,
+    }, input.entryId);
+
+    return {
+      status: refundStatus(refund.status),
+      providerReference: refund.id ?? null,
+      failureReason: refund.failure_reason ?? undefined,
+    };
+  },
+
+  async parseWebhook(request: Request): Promise<PaymentEvent | null> {
+    const payload = await request.text();
+    await verifySignature(config, request.headers.get('Stripe-Signature'), payload);
+
+    const event = JSON.parse(payload) as StripeEvent;
+    const object = event.data?.object;
+    const entryId = object?.metadata?.ledger_entry_id;
+    if (!object || !entryId) return null;
+
+    switch (event.type) {
+      // The ledger keeps the payment intent, which is what refunds are made against
+      case 'checkout.session.completed':
+      case 'checkout.session.async_payment_succeeded':
+        return object.payment_status === 'paid'
+          ? { entryId, status: 'succeeded', providerReference: object.payment_intent }
+          : null;
+      case 'checkout.session.async_payment_failed':
+        return { entryId, status: 'failed', failureReason: 'The payment was declined' };
+      case 'checkout.session.expired':
+        return { entryId, status: 'failed', failureReason: 'Checkout was not completed' };
+      case 'refund.updated': {
+        const status = refundStatus(object.status);
+        if (status === 'pending') return null;
+        return status === 'failed'
+          ? { entryId, status, failureReason: object.failure_reason ?? 'The refund failed' }
+          : { entryId, status };
+      }
+      default:
+        return null;
+    }
+  },
+});
@@ -0,0 +1,87 @@
+// MODERATION EDGE FUNCTION
+// Resolves a reported message for an admin. Removing the message drops its
+// attachment rows in the database; this function then deletes the files from
+// storage, which only the service role can do for someone else's uploads.
+// POST { action: 'resolve', caseId, outcome, notes? }
+// resolve_moderation_case holds the admin and case checks. Only the service role may
+// call it; this function verifies the caller's session and passes their id in.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders, errorMessage, jsonResponse } from '../_shared/http.ts';
+
+interface ModerationRequest {
+  action: 'resolve';
+  caseId: string;
+  outcome: 'dismissed' | 'message_removed';
+  notes?: string;
+}
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+const MESSAGE_ATTACHMENTS_BUCKET = 'message-attachments';
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { action, caseId, outcome, notes } = await req.json() as ModerationRequest;
+
+    const userClient = createClient(SUPABASE_URL, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+    });
+    const admin = createClient(SUPABASE_URL, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) {
+      return jsonResponse({ error: 'Not signed in' }, 401);
+    }
+
+    switch (action) {
+      case 'resolve': {
+        const { data: isAdmin, error: roleError } = await userClient.rpc('is_admin');
+        if (roleError) throw roleError;
+        if (!isAdmin) return jsonResponse({ error: 'Only admins can handle reports', code: 'not_admin' }, 403);
+
+        // The attachment rows go with the message, so note their files first
+        let paths: string[] = [];
+        if (outcome === 'message_removed') {
+          const { data: reported, error: caseError } = await admin
+            .from('moderation_cases')
+            .select('message_id')
+            .eq('id', caseId)
+            .maybeSingle();
+          if (caseError) throw caseError;
+
+          const { data: attachments, error: attachmentsError } = await admin
+            .from('message_attachments')
+            .select('file_path')
+            .eq('message_id', reported?.message_id ?? '');
+          if (attachmentsError) throw attachmentsError;
+          paths = (attachments ?? []).map((attachment) => attachment.file_path);
+        }
+
+        const { data: resolved, error } = await admin.rpc('resolve_moderation_case', {
+          p_case_id: caseId,
+          p_outcome: outcome,
+          p_admin_id: user.id,
+          p_notes: notes ?? null,
+        });
+        if (error) return jsonResponse({ error: error.message, code: error.hint }, 400);
+
+        // The case is resolved either way; a file left behind is only logged
+        if (paths.length > 0) {
+          const { error: storageError } = await admin.storage.from(MESSAGE_ATTACHMENTS_BUCKET).remove(paths);
+          if (storageError) console.error('Failed to remove message attachments:', storageError);
+        }
+
+        return jsonResponse({ case: resolved });
+      }
+
+      default:
+        return jsonResponse({ error: `Unknown action "${action}"` }, 400);
+    }
+  } catch (error) {
+    console.error('Moderation request failed:', error);
+    return jsonResponse({ error: errorMessage(error) }, 500);
+  }
+});
@@ -0,0 +1,42 @@
+// PAYMENT WEBHOOK EDGE FUNCTION
+// Receives status updates from the payment provider (completed or expired
+// checkouts, refunds that settle later) and writes them to the ledger. The provider
+// adapter verifies the request's signature; unknown events are acknowledged and
+// ignored. Deployed without JWT verification, since the provider can't send one.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { errorMessage, jsonResponse } from '../_shared/http.ts';
+import { getPaymentProvider, type PaymentEvent } from '../_shared/payments/index.ts';
+
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  let event: PaymentEvent | null;
+  try {
+    event = await getPaymentProvider().parseWebhook(req);
+  } catch (error) {
+    console.error('Rejected payment webhook:', error);
+    return jsonResponse({ error: errorMessage(error) }, 400);
+  }
+
+  if (!event) {
+    return jsonResponse({ received: true });
+  }
+
+  const admin = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+  const { error } = await admin.rpc('record_payment_result', {
+    p_entry_id: event.entryId,
+    p_status: event.status,
+    p_provider_reference: event.providerReference ?? null,
+    p_failure_reason: event.failureReason ?? null,
+  });
+
+  if (error) {
+    // A non-2xx answer makes the provider retry the delivery later
+    console.error('Failed to record payment event:', error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+
+  return jsonResponse({ received: true });
+});
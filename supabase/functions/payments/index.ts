@@ -0,0 +1,203 @@
+// PAYMENTS EDGE FUNCTION
+// Funds a job, releases escrow for approved work and refunds cancelled jobs. Admins
+// also settle the escrow of a disputed job here when they resolve the dispute.
+// POST { action: 'fund' | 'release' | 'refund', jobId, returnUrl? }
+// POST { action: 'resolve', disputeId, outcome, releaseAmount?, notes? }
+// The request_* database functions (and resolve_dispute) hold the ownership and
+// escrow rules. Only the service role may call them, so no pending entry is written
+// without the provider call that settles it; this function verifies the caller's
+// session, and for 'resolve' that they are an admin, and passes their id in.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders, errorMessage, jsonResponse } from '../_shared/http.ts';
+import { getPaymentProvider, type PaymentResult } from '../_shared/payments/index.ts';
+
+interface PaymentRequest {
+  action: 'fund' | 'release' | 'refund' | 'resolve';
+  jobId: string;                      // For 'fund', 'release' and 'refund'
+  returnUrl?: string;                 // Page to come back to after a hosted checkout
+  disputeId?: string;                 // For 'resolve'
+  outcome?: 'refund' | 'partial' | 'release';
+  releaseAmount?: number;             // Cents awarded to the professional on a partial outcome
+  notes?: string;
+}
+
+interface LedgerEntry {
+  id: string;
+  job_id: string;
+  bid_id: string;
+  entry_type: string;
+  amount: number;
+  currency: string;
+  charge_id: string | null;
+}
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { action, jobId, returnUrl, disputeId, outcome, releaseAmount, notes } = await req.json() as PaymentRequest;
+    const provider = getPaymentProvider();
+
+    const userClient = createClient(SUPABASE_URL, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+    });
+    const admin = createClient(SUPABASE_URL, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) {
+      return jsonResponse({ error: 'Not signed in' }, 401);
+    }
+
+    // Calls the provider for a pending entry and writes back what happened
+    const settle = async (entry: LedgerEntry, run: () => Promise<PaymentResult>) => {
+      let result: PaymentResult;
+      try {
+        result = await run();
+      } catch (error) {
+        result = { status: 'failed', providerReference: null, failureReason: errorMessage(error) };
+      }
+
+      const { data, error } = await admin.rpc('record_payment_result', {
+        p_entry_id: entry.id,
+        p_status: result.status,
+        p_provider_reference: result.providerReference,
+        p_failure_reason: result.failureReason ?? null,
+      });
+      if (error) throw error;
+      return { entry: data, redirectUrl: result.redirectUrl ?? null };
+    };
+
+    switch (action) {
+      case 'fund': {
+        const { data: entry, error } = await admin.rpc('request_job_funding', {
+          p_job_id: jobId,
+          p_provider: provider.name,
+          p_user_id: user.id,
+        });
+        if (error) return jsonResponse({ error: error.message, code: error.hint }, 400);
+
+        const { data: job } = await admin.from('jobs').select('title').eq('id', jobId).single();
+
+        const settled = await settle(entry, () => provider.charge({
+          entryId: entry.id,
+          jobId,
+          amount: entry.amount,
+          currency: entry.currency,
+          description: job?.title ?? 'Job payment',
+          payerEmail: user.email,
+          returnUrl: returnUrl ?? req.headers.get('origin') ?? SUPABASE_URL,
+        }));
+        return jsonResponse(settled);
+      }
+
+      case 'release': {
+        const { data: entries, error } = await admin.rpc('request_payment_release', {
+          p_job_id: jobId,
+          p_provider: provider.name,
+          p_user_id: user.id,
+        });
+        if (error) return jsonResponse({ error: error.message, code: error.hint }, 400);
+
+        const { data: bid } = await admin.from('bids').select('user_id').eq('id', entries[0].bid_id).single();
+        const { data: payout } = await admin
+          .from('payout_accounts')
+          .select('account_id')
+          .eq('user_id', bid?.user_id)
+          .eq('provider', provider.name)
+          .maybeSingle();
+
+        const settled = [];
+        for (const entry of entries as LedgerEntry[]) {
+          settled.push(await settle(entry, () => provider.release({
+            entryId: entry.id,
+            jobId,
+            amount: entry.amount,
+            currency: entry.currency,
+            payeeAccountId: payout?.account_id ?? null,
+          })));
+        }
+        return jsonResponse({ entries: settled.map(({ entry }) => entry) });
+      }
+
+      case 'refund': {
+        const { data: entry, error } = await admin.rpc('request_payment_refund', {
+          p_job_id: jobId,
+          p_provider: provider.name,
+          p_user_id: user.id,
+        });
+        if (error) return jsonResponse({ error: error.message, code: error.hint }, 400);
+
+        const { data: charge } = await admin
+          .from('payment_ledger')
+          .select('provider_reference')
+          .eq('id', entry.charge_id)
+          .single();
+
+        const settled = await settle(entry, () => provider.refund({
+          entryId: entry.id,
+          amount: entry.amount,
+          chargeReference: charge?.provider_reference ?? '',
+        }));
+        return jsonResponse(settled);
+      }
+
+      case 'resolve': {
+        const { data: isAdmin, error: roleError } = await userClient.rpc('is_admin');
+        if (roleError) throw roleError;
+        if (!isAdmin) return jsonResponse({ error: 'Only admins can handle disputes', code: 'not_admin' }, 403);
+
+        const { data: entries, error } = await admin.rpc('resolve_dispute', {
+          p_dispute_id: disputeId,
+          p_outcome: outcome,
+          p_provider: provider.name,
+          p_admin_id: user.id,
+          p_release_amount: releaseAmount ?? null,
+          p_notes: notes ?? null,
+        });
+        if (error) return jsonResponse({ error: error.message, code: error.hint }, 400);
+        if (entries.length === 0) return jsonResponse({ entries: [] });
+
+        const { data: bid } = await admin.from('bids').select('user_id').eq('id', entries[0].bid_id).single();
+        const { data: payout } = await admin
+          .from('payout_accounts')
+          .select('account_id')
+          .eq('user_id', bid?.user_id)
+          .eq('provider', provider.name)
+          .maybeSingle();
+        const { data: charge } = await admin
+          .from('payment_ledger')
+          .select('provider_reference')
+          .eq('id', entries[0].charge_id)
+          .single();
+
+        const settled = [];
+        for (const entry of entries as LedgerEntry[]) {
+          settled.push(await settle(entry, () => entry.entry_type === 'release'
+            ? provider.release({
+              entryId: entry.id,
+              jobId: entry.job_id,
+              amount: entry.amount,
+              currency: entry.currency,
+              payeeAccountId: payout?.account_id ?? null,
+            })
+            : provider.refund({
+              entryId: entry.id,
+              amount: entry.amount,
+              chargeReference: charge?.provider_reference ?? '',
+            })));
+        }
+        return jsonResponse({ entries: settled.map(({ entry }) => entry) });
+      }
+
+      default:
+        return jsonResponse({ error: `Unknown action "${action}"` }, 400);
+    }
+  } catch (error) {
+    console.error('Payment request failed:', error);
+    return jsonResponse({ error: errorMessage(error) }, 500);
+  }
+});
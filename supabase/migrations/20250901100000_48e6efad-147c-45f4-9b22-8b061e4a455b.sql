@@ -0,0 +1,132 @@
+-- Atomic bid acceptance and job status state machine
+-- Bid acceptance used to run as three separate client-side updates; a failure
+-- halfway left jobs with an accepted bid that were still open. Everything now
+-- happens inside a single server-side function call.
+
+-- 1) Normalise legacy status values written by the client ('in-progress')
+UPDATE public.jobs SET status = 'in_progress' WHERE status = 'in-progress';
+UPDATE public.jobs SET status = 'open' WHERE status IS NULL;
+
+-- 2) Legal job status transitions: open -> in_progress -> completed/cancelled. Only
+-- accept_bid starts a job, so a job in progress always has an accepted bid.
+CREATE OR REPLACE FUNCTION public.is_valid_job_status_transition(from_status text, to_status text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+SET search_path = ''
+AS $$
+  SELECT from_status = to_status
+    OR (from_status, to_status) IN (
+      VALUES
+        ('open', 'in_progress'),
+        ('open', 'cancelled'),
+        ('in_progress', 'completed'),
+        ('in_progress', 'cancelled')
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_job_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+     AND NOT public.is_valid_job_status_transition(COALESCE(OLD.status, 'open'), NEW.status) THEN
+    RAISE EXCEPTION 'Invalid job status transition from % to %', COALESCE(OLD.status, 'open'), NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- A job only starts when accept_bid accepts one of its bids
+  IF NEW.status = 'in_progress' AND COALESCE(OLD.status, 'open') = 'open'
+     AND NOT EXISTS (SELECT 1 FROM public.bids WHERE job_id = NEW.id AND status = 'accepted') THEN
+    RAISE EXCEPTION 'A job starts when one of its bids is accepted'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_jobs_status_transition
+BEFORE UPDATE OF status ON public.jobs
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_job_status_transition();
+
+-- 3) Accept a bid: accept it, reject the other pending bids and start the job
+CREATE OR REPLACE FUNCTION public.accept_bid(p_bid_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_bid public.bids%ROWTYPE;
+  v_job public.jobs%ROWTYPE;
+BEGIN
+  SELECT * INTO v_bid FROM public.bids WHERE id = p_bid_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bid not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- Lock the job so two concurrent acceptances cannot both succeed
+  SELECT * INTO v_job FROM public.jobs WHERE id = v_bid.job_id FOR UPDATE;
+
+  IF v_job.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the job owner can accept bids' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF v_job.status <> 'open' THEN
+    RAISE EXCEPTION 'This job is no longer open for bids' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF COALESCE(v_bid.status, 'pending') <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending bids can be accepted' USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.bids SET status = 'accepted' WHERE id = p_bid_id;
+
+  UPDATE public.bids
+  SET status = 'rejected'
+  WHERE job_id = v_job.id
+    AND id <> p_bid_id
+    AND COALESCE(status, 'pending') = 'pending';
+
+  UPDATE public.jobs SET status = 'in_progress' WHERE id = v_job.id;
+END;
+$$;
+
+-- 4) Reject a single pending bid (bid rows are otherwise only writable by the bidder)
+CREATE OR REPLACE FUNCTION public.reject_bid(p_bid_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_bid public.bids%ROWTYPE;
+  v_job public.jobs%ROWTYPE;
+BEGIN
+  SELECT * INTO v_bid FROM public.bids WHERE id = p_bid_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bid not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  SELECT * INTO v_job FROM public.jobs WHERE id = v_bid.job_id;
+
+  IF v_job.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the job owner can reject bids' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF COALESCE(v_bid.status, 'pending') <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending bids can be rejected' USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.bids SET status = 'rejected' WHERE id = p_bid_id;
+END;
+$$;
+
+-- 5) Only signed-in users may call the bid functions
+REVOKE EXECUTE ON FUNCTION public.accept_bid(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.reject_bid(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.accept_bid(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reject_bid(uuid) TO authenticated;
@@ -0,0 +1,159 @@
+-- Canonical job and bid status enums
+-- Status columns were free text, and the client wrote 'in-progress' while the
+-- database functions expect 'in_progress'. Both columns now use enum types.
+
+-- 1) Create the enum types
+CREATE TYPE public.job_status AS ENUM ('open', 'in_progress', 'completed', 'cancelled');
+CREATE TYPE public.bid_status AS ENUM ('pending', 'accepted', 'rejected');
+
+-- 2) Migrate existing rows to the canonical values. The status transition trigger
+-- would reject these rewrites (e.g. 'in-progress' -> 'in_progress'), and it
+-- depends on the column whose type changes below, so drop it first; step 4
+-- re-creates it.
+DROP TRIGGER IF EXISTS enforce_jobs_status_transition ON public.jobs;
+
+UPDATE public.jobs
+SET status = replace(lower(trim(status)), '-', '_')
+WHERE status IS NOT NULL;
+
+UPDATE public.jobs SET status = 'open' WHERE status IS NULL;
+UPDATE public.jobs SET status = 'cancelled' WHERE status = 'canceled';
+UPDATE public.jobs SET status = 'cancelled' WHERE status NOT IN ('open', 'in_progress', 'completed', 'cancelled');
+
+UPDATE public.bids SET status = lower(trim(status)) WHERE status IS NOT NULL;
+UPDATE public.bids SET status = 'pending' WHERE status IS NULL;
+UPDATE public.bids SET status = 'rejected' WHERE status NOT IN ('pending', 'accepted', 'rejected');
+
+-- 3) Switch the columns to the enum types
+ALTER TABLE public.jobs
+  ALTER COLUMN status DROP DEFAULT,
+  ALTER COLUMN status TYPE public.job_status USING status::public.job_status,
+  ALTER COLUMN status SET DEFAULT 'open',
+  ALTER COLUMN status SET NOT NULL;
+
+ALTER TABLE public.bids
+  ALTER COLUMN status DROP DEFAULT,
+  ALTER COLUMN status TYPE public.bid_status USING status::public.bid_status,
+  ALTER COLUMN status SET DEFAULT 'pending',
+  ALTER COLUMN status SET NOT NULL;
+
+-- 4) Re-create the transition check against the enum type
+DROP FUNCTION IF EXISTS public.is_valid_job_status_transition(text, text);
+
+CREATE OR REPLACE FUNCTION public.is_valid_job_status_transition(
+  from_status public.job_status,
+  to_status public.job_status
+)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+SET search_path = ''
+AS $$
+  SELECT from_status = to_status
+    OR (from_status, to_status) IN (
+      VALUES
+        ('open'::public.job_status, 'in_progress'::public.job_status),
+        ('open'::public.job_status, 'cancelled'::public.job_status),
+        ('in_progress'::public.job_status, 'completed'::public.job_status),
+        ('in_progress'::public.job_status, 'cancelled'::public.job_status)
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_job_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+     AND NOT public.is_valid_job_status_transition(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Invalid job status transition from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- A job only starts when accept_bid accepts one of its bids
+  IF NEW.status = 'in_progress' AND OLD.status = 'open'
+     AND NOT EXISTS (SELECT 1 FROM public.bids WHERE job_id = NEW.id AND status = 'accepted') THEN
+    RAISE EXCEPTION 'A job starts when one of its bids is accepted'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_jobs_status_transition
+BEFORE UPDATE OF status ON public.jobs
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_job_status_transition();
+
+-- 5) Bid functions no longer need to treat NULL as pending
+CREATE OR REPLACE FUNCTION public.accept_bid(p_bid_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_bid public.bids%ROWTYPE;
+  v_job public.jobs%ROWTYPE;
+BEGIN
+  SELECT * INTO v_bid FROM public.bids WHERE id = p_bid_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bid not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- Lock the job so two concurrent acceptances cannot both succeed
+  SELECT * INTO v_job FROM public.jobs WHERE id = v_bid.job_id FOR UPDATE;
+
+  IF v_job.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the job owner can accept bids' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF v_job.status <> 'open' THEN
+    RAISE EXCEPTION 'This job is no longer open for bids' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF v_bid.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending bids can be accepted' USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.bids SET status = 'accepted' WHERE id = p_bid_id;
+
+  UPDATE public.bids
+  SET status = 'rejected'
+  WHERE job_id = v_job.id
+    AND id <> p_bid_id
+    AND status = 'pending';
+
+  UPDATE public.jobs SET status = 'in_progress' WHERE id = v_job.id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reject_bid(p_bid_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_bid public.bids%ROWTYPE;
+  v_job public.jobs%ROWTYPE;
+BEGIN
+  SELECT * INTO v_bid FROM public.bids WHERE id = p_bid_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bid not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  SELECT * INTO v_job FROM public.jobs WHERE id = v_bid.job_id;
+
+  IF v_job.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the job owner can reject bids' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF v_bid.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending bids can be rejected' USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE public.bids SET status = 'rejected' WHERE id = p_bid_id;
+END;
+$$;
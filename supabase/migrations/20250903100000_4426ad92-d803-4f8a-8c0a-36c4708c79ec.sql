@@ -0,0 +1,72 @@
+-- Server-enforced role permissions for jobs and bids
+-- The client hides menu items by role, but the jobs INSERT/UPDATE policies were
+-- still WITH CHECK (true) / USING (true), so any user could create jobs for someone
+-- else or change the status of any job. These policies mirror ROLE_PERMISSIONS in
+-- src/lib/permissions.ts.
+
+-- 1) Role of the calling user (NULL for anonymous callers or users without a profile)
+CREATE OR REPLACE FUNCTION public.current_user_role()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT role FROM public.profiles WHERE user_id = auth.uid();
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.current_user_role() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.current_user_role() TO authenticated;
+
+-- 2) Jobs: only job posters can create jobs, and only for themselves
+DROP POLICY IF EXISTS "Users can create jobs" ON public.jobs;
+CREATE POLICY "Job posters can create their own jobs"
+ON public.jobs
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND public.current_user_role() = 'job_poster'
+);
+
+-- 3) Jobs: only the owner can update a job, and cannot hand it to someone else
+DROP POLICY IF EXISTS "Users can update their own jobs" ON public.jobs;
+CREATE POLICY "Users can update their own jobs"
+ON public.jobs
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- 4) Bids: only professionals can bid, never on their own jobs
+DROP POLICY IF EXISTS "Users can create bids on jobs they don't own" ON public.bids;
+CREATE POLICY "Professionals can create bids on jobs they don't own"
+ON public.bids
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND public.current_user_role() = 'professional'
+  AND public.user_is_not_job_poster(auth.uid(), job_id)
+);
+
+-- 5) Profiles: the role is chosen at sign-up and cannot be changed by the user,
+-- otherwise anyone could switch role to get past the policies above
+CREATE OR REPLACE FUNCTION public.prevent_profile_role_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role AND auth.uid() IS NOT NULL THEN
+    RAISE EXCEPTION 'Profile role cannot be changed'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_profiles_role_change
+BEFORE UPDATE OF role ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_profile_role_change();
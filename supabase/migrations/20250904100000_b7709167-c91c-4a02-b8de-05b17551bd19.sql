@@ -0,0 +1,163 @@
+-- Reviews and ratings
+-- professionals.rating / review_count / completed_jobs used to be seed values that
+-- nothing kept up to date. Job posters can now review the professional whose bid
+-- they accepted, once per job, after the job is completed; triggers keep the
+-- aggregate columns on professionals in sync.
+
+-- 1) Reviews table - one review per job
+CREATE TABLE public.reviews (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID NOT NULL UNIQUE REFERENCES public.jobs(id) ON DELETE CASCADE,
+  bid_id UUID NOT NULL REFERENCES public.bids(id) ON DELETE CASCADE,
+  reviewer_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  reviewer_name TEXT,
+  professional_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  comment TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_reviews_professional_user_id ON public.reviews(professional_user_id);
+CREATE INDEX idx_reviews_reviewer_id ON public.reviews(reviewer_id);
+
+ALTER TABLE public.reviews ENABLE ROW LEVEL SECURITY;
+
+-- Reviews are public so they can be shown on professional profiles
+CREATE POLICY "Reviews are viewable by everyone"
+ON public.reviews
+FOR SELECT
+USING (true);
+
+-- The remaining checks (job owner, completed, accepted bid) live in the trigger below
+CREATE POLICY "Job posters can review their own jobs"
+ON public.reviews
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = reviewer_id);
+
+CREATE TRIGGER update_reviews_updated_at
+BEFORE UPDATE ON public.reviews
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 2) Validate new reviews and fill in the reviewed professional from the accepted bid
+CREATE OR REPLACE FUNCTION public.prepare_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_job public.jobs%ROWTYPE;
+  v_bid public.bids%ROWTYPE;
+BEGIN
+  SELECT * INTO v_job FROM public.jobs WHERE id = NEW.job_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Job not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_job.user_id IS DISTINCT FROM NEW.reviewer_id THEN
+    RAISE EXCEPTION 'Only the job owner can leave a review' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF v_job.status <> 'completed' THEN
+    RAISE EXCEPTION 'Jobs can only be reviewed once they are completed' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO v_bid FROM public.bids WHERE job_id = v_job.id AND status = 'accepted';
+  IF NOT FOUND OR v_bid.user_id IS NULL THEN
+    RAISE EXCEPTION 'This job has no accepted bid to review' USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.bid_id := v_bid.id;
+  NEW.professional_user_id := v_bid.user_id;
+  NEW.reviewer_name := (SELECT full_name FROM public.profiles WHERE user_id = NEW.reviewer_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_reviews_insert
+BEFORE INSERT ON public.reviews
+FOR EACH ROW
+EXECUTE FUNCTION public.prepare_review();
+
+-- 3) Recompute a professional's rating, review count and completed jobs
+CREATE OR REPLACE FUNCTION public.refresh_professional_stats(p_user_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  UPDATE public.professionals p
+  SET
+    rating = COALESCE((
+      SELECT round(avg(r.rating), 1) FROM public.reviews r WHERE r.professional_user_id = p_user_id
+    ), 0),
+    review_count = (
+      SELECT count(*) FROM public.reviews r WHERE r.professional_user_id = p_user_id
+    ),
+    completed_jobs = (
+      SELECT count(*)
+      FROM public.jobs j
+      JOIN public.bids b ON b.job_id = j.id AND b.status = 'accepted'
+      WHERE j.status = 'completed' AND b.user_id = p_user_id
+    )
+  WHERE p.user_id = p_user_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_professional_stats(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.refresh_professional_stats_from_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.refresh_professional_stats(OLD.professional_user_id);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM public.refresh_professional_stats(NEW.professional_user_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_professional_stats_on_review
+AFTER INSERT OR UPDATE OR DELETE ON public.reviews
+FOR EACH ROW
+EXECUTE FUNCTION public.refresh_professional_stats_from_review();
+
+CREATE OR REPLACE FUNCTION public.refresh_professional_stats_from_job()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_professional_user_id uuid;
+BEGIN
+  IF (OLD.status = 'completed') <> (NEW.status = 'completed') THEN
+    SELECT user_id INTO v_professional_user_id
+    FROM public.bids
+    WHERE job_id = NEW.id AND status = 'accepted';
+
+    IF v_professional_user_id IS NOT NULL THEN
+      PERFORM public.refresh_professional_stats(v_professional_user_id);
+    END IF;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_professional_stats_on_job_status
+AFTER UPDATE OF status ON public.jobs
+FOR EACH ROW
+EXECUTE FUNCTION public.refresh_professional_stats_from_job();
+
+-- 4) Replace the seed values for professionals linked to a user account
+SELECT public.refresh_professional_stats(user_id)
+FROM public.professionals
+WHERE user_id IS NOT NULL;
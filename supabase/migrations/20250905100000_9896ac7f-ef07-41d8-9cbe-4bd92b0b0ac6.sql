@@ -0,0 +1,148 @@
+-- Professional profile pages: portfolio photos, job history and invitations to bid
+
+-- 1) Portfolio items - photos of past work, stored in the "portfolio" bucket
+CREATE TABLE public.portfolio_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  professional_id UUID NOT NULL REFERENCES public.professionals(id) ON DELETE CASCADE,
+  image_path TEXT NOT NULL,
+  caption TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_portfolio_items_professional_id ON public.portfolio_items(professional_id);
+
+ALTER TABLE public.portfolio_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Portfolio items are viewable by everyone"
+ON public.portfolio_items
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Professionals can add to their own portfolio"
+ON public.portfolio_items
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.professionals p
+    WHERE p.id = professional_id AND p.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Professionals can remove from their own portfolio"
+ON public.portfolio_items
+FOR DELETE
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.professionals p
+    WHERE p.id = professional_id AND p.user_id = auth.uid()
+  )
+);
+
+-- Public bucket; each user uploads into a folder named after their auth user id
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('portfolio', 'portfolio', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Portfolio images are publicly readable"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'portfolio');
+
+CREATE POLICY "Users can upload portfolio images to their own folder"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'portfolio'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users can delete their own portfolio images"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'portfolio'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+-- 2) Job history - completed jobs won by a professional
+-- Bids are only visible to the bidder and the job owner, so this exposes just the
+-- public job fields (and the review rating, if any) through a definer function
+CREATE OR REPLACE FUNCTION public.get_professional_job_history(p_professional_id uuid)
+RETURNS TABLE (
+  job_id uuid,
+  title text,
+  category text,
+  location text,
+  completed_at timestamp with time zone,
+  rating smallint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT j.id, j.title, j.category, j.location, j.updated_at, r.rating
+  FROM public.professionals p
+  JOIN public.bids b ON b.user_id = p.user_id AND b.status = 'accepted'
+  JOIN public.jobs j ON j.id = b.job_id AND j.status = 'completed'
+  LEFT JOIN public.reviews r ON r.job_id = j.id
+  WHERE p.id = p_professional_id
+  ORDER BY j.updated_at DESC;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_professional_job_history(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_professional_job_history(uuid) TO authenticated;
+
+-- 3) Invitations - a job poster asks a professional to bid on one of their open jobs
+CREATE TABLE public.job_invitations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  professional_id UUID NOT NULL REFERENCES public.professionals(id) ON DELETE CASCADE,
+  invited_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (job_id, professional_id)
+);
+
+CREATE INDEX idx_job_invitations_professional_id ON public.job_invitations(professional_id);
+
+ALTER TABLE public.job_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Invitations visible to the inviter and the invited professional"
+ON public.job_invitations
+FOR SELECT
+TO authenticated
+USING (
+  auth.uid() = invited_by
+  OR EXISTS (
+    SELECT 1 FROM public.professionals p
+    WHERE p.id = professional_id AND p.user_id = auth.uid()
+  )
+);
+
+-- Only for the poster's own open jobs, and only professionals with an account
+CREATE POLICY "Job owners can invite professionals to their open jobs"
+ON public.job_invitations
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = invited_by
+  AND EXISTS (
+    SELECT 1 FROM public.jobs j
+    WHERE j.id = job_id AND j.user_id = auth.uid() AND j.status = 'open'
+  )
+  AND EXISTS (
+    SELECT 1 FROM public.professionals p
+    WHERE p.id = professional_id AND p.user_id IS NOT NULL AND p.user_id <> auth.uid()
+  )
+);
+
+CREATE POLICY "Job owners can withdraw their invitations"
+ON public.job_invitations
+FOR DELETE
+TO authenticated
+USING (auth.uid() = invited_by);
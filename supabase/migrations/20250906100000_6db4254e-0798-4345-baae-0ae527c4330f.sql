@@ -0,0 +1,82 @@
+-- Professional self-onboarding
+-- Signing up as a professional only created a profiles row, so new tradespeople
+-- never appeared in the professionals directory. Professionals now create and edit
+-- their own professionals row (one per user), with an avatar and contact preference.
+
+-- 1) One professionals row per user, so the client can upsert on user_id
+ALTER TABLE public.professionals
+ADD CONSTRAINT professionals_user_id_key UNIQUE (user_id);
+
+-- 2) How the professional prefers to be contacted
+ALTER TABLE public.professionals
+ADD COLUMN preferred_contact TEXT NOT NULL DEFAULT 'message'
+  CHECK (preferred_contact IN ('message', 'email', 'phone'));
+
+-- 3) Only the owner can create or edit their row; creating one requires the professional role
+DROP POLICY IF EXISTS "Users can create professional profiles" ON public.professionals;
+DROP POLICY IF EXISTS "Users can update their own professional profiles" ON public.professionals;
+
+CREATE POLICY "Professionals can create their own profile"
+ON public.professionals
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND public.current_user_role() = 'professional'
+);
+
+CREATE POLICY "Professionals can update their own profile"
+ON public.professionals
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- 4) Verification and the review/job aggregates are maintained by the platform,
+-- so users may only write the self-described columns
+REVOKE INSERT, UPDATE ON public.professionals FROM anon, authenticated;
+GRANT INSERT (
+  user_id, name, title, description, location, skills, experience_years,
+  hourly_rate, response_time, phone, email, avatar_url, preferred_contact
+) ON public.professionals TO authenticated;
+GRANT UPDATE (
+  name, title, description, location, skills, experience_years,
+  hourly_rate, response_time, phone, email, avatar_url, preferred_contact
+) ON public.professionals TO authenticated;
+
+-- 5) Avatars - public bucket, each user uploads into a folder named after their auth user id
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('avatars', 'avatars', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Avatars are publicly readable"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'avatars');
+
+CREATE POLICY "Users can upload avatars to their own folder"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'avatars'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users can replace their own avatars"
+ON storage.objects
+FOR UPDATE
+TO authenticated
+USING (
+  bucket_id = 'avatars'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users can delete their own avatars"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'avatars'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
@@ -0,0 +1,90 @@
+-- Photo attachments on job posts
+-- Images live in the public "job-photos" bucket under a folder named after the job
+-- id; job_photos records them in display order. Only the job owner can add or
+-- remove photos, both in the table and in storage.
+
+-- 1) Job photos table
+CREATE TABLE public.job_photos (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  image_path TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_job_photos_job_id ON public.job_photos(job_id, position);
+
+ALTER TABLE public.job_photos ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Job photos are viewable by everyone"
+ON public.job_photos
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Job owners can add photos"
+ON public.job_photos
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.jobs j
+    WHERE j.id = job_id AND j.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Job owners can remove photos"
+ON public.job_photos
+FOR DELETE
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.jobs j
+    WHERE j.id = job_id AND j.user_id = auth.uid()
+  )
+);
+
+-- 2) Storage bucket - 5 MB per image; the client resizes to well under that
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('job-photos', 'job-photos', true, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+-- True when the first folder of an object path is a job owned by the caller
+CREATE OR REPLACE FUNCTION public.owns_job_folder(p_object_name text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.jobs j
+    WHERE j.id::text = (storage.foldername(p_object_name))[1]
+      AND j.user_id = auth.uid()
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.owns_job_folder(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.owns_job_folder(text) TO authenticated;
+
+CREATE POLICY "Job photos are publicly readable"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'job-photos');
+
+CREATE POLICY "Job owners can upload job photos"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'job-photos'
+  AND public.owns_job_folder(name)
+);
+
+CREATE POLICY "Job owners can delete job photos"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'job-photos'
+  AND public.owns_job_folder(name)
+);
@@ -0,0 +1,18 @@
+-- Server-side job search
+-- Browse Jobs used to download every open job and filter in the browser. Filtering,
+-- sorting and pagination now run in Postgres; free-text search matches a weighted
+-- tsvector over title and description.
+
+-- 1) Full-text search column - kept in sync by Postgres, title matches rank above description
+ALTER TABLE public.jobs
+ADD COLUMN search_vector tsvector
+GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(description, '')), 'B')
+) STORED;
+
+CREATE INDEX idx_jobs_search_vector ON public.jobs USING GIN (search_vector);
+
+-- 2) Indexes for the default listing (open jobs, newest first) and the category filter
+CREATE INDEX idx_jobs_status_created_at ON public.jobs(status, created_at DESC);
+CREATE INDEX idx_jobs_status_category ON public.jobs(status, category);
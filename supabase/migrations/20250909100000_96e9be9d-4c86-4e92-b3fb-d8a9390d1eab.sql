@@ -0,0 +1,97 @@
+-- Budget model
+-- A job's budget is one of three shapes, named by budget_type:
+--   fixed  - a single amount (budget_min = budget_max)
+--   range  - budget_min up to budget_max; a NULL budget_max means open-ended ("$5,000+")
+--   hourly - a rate range and an estimated number of hours; budget_min / budget_max
+--            hold the resulting total estimate so search and sorting treat every job alike
+-- All amounts are in cents. Check constraints reject budgets that don't fit their type.
+
+-- 1) Hourly budget columns
+ALTER TABLE public.jobs
+ADD COLUMN hourly_rate_min INTEGER,
+ADD COLUMN hourly_rate_max INTEGER,
+ADD COLUMN estimated_hours INTEGER;
+
+-- 2) Clean up existing rows so they satisfy the constraints below
+UPDATE public.jobs
+SET budget_type = 'range'
+WHERE budget_type IS NULL OR budget_type NOT IN ('fixed', 'range', 'hourly');
+
+-- The old form saved "Hourly Rate" as 0 / 0 with no rate; keep those as open budgets
+UPDATE public.jobs
+SET budget_type = 'range', budget_min = 0, budget_max = NULL
+WHERE budget_type = 'hourly';
+
+UPDATE public.jobs
+SET budget_min = 0
+WHERE budget_min IS NULL OR budget_min < 0;
+
+-- A 0 maximum meant "no upper limit"
+UPDATE public.jobs
+SET budget_max = NULL
+WHERE budget_max = 0 OR budget_max < budget_min;
+
+UPDATE public.jobs
+SET budget_type = 'fixed'
+WHERE budget_type = 'range' AND budget_min > 0 AND budget_max = budget_min;
+
+UPDATE public.jobs
+SET budget_type = 'range'
+WHERE budget_type = 'fixed' AND (budget_min = 0 OR budget_max IS DISTINCT FROM budget_min);
+
+-- 3) Derive the stored totals from the budget's own fields
+CREATE OR REPLACE FUNCTION public.normalize_job_budget()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.budget_type = 'hourly' THEN
+    NEW.budget_min := NEW.hourly_rate_min * NEW.estimated_hours;
+    NEW.budget_max := NEW.hourly_rate_max * NEW.estimated_hours;
+  ELSE
+    NEW.hourly_rate_min := NULL;
+    NEW.hourly_rate_max := NULL;
+    NEW.estimated_hours := NULL;
+    IF NEW.budget_type = 'fixed' THEN
+      NEW.budget_max := NEW.budget_min;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER normalize_jobs_budget
+BEFORE INSERT OR UPDATE ON public.jobs
+FOR EACH ROW
+EXECUTE FUNCTION public.normalize_job_budget();
+
+-- 4) Constraints
+ALTER TABLE public.jobs
+ALTER COLUMN budget_type SET NOT NULL,
+ALTER COLUMN budget_min SET DEFAULT 0,
+ALTER COLUMN budget_min SET NOT NULL;
+
+ALTER TABLE public.jobs
+ADD CONSTRAINT jobs_budget_type_check
+CHECK (budget_type IN ('fixed', 'range', 'hourly'));
+
+ALTER TABLE public.jobs
+ADD CONSTRAINT jobs_budget_check
+CHECK (
+  COALESCE(
+    CASE budget_type
+      WHEN 'fixed' THEN
+        budget_min > 0 AND budget_max = budget_min
+      WHEN 'range' THEN
+        budget_min >= 0 AND (budget_max IS NULL OR budget_max > budget_min)
+      WHEN 'hourly' THEN
+        hourly_rate_min > 0
+        AND hourly_rate_max >= hourly_rate_min
+        AND estimated_hours > 0
+        AND budget_min = hourly_rate_min * estimated_hours
+        AND budget_max = hourly_rate_max * estimated_hours
+    END,
+    false
+  )
+);
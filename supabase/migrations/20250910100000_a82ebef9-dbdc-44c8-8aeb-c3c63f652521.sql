@@ -0,0 +1,217 @@
+-- Bid negotiation: revisions, withdrawal and counter-offers
+-- Bids used to be insert-only. While a bid is pending the professional can now
+-- revise or withdraw it and the job owner can send counter-offers. Every step is
+-- recorded in bid_revisions so both sides see the full history. Bid rows are only
+-- changed through the functions below; the old "update your own bid" policy let a
+-- bidder set any column, including status.
+
+-- 1) Withdrawn bid status
+ALTER TYPE public.bid_status ADD VALUE IF NOT EXISTS 'withdrawn';
+
+DROP POLICY IF EXISTS "Users can update their own bids" ON public.bids;
+
+-- 2) Revision history
+CREATE TABLE public.bid_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  bid_id UUID NOT NULL REFERENCES public.bids(id) ON DELETE CASCADE,
+  author_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('submitted', 'revised', 'countered', 'withdrawn')),
+  amount INTEGER,
+  hourly_rate INTEGER,
+  estimated_hours INTEGER,
+  message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_bid_revisions_bid_id ON public.bid_revisions(bid_id, created_at);
+
+ALTER TABLE public.bid_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Same audience as the bid itself; rows are only written by the functions below
+CREATE POLICY "Bid revisions visible to job owner and bidder"
+ON public.bid_revisions
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.bids b
+    JOIN public.jobs j ON j.id = b.job_id
+    WHERE b.id = bid_id
+      AND (b.user_id = auth.uid() OR j.user_id = auth.uid())
+  )
+);
+
+-- Existing bids start their history with the original submission
+INSERT INTO public.bid_revisions (bid_id, author_id, kind, amount, hourly_rate, estimated_hours, message, created_at)
+SELECT id, user_id, 'submitted', amount, hourly_rate, estimated_hours, message, created_at
+FROM public.bids;
+
+-- 3) Record every new bid as its first revision
+CREATE OR REPLACE FUNCTION public.record_bid_submission()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  INSERT INTO public.bid_revisions (bid_id, author_id, kind, amount, hourly_rate, estimated_hours, message)
+  VALUES (NEW.id, NEW.user_id, 'submitted', NEW.amount, NEW.hourly_rate, NEW.estimated_hours, NEW.message);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_bids_submission
+AFTER INSERT ON public.bids
+FOR EACH ROW
+EXECUTE FUNCTION public.record_bid_submission();
+
+-- 4) Lock a bid that is still open for negotiation, checking the caller's side of it
+CREATE OR REPLACE FUNCTION public.lock_negotiable_bid(p_bid_id uuid, p_as_job_owner boolean)
+RETURNS public.bids
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_bid public.bids%ROWTYPE;
+  v_job public.jobs%ROWTYPE;
+BEGIN
+  SELECT * INTO v_bid FROM public.bids WHERE id = p_bid_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bid not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  SELECT * INTO v_job FROM public.jobs WHERE id = v_bid.job_id;
+
+  IF p_as_job_owner AND v_job.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the job owner can send a counter-offer' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NOT p_as_job_owner AND v_bid.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the professional who placed this bid can change it' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF v_bid.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending bids can be changed' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF v_job.status <> 'open' THEN
+    RAISE EXCEPTION 'This job is no longer open for bids' USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN v_bid;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.lock_negotiable_bid(uuid, boolean) FROM PUBLIC, anon, authenticated;
+
+-- Total for an offer: rate x hours when both are given, otherwise the flat amount
+CREATE OR REPLACE FUNCTION public.bid_offer_amount(p_amount integer, p_hourly_rate integer, p_estimated_hours integer)
+RETURNS integer
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = ''
+AS $$
+DECLARE
+  v_amount integer := CASE
+    WHEN p_hourly_rate IS NOT NULL AND p_estimated_hours IS NOT NULL THEN p_hourly_rate * p_estimated_hours
+    ELSE p_amount
+  END;
+BEGIN
+  IF v_amount IS NULL OR v_amount <= 0 THEN
+    RAISE EXCEPTION 'An offer needs an amount greater than zero' USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN v_amount;
+END;
+$$;
+
+-- 5) Professional revises the amount, hours or message of their pending bid
+CREATE OR REPLACE FUNCTION public.revise_bid(
+  p_bid_id uuid,
+  p_amount integer,
+  p_hourly_rate integer DEFAULT NULL,
+  p_estimated_hours integer DEFAULT NULL,
+  p_message text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_bid public.bids%ROWTYPE;
+  v_amount integer;
+BEGIN
+  v_bid := public.lock_negotiable_bid(p_bid_id, false);
+  v_amount := public.bid_offer_amount(p_amount, p_hourly_rate, p_estimated_hours);
+
+  UPDATE public.bids
+  SET amount = v_amount,
+      hourly_rate = p_hourly_rate,
+      estimated_hours = p_estimated_hours,
+      message = COALESCE(p_message, message)
+  WHERE id = v_bid.id;
+
+  INSERT INTO public.bid_revisions (bid_id, author_id, kind, amount, hourly_rate, estimated_hours, message)
+  VALUES (v_bid.id, auth.uid(), 'revised', v_amount, p_hourly_rate, p_estimated_hours, p_message);
+END;
+$$;
+
+-- 6) Professional withdraws their pending bid
+CREATE OR REPLACE FUNCTION public.withdraw_bid(p_bid_id uuid, p_message text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_bid public.bids%ROWTYPE;
+BEGIN
+  v_bid := public.lock_negotiable_bid(p_bid_id, false);
+
+  UPDATE public.bids SET status = 'withdrawn' WHERE id = v_bid.id;
+
+  INSERT INTO public.bid_revisions (bid_id, author_id, kind, message)
+  VALUES (v_bid.id, auth.uid(), 'withdrawn', p_message);
+END;
+$$;
+
+-- 7) Job owner proposes different terms; the bid itself is unchanged until the
+--    professional revises it to match
+CREATE OR REPLACE FUNCTION public.counter_bid(
+  p_bid_id uuid,
+  p_amount integer,
+  p_hourly_rate integer DEFAULT NULL,
+  p_estimated_hours integer DEFAULT NULL,
+  p_message text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_bid public.bids%ROWTYPE;
+BEGIN
+  v_bid := public.lock_negotiable_bid(p_bid_id, true);
+
+  INSERT INTO public.bid_revisions (bid_id, author_id, kind, amount, hourly_rate, estimated_hours, message)
+  VALUES (
+    v_bid.id,
+    auth.uid(),
+    'countered',
+    public.bid_offer_amount(p_amount, p_hourly_rate, p_estimated_hours),
+    p_hourly_rate,
+    p_estimated_hours,
+    p_message
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.revise_bid(uuid, integer, integer, integer, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.withdraw_bid(uuid, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.counter_bid(uuid, integer, integer, integer, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.revise_bid(uuid, integer, integer, integer, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.withdraw_bid(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.counter_bid(uuid, integer, integer, integer, text) TO authenticated;
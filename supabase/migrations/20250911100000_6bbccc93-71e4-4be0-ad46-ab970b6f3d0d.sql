@@ -0,0 +1,90 @@
+-- Bid eligibility rules
+-- A professional may hold one active (pending or accepted) bid per job, only on
+-- open jobs whose optional bid deadline hasn't passed, and never on their own job.
+-- Violations raise an error whose HINT is a stable code the client maps to a
+-- message (see src/lib/bidEligibility.ts):
+--   job_not_found, job_not_open, bid_deadline_passed, not_professional, own_job, duplicate_bid
+
+-- 1) Optional bid deadline per job
+ALTER TABLE public.jobs
+ADD COLUMN bid_deadline TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.jobs
+ADD CONSTRAINT jobs_bid_deadline_check
+CHECK (bid_deadline IS NULL OR bid_deadline > created_at);
+
+-- 2) One active bid per professional per job
+-- Earlier duplicates are withdrawn, keeping the accepted bid or else the newest pending one
+UPDATE public.bids b
+SET status = 'withdrawn'
+WHERE b.status = 'pending'
+  AND b.user_id IS NOT NULL
+  AND EXISTS (
+    SELECT 1 FROM public.bids other
+    WHERE other.job_id = b.job_id
+      AND other.user_id = b.user_id
+      AND other.id <> b.id
+      AND (
+        other.status = 'accepted'
+        OR (other.status = 'pending' AND (other.created_at, other.id) > (b.created_at, b.id))
+      )
+  );
+
+CREATE UNIQUE INDEX bids_one_active_per_professional
+ON public.bids(job_id, user_id)
+WHERE status IN ('pending', 'accepted');
+
+-- 3) Check every new bid and explain why it isn't allowed
+CREATE OR REPLACE FUNCTION public.check_bid_eligibility()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_job public.jobs%ROWTYPE;
+BEGIN
+  SELECT * INTO v_job FROM public.jobs WHERE id = NEW.job_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This job no longer exists'
+      USING ERRCODE = 'no_data_found', HINT = 'job_not_found';
+  END IF;
+
+  IF (SELECT role FROM public.profiles WHERE user_id = NEW.user_id) IS DISTINCT FROM 'professional' THEN
+    RAISE EXCEPTION 'Only professionals can submit bids'
+      USING ERRCODE = 'insufficient_privilege', HINT = 'not_professional';
+  END IF;
+
+  IF v_job.user_id = NEW.user_id THEN
+    RAISE EXCEPTION 'You can''t bid on your own job'
+      USING ERRCODE = 'insufficient_privilege', HINT = 'own_job';
+  END IF;
+
+  IF v_job.status <> 'open' THEN
+    RAISE EXCEPTION 'This job is no longer accepting bids'
+      USING ERRCODE = 'check_violation', HINT = 'job_not_open';
+  END IF;
+
+  IF v_job.bid_deadline IS NOT NULL AND v_job.bid_deadline <= now() THEN
+    RAISE EXCEPTION 'The bidding deadline for this job has passed'
+      USING ERRCODE = 'check_violation', HINT = 'bid_deadline_passed';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.bids
+    WHERE job_id = NEW.job_id
+      AND user_id = NEW.user_id
+      AND status IN ('pending', 'accepted')
+  ) THEN
+    RAISE EXCEPTION 'You already have an active bid on this job'
+      USING ERRCODE = 'unique_violation', HINT = 'duplicate_bid';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_bids_eligibility
+BEFORE INSERT ON public.bids
+FOR EACH ROW
+EXECUTE FUNCTION public.check_bid_eligibility();
@@ -0,0 +1,5 @@
+-- Expired job status
+-- Open jobs whose bid deadline passes without an accepted bid are marked expired
+-- (see the next migration). New enum values can't be used in the transaction that
+-- adds them, so the value gets a migration of its own.
+ALTER TYPE public.job_status ADD VALUE IF NOT EXISTS 'expired';
@@ -0,0 +1,92 @@
+-- Job schedules and automatic closing
+-- Posters can give a desired start / completion date range alongside the optional
+-- bid deadline. A pg_cron job runs close_expired_jobs every five minutes: open jobs
+-- past their deadline with no accepted bid become expired and their pending bids
+-- are rejected. Between runs the bid eligibility trigger already refuses late bids,
+-- so the schedule only decides how soon the status catches up.
+
+-- 1) Desired schedule
+ALTER TABLE public.jobs
+ADD COLUMN desired_start_date DATE,
+ADD COLUMN desired_completion_date DATE;
+
+ALTER TABLE public.jobs
+ADD CONSTRAINT jobs_desired_dates_check
+CHECK (
+  desired_start_date IS NULL
+  OR desired_completion_date IS NULL
+  OR desired_completion_date >= desired_start_date
+);
+
+-- Finds the jobs the sweep has to look at
+CREATE INDEX idx_jobs_open_bid_deadline
+ON public.jobs(bid_deadline)
+WHERE status = 'open' AND bid_deadline IS NOT NULL;
+
+-- 2) open -> expired is a legal transition
+CREATE OR REPLACE FUNCTION public.is_valid_job_status_transition(
+  from_status public.job_status,
+  to_status public.job_status
+)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+SET search_path = ''
+AS $$
+  SELECT from_status = to_status
+    OR (from_status, to_status) IN (
+      VALUES
+        ('open'::public.job_status, 'in_progress'::public.job_status),
+        ('open'::public.job_status, 'cancelled'::public.job_status),
+        ('open'::public.job_status, 'expired'::public.job_status),
+        ('in_progress'::public.job_status, 'completed'::public.job_status),
+        ('in_progress'::public.job_status, 'cancelled'::public.job_status)
+    );
+$$;
+
+-- 3) Close jobs whose bidding deadline has passed; returns how many were expired
+CREATE OR REPLACE FUNCTION public.close_expired_jobs()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_expired uuid[];
+BEGIN
+  WITH expired AS (
+    UPDATE public.jobs j
+    SET status = 'expired'
+    WHERE j.status = 'open'
+      AND j.bid_deadline <= now()
+      AND NOT EXISTS (
+        SELECT 1 FROM public.bids b
+        WHERE b.job_id = j.id AND b.status = 'accepted'
+      )
+    RETURNING j.id
+  )
+  SELECT COALESCE(array_agg(id), '{}') INTO v_expired FROM expired;
+
+  -- Nobody can accept these any more
+  UPDATE public.bids
+  SET status = 'rejected'
+  WHERE job_id = ANY (v_expired)
+    AND status = 'pending';
+
+  RETURN cardinality(v_expired);
+END;
+$$;
+
+-- Only the scheduler runs the sweep
+REVOKE EXECUTE ON FUNCTION public.close_expired_jobs() FROM PUBLIC, anon, authenticated;
+
+-- 4) Schedule
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+GRANT USAGE ON SCHEMA cron TO postgres;
+
+SELECT cron.schedule(
+  'close-expired-jobs',
+  '*/5 * * * *',
+  'SELECT public.close_expired_jobs()'
+);
@@ -0,0 +1,309 @@
+-- Job editing, reposting and soft deletion
+-- Posters can edit an open job's details; every edit is written to job_changes so
+-- professionals who already bid can see what changed. A closed job (expired,
+-- cancelled or completed) can be reposted as a new open job. Jobs are never hard
+-- deleted: delete_job sets deleted_at, and the job's bids, conversations and
+-- history stay in place for audit. A deleted job is hidden from everyone but the
+-- people involved in it.
+-- Refusals carry a HINT code like the bid eligibility checks:
+--   job_not_found, not_job_owner, job_locked, job_lineage, job_in_progress,
+--   job_not_closed, job_deleted
+
+-- 1) Soft deletion and repost lineage
+ALTER TABLE public.jobs
+ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN reposted_from UUID REFERENCES public.jobs(id) ON DELETE SET NULL;
+
+-- 2) The details a poster edits (and bidders care about), as one JSON object.
+-- The budget and desired dates are grouped so a change log entry always holds the
+-- whole before / after value rather than the one column that moved.
+CREATE OR REPLACE FUNCTION public.job_content(j public.jobs)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+SET search_path = ''
+AS $$
+  SELECT jsonb_build_object(
+    'title', j.title,
+    'description', j.description,
+    'category', j.category,
+    'location', j.location,
+    'timeline', j.timeline,
+    'budget', jsonb_build_object(
+      'budget_type', j.budget_type,
+      'budget_min', j.budget_min,
+      'budget_max', j.budget_max,
+      'hourly_rate_min', j.hourly_rate_min,
+      'hourly_rate_max', j.hourly_rate_max,
+      'estimated_hours', j.estimated_hours
+    ),
+    'bid_deadline', j.bid_deadline,
+    'desired_dates', jsonb_build_object(
+      'desired_start_date', j.desired_start_date,
+      'desired_completion_date', j.desired_completion_date
+    )
+  );
+$$;
+
+-- 3) Only open, non-deleted jobs can be edited. deleted_at and reposted_from are
+-- only set by delete_job and repost_job below (which run as the table owner), never
+-- by a direct write from the API.
+CREATE OR REPLACE FUNCTION public.guard_job_edits()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF current_user = 'authenticated' AND (
+    (TG_OP = 'INSERT' AND (NEW.deleted_at IS NOT NULL OR NEW.reposted_from IS NOT NULL))
+    OR (TG_OP = 'UPDATE' AND (NEW.deleted_at IS DISTINCT FROM OLD.deleted_at
+                              OR NEW.reposted_from IS DISTINCT FROM OLD.reposted_from))
+  ) THEN
+    RAISE EXCEPTION 'Jobs are deleted and reposted with delete_job and repost_job'
+      USING ERRCODE = 'insufficient_privilege', HINT = 'job_lineage';
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+     AND public.job_content(NEW) IS DISTINCT FROM public.job_content(OLD)
+     AND (OLD.status <> 'open' OR OLD.deleted_at IS NOT NULL) THEN
+    RAISE EXCEPTION 'Only open jobs can be edited'
+      USING ERRCODE = 'check_violation', HINT = 'job_locked';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_jobs_edits
+BEFORE INSERT OR UPDATE ON public.jobs
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_job_edits();
+
+-- 4) Change log
+CREATE TABLE public.job_changes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  changes JSONB NOT NULL,             -- { "<field>": { "from": <old>, "to": <new> }, ... } (fields of job_content)
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_job_changes_job_id ON public.job_changes(job_id, created_at);
+
+ALTER TABLE public.job_changes ENABLE ROW LEVEL SECURITY;
+
+-- The job owner and anyone who bid on the job; rows are only written by the trigger below
+CREATE POLICY "Job changes visible to job owner and bidders"
+ON public.job_changes
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.jobs j
+    WHERE j.id = job_id AND j.user_id = auth.uid()
+  )
+  OR EXISTS (
+    SELECT 1 FROM public.bids b
+    WHERE b.job_id = job_changes.job_id AND b.user_id = auth.uid()
+  )
+);
+
+CREATE OR REPLACE FUNCTION public.record_job_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_changes jsonb;
+BEGIN
+  SELECT jsonb_object_agg(new_field.key, jsonb_build_object('from', old_field.value, 'to', new_field.value))
+  INTO v_changes
+  FROM jsonb_each(public.job_content(NEW)) new_field
+  JOIN jsonb_each(public.job_content(OLD)) old_field ON old_field.key = new_field.key
+  WHERE new_field.value IS DISTINCT FROM old_field.value;
+
+  IF v_changes IS NOT NULL THEN
+    INSERT INTO public.job_changes (job_id, changed_by, changes)
+    VALUES (NEW.id, auth.uid(), v_changes);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER record_jobs_changes
+AFTER UPDATE ON public.jobs
+FOR EACH ROW
+EXECUTE FUNCTION public.record_job_changes();
+
+-- 5) Soft delete. An open job is cancelled first so its pending bids are closed
+-- out; a job in progress has to be cancelled or completed before it can go.
+CREATE OR REPLACE FUNCTION public.delete_job(p_job_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_job public.jobs%ROWTYPE;
+BEGIN
+  SELECT * INTO v_job FROM public.jobs WHERE id = p_job_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Job not found' USING ERRCODE = 'no_data_found', HINT = 'job_not_found';
+  END IF;
+
+  IF v_job.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the job owner can delete this job'
+      USING ERRCODE = 'insufficient_privilege', HINT = 'not_job_owner';
+  END IF;
+
+  IF v_job.deleted_at IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  IF v_job.status = 'in_progress' THEN
+    RAISE EXCEPTION 'Cancel or complete this job before deleting it'
+      USING ERRCODE = 'check_violation', HINT = 'job_in_progress';
+  END IF;
+
+  IF v_job.status = 'open' THEN
+    UPDATE public.bids
+    SET status = 'rejected'
+    WHERE job_id = v_job.id
+      AND status = 'pending';
+
+    UPDATE public.jobs SET status = 'cancelled' WHERE id = v_job.id;
+  END IF;
+
+  UPDATE public.jobs SET deleted_at = now() WHERE id = v_job.id;
+END;
+$$;
+
+-- 6) Repost a closed job as a new open job. Bids, photos and the bid deadline
+-- stay with the original; desired dates carry over only if they haven't passed.
+CREATE OR REPLACE FUNCTION public.repost_job(p_job_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_job public.jobs%ROWTYPE;
+  v_new_id uuid;
+BEGIN
+  SELECT * INTO v_job FROM public.jobs WHERE id = p_job_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Job not found' USING ERRCODE = 'no_data_found', HINT = 'job_not_found';
+  END IF;
+
+  IF v_job.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the job owner can repost this job'
+      USING ERRCODE = 'insufficient_privilege', HINT = 'not_job_owner';
+  END IF;
+
+  IF v_job.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deleted jobs can''t be reposted'
+      USING ERRCODE = 'check_violation', HINT = 'job_deleted';
+  END IF;
+
+  IF v_job.status NOT IN ('expired', 'cancelled', 'completed') THEN
+    RAISE EXCEPTION 'Only closed jobs can be reposted'
+      USING ERRCODE = 'check_violation', HINT = 'job_not_closed';
+  END IF;
+
+  INSERT INTO public.jobs (
+    title, description, category, location, timeline,
+    budget_type, budget_min, budget_max, hourly_rate_min, hourly_rate_max, estimated_hours,
+    desired_start_date, desired_completion_date,
+    homeowner_id, homeowner_name, homeowner_verified, user_id, reposted_from
+  )
+  VALUES (
+    v_job.title, v_job.description, v_job.category, v_job.location, v_job.timeline,
+    v_job.budget_type, v_job.budget_min, v_job.budget_max,
+    v_job.hourly_rate_min, v_job.hourly_rate_max, v_job.estimated_hours,
+    CASE WHEN v_job.desired_start_date >= current_date THEN v_job.desired_start_date END,
+    CASE WHEN v_job.desired_completion_date >= current_date THEN v_job.desired_completion_date END,
+    v_job.homeowner_id, v_job.homeowner_name, v_job.homeowner_verified, v_job.user_id, v_job.id
+  )
+  RETURNING id INTO v_new_id;
+
+  RETURN v_new_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.delete_job(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.repost_job(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.delete_job(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.repost_job(uuid) TO authenticated;
+
+-- 7) Deleted jobs drop out of listings and search. The poster, the professionals
+-- who bid on the job or talked to the poster about it, and admins can still open
+-- it from their bids, conversations and history.
+CREATE OR REPLACE FUNCTION public.involved_in_job(p_job_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.jobs WHERE id = p_job_id AND user_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM public.bids WHERE job_id = p_job_id AND user_id = auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM public.conversations
+      WHERE job_id = p_job_id AND auth.uid() IN (job_poster_id, professional_id)
+    )
+    OR public.current_user_role() = 'admin';
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.involved_in_job(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.involved_in_job(uuid) TO authenticated;
+
+DROP POLICY IF EXISTS "Jobs are viewable by everyone" ON public.jobs;
+
+CREATE POLICY "Jobs are viewable by everyone until deleted"
+ON public.jobs
+FOR SELECT
+USING (deleted_at IS NULL);
+
+CREATE POLICY "Deleted jobs are viewable by the people involved"
+ON public.jobs
+FOR SELECT
+TO authenticated
+USING (deleted_at IS NOT NULL AND public.involved_in_job(id));
+
+-- Nor do they show up in a professional's public job history or photo listings
+CREATE OR REPLACE FUNCTION public.get_professional_job_history(p_professional_id uuid)
+RETURNS TABLE (
+  job_id uuid,
+  title text,
+  category text,
+  location text,
+  completed_at timestamp with time zone,
+  rating smallint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT j.id, j.title, j.category, j.location, j.updated_at, r.rating
+  FROM public.professionals p
+  JOIN public.bids b ON b.user_id = p.user_id AND b.status = 'accepted'
+  JOIN public.jobs j ON j.id = b.job_id AND j.status = 'completed' AND j.deleted_at IS NULL
+  LEFT JOIN public.reviews r ON r.job_id = j.id
+  WHERE p.id = p_professional_id
+  ORDER BY j.updated_at DESC;
+$$;
+
+DROP POLICY IF EXISTS "Job photos are viewable by everyone" ON public.job_photos;
+
+-- The jobs policies above decide whether the job (and so its photos) is visible
+CREATE POLICY "Job photos are viewable with their job"
+ON public.job_photos
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.jobs j
+    WHERE j.id = job_id
+  )
+);
@@ -0,0 +1,368 @@
+-- Milestones for assigned work
+-- Once a bid is accepted the job owner and the professional can split the work into
+-- milestones, each with a description, its share of the accepted amount (in cents)
+-- and an optional due date. The professional marks a milestone done, optionally
+-- with photos, and the owner approves or disputes it. Approving the last milestone
+-- completes the job, and a job with milestones can't be completed any other way.
+-- Milestone rows are only changed through the functions below. Refusals carry a
+-- HINT code like the bid eligibility checks:
+--   job_not_found, milestone_not_found, not_job_participant, not_job_owner,
+--   not_assigned_professional, job_not_in_progress, milestones_locked,
+--   milestone_total_mismatch, milestone_not_submitted, milestone_not_submittable,
+--   dispute_reason_required, milestones_incomplete
+
+-- 1) Who is working on a job
+-- 'owner', 'professional' (the accepted bidder) or NULL for the caller
+CREATE OR REPLACE FUNCTION public.job_participant_role(p_job_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT CASE
+    WHEN EXISTS (
+      SELECT 1 FROM public.jobs WHERE id = p_job_id AND user_id = auth.uid()
+    ) THEN 'owner'
+    WHEN EXISTS (
+      SELECT 1 FROM public.bids
+      WHERE job_id = p_job_id AND user_id = auth.uid() AND status = 'accepted'
+    ) THEN 'professional'
+  END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.job_participant_role(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.job_participant_role(uuid) TO authenticated;
+
+-- 2) Milestones
+CREATE TABLE public.job_milestones (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  description TEXT NOT NULL CHECK (length(trim(description)) > 0),
+  amount INTEGER NOT NULL CHECK (amount > 0),
+  due_date DATE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'submitted', 'approved', 'disputed')),
+  completion_note TEXT,
+  dispute_reason TEXT,
+  submitted_at TIMESTAMP WITH TIME ZONE,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (job_id, position)
+);
+
+ALTER TABLE public.job_milestones ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Milestones visible to job owner and assigned professional"
+ON public.job_milestones
+FOR SELECT
+TO authenticated
+USING (public.job_participant_role(job_id) IS NOT NULL);
+
+CREATE TRIGGER update_job_milestones_updated_at
+BEFORE UPDATE ON public.job_milestones
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 3) Completion photos, stored at "<job id>/<milestone id>/<file>" in a private bucket
+CREATE TABLE public.milestone_photos (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  milestone_id UUID NOT NULL REFERENCES public.job_milestones(id) ON DELETE CASCADE,
+  image_path TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_milestone_photos_milestone_id ON public.milestone_photos(milestone_id);
+
+ALTER TABLE public.milestone_photos ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Milestone photos visible to job owner and assigned professional"
+ON public.milestone_photos
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.job_milestones m
+    WHERE m.id = milestone_id
+      AND public.job_participant_role(m.job_id) IS NOT NULL
+  )
+);
+
+-- Photos can be added or removed until the milestone is approved
+CREATE POLICY "Assigned professional can add milestone photos"
+ON public.milestone_photos
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.job_milestones m
+    WHERE m.id = milestone_id
+      AND m.status <> 'approved'
+      AND public.job_participant_role(m.job_id) = 'professional'
+  )
+);
+
+CREATE POLICY "Assigned professional can remove milestone photos"
+ON public.milestone_photos
+FOR DELETE
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.job_milestones m
+    WHERE m.id = milestone_id
+      AND m.status <> 'approved'
+      AND public.job_participant_role(m.job_id) = 'professional'
+  )
+);
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('milestone-photos', 'milestone-photos', false, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+-- Participant role for the job named by the first folder of an object path
+CREATE OR REPLACE FUNCTION public.job_folder_participant_role(p_object_name text)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT public.job_participant_role(j.id)
+  FROM public.jobs j
+  WHERE j.id::text = (storage.foldername(p_object_name))[1];
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.job_folder_participant_role(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.job_folder_participant_role(text) TO authenticated;
+
+CREATE POLICY "Job participants can view milestone photos"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'milestone-photos'
+  AND public.job_folder_participant_role(name) IS NOT NULL
+);
+
+CREATE POLICY "Assigned professional can upload milestone photos"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'milestone-photos'
+  AND public.job_folder_participant_role(name) = 'professional'
+);
+
+CREATE POLICY "Assigned professional can delete milestone photos"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'milestone-photos'
+  AND public.job_folder_participant_role(name) = 'professional'
+);
+
+-- 4) Plan the milestones. Either participant can (re)write the plan until work on
+-- it has been submitted; the shares must add up to the accepted bid amount.
+-- p_milestones: [{ "description": text, "amount": cents, "due_date": "yyyy-mm-dd" | null }, ...]
+CREATE OR REPLACE FUNCTION public.set_job_milestones(p_job_id uuid, p_milestones jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_job public.jobs%ROWTYPE;
+  v_bid_amount integer;
+  v_total integer;
+BEGIN
+  SELECT * INTO v_job FROM public.jobs WHERE id = p_job_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Job not found' USING ERRCODE = 'no_data_found', HINT = 'job_not_found';
+  END IF;
+
+  IF public.job_participant_role(p_job_id) IS NULL THEN
+    RAISE EXCEPTION 'Only the job owner and the assigned professional can plan milestones'
+      USING ERRCODE = 'insufficient_privilege', HINT = 'not_job_participant';
+  END IF;
+
+  IF v_job.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Milestones can only be planned while the job is in progress'
+      USING ERRCODE = 'check_violation', HINT = 'job_not_in_progress';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.job_milestones
+    WHERE job_id = p_job_id AND status <> 'pending'
+  ) THEN
+    RAISE EXCEPTION 'The milestone plan can''t change once work has been submitted'
+      USING ERRCODE = 'check_violation', HINT = 'milestones_locked';
+  END IF;
+
+  SELECT amount INTO v_bid_amount
+  FROM public.bids
+  WHERE job_id = p_job_id AND status = 'accepted';
+
+  SELECT COALESCE(SUM((m ->> 'amount')::integer), 0) INTO v_total
+  FROM jsonb_array_elements(COALESCE(p_milestones, '[]')) m;
+
+  -- An empty plan clears the milestones
+  IF jsonb_array_length(COALESCE(p_milestones, '[]')) > 0 AND v_total IS DISTINCT FROM v_bid_amount THEN
+    RAISE EXCEPTION 'Milestone amounts must add up to the accepted bid amount'
+      USING ERRCODE = 'check_violation', HINT = 'milestone_total_mismatch';
+  END IF;
+
+  DELETE FROM public.job_milestones WHERE job_id = p_job_id;
+
+  INSERT INTO public.job_milestones (job_id, position, description, amount, due_date)
+  SELECT p_job_id, m.position - 1, trim(m.value ->> 'description'),
+         (m.value ->> 'amount')::integer, (m.value ->> 'due_date')::date
+  FROM jsonb_array_elements(COALESCE(p_milestones, '[]')) WITH ORDINALITY AS m(value, position);
+END;
+$$;
+
+-- 5) Professional marks a milestone done (again, after a dispute)
+CREATE OR REPLACE FUNCTION public.submit_milestone(p_milestone_id uuid, p_note text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_milestone public.job_milestones%ROWTYPE;
+BEGIN
+  SELECT * INTO v_milestone FROM public.job_milestones WHERE id = p_milestone_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Milestone not found' USING ERRCODE = 'no_data_found', HINT = 'milestone_not_found';
+  END IF;
+
+  IF public.job_participant_role(v_milestone.job_id) IS DISTINCT FROM 'professional' THEN
+    RAISE EXCEPTION 'Only the assigned professional can mark milestones done'
+      USING ERRCODE = 'insufficient_privilege', HINT = 'not_assigned_professional';
+  END IF;
+
+  IF (SELECT status FROM public.jobs WHERE id = v_milestone.job_id) <> 'in_progress' THEN
+    RAISE EXCEPTION 'This job is not in progress'
+      USING ERRCODE = 'check_violation', HINT = 'job_not_in_progress';
+  END IF;
+
+  IF v_milestone.status NOT IN ('pending', 'disputed') THEN
+    RAISE EXCEPTION 'This milestone is already %', v_milestone.status
+      USING ERRCODE = 'check_violation', HINT = 'milestone_not_submittable';
+  END IF;
+
+  UPDATE public.job_milestones
+  SET status = 'submitted',
+      completion_note = NULLIF(trim(p_note), ''),
+      submitted_at = now()
+  WHERE id = p_milestone_id;
+END;
+$$;
+
+-- 6) Owner approves submitted work; approving the last milestone completes the job
+CREATE OR REPLACE FUNCTION public.approve_milestone(p_milestone_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_milestone public.job_milestones%ROWTYPE;
+BEGIN
+  SELECT * INTO v_milestone FROM public.job_milestones WHERE id = p_milestone_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Milestone not found' USING ERRCODE = 'no_data_found', HINT = 'milestone_not_found';
+  END IF;
+
+  IF public.job_participant_role(v_milestone.job_id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only the job owner can approve milestones'
+      USING ERRCODE = 'insufficient_privilege', HINT = 'not_job_owner';
+  END IF;
+
+  IF v_milestone.status <> 'submitted' THEN
+    RAISE EXCEPTION 'Only submitted milestones can be approved'
+      USING ERRCODE = 'check_violation', HINT = 'milestone_not_submitted';
+  END IF;
+
+  UPDATE public.job_milestones
+  SET status = 'approved', reviewed_at = now()
+  WHERE id = p_milestone_id;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.job_milestones
+    WHERE job_id = v_milestone.job_id AND status <> 'approved'
+  ) THEN
+    UPDATE public.jobs SET status = 'completed'
+    WHERE id = v_milestone.job_id AND status = 'in_progress';
+  END IF;
+END;
+$$;
+
+-- 7) Owner disputes submitted work; the professional can fix it and submit again
+CREATE OR REPLACE FUNCTION public.dispute_milestone(p_milestone_id uuid, p_reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_milestone public.job_milestones%ROWTYPE;
+BEGIN
+  SELECT * INTO v_milestone FROM public.job_milestones WHERE id = p_milestone_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Milestone not found' USING ERRCODE = 'no_data_found', HINT = 'milestone_not_found';
+  END IF;
+
+  IF public.job_participant_role(v_milestone.job_id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only the job owner can dispute milestones'
+      USING ERRCODE = 'insufficient_privilege', HINT = 'not_job_owner';
+  END IF;
+
+  IF v_milestone.status <> 'submitted' THEN
+    RAISE EXCEPTION 'Only submitted milestones can be disputed'
+      USING ERRCODE = 'check_violation', HINT = 'milestone_not_submitted';
+  END IF;
+
+  IF NULLIF(trim(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'Explain what needs to be fixed'
+      USING ERRCODE = 'check_violation', HINT = 'dispute_reason_required';
+  END IF;
+
+  UPDATE public.job_milestones
+  SET status = 'disputed', dispute_reason = trim(p_reason), reviewed_at = now()
+  WHERE id = p_milestone_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_job_milestones(uuid, jsonb) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.submit_milestone(uuid, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.approve_milestone(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.dispute_milestone(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_job_milestones(uuid, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.submit_milestone(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.approve_milestone(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.dispute_milestone(uuid, text) TO authenticated;
+
+-- 8) A job with milestones is complete only when every milestone is approved
+CREATE OR REPLACE FUNCTION public.check_job_completion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed' AND EXISTS (
+    SELECT 1 FROM public.job_milestones
+    WHERE job_id = NEW.id AND status <> 'approved'
+  ) THEN
+    RAISE EXCEPTION 'Every milestone has to be approved before the job is completed'
+      USING ERRCODE = 'check_violation', HINT = 'milestones_incomplete';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_jobs_completion
+BEFORE UPDATE OF status ON public.jobs
+FOR EACH ROW
+EXECUTE FUNCTION public.check_job_completion();
@@ -0,0 +1,390 @@
+-- Escrow-style payment ledger
+-- The job owner funds an assigned job with the accepted bid amount; the money is
+-- held until work is approved and then released to the professional, milestone by
+-- milestone (or in one go for jobs without milestones). Held funds on a cancelled
+-- job are refunded. Every money movement is a row in payment_ledger:
+--   charge  - money collected from the job owner by the payment provider
+--   hold    - the charged money parked in escrow for the job (written when a charge succeeds)
+--   release - held money paid out to the professional
+--   refund  - held money returned to the job owner
+-- The request_* functions below check the rules and write pending entries; the
+-- payments edge function then calls the provider and reports the outcome through
+-- record_payment_result, as does the payment-webhook function for asynchronous
+-- updates. Only the service role may call them: a pending entry that no provider
+-- call follows would never settle, so the edge function passes in the signed-in
+-- user it verified. A funded job in progress is only cancelled through
+-- cancel_funded_job, which refuses once work has been handed in, so the owner
+-- can't take back money the professional may have earned.
+-- Refusals carry a HINT code like the bid eligibility checks:
+--   job_not_found, not_job_owner, job_not_in_progress, job_not_cancelled,
+--   already_funded, not_funded, payment_in_progress, nothing_to_release,
+--   nothing_to_refund, payment_entry_not_found, job_funded, work_submitted
+
+-- 1) Ledger
+CREATE TABLE public.payment_ledger (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  bid_id UUID NOT NULL REFERENCES public.bids(id) ON DELETE CASCADE,
+  milestone_id UUID REFERENCES public.job_milestones(id) ON DELETE SET NULL,
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('charge', 'hold', 'release', 'refund')),
+  amount INTEGER NOT NULL CHECK (amount > 0),    -- in cents
+  currency TEXT NOT NULL DEFAULT 'usd',
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  provider TEXT NOT NULL,                        -- 'stripe' or 'fake'
+  provider_reference TEXT,                       -- Provider's id for the payment, transfer or refund
+  failure_reason TEXT,
+  charge_id UUID REFERENCES public.payment_ledger(id),  -- Charge a hold, release or refund draws on
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (provider, provider_reference)
+);
+
+CREATE INDEX idx_payment_ledger_job_id ON public.payment_ledger(job_id, created_at);
+
+-- One release per milestone unless the previous attempt failed
+CREATE UNIQUE INDEX idx_payment_ledger_milestone_release
+ON public.payment_ledger(milestone_id)
+WHERE entry_type = 'release' AND status <> 'failed';
+
+ALTER TABLE public.payment_ledger ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the functions below
+CREATE POLICY "Payments visible to job owner and assigned professional"
+ON public.payment_ledger
+FOR SELECT
+TO authenticated
+USING (public.job_participant_role(job_id) IS NOT NULL);
+
+CREATE TRIGGER update_payment_ledger_updated_at
+BEFORE UPDATE ON public.payment_ledger
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 2) Balances per job. Pending releases and refunds are counted as committed so
+-- the same money can't be paid out twice while the provider is working.
+CREATE VIEW public.job_payment_balances
+WITH (security_invoker = true)
+AS
+SELECT
+  job_id,
+  COALESCE(SUM(amount) FILTER (WHERE entry_type = 'hold' AND status = 'succeeded'), 0)::integer AS funded,
+  COALESCE(SUM(amount) FILTER (WHERE entry_type = 'release' AND status = 'succeeded'), 0)::integer AS released,
+  COALESCE(SUM(amount) FILTER (WHERE entry_type = 'refund' AND status = 'succeeded'), 0)::integer AS refunded,
+  COALESCE(SUM(amount) FILTER (WHERE entry_type IN ('charge', 'release', 'refund') AND status = 'pending'), 0)::integer AS pending,
+  (
+    COALESCE(SUM(amount) FILTER (WHERE entry_type = 'hold' AND status = 'succeeded'), 0)
+    - COALESCE(SUM(amount) FILTER (WHERE entry_type IN ('release', 'refund') AND status <> 'failed'), 0)
+  )::integer AS in_escrow
+FROM public.payment_ledger
+GROUP BY job_id;
+
+GRANT SELECT ON public.job_payment_balances TO authenticated;
+
+-- Where released money goes: a professional's connected account at the payment
+-- provider, saved when they complete payout onboarding. Kept out of the public
+-- professionals table; the payments edge function reads it with the service role.
+CREATE TABLE public.payout_accounts (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  account_id TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.payout_accounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own payout account"
+ON public.payout_accounts
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_payout_accounts_updated_at
+BEFORE UPDATE ON public.payout_accounts
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 3) Shared checks: the user owns the job; returns the job's accepted bid
+CREATE OR REPLACE FUNCTION public.payment_job_bid(p_job_id uuid, p_user_id uuid)
+RETURNS public.bids
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_job public.jobs%ROWTYPE;
+  v_bid public.bids%ROWTYPE;
+BEGIN
+  SELECT * INTO v_job FROM public.jobs WHERE id = p_job_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Job not found' USING ERRCODE = 'no_data_found', HINT = 'job_not_found';
+  END IF;
+
+  IF v_job.user_id IS DISTINCT FROM p_user_id THEN
+    RAISE EXCEPTION 'Only the job owner can manage payments for this job'
+      USING ERRCODE = 'insufficient_privilege', HINT = 'not_job_owner';
+  END IF;
+
+  SELECT * INTO v_bid FROM public.bids WHERE job_id = p_job_id AND status = 'accepted';
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This job has no accepted bid'
+      USING ERRCODE = 'check_violation', HINT = 'job_not_in_progress';
+  END IF;
+
+  RETURN v_bid;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.payment_job_bid(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- 4) Fund a job: one charge for the accepted bid amount. A failed charge can be retried.
+CREATE OR REPLACE FUNCTION public.request_job_funding(p_job_id uuid, p_provider text, p_user_id uuid)
+RETURNS public.payment_ledger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_bid public.bids%ROWTYPE;
+  v_entry public.payment_ledger%ROWTYPE;
+BEGIN
+  v_bid := public.payment_job_bid(p_job_id, p_user_id);
+
+  IF (SELECT status FROM public.jobs WHERE id = p_job_id) <> 'in_progress' THEN
+    RAISE EXCEPTION 'Only jobs in progress can be funded'
+      USING ERRCODE = 'check_violation', HINT = 'job_not_in_progress';
+  END IF;
+
+  SELECT * INTO v_entry FROM public.payment_ledger
+  WHERE job_id = p_job_id AND entry_type = 'charge' AND status <> 'failed';
+  IF FOUND THEN
+    IF v_entry.status = 'pending' THEN
+      RAISE EXCEPTION 'A payment for this job is already being processed'
+        USING ERRCODE = 'check_violation', HINT = 'payment_in_progress';
+    END IF;
+    RAISE EXCEPTION 'This job is already funded'
+      USING ERRCODE = 'check_violation', HINT = 'already_funded';
+  END IF;
+
+  INSERT INTO public.payment_ledger (job_id, bid_id, entry_type, amount, provider, created_by)
+  VALUES (p_job_id, v_bid.id, 'charge', v_bid.amount, p_provider, p_user_id)
+  RETURNING * INTO v_entry;
+
+  RETURN v_entry;
+END;
+$$;
+
+-- 5) Release held money for approved work. With milestones, every approved
+-- milestone not yet paid gets its own release; without, the whole escrow is
+-- released once the job is completed.
+CREATE OR REPLACE FUNCTION public.request_payment_release(p_job_id uuid, p_provider text, p_user_id uuid)
+RETURNS SETOF public.payment_ledger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_bid public.bids%ROWTYPE;
+  v_charge public.payment_ledger%ROWTYPE;
+  v_in_escrow integer;
+BEGIN
+  v_bid := public.payment_job_bid(p_job_id, p_user_id);
+
+  SELECT * INTO v_charge FROM public.payment_ledger
+  WHERE job_id = p_job_id AND entry_type = 'charge' AND status = 'succeeded';
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This job hasn''t been funded'
+      USING ERRCODE = 'check_violation', HINT = 'not_funded';
+  END IF;
+
+  SELECT in_escrow INTO v_in_escrow FROM public.job_payment_balances WHERE job_id = p_job_id;
+
+  IF EXISTS (SELECT 1 FROM public.job_milestones WHERE job_id = p_job_id) THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.job_milestones m
+      WHERE m.job_id = p_job_id
+        AND m.status = 'approved'
+        AND NOT EXISTS (
+          SELECT 1 FROM public.payment_ledger l
+          WHERE l.milestone_id = m.id AND l.entry_type = 'release' AND l.status <> 'failed'
+        )
+    ) THEN
+      RAISE EXCEPTION 'There is no approved work waiting for payment'
+        USING ERRCODE = 'check_violation', HINT = 'nothing_to_release';
+    END IF;
+
+    RETURN QUERY
+    INSERT INTO public.payment_ledger (job_id, bid_id, milestone_id, entry_type, amount, provider, charge_id, created_by)
+    SELECT p_job_id, v_bid.id, m.id, 'release', m.amount, p_provider, v_charge.id, p_user_id
+    FROM public.job_milestones m
+    WHERE m.job_id = p_job_id
+      AND m.status = 'approved'
+      AND NOT EXISTS (
+        SELECT 1 FROM public.payment_ledger l
+        WHERE l.milestone_id = m.id AND l.entry_type = 'release' AND l.status <> 'failed'
+      )
+    RETURNING *;
+  ELSE
+    IF (SELECT status FROM public.jobs WHERE id = p_job_id) <> 'completed' OR COALESCE(v_in_escrow, 0) <= 0 THEN
+      RAISE EXCEPTION 'There is no approved work waiting for payment'
+        USING ERRCODE = 'check_violation', HINT = 'nothing_to_release';
+    END IF;
+
+    RETURN QUERY
+    INSERT INTO public.payment_ledger (job_id, bid_id, entry_type, amount, provider, charge_id, created_by)
+    VALUES (p_job_id, v_bid.id, 'release', v_in_escrow, p_provider, v_charge.id, p_user_id)
+    RETURNING *;
+  END IF;
+END;
+$$;
+
+-- 6) Refund whatever is still in escrow once the job is cancelled
+CREATE OR REPLACE FUNCTION public.request_payment_refund(p_job_id uuid, p_provider text, p_user_id uuid)
+RETURNS public.payment_ledger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_bid public.bids%ROWTYPE;
+  v_charge public.payment_ledger%ROWTYPE;
+  v_in_escrow integer;
+  v_entry public.payment_ledger%ROWTYPE;
+BEGIN
+  v_bid := public.payment_job_bid(p_job_id, p_user_id);
+
+  IF (SELECT status FROM public.jobs WHERE id = p_job_id) <> 'cancelled' THEN
+    RAISE EXCEPTION 'Only cancelled jobs can be refunded'
+      USING ERRCODE = 'check_violation', HINT = 'job_not_cancelled';
+  END IF;
+
+  SELECT * INTO v_charge FROM public.payment_ledger
+  WHERE job_id = p_job_id AND entry_type = 'charge' AND status = 'succeeded';
+  SELECT in_escrow INTO v_in_escrow FROM public.job_payment_balances WHERE job_id = p_job_id;
+
+  IF v_charge.id IS NULL OR COALESCE(v_in_escrow, 0) <= 0 THEN
+    RAISE EXCEPTION 'There is nothing left in escrow to refund'
+      USING ERRCODE = 'check_violation', HINT = 'nothing_to_refund';
+  END IF;
+
+  INSERT INTO public.payment_ledger (job_id, bid_id, entry_type, amount, provider, charge_id, created_by)
+  VALUES (p_job_id, v_bid.id, 'refund', v_in_escrow, p_provider, v_charge.id, p_user_id)
+  RETURNING * INTO v_entry;
+
+  RETURN v_entry;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.request_job_funding(uuid, text, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.request_payment_release(uuid, text, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.request_payment_refund(uuid, text, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.request_job_funding(uuid, text, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.request_payment_release(uuid, text, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.request_payment_refund(uuid, text, uuid) TO service_role;
+
+-- 7) Provider outcome, reported by the edge functions with the service role. Only
+-- pending entries change, so repeated webhook deliveries are harmless. A charge
+-- that succeeds puts its amount on hold.
+CREATE OR REPLACE FUNCTION public.record_payment_result(
+  p_entry_id uuid,
+  p_status text,
+  p_provider_reference text DEFAULT NULL,
+  p_failure_reason text DEFAULT NULL
+)
+RETURNS public.payment_ledger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_entry public.payment_ledger%ROWTYPE;
+BEGIN
+  SELECT * INTO v_entry FROM public.payment_ledger WHERE id = p_entry_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment entry not found'
+      USING ERRCODE = 'no_data_found', HINT = 'payment_entry_not_found';
+  END IF;
+
+  IF v_entry.status <> 'pending' THEN
+    RETURN v_entry;
+  END IF;
+
+  UPDATE public.payment_ledger
+  SET status = p_status,
+      provider_reference = COALESCE(p_provider_reference, provider_reference),
+      failure_reason = CASE WHEN p_status = 'failed' THEN p_failure_reason END
+  WHERE id = p_entry_id
+  RETURNING * INTO v_entry;
+
+  IF v_entry.entry_type = 'charge' AND v_entry.status = 'succeeded' THEN
+    INSERT INTO public.payment_ledger (job_id, bid_id, entry_type, amount, currency, status, provider, charge_id, created_by)
+    VALUES (v_entry.job_id, v_entry.bid_id, 'hold', v_entry.amount, v_entry.currency, 'succeeded', v_entry.provider, v_entry.id, v_entry.created_by);
+  END IF;
+
+  RETURN v_entry;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_payment_result(uuid, text, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_payment_result(uuid, text, text, text) TO service_role;
+
+-- 8) Cancelling a funded job. Once a milestone has been submitted or approved the
+-- escrow is contested and goes through a dispute instead. Changing the status
+-- directly is refused while money is held or being charged; the function runs as
+-- its owner, so the check below lets it through.
+CREATE OR REPLACE FUNCTION public.guard_funded_job_cancellation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF current_user = 'authenticated' AND (
+    COALESCE((SELECT in_escrow FROM public.job_payment_balances WHERE job_id = NEW.id), 0) > 0
+    OR EXISTS (
+      SELECT 1 FROM public.payment_ledger
+      WHERE job_id = NEW.id AND entry_type = 'charge' AND status = 'pending'
+    )
+  ) THEN
+    RAISE EXCEPTION 'This job holds money in escrow, cancel it from its payment panel'
+      USING ERRCODE = 'check_violation', HINT = 'job_funded';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_jobs_funded_cancellation
+BEFORE UPDATE OF status ON public.jobs
+FOR EACH ROW
+WHEN (NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled')
+EXECUTE FUNCTION public.guard_funded_job_cancellation();
+
+CREATE OR REPLACE FUNCTION public.cancel_funded_job(p_job_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  -- Owner and accepted bid; payments are also frozen while a dispute is open
+  PERFORM public.payment_job_bid(p_job_id, auth.uid());
+
+  IF (SELECT status FROM public.jobs WHERE id = p_job_id) <> 'in_progress' THEN
+    RAISE EXCEPTION 'Only jobs in progress can be cancelled'
+      USING ERRCODE = 'check_violation', HINT = 'job_not_in_progress';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.job_milestones
+    WHERE job_id = p_job_id AND status IN ('submitted', 'approved')
+  ) THEN
+    RAISE EXCEPTION 'Work has been handed in on this job, open a dispute to settle the escrow'
+      USING ERRCODE = 'check_violation', HINT = 'work_submitted';
+  END IF;
+
+  UPDATE public.jobs SET status = 'cancelled' WHERE id = p_job_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_funded_job(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.cancel_funded_job(uuid) TO authenticated;
@@ -0,0 +1,290 @@
+-- Encrypted bank details for bids
+-- Account numbers in bid_payment_details were stored as plain text. They are now
+-- encrypted with pgcrypto using a key kept in Supabase Vault, and clients only ever
+-- see the last four digits. Details are written through save_bid_payment_details,
+-- which validates them first:
+--   iban - IBAN with the country's length and a valid mod-97 check
+--   us   - 9-digit ABA routing number (checksum) and a 4-17 digit account
+--   ca   - 5-digit transit + 3-digit institution number and a 7-12 digit account
+--   bm   - Bermuda bank SWIFT/BIC code (Bermuda has no IBAN) and a 6-17 digit account
+-- The full number comes back only from reveal_bid_account_number, and every reveal
+-- is written to bank_detail_reveals. Refusals carry a HINT code:
+--   bid_not_found, not_bid_owner, invalid_account_format, invalid_iban,
+--   invalid_routing_number, invalid_transit_number, invalid_swift_code,
+--   invalid_account_number, payment_details_not_found, encryption_key_missing
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- 1) Encryption key, generated once and only readable by the functions below
+SELECT vault.create_secret(
+  encode(extensions.gen_random_bytes(32), 'base64'),
+  'bank_details_key',
+  'Symmetric key for bid_payment_details.account_number_encrypted'
+)
+WHERE NOT EXISTS (SELECT 1 FROM vault.decrypted_secrets WHERE name = 'bank_details_key');
+
+CREATE OR REPLACE FUNCTION public.bank_details_key()
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_key text;
+BEGIN
+  SELECT decrypted_secret INTO v_key FROM vault.decrypted_secrets WHERE name = 'bank_details_key';
+  IF v_key IS NULL THEN
+    RAISE EXCEPTION 'Bank details encryption key is not configured'
+      USING ERRCODE = 'object_not_in_prerequisite_state', HINT = 'encryption_key_missing';
+  END IF;
+  RETURN v_key;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.bank_details_key() FROM PUBLIC, anon, authenticated;
+
+-- 2) Encrypted columns; existing plain-text numbers are encrypted and dropped
+ALTER TABLE public.bid_payment_details
+ADD COLUMN account_format TEXT CHECK (account_format IN ('iban', 'us', 'ca', 'bm')),  -- NULL for details saved before validation
+ADD COLUMN routing_code TEXT,                  -- ABA routing, transit + institution, or BIC; not secret
+ADD COLUMN account_number_encrypted BYTEA,
+ADD COLUMN account_last4 TEXT;
+
+UPDATE public.bid_payment_details
+SET
+  account_number_encrypted = extensions.pgp_sym_encrypt(bank_account_number, public.bank_details_key()),
+  account_last4 = right(regexp_replace(bank_account_number, '[^0-9A-Za-z]', '', 'g'), 4);
+
+ALTER TABLE public.bid_payment_details
+ALTER COLUMN account_number_encrypted SET NOT NULL,
+ALTER COLUMN account_last4 SET NOT NULL,
+DROP COLUMN bank_account_number;
+
+-- Writes go through save_bid_payment_details, and the ciphertext is never selectable
+DROP POLICY IF EXISTS "Users can create their own bid payment details" ON public.bid_payment_details;
+DROP POLICY IF EXISTS "Users can update their own bid payment details" ON public.bid_payment_details;
+
+REVOKE ALL ON public.bid_payment_details FROM anon, authenticated;
+GRANT SELECT (id, bid_id, user_id, account_format, routing_code, account_last4, created_at, updated_at)
+ON public.bid_payment_details TO authenticated;
+
+-- 3) Reveal audit log
+CREATE TABLE public.bank_detail_reveals (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  payment_details_id UUID NOT NULL REFERENCES public.bid_payment_details(id) ON DELETE CASCADE,
+  bid_id UUID NOT NULL REFERENCES public.bids(id) ON DELETE CASCADE,
+  revealed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,  -- NULL when revealed by the service role
+  revealed_as TEXT NOT NULL CHECK (revealed_as IN ('owner', 'service_role')),
+  reason TEXT,
+  revealed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_bank_detail_reveals_details ON public.bank_detail_reveals(payment_details_id, revealed_at);
+
+ALTER TABLE public.bank_detail_reveals ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by reveal_bid_account_number
+CREATE POLICY "Users can view reveals of their own bank details"
+ON public.bank_detail_reveals
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.bid_payment_details d
+    WHERE d.id = payment_details_id AND d.user_id = auth.uid()
+  )
+);
+
+-- 4) Validation helpers
+CREATE OR REPLACE FUNCTION public.iban_is_valid(p_iban text)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = ''
+AS $$
+DECLARE
+  -- IBAN lengths for the countries we pay out to
+  v_lengths CONSTANT jsonb := '{
+    "AD": 24, "AE": 23, "AT": 20, "BE": 16, "BG": 22, "BH": 22, "CH": 21, "CY": 28,
+    "CZ": 24, "DE": 22, "DK": 18, "EE": 20, "ES": 24, "FI": 18, "FO": 18, "FR": 27,
+    "GB": 22, "GI": 23, "GL": 18, "GR": 27, "HR": 21, "HU": 28, "IE": 22, "IL": 23,
+    "IS": 26, "IT": 27, "KW": 30, "LI": 21, "LT": 20, "LU": 20, "LV": 21, "MC": 27,
+    "MT": 31, "NL": 18, "NO": 15, "PL": 28, "PT": 25, "QA": 29, "RO": 24, "SA": 24,
+    "SE": 24, "SI": 19, "SK": 24, "SM": 27, "TR": 26, "VG": 24
+  }';
+  v_rearranged text;
+  v_digits text := '';
+  v_char text;
+BEGIN
+  IF p_iban !~ '^[A-Z]{2}[0-9]{2}[A-Z0-9]+$'
+     OR (v_lengths ->> left(p_iban, 2))::integer IS DISTINCT FROM length(p_iban) THEN
+    RETURN false;
+  END IF;
+
+  -- Move the country code and check digits to the end, turn letters into 10..35
+  v_rearranged := substr(p_iban, 5) || left(p_iban, 4);
+  FOREACH v_char IN ARRAY regexp_split_to_array(v_rearranged, '') LOOP
+    v_digits := v_digits || CASE
+      WHEN v_char ~ '[0-9]' THEN v_char
+      ELSE (ascii(v_char) - 55)::text
+    END;
+  END LOOP;
+
+  RETURN v_digits::numeric % 97 = 1;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.aba_routing_is_valid(p_routing text)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = ''
+AS $$
+DECLARE
+  d integer[];
+BEGIN
+  IF p_routing !~ '^[0-9]{9}$' THEN
+    RETURN false;
+  END IF;
+
+  d := regexp_split_to_array(p_routing, '')::integer[];
+  RETURN (3 * (d[1] + d[4] + d[7]) + 7 * (d[2] + d[5] + d[8]) + (d[3] + d[6] + d[9])) % 10 = 0;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.iban_is_valid(text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.aba_routing_is_valid(text) FROM PUBLIC, anon, authenticated;
+
+-- 5) Save (or replace) the bank details for one of the caller's bids. Spaces and
+-- dashes are ignored; the routing code is kept in its normalized form.
+CREATE OR REPLACE FUNCTION public.save_bid_payment_details(
+  p_bid_id uuid,
+  p_format text,
+  p_routing_code text,
+  p_account_number text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_bidder uuid;
+  v_routing text := nullif(upper(regexp_replace(coalesce(p_routing_code, ''), '[\s-]', '', 'g')), '');
+  v_account text := upper(regexp_replace(coalesce(p_account_number, ''), '[\s-]', '', 'g'));
+  v_id uuid;
+BEGIN
+  SELECT COALESCE(user_id, professional_id) INTO v_bidder FROM public.bids WHERE id = p_bid_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bid not found' USING ERRCODE = 'no_data_found', HINT = 'bid_not_found';
+  END IF;
+
+  IF v_bidder IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the bidder can set payment details for this bid'
+      USING ERRCODE = 'insufficient_privilege', HINT = 'not_bid_owner';
+  END IF;
+
+  CASE p_format
+    WHEN 'iban' THEN
+      IF NOT public.iban_is_valid(v_account) THEN
+        RAISE EXCEPTION 'That IBAN isn''t valid'
+          USING ERRCODE = 'check_violation', HINT = 'invalid_iban';
+      END IF;
+      v_routing := NULL;
+
+    WHEN 'us' THEN
+      IF NOT public.aba_routing_is_valid(coalesce(v_routing, '')) THEN
+        RAISE EXCEPTION 'That routing number isn''t valid'
+          USING ERRCODE = 'check_violation', HINT = 'invalid_routing_number';
+      END IF;
+      IF v_account !~ '^[0-9]{4,17}$' THEN
+        RAISE EXCEPTION 'US account numbers are 4 to 17 digits'
+          USING ERRCODE = 'check_violation', HINT = 'invalid_account_number';
+      END IF;
+
+    WHEN 'ca' THEN
+      IF coalesce(v_routing, '') !~ '^[0-9]{8}$' THEN
+        RAISE EXCEPTION 'Enter the 5-digit transit and 3-digit institution number'
+          USING ERRCODE = 'check_violation', HINT = 'invalid_transit_number';
+      END IF;
+      IF v_account !~ '^[0-9]{7,12}$' THEN
+        RAISE EXCEPTION 'Canadian account numbers are 7 to 12 digits'
+          USING ERRCODE = 'check_violation', HINT = 'invalid_account_number';
+      END IF;
+
+    WHEN 'bm' THEN
+      IF coalesce(v_routing, '') !~ '^[A-Z]{4}BM[A-Z0-9]{2}([A-Z0-9]{3})?$' THEN
+        RAISE EXCEPTION 'Enter your Bermuda bank''s SWIFT code'
+          USING ERRCODE = 'check_violation', HINT = 'invalid_swift_code';
+      END IF;
+      IF v_account !~ '^[0-9]{6,17}$' THEN
+        RAISE EXCEPTION 'Bermuda account numbers are 6 to 17 digits'
+          USING ERRCODE = 'check_violation', HINT = 'invalid_account_number';
+      END IF;
+
+    ELSE
+      RAISE EXCEPTION 'Unsupported bank account format'
+        USING ERRCODE = 'check_violation', HINT = 'invalid_account_format';
+  END CASE;
+
+  INSERT INTO public.bid_payment_details (
+    bid_id, user_id, account_format, routing_code, account_number_encrypted, account_last4
+  )
+  VALUES (
+    p_bid_id,
+    v_bidder,
+    p_format,
+    v_routing,
+    extensions.pgp_sym_encrypt(v_account, public.bank_details_key()),
+    right(v_account, 4)
+  )
+  ON CONFLICT (bid_id) DO UPDATE SET
+    account_format = EXCLUDED.account_format,
+    routing_code = EXCLUDED.routing_code,
+    account_number_encrypted = EXCLUDED.account_number_encrypted,
+    account_last4 = EXCLUDED.account_last4
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+-- 6) Decrypt the account number for the bidder, or for the service role when
+-- paying out. Each call is logged before the number is returned.
+CREATE OR REPLACE FUNCTION public.reveal_bid_account_number(p_bid_id uuid, p_reason text DEFAULT NULL)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_details public.bid_payment_details%ROWTYPE;
+  v_revealed_as text;
+BEGIN
+  SELECT * INTO v_details FROM public.bid_payment_details WHERE bid_id = p_bid_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No bank details saved for this bid'
+      USING ERRCODE = 'no_data_found', HINT = 'payment_details_not_found';
+  END IF;
+
+  IF auth.role() = 'service_role' THEN
+    v_revealed_as := 'service_role';
+  ELSIF v_details.user_id = auth.uid() THEN
+    v_revealed_as := 'owner';
+  ELSE
+    RAISE EXCEPTION 'Only the bidder can view these bank details'
+      USING ERRCODE = 'insufficient_privilege', HINT = 'not_bid_owner';
+  END IF;
+
+  INSERT INTO public.bank_detail_reveals (payment_details_id, bid_id, revealed_by, revealed_as, reason)
+  VALUES (v_details.id, p_bid_id, auth.uid(), v_revealed_as, nullif(trim(p_reason), ''));
+
+  RETURN extensions.pgp_sym_decrypt(v_details.account_number_encrypted, public.bank_details_key());
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_bid_payment_details(uuid, text, text, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.reveal_bid_account_number(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_bid_payment_details(uuid, text, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reveal_bid_account_number(uuid, text) TO authenticated, service_role;
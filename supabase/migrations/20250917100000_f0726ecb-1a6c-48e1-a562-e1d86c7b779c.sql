@@ -0,0 +1,316 @@
+-- Invoices for accepted bids
+-- Either party can generate the invoice for a job once a bid is accepted. It is
+-- issued by the professional to the job owner and numbered per professional
+-- (INV-0001, INV-0002, ...). Line items come from the job's milestones, or from
+-- hourly_rate x estimated_hours, or the flat bid amount; the professional can add
+-- a tax rate. An unpaid invoice is rebuilt each time it is generated so it follows
+-- milestone changes; the number never changes. Funding the job charges the
+-- invoice total, tax included, so the tax rate is fixed once the job is funded. It
+-- becomes paid once the escrow for the bid has been released in full, and void if
+-- the job is cancelled first.
+-- Refusals carry a HINT code:
+--   job_not_found, not_job_participant, job_not_in_progress, not_invoice_issuer,
+--   invalid_tax_rate, tax_rate_locked
+
+-- 1) Invoices and their lines
+CREATE TABLE public.invoices (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  bid_id UUID NOT NULL UNIQUE REFERENCES public.bids(id) ON DELETE CASCADE,
+  professional_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,  -- Issuer
+  customer_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,      -- Job owner
+  sequence INTEGER NOT NULL,
+  invoice_number TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'unpaid' CHECK (status IN ('unpaid', 'paid', 'void')),
+  -- Names as they were when the invoice was generated
+  issuer_name TEXT NOT NULL,
+  issuer_email TEXT,
+  customer_name TEXT NOT NULL,
+  customer_email TEXT,
+  job_title TEXT NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'usd',
+  subtotal INTEGER NOT NULL DEFAULT 0,           -- in cents
+  tax_rate NUMERIC(5, 2) NOT NULL DEFAULT 0 CHECK (tax_rate >= 0 AND tax_rate <= 100),  -- percent
+  tax_amount INTEGER NOT NULL DEFAULT 0,
+  total INTEGER NOT NULL DEFAULT 0,
+  issued_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  paid_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (professional_id, sequence)
+);
+
+CREATE INDEX idx_invoices_job_id ON public.invoices(job_id);
+
+CREATE TABLE public.invoice_line_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('labor', 'milestone', 'tax')),
+  description TEXT NOT NULL,
+  quantity NUMERIC(10, 2) NOT NULL DEFAULT 1,
+  unit_amount INTEGER NOT NULL,                  -- in cents
+  amount INTEGER NOT NULL,                       -- in cents
+  milestone_id UUID REFERENCES public.job_milestones(id) ON DELETE SET NULL,
+  UNIQUE (invoice_id, position)
+);
+
+-- Last invoice number used by each professional
+CREATE TABLE public.invoice_counters (
+  professional_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  last_sequence INTEGER NOT NULL
+);
+
+ALTER TABLE public.invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoice_line_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoice_counters ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the functions below
+CREATE POLICY "Invoices visible to issuer and customer"
+ON public.invoices
+FOR SELECT
+TO authenticated
+USING (auth.uid() IN (professional_id, customer_id));
+
+CREATE POLICY "Invoice lines visible with their invoice"
+ON public.invoice_line_items
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.invoices i
+    WHERE i.id = invoice_id AND auth.uid() IN (i.professional_id, i.customer_id)
+  )
+);
+
+CREATE TRIGGER update_invoices_updated_at
+BEFORE UPDATE ON public.invoices
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 2) Generate (or rebuild) the invoice for a job's accepted bid. Only the
+-- professional can set the tax rate; NULL keeps the current one.
+CREATE OR REPLACE FUNCTION public.generate_invoice(p_job_id uuid, p_tax_rate numeric DEFAULT NULL)
+RETURNS public.invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_job public.jobs%ROWTYPE;
+  v_bid public.bids%ROWTYPE;
+  v_invoice public.invoices%ROWTYPE;
+  v_role text;
+  v_sequence integer;
+  v_position integer := 0;
+  v_subtotal integer;
+  v_tax_rate numeric;
+  v_tax integer;
+BEGIN
+  SELECT * INTO v_job FROM public.jobs WHERE id = p_job_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Job not found' USING ERRCODE = 'no_data_found', HINT = 'job_not_found';
+  END IF;
+
+  v_role := public.job_participant_role(p_job_id);
+  IF v_role IS NULL THEN
+    RAISE EXCEPTION 'Only the job owner and the assigned professional can see this job''s invoice'
+      USING ERRCODE = 'insufficient_privilege', HINT = 'not_job_participant';
+  END IF;
+
+  SELECT * INTO v_bid FROM public.bids WHERE job_id = p_job_id AND status = 'accepted';
+  IF NOT FOUND OR v_job.status NOT IN ('in_progress', 'completed') THEN
+    RAISE EXCEPTION 'Invoices are only available for jobs in progress or completed'
+      USING ERRCODE = 'check_violation', HINT = 'job_not_in_progress';
+  END IF;
+
+  IF p_tax_rate IS NOT NULL THEN
+    IF v_role <> 'professional' THEN
+      RAISE EXCEPTION 'Only the professional can set the tax rate'
+        USING ERRCODE = 'insufficient_privilege', HINT = 'not_invoice_issuer';
+    END IF;
+    IF p_tax_rate < 0 OR p_tax_rate > 100 THEN
+      RAISE EXCEPTION 'Tax rate must be between 0 and 100 percent'
+        USING ERRCODE = 'check_violation', HINT = 'invalid_tax_rate';
+    END IF;
+  END IF;
+
+  SELECT * INTO v_invoice FROM public.invoices WHERE bid_id = v_bid.id FOR UPDATE;
+
+  -- Paid and void invoices are final
+  IF FOUND AND v_invoice.status <> 'unpaid' THEN
+    RETURN v_invoice;
+  END IF;
+
+  -- The charge already holds the tax at the current rate
+  IF p_tax_rate IS NOT NULL AND p_tax_rate <> COALESCE(v_invoice.tax_rate, 0) AND EXISTS (
+    SELECT 1 FROM public.payment_ledger
+    WHERE job_id = p_job_id AND entry_type = 'charge' AND status <> 'failed'
+  ) THEN
+    RAISE EXCEPTION 'The tax rate can''t change once the job is funded'
+      USING ERRCODE = 'check_violation', HINT = 'tax_rate_locked';
+  END IF;
+
+  IF NOT FOUND THEN
+    INSERT INTO public.invoice_counters AS c (professional_id, last_sequence)
+    VALUES (v_bid.user_id, 1)
+    ON CONFLICT (professional_id) DO UPDATE SET last_sequence = c.last_sequence + 1
+    RETURNING last_sequence INTO v_sequence;
+
+    INSERT INTO public.invoices (
+      job_id, bid_id, professional_id, customer_id, sequence, invoice_number,
+      issuer_name, customer_name, job_title
+    )
+    VALUES (
+      p_job_id, v_bid.id, v_bid.user_id, v_job.user_id, v_sequence,
+      'INV-' || lpad(v_sequence::text, 4, '0'),
+      '', '', ''
+    )
+    RETURNING * INTO v_invoice;
+  END IF;
+
+  -- Lines: milestones if there is a plan, otherwise the bid's terms
+  DELETE FROM public.invoice_line_items WHERE invoice_id = v_invoice.id;
+
+  IF EXISTS (SELECT 1 FROM public.job_milestones WHERE job_id = p_job_id) THEN
+    INSERT INTO public.invoice_line_items (invoice_id, position, kind, description, unit_amount, amount, milestone_id)
+    SELECT v_invoice.id, m.position, 'milestone', m.description, m.amount, m.amount, m.id
+    FROM public.job_milestones m
+    WHERE m.job_id = p_job_id;
+
+    SELECT max(position) + 1 INTO v_position FROM public.invoice_line_items WHERE invoice_id = v_invoice.id;
+  ELSIF v_bid.hourly_rate IS NOT NULL AND v_bid.estimated_hours IS NOT NULL THEN
+    INSERT INTO public.invoice_line_items (invoice_id, position, kind, description, quantity, unit_amount, amount)
+    VALUES (v_invoice.id, 0, 'labor', 'Labor (hours)', v_bid.estimated_hours, v_bid.hourly_rate, v_bid.amount);
+    v_position := 1;
+  ELSE
+    INSERT INTO public.invoice_line_items (invoice_id, position, kind, description, unit_amount, amount)
+    VALUES (v_invoice.id, 0, 'labor', v_job.title, v_bid.amount, v_bid.amount);
+    v_position := 1;
+  END IF;
+
+  SELECT sum(amount) INTO v_subtotal FROM public.invoice_line_items WHERE invoice_id = v_invoice.id;
+  v_tax_rate := COALESCE(p_tax_rate, v_invoice.tax_rate);
+  v_tax := round(v_subtotal * v_tax_rate / 100);
+
+  IF v_tax > 0 THEN
+    INSERT INTO public.invoice_line_items (invoice_id, position, kind, description, unit_amount, amount)
+    VALUES (v_invoice.id, v_position, 'tax', 'Tax (' || trim_scale(v_tax_rate) || '%)', v_tax, v_tax);
+  END IF;
+
+  UPDATE public.invoices
+  SET
+    issuer_name = COALESCE(
+      nullif(trim(v_bid.bidder_name), ''),
+      (SELECT name FROM public.professionals WHERE user_id = v_bid.user_id),
+      'Professional'
+    ),
+    issuer_email = COALESCE(v_bid.bidder_email, (SELECT email FROM public.profiles WHERE user_id = v_bid.user_id)),
+    customer_name = COALESCE(
+      nullif(trim(v_job.homeowner_name), ''),
+      (SELECT full_name FROM public.profiles WHERE user_id = v_job.user_id),
+      'Customer'
+    ),
+    customer_email = (SELECT email FROM public.profiles WHERE user_id = v_job.user_id),
+    job_title = v_job.title,
+    subtotal = v_subtotal,
+    tax_rate = v_tax_rate,
+    tax_amount = v_tax,
+    total = v_subtotal + v_tax,
+    issued_at = now()
+  WHERE id = v_invoice.id
+  RETURNING * INTO v_invoice;
+
+  RETURN v_invoice;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_invoice(uuid, numeric) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.generate_invoice(uuid, numeric) TO authenticated;
+
+-- 3) Paid once the invoice total, tax included, has been released
+CREATE OR REPLACE FUNCTION public.sync_invoice_paid_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.entry_type = 'release' AND NEW.status = 'succeeded' THEN
+    UPDATE public.invoices i
+    SET status = 'paid', paid_at = now()
+    WHERE i.bid_id = NEW.bid_id
+      AND i.status = 'unpaid'
+      AND (SELECT released FROM public.job_payment_balances WHERE job_id = NEW.job_id) >= i.total;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_payment_ledger_invoices
+AFTER INSERT OR UPDATE OF status ON public.payment_ledger
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_invoice_paid_status();
+
+-- 4) Void unpaid invoices when the job is cancelled
+CREATE OR REPLACE FUNCTION public.void_cancelled_job_invoices()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  UPDATE public.invoices SET status = 'void' WHERE job_id = NEW.id AND status = 'unpaid';
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER void_jobs_invoices
+AFTER UPDATE OF status ON public.jobs
+FOR EACH ROW
+WHEN (NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled')
+EXECUTE FUNCTION public.void_cancelled_job_invoices();
+
+-- 5) Funding charges the bid amount plus the tax of its unpaid invoice, so the
+-- escrow holds everything the invoice asks for
+CREATE OR REPLACE FUNCTION public.request_job_funding(p_job_id uuid, p_provider text, p_user_id uuid)
+RETURNS public.payment_ledger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_bid public.bids%ROWTYPE;
+  v_tax integer;
+  v_entry public.payment_ledger%ROWTYPE;
+BEGIN
+  v_bid := public.payment_job_bid(p_job_id, p_user_id);
+
+  IF (SELECT status FROM public.jobs WHERE id = p_job_id) <> 'in_progress' THEN
+    RAISE EXCEPTION 'Only jobs in progress can be funded'
+      USING ERRCODE = 'check_violation', HINT = 'job_not_in_progress';
+  END IF;
+
+  SELECT * INTO v_entry FROM public.payment_ledger
+  WHERE job_id = p_job_id AND entry_type = 'charge' AND status <> 'failed';
+  IF FOUND THEN
+    IF v_entry.status = 'pending' THEN
+      RAISE EXCEPTION 'A payment for this job is already being processed'
+        USING ERRCODE = 'check_violation', HINT = 'payment_in_progress';
+    END IF;
+    RAISE EXCEPTION 'This job is already funded'
+      USING ERRCODE = 'check_violation', HINT = 'already_funded';
+  END IF;
+
+  -- Locks the invoice so its tax can't change while the charge is created
+  SELECT tax_amount INTO v_tax FROM public.invoices
+  WHERE bid_id = v_bid.id AND status = 'unpaid'
+  FOR UPDATE;
+
+  INSERT INTO public.payment_ledger (job_id, bid_id, entry_type, amount, provider, created_by)
+  VALUES (p_job_id, v_bid.id, 'charge', v_bid.amount + COALESCE(v_tax, 0), p_provider, p_user_id)
+  RETURNING * INTO v_entry;
+
+  RETURN v_entry;
+END;
+$$;
@@ -0,0 +1,320 @@
+-- Platform fee engine
+-- The marketplace keeps a commission on each bid, taken from the professional's
+-- payout. fee_rules holds the rates: a percentage of the bid or a flat amount, with
+-- a minimum, either for every category (category NULL) or for one job category.
+-- Promotional rules override standing ones while their window is open. The rule
+-- that applies (see platform_fee_rule):
+--   1. active, and now() within starts_at / ends_at
+--   2. promotional before standing
+--   3. the job's category before the catch-all
+--   4. the most recently created
+-- A bid's fee is worked out when it is placed or revised and stored on the bid,
+-- so a rule change never alters an offer the job owner has already seen. Releases
+-- pay the professional net of the fee and record the fee as its own ledger entry.
+
+-- 1) Rules
+CREATE TABLE public.fee_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  category TEXT,                                 -- jobs.category value; NULL for all categories
+  fee_type TEXT NOT NULL CHECK (fee_type IN ('percent', 'flat')),
+  percent NUMERIC(5, 2) CHECK (percent >= 0 AND percent <= 100),
+  flat_amount INTEGER CHECK (flat_amount >= 0),  -- in cents
+  minimum_amount INTEGER NOT NULL DEFAULT 0 CHECK (minimum_amount >= 0),
+  is_promotional BOOLEAN NOT NULL DEFAULT false,
+  starts_at TIMESTAMP WITH TIME ZONE,
+  ends_at TIMESTAMP WITH TIME ZONE,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (
+    (fee_type = 'percent' AND percent IS NOT NULL)
+    OR (fee_type = 'flat' AND flat_amount IS NOT NULL)
+  ),
+  CHECK (ends_at IS NULL OR starts_at IS NULL OR ends_at > starts_at)
+);
+
+ALTER TABLE public.fee_rules ENABLE ROW LEVEL SECURITY;
+
+-- Fees are public so bidders can see what they'll be charged; rules are managed
+-- from the dashboard
+CREATE POLICY "Fee rules are viewable by everyone"
+ON public.fee_rules
+FOR SELECT
+USING (true);
+
+CREATE TRIGGER update_fee_rules_updated_at
+BEFORE UPDATE ON public.fee_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.fee_rules (name, fee_type, percent, minimum_amount)
+VALUES ('Standard commission', 'percent', 10, 500);
+
+-- 2) Fee calculation
+CREATE OR REPLACE FUNCTION public.platform_fee_rule(p_category text, p_at timestamptz DEFAULT now())
+RETURNS public.fee_rules
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT *
+  FROM public.fee_rules r
+  WHERE r.active
+    AND (r.starts_at IS NULL OR r.starts_at <= p_at)
+    AND (r.ends_at IS NULL OR r.ends_at > p_at)
+    AND (r.category IS NULL OR lower(r.category) = lower(p_category))
+  ORDER BY r.is_promotional DESC, (r.category IS NOT NULL) DESC, r.created_at DESC
+  LIMIT 1;
+$$;
+
+-- Never more than the amount itself; no rule means no fee
+CREATE OR REPLACE FUNCTION public.platform_fee(p_amount integer, p_category text, p_at timestamptz DEFAULT now())
+RETURNS integer
+LANGUAGE plpgsql
+STABLE
+SET search_path = ''
+AS $$
+DECLARE
+  v_rule public.fee_rules%ROWTYPE;
+  v_fee integer;
+BEGIN
+  v_rule := public.platform_fee_rule(p_category, p_at);
+  IF v_rule.id IS NULL OR COALESCE(p_amount, 0) <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  v_fee := CASE v_rule.fee_type
+    WHEN 'percent' THEN round(p_amount * v_rule.percent / 100)
+    ELSE v_rule.flat_amount
+  END;
+
+  RETURN LEAST(GREATEST(v_fee, v_rule.minimum_amount), p_amount);
+END;
+$$;
+
+-- 3) Fee on each bid, kept up to date while the bid is pending
+ALTER TABLE public.bids ADD COLUMN platform_fee INTEGER NOT NULL DEFAULT 0;  -- in cents
+
+UPDATE public.bids b
+SET platform_fee = public.platform_fee(b.amount, j.category)
+FROM public.jobs j
+WHERE j.id = b.job_id AND b.status = 'pending';
+
+CREATE OR REPLACE FUNCTION public.set_bid_platform_fee()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status = 'pending' THEN
+    NEW.platform_fee := public.platform_fee(
+      NEW.amount,
+      (SELECT category FROM public.jobs WHERE id = NEW.job_id)
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Named to run after calculate_bid_total_trigger has worked out the amount
+CREATE TRIGGER set_bids_platform_fee
+BEFORE INSERT OR UPDATE OF amount, hourly_rate, estimated_hours ON public.bids
+FOR EACH ROW
+EXECUTE FUNCTION public.set_bid_platform_fee();
+
+-- 4) Fee entries in the ledger. A fee is taken from a release and settles with it.
+ALTER TABLE public.payment_ledger
+DROP CONSTRAINT payment_ledger_entry_type_check,
+ADD CONSTRAINT payment_ledger_entry_type_check CHECK (entry_type IN ('charge', 'hold', 'release', 'refund', 'fee')),
+ADD COLUMN release_id UUID REFERENCES public.payment_ledger(id);  -- Release a fee was taken from
+
+CREATE OR REPLACE VIEW public.job_payment_balances
+WITH (security_invoker = true)
+AS
+SELECT
+  job_id,
+  COALESCE(SUM(amount) FILTER (WHERE entry_type = 'hold' AND status = 'succeeded'), 0)::integer AS funded,
+  COALESCE(SUM(amount) FILTER (WHERE entry_type = 'release' AND status = 'succeeded'), 0)::integer AS released,
+  COALESCE(SUM(amount) FILTER (WHERE entry_type = 'refund' AND status = 'succeeded'), 0)::integer AS refunded,
+  COALESCE(SUM(amount) FILTER (WHERE entry_type IN ('charge', 'release', 'refund') AND status = 'pending'), 0)::integer AS pending,
+  (
+    COALESCE(SUM(amount) FILTER (WHERE entry_type = 'hold' AND status = 'succeeded'), 0)
+    - COALESCE(SUM(amount) FILTER (WHERE entry_type IN ('release', 'refund', 'fee') AND status <> 'failed'), 0)
+  )::integer AS in_escrow,
+  COALESCE(SUM(amount) FILTER (WHERE entry_type = 'fee' AND status = 'succeeded'), 0)::integer AS fees
+FROM public.payment_ledger
+GROUP BY job_id;
+
+-- 5) Releases net of the fee. Each milestone carries its share of the bid's fee
+-- and of the invoice tax held with the charge (rounded so the shares add up
+-- exactly); a job without milestones releases the escrow less whatever fee hasn't
+-- been taken yet. Only the release entries are returned - they are what the
+-- provider pays out.
+CREATE OR REPLACE FUNCTION public.request_payment_release(p_job_id uuid, p_provider text, p_user_id uuid)
+RETURNS SETOF public.payment_ledger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_bid public.bids%ROWTYPE;
+  v_charge public.payment_ledger%ROWTYPE;
+  v_in_escrow integer;
+  v_tax integer;
+  v_fee integer;
+  v_milestone record;
+  v_entry public.payment_ledger%ROWTYPE;
+BEGIN
+  v_bid := public.payment_job_bid(p_job_id, p_user_id);
+
+  SELECT * INTO v_charge FROM public.payment_ledger
+  WHERE job_id = p_job_id AND entry_type = 'charge' AND status = 'succeeded';
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This job hasn''t been funded'
+      USING ERRCODE = 'check_violation', HINT = 'not_funded';
+  END IF;
+
+  SELECT in_escrow INTO v_in_escrow FROM public.job_payment_balances WHERE job_id = p_job_id;
+  -- Whatever was charged on top of the bid is the invoice tax
+  v_tax := v_charge.amount - v_bid.amount;
+
+  IF EXISTS (SELECT 1 FROM public.job_milestones WHERE job_id = p_job_id) THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.job_milestones m
+      WHERE m.job_id = p_job_id
+        AND m.status = 'approved'
+        AND NOT EXISTS (
+          SELECT 1 FROM public.payment_ledger l
+          WHERE l.milestone_id = m.id AND l.entry_type = 'release' AND l.status <> 'failed'
+        )
+    ) THEN
+      RAISE EXCEPTION 'There is no approved work waiting for payment'
+        USING ERRCODE = 'check_violation', HINT = 'nothing_to_release';
+    END IF;
+
+    FOR v_milestone IN
+      SELECT s.id, s.amount, s.fee_share, s.tax_share
+      FROM (
+        SELECT
+          m.id, m.amount, m.status,
+          round(v_bid.platform_fee * SUM(m.amount) OVER w / v_bid.amount::numeric)
+            - round(v_bid.platform_fee * (SUM(m.amount) OVER w - m.amount) / v_bid.amount::numeric) AS fee_share,
+          round(v_tax * SUM(m.amount) OVER w / v_bid.amount::numeric)
+            - round(v_tax * (SUM(m.amount) OVER w - m.amount) / v_bid.amount::numeric) AS tax_share
+        FROM public.job_milestones m
+        WHERE m.job_id = p_job_id
+        WINDOW w AS (ORDER BY m.position)
+      ) s
+      WHERE s.status = 'approved'
+        AND NOT EXISTS (
+          SELECT 1 FROM public.payment_ledger l
+          WHERE l.milestone_id = s.id AND l.entry_type = 'release' AND l.status <> 'failed'
+        )
+    LOOP
+      INSERT INTO public.payment_ledger (job_id, bid_id, milestone_id, entry_type, amount, provider, charge_id, created_by)
+      VALUES (p_job_id, v_bid.id, v_milestone.id, 'release', v_milestone.amount + v_milestone.tax_share - v_milestone.fee_share, p_provider, v_charge.id, p_user_id)
+      RETURNING * INTO v_entry;
+
+      IF v_milestone.fee_share > 0 THEN
+        INSERT INTO public.payment_ledger (job_id, bid_id, milestone_id, entry_type, amount, provider, charge_id, release_id, created_by)
+        VALUES (p_job_id, v_bid.id, v_milestone.id, 'fee', v_milestone.fee_share, p_provider, v_charge.id, v_entry.id, p_user_id);
+      END IF;
+
+      RETURN NEXT v_entry;
+    END LOOP;
+  ELSE
+    IF (SELECT status FROM public.jobs WHERE id = p_job_id) <> 'completed' OR COALESCE(v_in_escrow, 0) <= 0 THEN
+      RAISE EXCEPTION 'There is no approved work waiting for payment'
+        USING ERRCODE = 'check_violation', HINT = 'nothing_to_release';
+    END IF;
+
+    SELECT LEAST(
+      GREATEST(v_bid.platform_fee - COALESCE(SUM(amount), 0), 0),
+      v_in_escrow
+    )::integer INTO v_fee
+    FROM public.payment_ledger
+    WHERE job_id = p_job_id AND entry_type = 'fee' AND status <> 'failed';
+
+    INSERT INTO public.payment_ledger (job_id, bid_id, entry_type, amount, provider, charge_id, created_by)
+    VALUES (p_job_id, v_bid.id, 'release', v_in_escrow - v_fee, p_provider, v_charge.id, p_user_id)
+    RETURNING * INTO v_entry;
+
+    IF v_fee > 0 THEN
+      INSERT INTO public.payment_ledger (job_id, bid_id, entry_type, amount, provider, charge_id, release_id, created_by)
+      VALUES (p_job_id, v_bid.id, 'fee', v_fee, p_provider, v_charge.id, v_entry.id, p_user_id);
+    END IF;
+
+    RETURN NEXT v_entry;
+  END IF;
+END;
+$$;
+
+-- 6) Fees settle with their release: kept when it succeeds, dropped when it fails
+CREATE OR REPLACE FUNCTION public.record_payment_result(
+  p_entry_id uuid,
+  p_status text,
+  p_provider_reference text DEFAULT NULL,
+  p_failure_reason text DEFAULT NULL
+)
+RETURNS public.payment_ledger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_entry public.payment_ledger%ROWTYPE;
+BEGIN
+  SELECT * INTO v_entry FROM public.payment_ledger WHERE id = p_entry_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment entry not found'
+      USING ERRCODE = 'no_data_found', HINT = 'payment_entry_not_found';
+  END IF;
+
+  IF v_entry.status <> 'pending' THEN
+    RETURN v_entry;
+  END IF;
+
+  UPDATE public.payment_ledger
+  SET status = p_status,
+      provider_reference = COALESCE(p_provider_reference, provider_reference),
+      failure_reason = CASE WHEN p_status = 'failed' THEN p_failure_reason END
+  WHERE id = p_entry_id
+  RETURNING * INTO v_entry;
+
+  IF v_entry.entry_type = 'charge' AND v_entry.status = 'succeeded' THEN
+    INSERT INTO public.payment_ledger (job_id, bid_id, entry_type, amount, currency, status, provider, charge_id, created_by)
+    VALUES (v_entry.job_id, v_entry.bid_id, 'hold', v_entry.amount, v_entry.currency, 'succeeded', v_entry.provider, v_entry.id, v_entry.created_by);
+  END IF;
+
+  IF v_entry.entry_type = 'release' AND v_entry.status <> 'pending' THEN
+    UPDATE public.payment_ledger
+    SET status = v_entry.status
+    WHERE release_id = v_entry.id AND entry_type = 'fee' AND status = 'pending';
+  END IF;
+
+  RETURN v_entry;
+END;
+$$;
+
+-- 7) An invoice is paid once its total has left escrow as payouts and fees
+CREATE OR REPLACE FUNCTION public.sync_invoice_paid_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.entry_type IN ('release', 'fee') AND NEW.status = 'succeeded' THEN
+    UPDATE public.invoices i
+    SET status = 'paid', paid_at = now()
+    WHERE i.bid_id = NEW.bid_id
+      AND i.status = 'unpaid'
+      AND (
+        SELECT released + fees FROM public.job_payment_balances WHERE job_id = NEW.job_id
+      ) >= i.total;
+  END IF;
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,533 @@
+-- Dispute resolution
+-- When the job owner and the assigned professional can't settle a disagreement
+-- themselves (a milestone dispute only sends work back for fixing), either of them
+-- can open a dispute on the job, optionally about one milestone, for the platform
+-- to decide. A dispute goes open -> under_review (an admin has picked it up) ->
+-- resolved, with one of three outcomes for the money still in escrow:
+--   refund  - all of it back to the job owner, and the job is cancelled
+--   release - all of it to the professional, less the platform fee, and the job is
+--             completed (outstanding milestones count as approved)
+--   partial - the amount the admin awards to the professional (less its share of
+--             the fee), the rest back to the job owner
+-- Both parties can add evidence until the dispute is resolved: messages from the
+-- job's conversation or photos. No money moves on a job while it has an open
+-- dispute - funding, releases and refunds are refused until it is resolved.
+-- Admins are profiles with the 'admin' role. It can't be picked at sign-up; an
+-- existing profile is promoted with the service role.
+-- Refusals carry a HINT code like the bid eligibility checks:
+--   job_not_found, not_job_participant, job_not_in_progress, milestone_not_found,
+--   dispute_reason_required, dispute_already_open, evidence_not_found,
+--   dispute_not_found, not_admin, dispute_resolved, invalid_dispute_outcome,
+--   invalid_release_amount, payments_frozen, insufficient_escrow
+
+-- 1) Admin role
+ALTER TABLE public.profiles
+DROP CONSTRAINT profiles_role_check,
+ADD CONSTRAINT profiles_role_check CHECK (role IN ('job_poster', 'professional', 'admin'));
+
+-- Sign-up metadata is chosen by the user, so only the two public roles are taken from it
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  INSERT INTO public.profiles (user_id, email, full_name, role)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    COALESCE(NEW.raw_user_meta_data ->> 'full_name', ''),
+    CASE
+      WHEN NEW.raw_user_meta_data ->> 'role' IN ('job_poster', 'professional')
+        THEN NEW.raw_user_meta_data ->> 'role'
+      ELSE 'job_poster'
+    END
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT COALESCE(public.current_user_role() = 'admin', false);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_admin() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.is_admin() TO authenticated;
+
+-- 2) Disputes. A job has at most one unresolved dispute at a time.
+CREATE TABLE public.job_disputes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  milestone_id UUID REFERENCES public.job_milestones(id) ON DELETE SET NULL,
+  opened_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  opened_as TEXT NOT NULL CHECK (opened_as IN ('owner', 'professional')),
+  reason TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'under_review', 'resolved')),
+  outcome TEXT CHECK (outcome IN ('refund', 'partial', 'release')),
+  release_amount INTEGER CHECK (release_amount >= 0),  -- Cents of the escrow awarded to the professional
+  refund_amount INTEGER CHECK (refund_amount >= 0),    -- Cents of the escrow returned to the job owner
+  resolution_notes TEXT,
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((status = 'resolved') = (outcome IS NOT NULL))
+);
+
+CREATE INDEX idx_job_disputes_job_id ON public.job_disputes(job_id, created_at);
+CREATE INDEX idx_job_disputes_status ON public.job_disputes(status, created_at);
+
+CREATE UNIQUE INDEX idx_job_disputes_unresolved
+ON public.job_disputes(job_id)
+WHERE status <> 'resolved';
+
+ALTER TABLE public.job_disputes ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the functions below
+CREATE POLICY "Disputes visible to job participants and admins"
+ON public.job_disputes
+FOR SELECT
+TO authenticated
+USING (public.job_participant_role(job_id) IS NOT NULL OR public.is_admin());
+
+CREATE TRIGGER update_job_disputes_updated_at
+BEFORE UPDATE ON public.job_disputes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 3) Evidence: a message from the job's conversation or a photo stored at
+-- "<job id>/<dispute id>/<file>" in a private bucket. Evidence is kept for the
+-- record, so it can't be removed.
+CREATE TABLE public.dispute_evidence (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  dispute_id UUID NOT NULL REFERENCES public.job_disputes(id) ON DELETE CASCADE,
+  submitted_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('message', 'photo')),
+  message_id UUID REFERENCES public.messages(id) ON DELETE CASCADE,
+  image_path TEXT,
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((kind = 'message') = (message_id IS NOT NULL)),
+  CHECK ((kind = 'photo') = (image_path IS NOT NULL)),
+  UNIQUE (dispute_id, message_id)
+);
+
+CREATE INDEX idx_dispute_evidence_dispute_id ON public.dispute_evidence(dispute_id, created_at);
+
+ALTER TABLE public.dispute_evidence ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Dispute evidence visible to job participants and admins"
+ON public.dispute_evidence
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.job_disputes d
+    WHERE d.id = dispute_id
+      AND (public.job_participant_role(d.job_id) IS NOT NULL OR public.is_admin())
+  )
+);
+
+-- Messages have to be from the job's conversation and seen by the caller; photos
+-- have to sit in the dispute's folder
+CREATE POLICY "Job participants can add dispute evidence"
+ON public.dispute_evidence
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = submitted_by
+  AND EXISTS (
+    SELECT 1 FROM public.job_disputes d
+    WHERE d.id = dispute_id
+      AND d.status <> 'resolved'
+      AND public.job_participant_role(d.job_id) IS NOT NULL
+      AND (
+        message_id IS NULL
+        OR EXISTS (
+          SELECT 1 FROM public.messages m
+          WHERE m.id = message_id
+            AND m.job_id = d.job_id
+            AND auth.uid() IN (m.sender_id, m.recipient_id)
+        )
+      )
+      AND (
+        image_path IS NULL
+        OR image_path LIKE d.job_id::text || '/' || d.id::text || '/%'
+      )
+  )
+);
+
+-- Admins read the messages put forward as evidence, and nothing else of the
+-- conversation. Looked up without RLS, since the evidence policy above reads messages.
+CREATE OR REPLACE FUNCTION public.is_dispute_evidence_message(p_message_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.dispute_evidence WHERE message_id = p_message_id);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_dispute_evidence_message(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.is_dispute_evidence_message(uuid) TO authenticated;
+
+CREATE POLICY "Admins can view messages submitted as dispute evidence"
+ON public.messages
+FOR SELECT
+TO authenticated
+USING (public.is_admin() AND public.is_dispute_evidence_message(id));
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('dispute-evidence', 'dispute-evidence', false, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Job participants and admins can view dispute evidence"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'dispute-evidence'
+  AND (public.job_folder_participant_role(name) IS NOT NULL OR public.is_admin())
+);
+
+CREATE POLICY "Job participants can upload dispute evidence"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'dispute-evidence'
+  AND public.job_folder_participant_role(name) IS NOT NULL
+);
+
+-- 4) What an admin needs to decide: the job's milestones and payments
+CREATE POLICY "Admins can view milestones"
+ON public.job_milestones
+FOR SELECT
+TO authenticated
+USING (public.is_admin());
+
+CREATE POLICY "Admins can view payments"
+ON public.payment_ledger
+FOR SELECT
+TO authenticated
+USING (public.is_admin());
+
+-- 5) Open a dispute, with any messages the caller wants to put forward
+CREATE OR REPLACE FUNCTION public.open_dispute(
+  p_job_id uuid,
+  p_reason text,
+  p_milestone_id uuid DEFAULT NULL,
+  p_message_ids uuid[] DEFAULT '{}'
+)
+RETURNS public.job_disputes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_job public.jobs%ROWTYPE;
+  v_role text;
+  v_dispute public.job_disputes%ROWTYPE;
+  v_evidence_count integer;
+BEGIN
+  SELECT * INTO v_job FROM public.jobs WHERE id = p_job_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Job not found' USING ERRCODE = 'no_data_found', HINT = 'job_not_found';
+  END IF;
+
+  v_role := public.job_participant_role(p_job_id);
+  IF v_role IS NULL THEN
+    RAISE EXCEPTION 'Only the job owner and the assigned professional can open a dispute'
+      USING ERRCODE = 'insufficient_privilege', HINT = 'not_job_participant';
+  END IF;
+
+  IF v_job.status NOT IN ('in_progress', 'completed') THEN
+    RAISE EXCEPTION 'Disputes can only be opened on assigned work'
+      USING ERRCODE = 'check_violation', HINT = 'job_not_in_progress';
+  END IF;
+
+  IF p_milestone_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.job_milestones WHERE id = p_milestone_id AND job_id = p_job_id
+  ) THEN
+    RAISE EXCEPTION 'Milestone not found' USING ERRCODE = 'no_data_found', HINT = 'milestone_not_found';
+  END IF;
+
+  IF NULLIF(trim(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'Explain what the dispute is about'
+      USING ERRCODE = 'check_violation', HINT = 'dispute_reason_required';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.job_disputes WHERE job_id = p_job_id AND status <> 'resolved') THEN
+    RAISE EXCEPTION 'This job already has an open dispute'
+      USING ERRCODE = 'check_violation', HINT = 'dispute_already_open';
+  END IF;
+
+  INSERT INTO public.job_disputes (job_id, milestone_id, opened_by, opened_as, reason)
+  VALUES (p_job_id, p_milestone_id, auth.uid(), v_role, trim(p_reason))
+  RETURNING * INTO v_dispute;
+
+  INSERT INTO public.dispute_evidence (dispute_id, submitted_by, kind, message_id)
+  SELECT v_dispute.id, auth.uid(), 'message', m.id
+  FROM public.messages m
+  WHERE m.id = ANY(COALESCE(p_message_ids, '{}'))
+    AND m.job_id = p_job_id
+    AND auth.uid() IN (m.sender_id, m.recipient_id);
+
+  GET DIAGNOSTICS v_evidence_count = ROW_COUNT;
+  IF v_evidence_count <> cardinality(ARRAY(SELECT DISTINCT unnest(COALESCE(p_message_ids, '{}')))) THEN
+    RAISE EXCEPTION 'Evidence has to come from this job''s conversation'
+      USING ERRCODE = 'no_data_found', HINT = 'evidence_not_found';
+  END IF;
+
+  RETURN v_dispute;
+END;
+$$;
+
+-- 6) Admin checks: the user is an admin and the dispute is still unresolved
+CREATE OR REPLACE FUNCTION public.admin_dispute(p_dispute_id uuid, p_admin_id uuid)
+RETURNS public.job_disputes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_dispute public.job_disputes%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE user_id = p_admin_id AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can handle disputes'
+      USING ERRCODE = 'insufficient_privilege', HINT = 'not_admin';
+  END IF;
+
+  SELECT * INTO v_dispute FROM public.job_disputes WHERE id = p_dispute_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Dispute not found' USING ERRCODE = 'no_data_found', HINT = 'dispute_not_found';
+  END IF;
+
+  IF v_dispute.status = 'resolved' THEN
+    RAISE EXCEPTION 'This dispute has already been resolved'
+      USING ERRCODE = 'check_violation', HINT = 'dispute_resolved';
+  END IF;
+
+  RETURN v_dispute;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.admin_dispute(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.start_dispute_review(p_dispute_id uuid)
+RETURNS public.job_disputes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_dispute public.job_disputes%ROWTYPE;
+BEGIN
+  v_dispute := public.admin_dispute(p_dispute_id, auth.uid());
+
+  IF v_dispute.status = 'under_review' THEN
+    RETURN v_dispute;
+  END IF;
+
+  UPDATE public.job_disputes
+  SET status = 'under_review', reviewed_by = auth.uid(), reviewed_at = now()
+  WHERE id = p_dispute_id
+  RETURNING * INTO v_dispute;
+
+  RETURN v_dispute;
+END;
+$$;
+
+-- 7) Resolve a dispute and settle the escrow. Writes pending release / refund
+-- entries like the request_* payment functions, so it is likewise for the service
+-- role only: the payments edge function checks the caller is an admin, passes
+-- their id in and pays the entries out. A release carries its share of the bid's
+-- fee, worked out the same way as for milestones.
+CREATE OR REPLACE FUNCTION public.resolve_dispute(
+  p_dispute_id uuid,
+  p_outcome text,
+  p_provider text,
+  p_admin_id uuid,
+  p_release_amount integer DEFAULT NULL,
+  p_notes text DEFAULT NULL
+)
+RETURNS SETOF public.payment_ledger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_dispute public.job_disputes%ROWTYPE;
+  v_bid public.bids%ROWTYPE;
+  v_charge public.payment_ledger%ROWTYPE;
+  v_in_escrow integer;
+  v_release integer;
+  v_fee integer;
+  v_entry public.payment_ledger%ROWTYPE;
+BEGIN
+  v_dispute := public.admin_dispute(p_dispute_id, p_admin_id);
+
+  IF p_outcome IS NULL OR p_outcome NOT IN ('refund', 'partial', 'release') THEN
+    RAISE EXCEPTION 'Choose refund, partial or release'
+      USING ERRCODE = 'check_violation', HINT = 'invalid_dispute_outcome';
+  END IF;
+
+  SELECT * INTO v_bid FROM public.bids WHERE job_id = v_dispute.job_id AND status = 'accepted';
+  SELECT * INTO v_charge FROM public.payment_ledger
+  WHERE job_id = v_dispute.job_id AND entry_type = 'charge' AND status = 'succeeded';
+  SELECT in_escrow INTO v_in_escrow FROM public.job_payment_balances WHERE job_id = v_dispute.job_id;
+  v_in_escrow := COALESCE(v_in_escrow, 0);
+
+  v_release := CASE p_outcome
+    WHEN 'refund' THEN 0
+    WHEN 'release' THEN v_in_escrow
+    ELSE p_release_amount
+  END;
+
+  IF p_outcome = 'partial' AND (v_release IS NULL OR v_release <= 0 OR v_release >= v_in_escrow) THEN
+    RAISE EXCEPTION 'A partial outcome pays the professional part of the % held in escrow', v_in_escrow
+      USING ERRCODE = 'check_violation', HINT = 'invalid_release_amount';
+  END IF;
+
+  UPDATE public.job_disputes
+  SET status = 'resolved',
+      outcome = p_outcome,
+      release_amount = v_release,
+      refund_amount = v_in_escrow - v_release,
+      resolution_notes = NULLIF(trim(p_notes), ''),
+      reviewed_by = COALESCE(reviewed_by, p_admin_id),
+      reviewed_at = COALESCE(reviewed_at, now()),
+      resolved_by = p_admin_id,
+      resolved_at = now()
+  WHERE id = p_dispute_id;
+
+  IF v_charge.id IS NOT NULL AND v_release > 0 THEN
+    SELECT LEAST(
+      GREATEST(v_bid.platform_fee - COALESCE(SUM(amount), 0), 0),
+      CASE WHEN p_outcome = 'partial'
+        THEN round(v_bid.platform_fee * v_release / v_bid.amount::numeric)
+        ELSE v_release
+      END
+    )::integer INTO v_fee
+    FROM public.payment_ledger
+    WHERE job_id = v_dispute.job_id AND entry_type = 'fee' AND status <> 'failed';
+
+    -- When the fee takes everything awarded there is nothing to pay out, so the fee
+    -- is booked on its own and is settled straight away
+    IF v_release = v_fee THEN
+      INSERT INTO public.payment_ledger (job_id, bid_id, entry_type, amount, status, provider, charge_id, created_by)
+      VALUES (v_dispute.job_id, v_bid.id, 'fee', v_fee, 'succeeded', p_provider, v_charge.id, p_admin_id);
+    ELSE
+      INSERT INTO public.payment_ledger (job_id, bid_id, entry_type, amount, provider, charge_id, created_by)
+      VALUES (v_dispute.job_id, v_bid.id, 'release', v_release - v_fee, p_provider, v_charge.id, p_admin_id)
+      RETURNING * INTO v_entry;
+
+      IF v_fee > 0 THEN
+        INSERT INTO public.payment_ledger (job_id, bid_id, entry_type, amount, provider, charge_id, release_id, created_by)
+        VALUES (v_dispute.job_id, v_bid.id, 'fee', v_fee, p_provider, v_charge.id, v_entry.id, p_admin_id);
+      END IF;
+
+      RETURN NEXT v_entry;
+    END IF;
+  END IF;
+
+  IF v_charge.id IS NOT NULL AND v_in_escrow - v_release > 0 THEN
+    INSERT INTO public.payment_ledger (job_id, bid_id, entry_type, amount, provider, charge_id, created_by)
+    VALUES (v_dispute.job_id, v_bid.id, 'refund', v_in_escrow - v_release, p_provider, v_charge.id, p_admin_id)
+    RETURNING * INTO v_entry;
+
+    RETURN NEXT v_entry;
+  END IF;
+
+  IF p_outcome = 'refund' THEN
+    UPDATE public.jobs SET status = 'cancelled' WHERE id = v_dispute.job_id AND status = 'in_progress';
+  END IF;
+
+  -- Paying the professional everything settles the work too: the ruling stands in
+  -- for the job owner's approval of whatever is still outstanding
+  IF p_outcome = 'release' THEN
+    UPDATE public.job_milestones
+    SET status = 'approved', reviewed_at = now()
+    WHERE job_id = v_dispute.job_id AND status <> 'approved';
+
+    UPDATE public.jobs SET status = 'completed' WHERE id = v_dispute.job_id AND status = 'in_progress';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.open_dispute(uuid, text, uuid, uuid[]) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.start_dispute_review(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.resolve_dispute(uuid, text, text, uuid, integer, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.open_dispute(uuid, text, uuid, uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.start_dispute_review(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.resolve_dispute(uuid, text, text, uuid, integer, text) TO service_role;
+
+-- 8) Payments freeze while a dispute is open. Every job owner payment request goes
+-- through payment_job_bid, so the check lives there.
+CREATE OR REPLACE FUNCTION public.payment_job_bid(p_job_id uuid, p_user_id uuid)
+RETURNS public.bids
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_job public.jobs%ROWTYPE;
+  v_bid public.bids%ROWTYPE;
+BEGIN
+  SELECT * INTO v_job FROM public.jobs WHERE id = p_job_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Job not found' USING ERRCODE = 'no_data_found', HINT = 'job_not_found';
+  END IF;
+
+  IF v_job.user_id IS DISTINCT FROM p_user_id THEN
+    RAISE EXCEPTION 'Only the job owner can manage payments for this job'
+      USING ERRCODE = 'insufficient_privilege', HINT = 'not_job_owner';
+  END IF;
+
+  SELECT * INTO v_bid FROM public.bids WHERE job_id = p_job_id AND status = 'accepted';
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This job has no accepted bid'
+      USING ERRCODE = 'check_violation', HINT = 'job_not_in_progress';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.job_disputes WHERE job_id = p_job_id AND status <> 'resolved') THEN
+    RAISE EXCEPTION 'Payments for this job are on hold until its dispute is resolved'
+      USING ERRCODE = 'check_violation', HINT = 'payments_frozen';
+  END IF;
+
+  RETURN v_bid;
+END;
+$$;
+
+-- 9) Escrow can't be paid out twice. Milestone releases are worked out from the
+-- milestone amounts, which a dispute resolution may already have settled.
+CREATE OR REPLACE FUNCTION public.check_escrow_available()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.amount > COALESCE(
+    (SELECT in_escrow FROM public.job_payment_balances WHERE job_id = NEW.job_id), 0
+  ) THEN
+    RAISE EXCEPTION 'There isn''t enough money left in escrow'
+      USING ERRCODE = 'check_violation', HINT = 'insufficient_escrow';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_payment_ledger_escrow
+BEFORE INSERT ON public.payment_ledger
+FOR EACH ROW
+WHEN (NEW.entry_type IN ('release', 'refund', 'fee'))
+EXECUTE FUNCTION public.check_escrow_available();
@@ -0,0 +1,200 @@
+-- Chat attachments
+-- Messages can carry files: photos of the damage, quotes, receipts. Files are
+-- uploaded to a private bucket at "<conversation id>/<upload id>/<file>", readable by
+-- the conversation's two participants only, and then sent with the message through
+-- send_message, which writes the message and its message_attachments rows together
+-- so the other side never sees a message whose files are still missing. A message
+-- needs text, files or both.
+-- Refusals carry a HINT code like the bid eligibility checks:
+--   conversation_not_found, not_conversation_participant, message_empty,
+--   too_many_attachments, attachment_not_found
+
+-- 1) Who is in a conversation
+CREATE OR REPLACE FUNCTION public.is_conversation_participant(p_conversation_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.conversations
+    WHERE id = p_conversation_id
+      AND auth.uid() IN (job_poster_id, professional_id)
+  );
+$$;
+
+-- Same, for the conversation named by the first folder of an object path
+CREATE OR REPLACE FUNCTION public.conversation_folder_participant(p_object_name text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.conversations
+    WHERE id::text = (storage.foldername(p_object_name))[1]
+      AND auth.uid() IN (job_poster_id, professional_id)
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_conversation_participant(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.conversation_folder_participant(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.is_conversation_participant(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.conversation_folder_participant(text) TO authenticated;
+
+-- 2) Attachments. Rows are only written by send_message.
+CREATE TABLE public.message_attachments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  uploaded_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  file_path TEXT NOT NULL UNIQUE,                -- Object name in the message-attachments bucket
+  file_name TEXT NOT NULL,                       -- Name shown and used for downloads
+  content_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL CHECK (size_bytes > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_message_attachments_message_id ON public.message_attachments(message_id);
+
+ALTER TABLE public.message_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Attachments visible to conversation participants"
+ON public.message_attachments
+FOR SELECT
+TO authenticated
+USING (public.is_conversation_participant(conversation_id));
+
+-- 3) Files. The 10 MB limit and the accepted types are mirrored in src/lib/attachments.ts.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'message-attachments',
+  'message-attachments',
+  false,
+  10485760,
+  ARRAY[
+    'image/jpeg', 'image/png', 'image/webp', 'image/gif',
+    'application/pdf', 'text/plain',
+    'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  ]
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Conversation participants can view attachments"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'message-attachments'
+  AND public.conversation_folder_participant(name)
+);
+
+CREATE POLICY "Conversation participants can upload attachments"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'message-attachments'
+  AND public.conversation_folder_participant(name)
+);
+
+-- Uploads that never made it into a message can be cleaned up by the uploader;
+-- sent files stay for both participants
+CREATE POLICY "Users can delete their unsent attachments"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'message-attachments'
+  AND owner = auth.uid()
+  AND NOT EXISTS (SELECT 1 FROM public.message_attachments a WHERE a.file_path = name)
+);
+
+-- 4) Send a message with any uploaded files.
+-- p_attachments: [{ "path": text, "file_name": text, "content_type": text, "size_bytes": int }, ...]
+CREATE OR REPLACE FUNCTION public.send_message(
+  p_conversation_id uuid,
+  p_content text,
+  p_attachments jsonb DEFAULT '[]'
+)
+RETURNS public.messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_conversation public.conversations%ROWTYPE;
+  v_message public.messages%ROWTYPE;
+  v_attachments jsonb := COALESCE(p_attachments, '[]');
+  v_attachment jsonb;
+BEGIN
+  SELECT * INTO v_conversation FROM public.conversations WHERE id = p_conversation_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Conversation not found'
+      USING ERRCODE = 'no_data_found', HINT = 'conversation_not_found';
+  END IF;
+
+  IF auth.uid() IS NULL OR auth.uid() NOT IN (v_conversation.job_poster_id, v_conversation.professional_id) THEN
+    RAISE EXCEPTION 'You are not part of this conversation'
+      USING ERRCODE = 'insufficient_privilege', HINT = 'not_conversation_participant';
+  END IF;
+
+  IF NULLIF(trim(p_content), '') IS NULL AND jsonb_array_length(v_attachments) = 0 THEN
+    RAISE EXCEPTION 'Write a message or attach a file'
+      USING ERRCODE = 'check_violation', HINT = 'message_empty';
+  END IF;
+
+  IF jsonb_array_length(v_attachments) > 10 THEN
+    RAISE EXCEPTION 'A message can carry at most 10 files'
+      USING ERRCODE = 'check_violation', HINT = 'too_many_attachments';
+  END IF;
+
+  INSERT INTO public.messages (conversation_id, job_id, sender_id, recipient_id, content)
+  VALUES (
+    p_conversation_id,
+    v_conversation.job_id,
+    auth.uid(),
+    CASE WHEN auth.uid() = v_conversation.job_poster_id
+      THEN v_conversation.professional_id
+      ELSE v_conversation.job_poster_id
+    END,
+    COALESCE(trim(p_content), '')
+  )
+  RETURNING * INTO v_message;
+
+  FOR v_attachment IN SELECT * FROM jsonb_array_elements(v_attachments) LOOP
+    -- Only files the sender uploaded into this conversation's folder
+    IF NOT EXISTS (
+      SELECT 1 FROM storage.objects
+      WHERE bucket_id = 'message-attachments'
+        AND name = v_attachment ->> 'path'
+        AND owner = auth.uid()
+        AND (storage.foldername(name))[1] = p_conversation_id::text
+    ) THEN
+      RAISE EXCEPTION 'Attachment % has not been uploaded', v_attachment ->> 'file_name'
+        USING ERRCODE = 'no_data_found', HINT = 'attachment_not_found';
+    END IF;
+
+    INSERT INTO public.message_attachments (message_id, conversation_id, uploaded_by, file_path, file_name, content_type, size_bytes)
+    VALUES (
+      v_message.id,
+      p_conversation_id,
+      auth.uid(),
+      v_attachment ->> 'path',
+      v_attachment ->> 'file_name',
+      v_attachment ->> 'content_type',
+      (v_attachment ->> 'size_bytes')::integer
+    );
+  END LOOP;
+
+  UPDATE public.conversations SET last_message_at = v_message.created_at WHERE id = p_conversation_id;
+
+  RETURN v_message;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.send_message(uuid, text, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.send_message(uuid, text, jsonb) TO authenticated;
@@ -0,0 +1,47 @@
+-- Chat summaries and message history paging
+-- The conversation list used to look up the other participant's profile and count
+-- unread messages one conversation at a time. conversation_summaries returns each of
+-- the caller's conversations with the job, the other participant's name and the
+-- caller's unread count in one query; it runs with the caller's permissions, so the
+-- conversations policies decide which rows come back. Message history is read newest
+-- first in pages keyed on (created_at, id), so messages sent in the same instant
+-- aren't skipped at a page boundary; the indexes below serve it.
+
+-- 1) Indexes for paging a conversation and counting unread messages
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_created_at
+ON public.messages(conversation_id, created_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS idx_messages_unread
+ON public.messages(recipient_id, conversation_id)
+WHERE read_at IS NULL;
+
+-- 2) One row per conversation, as seen by the caller
+CREATE VIEW public.conversation_summaries
+WITH (security_invoker = true)
+AS
+SELECT
+  c.id,
+  c.job_id,
+  c.job_poster_id,
+  c.professional_id,
+  c.last_message_at,
+  c.created_at,
+  j.title AS job_title,
+  j.status AS job_status,
+  other.user_id AS other_participant_id,
+  other.full_name AS other_participant_name,
+  (
+    SELECT count(*)
+    FROM public.messages m
+    WHERE m.conversation_id = c.id
+      AND m.recipient_id = auth.uid()
+      AND m.read_at IS NULL
+  )::integer AS unread_count
+FROM public.conversations c
+LEFT JOIN public.jobs j ON j.id = c.job_id
+LEFT JOIN public.profiles other ON other.user_id = CASE
+  WHEN c.job_poster_id = auth.uid() THEN c.professional_id
+  ELSE c.job_poster_id
+END;
+
+GRANT SELECT ON public.conversation_summaries TO authenticated;
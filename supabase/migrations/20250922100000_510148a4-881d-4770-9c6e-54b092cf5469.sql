@@ -0,0 +1,92 @@
+-- Messages inbox
+-- Every conversation is now listed on one Messages page. Each participant can
+-- archive a conversation (it leaves the inbox until a newer message arrives) or mute
+-- it (its unread messages stop counting towards the badge in the navigation bar);
+-- both are personal and live in conversation_preferences. Message text gets a
+-- full-text search column like jobs, so the inbox can search what was said.
+
+-- 1) Per-participant settings for a conversation
+CREATE TABLE public.conversation_preferences (
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  archived_at TIMESTAMP WITH TIME ZONE,          -- Archived until a message newer than this
+  muted_at TIMESTAMP WITH TIME ZONE,             -- Muted while set
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (conversation_id, user_id)
+);
+
+ALTER TABLE public.conversation_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their conversation preferences"
+ON public.conversation_preferences
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Participants can save their conversation preferences"
+ON public.conversation_preferences
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id AND public.is_conversation_participant(conversation_id));
+
+CREATE POLICY "Users can update their conversation preferences"
+ON public.conversation_preferences
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_conversation_preferences_updated_at
+BEFORE UPDATE ON public.conversation_preferences
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 2) Full-text search over message text
+ALTER TABLE public.messages
+ADD COLUMN search_vector tsvector
+GENERATED ALWAYS AS (to_tsvector('english', coalesce(content, ''))) STORED;
+
+CREATE INDEX idx_messages_search_vector ON public.messages USING GIN (search_vector);
+
+-- 3) Summaries gain the latest message and the caller's archive and mute state
+CREATE OR REPLACE VIEW public.conversation_summaries
+WITH (security_invoker = true)
+AS
+SELECT
+  c.id,
+  c.job_id,
+  c.job_poster_id,
+  c.professional_id,
+  c.last_message_at,
+  c.created_at,
+  j.title AS job_title,
+  j.status AS job_status,
+  other.user_id AS other_participant_id,
+  other.full_name AS other_participant_name,
+  (
+    SELECT count(*)
+    FROM public.messages m
+    WHERE m.conversation_id = c.id
+      AND m.recipient_id = auth.uid()
+      AND m.read_at IS NULL
+  )::integer AS unread_count,
+  last_message.content AS last_message_content,
+  last_message.sender_id AS last_message_sender_id,
+  COALESCE(pref.archived_at >= COALESCE(last_message.created_at, c.created_at), false) AS archived,
+  pref.muted_at IS NOT NULL AS muted
+FROM public.conversations c
+LEFT JOIN public.jobs j ON j.id = c.job_id
+LEFT JOIN public.profiles other ON other.user_id = CASE
+  WHEN c.job_poster_id = auth.uid() THEN c.professional_id
+  ELSE c.job_poster_id
+END
+LEFT JOIN LATERAL (
+  SELECT m.content, m.sender_id, m.created_at
+  FROM public.messages m
+  WHERE m.conversation_id = c.id
+  ORDER BY m.created_at DESC
+  LIMIT 1
+) last_message ON true
+LEFT JOIN public.conversation_preferences pref
+  ON pref.conversation_id = c.id AND pref.user_id = auth.uid();
@@ -0,0 +1,174 @@
+-- Chat presence and delivery receipts
+-- Each message now shows sent, delivered or read. delivered_at is set when the
+-- recipient's app is open: touch_chat_presence, which the client calls when it
+-- connects and then every minute, marks everything waiting for the caller as
+-- delivered. Reading a message implies it was delivered. The same call records when
+-- the user was last seen, which conversation partners can see alongside the live
+-- online status that comes from Realtime presence on each conversation's private
+-- channel.
+
+-- 1) Delivery receipts
+ALTER TABLE public.messages
+ADD COLUMN delivered_at TIMESTAMP WITH TIME ZONE;
+
+-- Messages already read were delivered by then at the latest
+UPDATE public.messages SET delivered_at = read_at WHERE read_at IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.fill_message_delivered_at()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.read_at IS NOT NULL AND NEW.delivered_at IS NULL THEN
+    NEW.delivered_at := NEW.read_at;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_messages_delivered_at
+BEFORE UPDATE OF read_at ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.fill_message_delivered_at();
+
+-- 2) Last seen, visible to yourself and to the people you have conversations with
+CREATE TABLE public.chat_presence (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE OR REPLACE FUNCTION public.shares_conversation_with(p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.conversations
+    WHERE (job_poster_id = auth.uid() AND professional_id = p_user_id)
+       OR (professional_id = auth.uid() AND job_poster_id = p_user_id)
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.shares_conversation_with(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.shares_conversation_with(uuid) TO authenticated;
+
+ALTER TABLE public.chat_presence ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Conversation partners can see when users were last seen"
+ON public.chat_presence
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id OR public.shares_conversation_with(user_id));
+
+-- 3) Called by the client while the app is open
+CREATE OR REPLACE FUNCTION public.touch_chat_presence()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.chat_presence (user_id, last_seen_at)
+  VALUES (auth.uid(), now())
+  ON CONFLICT (user_id) DO UPDATE SET last_seen_at = EXCLUDED.last_seen_at;
+
+  UPDATE public.messages
+  SET delivered_at = now()
+  WHERE recipient_id = auth.uid()
+    AND delivered_at IS NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.touch_chat_presence() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.touch_chat_presence() TO authenticated;
+
+-- 4) Summaries gain when the other participant was last seen
+CREATE OR REPLACE VIEW public.conversation_summaries
+WITH (security_invoker = true)
+AS
+SELECT
+  c.id,
+  c.job_id,
+  c.job_poster_id,
+  c.professional_id,
+  c.last_message_at,
+  c.created_at,
+  j.title AS job_title,
+  j.status AS job_status,
+  other.user_id AS other_participant_id,
+  other.full_name AS other_participant_name,
+  (
+    SELECT count(*)
+    FROM public.messages m
+    WHERE m.conversation_id = c.id
+      AND m.recipient_id = auth.uid()
+      AND m.read_at IS NULL
+  )::integer AS unread_count,
+  last_message.content AS last_message_content,
+  last_message.sender_id AS last_message_sender_id,
+  COALESCE(pref.archived_at >= COALESCE(last_message.created_at, c.created_at), false) AS archived,
+  pref.muted_at IS NOT NULL AS muted,
+  presence.last_seen_at AS other_participant_last_seen_at
+FROM public.conversations c
+LEFT JOIN public.jobs j ON j.id = c.job_id
+LEFT JOIN public.profiles other ON other.user_id = CASE
+  WHEN c.job_poster_id = auth.uid() THEN c.professional_id
+  ELSE c.job_poster_id
+END
+LEFT JOIN LATERAL (
+  SELECT m.content, m.sender_id, m.created_at
+  FROM public.messages m
+  WHERE m.conversation_id = c.id
+  ORDER BY m.created_at DESC
+  LIMIT 1
+) last_message ON true
+LEFT JOIN public.conversation_preferences pref
+  ON pref.conversation_id = c.id AND pref.user_id = auth.uid()
+LEFT JOIN public.chat_presence presence
+  ON presence.user_id = other.user_id;
+
+-- 5) Live online status and typing indicators travel on private Realtime channels,
+-- one of each per conversation (presence:<id> and typing:<id>). Only the
+-- conversation's two participants can join them, so nobody else learns who is
+-- online or sees anyone come and go.
+CREATE OR REPLACE FUNCTION public.conversation_channel_participant(p_topic text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT split_part(p_topic, ':', 1) IN ('presence', 'typing') AND EXISTS (
+    SELECT 1 FROM public.conversations
+    WHERE id::text = split_part(p_topic, ':', 2)
+      AND auth.uid() IN (job_poster_id, professional_id)
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.conversation_channel_participant(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.conversation_channel_participant(text) TO authenticated;
+
+CREATE POLICY "Conversation participants can listen on its channels"
+ON realtime.messages
+FOR SELECT
+TO authenticated
+USING (
+  realtime.messages.extension IN ('presence', 'broadcast')
+  AND public.conversation_channel_participant(realtime.topic())
+);
+
+CREATE POLICY "Conversation participants can send on its channels"
+ON realtime.messages
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  realtime.messages.extension IN ('presence', 'broadcast')
+  AND public.conversation_channel_participant(realtime.topic())
+);
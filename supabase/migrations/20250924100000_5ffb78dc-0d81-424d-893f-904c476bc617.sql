@@ -0,0 +1,367 @@
+-- Message editing, deletion and reports
+-- The sender can edit a message for 15 minutes after sending it, and delete it at
+-- any time. Deleting is soft: the row stays as a "message deleted" placeholder, but
+-- its text and attachments are removed. updated_at also moves when a message is
+-- delivered or read, so edits are stamped in edited_at. Messages put forward as
+-- dispute evidence are kept as they are.
+-- The recipient can report a message, which opens a moderation case for admins
+-- with a copy of the text as it was reported. A case goes open -> under_review ->
+-- resolved, and is either dismissed or resolved by removing the message.
+-- Refusals carry a HINT code like the other chat functions:
+--   message_immutable, not_message_sender, not_message_recipient, message_deleted,
+--   edit_window_closed, message_empty, message_is_evidence, message_not_found,
+--   cannot_report_own_message, invalid_report_reason, message_already_reported,
+--   not_admin, moderation_case_not_found, moderation_case_resolved,
+--   invalid_moderation_outcome
+
+-- 1) Edit and delete stamps
+ALTER TABLE public.messages
+ADD COLUMN edited_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+-- 2) Senders edit and delete their messages; recipients only mark them delivered
+-- and read. RLS picks the rows, the trigger below the columns each side may change.
+DROP POLICY "Users can update their own messages" ON public.messages;
+
+CREATE POLICY "Senders can edit and delete their messages"
+ON public.messages
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = sender_id)
+WITH CHECK (auth.uid() = sender_id);
+
+CREATE POLICY "Recipients can mark messages read"
+ON public.messages
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = recipient_id)
+WITH CHECK (auth.uid() = recipient_id);
+
+-- Runs as the table owner so a deletion can remove the message's attachment rows,
+-- which nobody can delete directly. The files themselves are removed through the
+-- Storage API: by the sender once the rows are gone (they then count as unsent
+-- uploads), or by the moderation edge function when an admin removes the message.
+-- The permission checks compare against auth.uid(), so they don't hold back the
+-- service role.
+CREATE OR REPLACE FUNCTION public.check_message_update()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.conversation_id IS DISTINCT FROM OLD.conversation_id
+    OR NEW.job_id IS DISTINCT FROM OLD.job_id
+    OR NEW.sender_id IS DISTINCT FROM OLD.sender_id
+    OR NEW.recipient_id IS DISTINCT FROM OLD.recipient_id
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'A message can''t be moved to another conversation'
+      USING ERRCODE = 'check_violation', HINT = 'message_immutable';
+  END IF;
+
+  IF (NEW.delivered_at IS DISTINCT FROM OLD.delivered_at OR NEW.read_at IS DISTINCT FROM OLD.read_at)
+    AND auth.uid() <> OLD.recipient_id THEN
+    RAISE EXCEPTION 'Only the recipient can mark a message read'
+      USING ERRCODE = 'insufficient_privilege', HINT = 'not_message_recipient';
+  END IF;
+
+  IF NEW.content IS NOT DISTINCT FROM OLD.content
+    AND NEW.edited_at IS NOT DISTINCT FROM OLD.edited_at
+    AND NEW.deleted_at IS NOT DISTINCT FROM OLD.deleted_at THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This message has been deleted'
+      USING ERRCODE = 'check_violation', HINT = 'message_deleted';
+  END IF;
+
+  -- Admins remove messages by resolving a moderation case, as the service role
+  IF auth.uid() <> OLD.sender_id THEN
+    RAISE EXCEPTION 'Only the sender can change a message'
+      USING ERRCODE = 'insufficient_privilege', HINT = 'not_message_sender';
+  END IF;
+
+  IF auth.uid() = OLD.sender_id AND public.is_dispute_evidence_message(OLD.id) THEN
+    RAISE EXCEPTION 'This message is evidence in a dispute and can''t be changed'
+      USING ERRCODE = 'check_violation', HINT = 'message_is_evidence';
+  END IF;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    NEW.deleted_at := now();
+    NEW.content := '';
+    NEW.edited_at := OLD.edited_at;
+    DELETE FROM public.message_attachments WHERE message_id = OLD.id;
+    RETURN NEW;
+  END IF;
+
+  IF now() > OLD.created_at + interval '15 minutes' THEN
+    RAISE EXCEPTION 'Messages can only be edited for 15 minutes after sending'
+      USING ERRCODE = 'check_violation', HINT = 'edit_window_closed';
+  END IF;
+
+  NEW.content := COALESCE(trim(NEW.content), '');
+  IF NEW.content = '' AND NOT EXISTS (SELECT 1 FROM public.message_attachments WHERE message_id = OLD.id) THEN
+    RAISE EXCEPTION 'Write a message or delete it instead'
+      USING ERRCODE = 'check_violation', HINT = 'message_empty';
+  END IF;
+
+  NEW.edited_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_messages_update
+BEFORE UPDATE ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.check_message_update();
+
+-- 3) Moderation cases, one per message and reporter. Rows are only written by the
+-- functions below.
+CREATE TABLE public.moderation_cases (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  job_id UUID REFERENCES public.jobs(id) ON DELETE SET NULL,
+  reported_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  reported_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL CHECK (reason IN ('spam', 'harassment', 'scam', 'inappropriate', 'other')),
+  details TEXT,
+  message_content TEXT NOT NULL,                 -- The text as it was when reported
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'under_review', 'resolved')),
+  outcome TEXT CHECK (outcome IN ('dismissed', 'message_removed')),
+  resolution_notes TEXT,
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((status = 'resolved') = (outcome IS NOT NULL)),
+  UNIQUE (message_id, reported_by)
+);
+
+CREATE INDEX idx_moderation_cases_status ON public.moderation_cases(status, created_at);
+
+ALTER TABLE public.moderation_cases ENABLE ROW LEVEL SECURITY;
+
+-- The reported user isn't told who reported them
+CREATE POLICY "Moderation cases visible to their reporter and admins"
+ON public.moderation_cases
+FOR SELECT
+TO authenticated
+USING (auth.uid() = reported_by OR public.is_admin());
+
+CREATE TRIGGER update_moderation_cases_updated_at
+BEFORE UPDATE ON public.moderation_cases
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 4) Report a message you received
+CREATE OR REPLACE FUNCTION public.report_message(
+  p_message_id uuid,
+  p_reason text,
+  p_details text DEFAULT NULL
+)
+RETURNS public.moderation_cases
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_message public.messages%ROWTYPE;
+  v_case public.moderation_cases%ROWTYPE;
+BEGIN
+  SELECT * INTO v_message FROM public.messages WHERE id = p_message_id;
+  IF NOT FOUND OR auth.uid() IS NULL OR auth.uid() NOT IN (v_message.sender_id, v_message.recipient_id) THEN
+    RAISE EXCEPTION 'Message not found' USING ERRCODE = 'no_data_found', HINT = 'message_not_found';
+  END IF;
+
+  IF auth.uid() = v_message.sender_id THEN
+    RAISE EXCEPTION 'You can''t report your own message'
+      USING ERRCODE = 'check_violation', HINT = 'cannot_report_own_message';
+  END IF;
+
+  IF v_message.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This message has been deleted'
+      USING ERRCODE = 'check_violation', HINT = 'message_deleted';
+  END IF;
+
+  IF p_reason IS NULL OR p_reason NOT IN ('spam', 'harassment', 'scam', 'inappropriate', 'other') THEN
+    RAISE EXCEPTION 'Choose why you are reporting this message'
+      USING ERRCODE = 'check_violation', HINT = 'invalid_report_reason';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.moderation_cases WHERE message_id = p_message_id AND reported_by = auth.uid()) THEN
+    RAISE EXCEPTION 'You have already reported this message'
+      USING ERRCODE = 'unique_violation', HINT = 'message_already_reported';
+  END IF;
+
+  INSERT INTO public.moderation_cases (
+    message_id, job_id, reported_by, reported_user_id, reason, details, message_content
+  )
+  VALUES (
+    p_message_id,
+    v_message.job_id,
+    auth.uid(),
+    v_message.sender_id,
+    p_reason,
+    NULLIF(trim(p_details), ''),
+    v_message.content
+  )
+  RETURNING * INTO v_case;
+
+  RETURN v_case;
+END;
+$$;
+
+-- 5) Admin checks: the user is an admin and the case is still unresolved
+CREATE OR REPLACE FUNCTION public.admin_moderation_case(p_case_id uuid, p_admin_id uuid)
+RETURNS public.moderation_cases
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_case public.moderation_cases%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE user_id = p_admin_id AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can handle reports'
+      USING ERRCODE = 'insufficient_privilege', HINT = 'not_admin';
+  END IF;
+
+  SELECT * INTO v_case FROM public.moderation_cases WHERE id = p_case_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report not found' USING ERRCODE = 'no_data_found', HINT = 'moderation_case_not_found';
+  END IF;
+
+  IF v_case.status = 'resolved' THEN
+    RAISE EXCEPTION 'This report has already been resolved'
+      USING ERRCODE = 'check_violation', HINT = 'moderation_case_resolved';
+  END IF;
+
+  RETURN v_case;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.admin_moderation_case(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.start_moderation_review(p_case_id uuid)
+RETURNS public.moderation_cases
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_case public.moderation_cases%ROWTYPE;
+BEGIN
+  v_case := public.admin_moderation_case(p_case_id, auth.uid());
+
+  IF v_case.status = 'under_review' THEN
+    RETURN v_case;
+  END IF;
+
+  UPDATE public.moderation_cases
+  SET status = 'under_review', reviewed_by = auth.uid(), reviewed_at = now()
+  WHERE id = p_case_id
+  RETURNING * INTO v_case;
+
+  RETURN v_case;
+END;
+$$;
+
+-- 6) Resolve a case. Removing the message settles every open report about it.
+-- Only the service role may call this: the moderation edge function verifies the
+-- admin, passes their id in, and removes the message's files from storage.
+CREATE OR REPLACE FUNCTION public.resolve_moderation_case(
+  p_case_id uuid,
+  p_outcome text,
+  p_admin_id uuid,
+  p_notes text DEFAULT NULL
+)
+RETURNS public.moderation_cases
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_case public.moderation_cases%ROWTYPE;
+BEGIN
+  v_case := public.admin_moderation_case(p_case_id, p_admin_id);
+
+  IF p_outcome IS NULL OR p_outcome NOT IN ('dismissed', 'message_removed') THEN
+    RAISE EXCEPTION 'Choose dismissed or message_removed'
+      USING ERRCODE = 'check_violation', HINT = 'invalid_moderation_outcome';
+  END IF;
+
+  IF p_outcome = 'message_removed' THEN
+    UPDATE public.messages SET deleted_at = now() WHERE id = v_case.message_id AND deleted_at IS NULL;
+  END IF;
+
+  UPDATE public.moderation_cases
+  SET status = 'resolved',
+      outcome = p_outcome,
+      resolution_notes = NULLIF(trim(p_notes), ''),
+      reviewed_by = COALESCE(reviewed_by, p_admin_id),
+      reviewed_at = COALESCE(reviewed_at, now()),
+      resolved_by = p_admin_id,
+      resolved_at = now()
+  WHERE status <> 'resolved'
+    AND (id = p_case_id OR (p_outcome = 'message_removed' AND message_id = v_case.message_id));
+
+  SELECT * INTO v_case FROM public.moderation_cases WHERE id = p_case_id;
+  RETURN v_case;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.report_message(uuid, text, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.start_moderation_review(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.resolve_moderation_case(uuid, text, uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.report_message(uuid, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.start_moderation_review(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.resolve_moderation_case(uuid, text, uuid, text) TO service_role;
+
+-- 7) Summaries say when the latest message was deleted
+CREATE OR REPLACE VIEW public.conversation_summaries
+WITH (security_invoker = true)
+AS
+SELECT
+  c.id,
+  c.job_id,
+  c.job_poster_id,
+  c.professional_id,
+  c.last_message_at,
+  c.created_at,
+  j.title AS job_title,
+  j.status AS job_status,
+  other.user_id AS other_participant_id,
+  other.full_name AS other_participant_name,
+  (
+    SELECT count(*)
+    FROM public.messages m
+    WHERE m.conversation_id = c.id
+      AND m.recipient_id = auth.uid()
+      AND m.read_at IS NULL
+  )::integer AS unread_count,
+  last_message.content AS last_message_content,
+  last_message.sender_id AS last_message_sender_id,
+  COALESCE(pref.archived_at >= COALESCE(last_message.created_at, c.created_at), false) AS archived,
+  pref.muted_at IS NOT NULL AS muted,
+  presence.last_seen_at AS other_participant_last_seen_at,
+  last_message.deleted_at IS NOT NULL AS last_message_deleted
+FROM public.conversations c
+LEFT JOIN public.jobs j ON j.id = c.job_id
+LEFT JOIN public.profiles other ON other.user_id = CASE
+  WHEN c.job_poster_id = auth.uid() THEN c.professional_id
+  ELSE c.job_poster_id
+END
+LEFT JOIN LATERAL (
+  SELECT m.content, m.sender_id, m.created_at, m.deleted_at
+  FROM public.messages m
+  WHERE m.conversation_id = c.id
+  ORDER BY m.created_at DESC
+  LIMIT 1
+) last_message ON true
+LEFT JOIN public.conversation_preferences pref
+  ON pref.conversation_id = c.id AND pref.user_id = auth.uid()
+LEFT JOIN public.chat_presence presence
+  ON presence.user_id = other.user_id;
@@ -0,0 +1,128 @@
+-- Releasing a disputed job's escrow to the professional
+-- The release outcome pays out what's held, less the fee, and completes the job.
+-- When the fee takes everything there is no payout to make, only the fee.
+-- Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(9);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('00000000-0000-0000-0000-00000000000a', 'poster@example.com', '{"role": "job_poster"}'),
+  ('00000000-0000-0000-0000-00000000000c', 'pro@example.com', '{"role": "professional"}'),
+  ('00000000-0000-0000-0000-00000000000d', 'admin@example.com', '{"role": "job_poster"}');
+
+UPDATE public.profiles SET role = 'admin' WHERE user_id = '00000000-0000-0000-0000-00000000000d';
+
+-- A job with two milestones, and a small one whose bid is all minimum fee
+INSERT INTO public.jobs (id, title, description, category, location, homeowner_name, user_id, budget_type, budget_min, budget_max)
+VALUES
+  ('10000000-0000-0000-0000-000000000001', 'Paint the fence', 'Two coats', 'painting', 'Springfield', 'Pat',
+   '00000000-0000-0000-0000-00000000000a', 'fixed', 50000, 50000),
+  ('10000000-0000-0000-0000-000000000002', 'Oil the hinge', 'One hinge', 'carpentry', 'Springfield', 'Pat',
+   '00000000-0000-0000-0000-00000000000a', 'fixed', 400, 400);
+
+INSERT INTO public.bids (id, job_id, user_id, professional_id, amount)
+VALUES
+  ('20000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001',
+   '00000000-0000-0000-0000-00000000000c', '00000000-0000-0000-0000-00000000000c', 45000),
+  ('20000000-0000-0000-0000-000000000002', '10000000-0000-0000-0000-000000000002',
+   '00000000-0000-0000-0000-00000000000c', '00000000-0000-0000-0000-00000000000c', 400);
+
+-- 1) The owner accepts both bids, plans the first job and funds both
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000a", "role": "authenticated"}', true);
+
+SELECT public.accept_bid('20000000-0000-0000-0000-000000000001');
+SELECT public.accept_bid('20000000-0000-0000-0000-000000000002');
+
+SELECT public.set_job_milestones('10000000-0000-0000-0000-000000000001', '[
+  {"description": "Prep", "amount": 15000},
+  {"description": "Paint", "amount": 30000}
+]');
+
+RESET ROLE;
+SELECT set_config('request.jwt.claims', '', true);
+SET LOCAL ROLE service_role;
+
+SELECT public.record_payment_result(id, 'succeeded', 'fake_ch_' || job_id)
+FROM public.request_job_funding('10000000-0000-0000-0000-000000000001', 'fake', '00000000-0000-0000-0000-00000000000a');
+SELECT public.record_payment_result(id, 'succeeded', 'fake_ch_' || job_id)
+FROM public.request_job_funding('10000000-0000-0000-0000-000000000002', 'fake', '00000000-0000-0000-0000-00000000000a');
+
+-- 2) The professional disputes both jobs
+RESET ROLE;
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000c", "role": "authenticated"}', true);
+
+SELECT public.open_dispute('10000000-0000-0000-0000-000000000001', 'The owner stopped answering');
+SELECT public.open_dispute('10000000-0000-0000-0000-000000000002', 'The owner stopped answering');
+
+-- 3) An admin releases the first job's escrow
+RESET ROLE;
+SELECT set_config('request.jwt.claims', '', true);
+SET LOCAL ROLE service_role;
+
+SELECT results_eq(
+  $$ SELECT entry_type, amount FROM public.resolve_dispute(
+       (SELECT id FROM public.job_disputes WHERE job_id = '10000000-0000-0000-0000-000000000001'),
+       'release', 'fake', '00000000-0000-0000-0000-00000000000d') $$,
+  $$ VALUES ('release'::text, 40500) $$,
+  'the escrow is paid out less the fee'
+);
+
+SELECT is(
+  (SELECT status::text FROM public.jobs WHERE id = '10000000-0000-0000-0000-000000000001'),
+  'completed',
+  'the job is completed'
+);
+
+SELECT is_empty(
+  $$ SELECT 1 FROM public.job_milestones
+     WHERE job_id = '10000000-0000-0000-0000-000000000001' AND status <> 'approved' $$,
+  'its outstanding milestones count as approved'
+);
+
+-- 4) The second job's fee is the whole bid
+SELECT is(
+  (SELECT platform_fee FROM public.bids WHERE id = '20000000-0000-0000-0000-000000000002'),
+  400,
+  'the minimum fee takes the whole small bid'
+);
+
+SELECT is_empty(
+  $$ SELECT * FROM public.resolve_dispute(
+       (SELECT id FROM public.job_disputes WHERE job_id = '10000000-0000-0000-0000-000000000002'),
+       'release', 'fake', '00000000-0000-0000-0000-00000000000d') $$,
+  'nothing is left to pay out after the fee'
+);
+
+SELECT results_eq(
+  $$ SELECT amount, status FROM public.payment_ledger
+     WHERE job_id = '10000000-0000-0000-0000-000000000002' AND entry_type = 'fee' $$,
+  $$ VALUES (400, 'succeeded'::text) $$,
+  'the fee is booked and settled'
+);
+
+SELECT is_empty(
+  $$ SELECT 1 FROM public.payment_ledger
+     WHERE job_id = '10000000-0000-0000-0000-000000000002' AND entry_type = 'release' $$,
+  'without an empty release'
+);
+
+SELECT is(
+  (SELECT in_escrow FROM public.job_payment_balances WHERE job_id = '10000000-0000-0000-0000-000000000002'),
+  0,
+  'the escrow is empty'
+);
+
+SELECT is(
+  (SELECT status::text FROM public.jobs WHERE id = '10000000-0000-0000-0000-000000000002'),
+  'completed',
+  'and that job is completed too'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,119 @@
+-- Invoice tax through escrow
+-- Funding charges the invoice total, tax included, and each milestone release pays
+-- out its share of the tax; the invoice is paid once its total has been released.
+-- Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(9);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('00000000-0000-0000-0000-00000000000a', 'poster@example.com', '{"role": "job_poster"}'),
+  ('00000000-0000-0000-0000-00000000000c', 'pro@example.com', '{"role": "professional"}');
+
+INSERT INTO public.jobs (id, title, description, category, location, homeowner_name, user_id, budget_type, budget_min, budget_max)
+VALUES ('10000000-0000-0000-0000-000000000001', 'Paint the fence', 'Two coats', 'painting', 'Springfield', 'Pat',
+        '00000000-0000-0000-0000-00000000000a', 'fixed', 50000, 50000);
+
+INSERT INTO public.bids (id, job_id, user_id, professional_id, amount)
+VALUES ('20000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001',
+        '00000000-0000-0000-0000-00000000000c', '00000000-0000-0000-0000-00000000000c', 45000);
+
+-- 1) The professional plans the work and invoices it with 10% tax
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000a", "role": "authenticated"}', true);
+
+SELECT public.accept_bid('20000000-0000-0000-0000-000000000001');
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000c", "role": "authenticated"}', true);
+
+SELECT public.set_job_milestones('10000000-0000-0000-0000-000000000001', '[
+  {"description": "Prep", "amount": 15000},
+  {"description": "Paint", "amount": 30000}
+]');
+
+SELECT is(
+  (SELECT total FROM public.generate_invoice('10000000-0000-0000-0000-000000000001', 10)),
+  49500,
+  'the invoice total includes the tax'
+);
+
+-- 2) Funding, as the payments edge function
+RESET ROLE;
+SELECT set_config('request.jwt.claims', '', true);
+SET LOCAL ROLE service_role;
+
+SELECT is(
+  (SELECT amount FROM public.request_job_funding('10000000-0000-0000-0000-000000000001', 'fake', '00000000-0000-0000-0000-00000000000a')),
+  49500,
+  'funding charges the invoice total'
+);
+
+SELECT public.record_payment_result(id, 'succeeded', 'fake_ch_1')
+FROM public.payment_ledger WHERE entry_type = 'charge';
+
+-- 3) The tax rate is fixed once the charge holds the tax
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000c", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ SELECT public.generate_invoice('10000000-0000-0000-0000-000000000001', 5) $$,
+  '23514', 'The tax rate can''t change once the job is funded',
+  'the tax rate can''t change after funding'
+);
+
+SELECT lives_ok(
+  $$ SELECT public.generate_invoice('10000000-0000-0000-0000-000000000001') $$,
+  'the invoice can still be refreshed at the same rate'
+);
+
+-- 4) Milestone releases carry their share of the tax
+RESET ROLE;
+SELECT set_config('request.jwt.claims', '', true);
+UPDATE public.job_milestones SET status = 'approved'
+WHERE job_id = '10000000-0000-0000-0000-000000000001' AND position = 0;
+SET LOCAL ROLE service_role;
+
+SELECT is(
+  (SELECT amount FROM public.request_payment_release('10000000-0000-0000-0000-000000000001', 'fake', '00000000-0000-0000-0000-00000000000a')),
+  15000 + 1500 - (SELECT round(platform_fee * 15000 / 45000.0)::integer FROM public.bids WHERE id = '20000000-0000-0000-0000-000000000001'),
+  'the first milestone is paid with a third of the tax, less its share of the fee'
+);
+
+SELECT public.record_payment_result(id, 'succeeded')
+FROM public.payment_ledger WHERE entry_type = 'release';
+
+SELECT is(
+  (SELECT status FROM public.invoices WHERE bid_id = '20000000-0000-0000-0000-000000000001'),
+  'unpaid',
+  'the invoice stays unpaid while part of it is held'
+);
+
+RESET ROLE;
+UPDATE public.job_milestones SET status = 'approved'
+WHERE job_id = '10000000-0000-0000-0000-000000000001' AND position = 1;
+SET LOCAL ROLE service_role;
+
+SELECT public.record_payment_result(id, 'succeeded')
+FROM public.request_payment_release('10000000-0000-0000-0000-000000000001', 'fake', '00000000-0000-0000-0000-00000000000a');
+
+SELECT is(
+  (SELECT in_escrow FROM public.job_payment_balances WHERE job_id = '10000000-0000-0000-0000-000000000001'),
+  0,
+  'the last release empties the escrow'
+);
+
+SELECT is(
+  (SELECT released + fees FROM public.job_payment_balances WHERE job_id = '10000000-0000-0000-0000-000000000001'),
+  49500,
+  'payouts and fees add up to the invoice total'
+);
+
+SELECT is(
+  (SELECT status FROM public.invoices WHERE bid_id = '20000000-0000-0000-0000-000000000001'),
+  'paid',
+  'the invoice is paid once its total has been released'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,115 @@
+-- Cancelling a funded job
+-- Money held in escrow can't be taken back by cancelling the job directly; the
+-- owner cancels through cancel_funded_job, which refuses once work has been
+-- handed in.
+-- Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(7);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('00000000-0000-0000-0000-00000000000a', 'poster@example.com', '{"role": "job_poster"}'),
+  ('00000000-0000-0000-0000-00000000000c', 'pro@example.com', '{"role": "professional"}');
+
+INSERT INTO public.jobs (id, title, description, category, location, homeowner_name, user_id, budget_type, budget_min, budget_max)
+VALUES ('10000000-0000-0000-0000-000000000001', 'Paint the fence', 'Two coats', 'painting', 'Springfield', 'Pat',
+        '00000000-0000-0000-0000-00000000000a', 'fixed', 50000, 50000);
+
+INSERT INTO public.bids (id, job_id, user_id, professional_id, amount)
+VALUES ('20000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001',
+        '00000000-0000-0000-0000-00000000000c', '00000000-0000-0000-0000-00000000000c', 45000);
+
+-- 1) The owner accepts the bid, plans the work and funds the job
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000a", "role": "authenticated"}', true);
+
+SELECT public.accept_bid('20000000-0000-0000-0000-000000000001');
+
+SELECT public.set_job_milestones('10000000-0000-0000-0000-000000000001', '[
+  {"description": "Prep", "amount": 15000},
+  {"description": "Paint", "amount": 30000}
+]');
+
+RESET ROLE;
+SELECT set_config('request.jwt.claims', '', true);
+SET LOCAL ROLE service_role;
+
+SELECT public.record_payment_result(id, 'succeeded', 'fake_ch_1')
+FROM public.request_job_funding('10000000-0000-0000-0000-000000000001', 'fake', '00000000-0000-0000-0000-00000000000a');
+
+-- 2) Cancelling by changing the status is refused while money is held
+RESET ROLE;
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000a", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ UPDATE public.jobs SET status = 'cancelled' WHERE id = '10000000-0000-0000-0000-000000000001' $$,
+  '23514', 'This job holds money in escrow, cancel it from its payment panel',
+  'a funded job can''t be cancelled by changing its status'
+);
+
+-- 3) Nor once work has been handed in
+RESET ROLE;
+UPDATE public.job_milestones SET status = 'submitted'
+WHERE job_id = '10000000-0000-0000-0000-000000000001' AND position = 0;
+SET LOCAL ROLE authenticated;
+
+SELECT throws_ok(
+  $$ SELECT public.cancel_funded_job('10000000-0000-0000-0000-000000000001') $$,
+  '23514', 'Work has been handed in on this job, open a dispute to settle the escrow',
+  'a job with submitted work can''t be cancelled'
+);
+
+RESET ROLE;
+UPDATE public.job_milestones SET status = 'pending'
+WHERE job_id = '10000000-0000-0000-0000-000000000001';
+SET LOCAL ROLE authenticated;
+
+-- 4) Before any work is handed in, the owner cancels and gets the escrow back
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000c", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ SELECT public.cancel_funded_job('10000000-0000-0000-0000-000000000001') $$,
+  '42501', 'Only the job owner can manage payments for this job',
+  'only the owner can cancel the job'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000a", "role": "authenticated"}', true);
+
+SELECT lives_ok(
+  $$ SELECT public.cancel_funded_job('10000000-0000-0000-0000-000000000001') $$,
+  'the owner can cancel before work is handed in'
+);
+
+SELECT is(
+  (SELECT status::text FROM public.jobs WHERE id = '10000000-0000-0000-0000-000000000001'),
+  'cancelled',
+  'the job is cancelled'
+);
+
+RESET ROLE;
+SELECT set_config('request.jwt.claims', '', true);
+SET LOCAL ROLE service_role;
+
+SELECT is(
+  (SELECT amount FROM public.request_payment_refund('10000000-0000-0000-0000-000000000001', 'fake', '00000000-0000-0000-0000-00000000000a')),
+  45000,
+  'the whole escrow is refunded'
+);
+
+-- 5) Unfunded jobs are still cancelled directly
+RESET ROLE;
+INSERT INTO public.jobs (id, title, description, category, location, homeowner_name, user_id, budget_type, budget_min, budget_max)
+VALUES ('10000000-0000-0000-0000-000000000002', 'Fix the gate', 'Hinges', 'carpentry', 'Springfield', 'Pat',
+        '00000000-0000-0000-0000-00000000000a', 'fixed', 10000, 10000);
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000a", "role": "authenticated"}', true);
+
+SELECT lives_ok(
+  $$ UPDATE public.jobs SET status = 'cancelled' WHERE id = '10000000-0000-0000-0000-000000000002' $$,
+  'a job without escrow can be cancelled by changing its status'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,138 @@
+-- Deleting and reposting jobs
+-- A deleted job closes out its pending bids, disappears for everyone who wasn't
+-- involved in it (photos and job history included), and can't be reposted. Only
+-- delete_job and repost_job set deleted_at and reposted_from.
+-- Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(13);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('00000000-0000-0000-0000-00000000000a', 'poster@example.com', '{"role": "job_poster"}'),
+  ('00000000-0000-0000-0000-00000000000c', 'pro@example.com', '{"role": "professional"}'),
+  ('00000000-0000-0000-0000-00000000000e', 'other@example.com', '{"role": "professional"}');
+
+INSERT INTO public.jobs (id, title, description, category, location, homeowner_name, user_id, budget_type, budget_min, budget_max)
+VALUES ('10000000-0000-0000-0000-000000000001', 'Paint the fence', 'Two coats', 'painting', 'Springfield', 'Pat',
+        '00000000-0000-0000-0000-00000000000a', 'fixed', 50000, 50000);
+
+INSERT INTO public.bids (id, job_id, user_id, professional_id, amount)
+VALUES ('20000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001',
+        '00000000-0000-0000-0000-00000000000c', '00000000-0000-0000-0000-00000000000c', 45000);
+
+INSERT INTO public.job_photos (job_id, image_path)
+VALUES ('10000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001/fence.jpg');
+
+-- 1) The poster can't set deleted_at or reposted_from by hand
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000a", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ UPDATE public.jobs SET reposted_from = id WHERE id = '10000000-0000-0000-0000-000000000001' $$,
+  '42501', 'Jobs are deleted and reposted with delete_job and repost_job',
+  'reposted_from can''t be written directly'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.jobs (title, description, category, location, homeowner_name, user_id, budget_type, budget_min, budget_max, reposted_from)
+     VALUES ('Copy', 'Copy', 'painting', 'Springfield', 'Pat', '00000000-0000-0000-0000-00000000000a', 'fixed', 100, 100,
+             '10000000-0000-0000-0000-000000000001') $$,
+  '42501', 'Jobs are deleted and reposted with delete_job and repost_job',
+  'nor set on a new job'
+);
+
+-- 2) The poster deletes the open job
+
+SELECT lives_ok(
+  $$ SELECT public.delete_job('10000000-0000-0000-0000-000000000001') $$,
+  'the poster can delete an open job'
+);
+
+SELECT is(
+  (SELECT status::text FROM public.bids WHERE id = '20000000-0000-0000-0000-000000000001'),
+  'rejected',
+  'its pending bids are closed out'
+);
+
+SELECT throws_ok(
+  $$ SELECT public.repost_job('10000000-0000-0000-0000-000000000001') $$,
+  '23514', 'Deleted jobs can''t be reposted',
+  'a deleted job can''t be reposted'
+);
+
+SELECT isnt_empty(
+  $$ SELECT 1 FROM public.jobs WHERE id = '10000000-0000-0000-0000-000000000001' $$,
+  'the poster still sees the deleted job'
+);
+
+SELECT throws_ok(
+  $$ UPDATE public.jobs SET deleted_at = NULL WHERE id = '10000000-0000-0000-0000-000000000001' $$,
+  '42501', 'Jobs are deleted and reposted with delete_job and repost_job',
+  'a deleted job can''t be restored by clearing deleted_at'
+);
+
+-- 3) Who else can see it
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000c", "role": "authenticated"}', true);
+
+SELECT isnt_empty(
+  $$ SELECT 1 FROM public.jobs WHERE id = '10000000-0000-0000-0000-000000000001' $$,
+  'a professional who bid on it still sees it'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000e", "role": "authenticated"}', true);
+
+SELECT is_empty(
+  $$ SELECT 1 FROM public.jobs WHERE id = '10000000-0000-0000-0000-000000000001' $$,
+  'other users don''t'
+);
+
+SELECT is_empty(
+  $$ SELECT 1 FROM public.job_photos WHERE job_id = '10000000-0000-0000-0000-000000000001' $$,
+  'nor its photos'
+);
+
+RESET ROLE;
+SELECT set_config('request.jwt.claims', '', true);
+SET LOCAL ROLE anon;
+
+SELECT is_empty(
+  $$ SELECT 1 FROM public.jobs WHERE id = '10000000-0000-0000-0000-000000000001' $$,
+  'and neither do visitors'
+);
+
+-- 4) A completed job drops out of the professional's history once deleted
+RESET ROLE;
+INSERT INTO public.professionals (id, user_id, name, title, location)
+VALUES ('40000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-00000000000c', 'Sam', 'Painter', 'Springfield');
+INSERT INTO public.jobs (id, title, description, category, location, homeowner_name, user_id, budget_type, budget_min, budget_max)
+VALUES ('10000000-0000-0000-0000-000000000002', 'Fix the gate', 'Hinges', 'carpentry', 'Springfield', 'Pat',
+        '00000000-0000-0000-0000-00000000000a', 'fixed', 10000, 10000);
+INSERT INTO public.bids (id, job_id, user_id, professional_id, amount)
+VALUES ('20000000-0000-0000-0000-000000000002', '10000000-0000-0000-0000-000000000002',
+        '00000000-0000-0000-0000-00000000000c', '00000000-0000-0000-0000-00000000000c', 10000);
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000a", "role": "authenticated"}', true);
+SELECT public.accept_bid('20000000-0000-0000-0000-000000000002');
+UPDATE public.jobs SET status = 'completed' WHERE id = '10000000-0000-0000-0000-000000000002';
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000e", "role": "authenticated"}', true);
+
+SELECT isnt_empty(
+  $$ SELECT 1 FROM public.get_professional_job_history('40000000-0000-0000-0000-000000000001') $$,
+  'a completed job is in the professional''s history'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000a", "role": "authenticated"}', true);
+SELECT public.delete_job('10000000-0000-0000-0000-000000000002');
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000e", "role": "authenticated"}', true);
+
+SELECT is_empty(
+  $$ SELECT 1 FROM public.get_professional_job_history('40000000-0000-0000-0000-000000000001') $$,
+  'until the poster deletes it'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
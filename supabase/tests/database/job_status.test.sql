@@ -0,0 +1,54 @@
+-- Job status transitions
+-- A job only starts when one of its bids is accepted; the owner can't move it to
+-- in progress by hand.
+-- Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(5);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('00000000-0000-0000-0000-00000000000a', 'poster@example.com', '{"role": "job_poster"}'),
+  ('00000000-0000-0000-0000-00000000000c', 'pro@example.com', '{"role": "professional"}');
+
+INSERT INTO public.jobs (id, title, description, category, location, homeowner_name, user_id, budget_type, budget_min, budget_max)
+VALUES ('10000000-0000-0000-0000-000000000001', 'Paint the fence', 'Two coats', 'painting', 'Springfield', 'Pat',
+        '00000000-0000-0000-0000-00000000000a', 'fixed', 50000, 50000);
+
+INSERT INTO public.bids (id, job_id, user_id, professional_id, amount)
+VALUES ('20000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001',
+        '00000000-0000-0000-0000-00000000000c', '00000000-0000-0000-0000-00000000000c', 45000);
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000a", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ UPDATE public.jobs SET status = 'in_progress' WHERE id = '10000000-0000-0000-0000-000000000001' $$,
+  '23514', 'A job starts when one of its bids is accepted',
+  'the owner can''t start a job without accepting a bid'
+);
+
+SELECT lives_ok(
+  $$ SELECT public.accept_bid('20000000-0000-0000-0000-000000000001') $$,
+  'accepting a bid starts the job'
+);
+
+SELECT is(
+  (SELECT status::text FROM public.jobs WHERE id = '10000000-0000-0000-0000-000000000001'),
+  'in_progress',
+  'the job is in progress'
+);
+
+SELECT throws_ok(
+  $$ UPDATE public.jobs SET status = 'open' WHERE id = '10000000-0000-0000-0000-000000000001' $$,
+  '23514', 'Invalid job status transition from in_progress to open',
+  'a started job can''t be reopened'
+);
+
+SELECT lives_ok(
+  $$ UPDATE public.jobs SET status = 'completed' WHERE id = '10000000-0000-0000-0000-000000000001' $$,
+  'the owner completes the job'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
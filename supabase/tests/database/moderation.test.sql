@@ -0,0 +1,95 @@
+-- Removing a reported message
+-- An admin who removes a message takes its attachments out of the conversation.
+-- Resolving runs as the service role (the moderation edge function), which then
+-- deletes the files through the Storage API; the database leaves storage alone.
+-- Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(8);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('00000000-0000-0000-0000-00000000000a', 'poster@example.com', '{"role": "job_poster"}'),
+  ('00000000-0000-0000-0000-00000000000c', 'pro@example.com', '{"role": "professional"}'),
+  ('00000000-0000-0000-0000-00000000000d', 'admin@example.com', '{"role": "job_poster"}');
+
+UPDATE public.profiles SET role = 'admin' WHERE user_id = '00000000-0000-0000-0000-00000000000d';
+
+INSERT INTO public.jobs (id, title, description, category, location, homeowner_name, user_id, budget_type, budget_min, budget_max)
+VALUES ('10000000-0000-0000-0000-000000000001', 'Paint the fence', 'Two coats', 'painting', 'Springfield', 'Pat',
+        '00000000-0000-0000-0000-00000000000a', 'fixed', 50000, 50000);
+
+INSERT INTO public.conversations (id, job_id, job_poster_id, professional_id)
+VALUES ('30000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001',
+        '00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-00000000000c');
+
+INSERT INTO storage.objects (bucket_id, name, owner)
+VALUES ('message-attachments', '30000000-0000-0000-0000-000000000001/spam.pdf', '00000000-0000-0000-0000-00000000000c');
+
+-- 1) The professional sends a file, the job owner reports it
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000c", "role": "authenticated"}', true);
+
+SELECT public.send_message('30000000-0000-0000-0000-000000000001', 'Click here', '[
+  {"path": "30000000-0000-0000-0000-000000000001/spam.pdf", "file_name": "spam.pdf", "content_type": "application/pdf", "size_bytes": 1024}
+]');
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000a", "role": "authenticated"}', true);
+
+SELECT lives_ok(
+  $$ SELECT public.report_message((SELECT id FROM public.messages), 'spam') $$,
+  'the recipient can report the message'
+);
+
+-- 2) Only the edge function resolves cases, and only for an admin
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000d", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ SELECT public.resolve_moderation_case((SELECT id FROM public.moderation_cases), 'message_removed',
+                                           '00000000-0000-0000-0000-00000000000d') $$,
+  '42501', NULL,
+  'the database function can''t be called from the client'
+);
+
+RESET ROLE;
+SELECT set_config('request.jwt.claims', '', true);
+SET LOCAL ROLE service_role;
+
+SELECT throws_ok(
+  $$ SELECT public.resolve_moderation_case((SELECT id FROM public.moderation_cases), 'message_removed',
+                                           '00000000-0000-0000-0000-00000000000a') $$,
+  '42501', 'Only admins can handle reports',
+  'only admins can resolve a report'
+);
+
+SELECT lives_ok(
+  $$ SELECT public.resolve_moderation_case((SELECT id FROM public.moderation_cases), 'message_removed',
+                                           '00000000-0000-0000-0000-00000000000d') $$,
+  'the admin can remove the message'
+);
+
+RESET ROLE;
+
+SELECT isnt_empty(
+  $$ SELECT 1 FROM public.messages WHERE deleted_at IS NOT NULL AND content = '' $$,
+  'the message is replaced by a placeholder'
+);
+
+SELECT is(
+  (SELECT resolved_by FROM public.moderation_cases),
+  '00000000-0000-0000-0000-00000000000d'::uuid,
+  'the case records the admin who resolved it'
+);
+
+SELECT is_empty(
+  $$ SELECT 1 FROM public.message_attachments $$,
+  'its attachments are gone'
+);
+
+SELECT isnt_empty(
+  $$ SELECT 1 FROM storage.objects WHERE bucket_id = 'message-attachments' $$,
+  'their files are left for the Storage API to delete'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,113 @@
+-- Escrow payments with the fake provider
+-- Only the service role (the payments edge function) may write payment requests,
+-- on behalf of the job owner it verified; a settled charge is held in escrow and
+-- released to the professional net of the platform fee once the job is complete.
+-- Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(12);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('00000000-0000-0000-0000-00000000000a', 'poster@example.com', '{"role": "job_poster"}'),
+  ('00000000-0000-0000-0000-00000000000c', 'pro@example.com', '{"role": "professional"}');
+
+INSERT INTO public.jobs (id, title, description, category, location, homeowner_name, user_id, budget_type, budget_min, budget_max)
+VALUES ('10000000-0000-0000-0000-000000000001', 'Paint the fence', 'Two coats', 'painting', 'Springfield', 'Pat',
+        '00000000-0000-0000-0000-00000000000a', 'fixed', 50000, 50000);
+
+INSERT INTO public.bids (id, job_id, user_id, professional_id, amount)
+VALUES ('20000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001',
+        '00000000-0000-0000-0000-00000000000c', '00000000-0000-0000-0000-00000000000c', 45000);
+
+-- 1) Job owners can't write payment requests themselves
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000a", "role": "authenticated"}', true);
+
+SELECT public.accept_bid('20000000-0000-0000-0000-000000000001');
+
+SELECT throws_ok(
+  $$ SELECT public.request_job_funding('10000000-0000-0000-0000-000000000001', 'fake', '00000000-0000-0000-0000-00000000000a') $$,
+  '42501', NULL,
+  'signed-in users can''t request funding directly'
+);
+
+SELECT throws_ok(
+  $$ SELECT public.record_payment_result(gen_random_uuid(), 'succeeded') $$,
+  '42501', NULL,
+  'signed-in users can''t record payment outcomes'
+);
+
+-- 2) Funding, as the payments edge function
+RESET ROLE;
+SELECT set_config('request.jwt.claims', '', true);
+SET LOCAL ROLE service_role;
+
+SELECT throws_ok(
+  $$ SELECT public.request_job_funding('10000000-0000-0000-0000-000000000001', 'fake', '00000000-0000-0000-0000-00000000000c') $$,
+  '42501', 'Only the job owner can manage payments for this job',
+  'only the job owner can fund the job'
+);
+
+SELECT results_eq(
+  $$ SELECT entry_type, amount, status, provider
+     FROM public.request_job_funding('10000000-0000-0000-0000-000000000001', 'fake', '00000000-0000-0000-0000-00000000000a') $$,
+  $$ VALUES ('charge', 45000, 'pending', 'fake') $$,
+  'funding writes a pending charge for the accepted bid'
+);
+
+SELECT throws_ok(
+  $$ SELECT public.request_job_funding('10000000-0000-0000-0000-000000000001', 'fake', '00000000-0000-0000-0000-00000000000a') $$,
+  '23514', 'A payment for this job is already being processed',
+  'a job can''t be charged twice'
+);
+
+SELECT is(
+  (SELECT (public.record_payment_result(id, 'succeeded', 'fake_ch_1')).status
+   FROM public.payment_ledger WHERE entry_type = 'charge'),
+  'succeeded',
+  'the provider''s outcome settles the charge'
+);
+
+SELECT is(
+  (SELECT in_escrow FROM public.job_payment_balances WHERE job_id = '10000000-0000-0000-0000-000000000001'),
+  45000,
+  'a settled charge is held in escrow'
+);
+
+SELECT is(
+  (SELECT (public.record_payment_result(id, 'failed')).status FROM public.payment_ledger WHERE entry_type = 'charge'),
+  'succeeded',
+  'a repeated webhook delivery doesn''t change a settled entry'
+);
+
+-- 3) Release, once the work is done
+SELECT throws_ok(
+  $$ SELECT public.request_payment_release('10000000-0000-0000-0000-000000000001', 'fake', '00000000-0000-0000-0000-00000000000a') $$,
+  '23514', 'There is no approved work waiting for payment',
+  'nothing is released before the job is completed'
+);
+
+UPDATE public.jobs SET status = 'completed' WHERE id = '10000000-0000-0000-0000-000000000001';
+
+SELECT is(
+  (SELECT amount FROM public.request_payment_release('10000000-0000-0000-0000-000000000001', 'fake', '00000000-0000-0000-0000-00000000000a')),
+  45000 - (SELECT platform_fee FROM public.bids WHERE id = '20000000-0000-0000-0000-000000000001'),
+  'the professional is paid the escrow less the platform fee'
+);
+
+SELECT is(
+  (SELECT count(*) FROM public.payment_ledger WHERE entry_type = 'fee' AND status = 'pending'),
+  1::bigint,
+  'the fee is recorded alongside the release'
+);
+
+SELECT is(
+  (SELECT (public.record_payment_result(id, 'succeeded', 'fake_tr_1')).status
+   FROM public.payment_ledger WHERE entry_type = 'release'),
+  'succeeded',
+  'the release settles'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,63 @@
+-- Platform fee rules
+-- The same cases as src/lib/fees.test.ts, so the fee a bid form previews is the fee
+-- the database stores on the bid. Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(16);
+
+DELETE FROM public.fee_rules;
+
+INSERT INTO public.fee_rules (name, category, fee_type, percent, flat_amount, minimum_amount, is_promotional, starts_at, ends_at, created_at) VALUES
+  ('standard', NULL, 'percent', 10, NULL, 500, false, NULL, NULL, '2025-01-01T00:00:00Z'),
+  ('plumbing', 'Plumbing', 'percent', 8, NULL, 0, false, NULL, NULL, '2025-02-01T00:00:00Z'),
+  ('summer sale', NULL, 'percent', 5, NULL, 0, true, '2025-06-01T00:00:00Z', '2025-07-01T00:00:00Z', '2025-01-01T00:00:00Z'),
+  ('roofing flat', 'Roofing', 'flat', NULL, 2500, 0, false, NULL, NULL, '2025-01-01T00:00:00Z'),
+  ('gardening', 'Gardening', 'percent', 7.5, NULL, 0, false, NULL, NULL, '2025-01-01T00:00:00Z'),
+  ('old electrical', 'Electrical', 'percent', 12, NULL, 0, false, NULL, NULL, '2025-01-01T00:00:00Z'),
+  ('new electrical', 'Electrical', 'percent', 9, NULL, 0, false, NULL, NULL, '2025-03-01T00:00:00Z'),
+  ('retired', 'Painting', 'percent', 1, NULL, 0, false, NULL, NULL, '2025-04-01T00:00:00Z');
+
+UPDATE public.fee_rules SET active = false WHERE name = 'retired';
+
+-- 1) Which rule applies (platform_fee_rule)
+SELECT is((public.platform_fee_rule('painting', '2025-05-15T12:00:00Z')).name, 'standard',
+  'the catch-all applies when nothing more specific does, and inactive rules are skipped');
+SELECT is((public.platform_fee_rule('plumbing', '2025-05-15T12:00:00Z')).name, 'plumbing',
+  'the category rule beats the catch-all, ignoring case');
+SELECT is((public.platform_fee_rule('plumbing', '2025-06-15T12:00:00Z')).name, 'summer sale',
+  'a promotional rule beats the category rule');
+SELECT is((public.platform_fee_rule('electrical', '2025-05-15T12:00:00Z')).name, 'new electrical',
+  'the newest rule wins a tie');
+SELECT is((public.platform_fee_rule('painting', '2025-05-31T23:59:59Z')).name, 'standard',
+  'a promotion doesn''t apply before it starts');
+SELECT is((public.platform_fee_rule('painting', '2025-06-01T00:00:00Z')).name, 'summer sale',
+  'a promotion applies from its start');
+SELECT is((public.platform_fee_rule('painting', '2025-07-01T00:00:00Z')).name, 'standard',
+  'a promotion no longer applies at its end');
+
+-- 2) How much (platform_fee)
+SELECT is(public.platform_fee(45000, 'painting', '2025-05-15T12:00:00Z'), 4500,
+  'a percentage of the amount');
+SELECT is(public.platform_fee(12345, 'gardening', '2025-05-15T12:00:00Z'), 926,
+  'rounded to the cent');
+SELECT is(public.platform_fee(2000, 'painting', '2025-05-15T12:00:00Z'), 500,
+  'never less than the minimum');
+SELECT is(public.platform_fee(10000, 'roofing', '2025-05-15T12:00:00Z'), 2500,
+  'a flat fee');
+SELECT is(public.platform_fee(90000, 'roofing', '2025-05-15T12:00:00Z'), 2500,
+  'a flat fee whatever the amount');
+SELECT is(public.platform_fee(300, 'painting', '2025-05-15T12:00:00Z'), 300,
+  'never more than the amount, even with a minimum');
+SELECT is(public.platform_fee(1000, 'roofing', '2025-05-15T12:00:00Z'), 1000,
+  'never more than the amount, even with a flat fee');
+SELECT is(public.platform_fee(0, 'painting', '2025-05-15T12:00:00Z'), 0,
+  'nothing on a zero amount');
+
+DELETE FROM public.fee_rules;
+
+SELECT is(public.platform_fee(45000, 'painting', '2025-05-15T12:00:00Z'), 0,
+  'nothing without a rule');
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,167 @@
+-- Role-based row level security
+-- Only job posters create jobs, and only for themselves; only a job's owner can
+-- change it; only professionals bid, as themselves, on other people's jobs; a
+-- professional profile belongs to its user and the platform-managed columns are
+-- off limits; and nobody can change their own role after sign-up.
+-- Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(20);
+
+-- Sign-up creates each user's profile with the role they chose
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('00000000-0000-0000-0000-00000000000a', 'poster@example.com', '{"role": "job_poster", "full_name": "Pat Poster"}'),
+  ('00000000-0000-0000-0000-00000000000b', 'other@example.com', '{"role": "job_poster", "full_name": "Olive Other"}'),
+  ('00000000-0000-0000-0000-00000000000c', 'pro@example.com', '{"role": "professional", "full_name": "Quinn Pro"}');
+
+SET LOCAL ROLE authenticated;
+
+-- 1) Jobs, as the job poster
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000a", "role": "authenticated"}', true);
+
+SELECT lives_ok(
+  $$ INSERT INTO public.jobs (id, title, description, category, location, homeowner_name, user_id, budget_type, budget_min, budget_max)
+     VALUES ('10000000-0000-0000-0000-000000000001', 'Paint the fence', 'Two coats', 'painting', 'Springfield', 'Pat Poster',
+             '00000000-0000-0000-0000-00000000000a', 'fixed', 50000, 50000) $$,
+  'job posters can post jobs of their own'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.jobs (title, description, category, location, homeowner_name, user_id)
+     VALUES ('Fix the roof', 'Leaks', 'roofing', 'Springfield', 'Olive Other', '00000000-0000-0000-0000-00000000000b') $$,
+  '42501', NULL,
+  'job posters can''t post jobs for someone else'
+);
+
+SELECT isnt_empty(
+  $$ UPDATE public.jobs SET title = 'Paint the garden fence' WHERE id = '10000000-0000-0000-0000-000000000001' RETURNING id $$,
+  'the owner can edit their job'
+);
+
+-- 2) Jobs, as the professional and as another job poster
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000c", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.jobs (title, description, category, location, homeowner_name, user_id)
+     VALUES ('My own job', 'Anything', 'painting', 'Springfield', 'Quinn Pro', '00000000-0000-0000-0000-00000000000c') $$,
+  '42501', NULL,
+  'professionals can''t post jobs'
+);
+
+SELECT is_empty(
+  $$ UPDATE public.jobs SET status = 'cancelled' WHERE id = '10000000-0000-0000-0000-000000000001' RETURNING id $$,
+  'a professional can''t change someone else''s job'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000b", "role": "authenticated"}', true);
+
+SELECT is_empty(
+  $$ UPDATE public.jobs SET title = 'Mine now' WHERE id = '10000000-0000-0000-0000-000000000001' RETURNING id $$,
+  'another job poster can''t change someone else''s job'
+);
+
+SELECT is(
+  (SELECT status::text FROM public.jobs WHERE id = '10000000-0000-0000-0000-000000000001'),
+  'open',
+  'the job is untouched by other users'
+);
+
+-- 3) Bids
+SELECT throws_ok(
+  $$ INSERT INTO public.bids (job_id, user_id, professional_id, amount)
+     VALUES ('10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-00000000000b', '00000000-0000-0000-0000-00000000000b', 45000) $$,
+  '42501', NULL,
+  'job posters can''t bid'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000c", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.bids (job_id, user_id, professional_id, amount)
+     VALUES ('10000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-00000000000b', '00000000-0000-0000-0000-00000000000b', 45000) $$,
+  '42501', NULL,
+  'professionals can''t bid in someone else''s name'
+);
+
+SELECT lives_ok(
+  $$ INSERT INTO public.bids (id, job_id, user_id, professional_id, amount)
+     VALUES ('20000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001',
+             '00000000-0000-0000-0000-00000000000c', '00000000-0000-0000-0000-00000000000c', 45000) $$,
+  'professionals can bid on open jobs'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000a", "role": "authenticated"}', true);
+
+SELECT is(
+  (SELECT count(*) FROM public.bids WHERE job_id = '10000000-0000-0000-0000-000000000001'),
+  1::bigint,
+  'the job owner sees the bids on their job'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000b", "role": "authenticated"}', true);
+
+SELECT is(
+  (SELECT count(*) FROM public.bids WHERE job_id = '10000000-0000-0000-0000-000000000001'),
+  0::bigint,
+  'other users don''t see the bids on someone else''s job'
+);
+
+-- 4) Professional profiles
+SELECT throws_ok(
+  $$ INSERT INTO public.professionals (user_id, name, title, location)
+     VALUES ('00000000-0000-0000-0000-00000000000b', 'Olive Other', 'Handyman', 'Springfield') $$,
+  '42501', NULL,
+  'job posters can''t create a professional profile'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000c", "role": "authenticated"}', true);
+
+SELECT lives_ok(
+  $$ INSERT INTO public.professionals (user_id, name, title, location)
+     VALUES ('00000000-0000-0000-0000-00000000000c', 'Quinn Pro', 'Painter', 'Springfield') $$,
+  'professionals can create their own profile'
+);
+
+SELECT throws_ok(
+  $$ UPDATE public.professionals SET verified = true WHERE user_id = '00000000-0000-0000-0000-00000000000c' $$,
+  '42501', NULL,
+  'professionals can''t verify themselves'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000a", "role": "authenticated"}', true);
+
+SELECT is_empty(
+  $$ UPDATE public.professionals SET title = 'Clown' WHERE user_id = '00000000-0000-0000-0000-00000000000c' RETURNING id $$,
+  'users can''t edit someone else''s professional profile'
+);
+
+-- 5) Roles are fixed once signed up (prevent_profile_role_change)
+SELECT throws_ok(
+  $$ UPDATE public.profiles SET role = 'admin' WHERE user_id = '00000000-0000-0000-0000-00000000000a' $$,
+  '42501', 'Profile role cannot be changed',
+  'users can''t change their own role'
+);
+
+SELECT lives_ok(
+  $$ UPDATE public.profiles SET full_name = 'Pat P. Poster' WHERE user_id = '00000000-0000-0000-0000-00000000000a' $$,
+  'users can still edit the rest of their profile'
+);
+
+-- Without a signed-in user (the service role, or a migration) roles can be changed
+RESET ROLE;
+SELECT set_config('request.jwt.claims', '', true);
+
+SELECT lives_ok(
+  $$ UPDATE public.profiles SET role = 'admin' WHERE user_id = '00000000-0000-0000-0000-00000000000a' $$,
+  'the platform can change a user''s role'
+);
+
+SELECT is(
+  (SELECT role FROM public.profiles WHERE user_id = '00000000-0000-0000-0000-00000000000a'),
+  'admin',
+  'the new role is saved'
+);
+
+SELECT * FROM finish();
+ROLLBACK;